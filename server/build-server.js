@@ -0,0 +1,239 @@
+#!/usr/bin/env node
+// Local companion build server. The browser posts a project's files; the server writes them to a temporary
+// directory, runs `dotnet restore/build/test` (or `docker build`) there and streams the output back as
+// newline-delimited JSON events, with MSBuild diagnostics already parsed and mapped to project paths.
+//
+//   node server/build-server.js [--port 5199] [--fake] [--keep] [--token secret] [--origins a,b]
+//
+// Options may also be set as BUILD_SERVER_PORT, BUILD_SERVER_RUNNER=fake, BUILD_SERVER_TOKEN and
+// BUILD_SERVER_ORIGINS. The server only listens on 127.0.0.1. It builds untrusted, model-written code
+// (MSBuild targets can run arbitrary commands), so run it only on a machine you are willing to expose to that.
+// Every request must come from an allowed origin and carry the token; without `--token` a random one is
+// generated at startup and printed, to be entered in the Build tab.
+
+import { createServer } from 'node:http';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve, sep } from 'node:path';
+import { spawn } from 'node:child_process';
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+import { LineSplitter, parseOutputLine, toProjectPath } from './msbuild-output.js';
+import { RequestError, createCors, createRequestGuard, parseList, readJsonBody, readOptions, sendJson } from './http-utils.js';
+
+const { option, flag } = readOptions('BUILD_SERVER');
+const PORT = Number(option('port', '5199'));
+const TOKEN = option('token', '') || randomBytes(16).toString('hex');
+const FAKE = flag('fake') || option('runner', '') === 'fake';
+const KEEP = flag('keep');
+const ORIGINS = parseList(option('origins', 'http://localhost:3000,http://localhost:4200'));
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+const STEP_TIMEOUT_MS = 10 * 60 * 1000;
+const FAKE_RUNNER = join(dirname(fileURLToPath(import.meta.url)), 'fake-runner.js');
+const MODES = ['build', 'test', 'docker'];
+
+const corsHeaders = createCors(ORIGINS, ['Content-Type', 'X-Build-Token']);
+const guardRequest = createRequestGuard(ORIGINS);
+
+// --- Requests ---
+
+function checkToken(req) {
+  const given = Buffer.from(String(req.headers['x-build-token'] ?? ''));
+  const expected = Buffer.from(TOKEN);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new RequestError(401, 'Missing or wrong build token. Enter the token the build server printed when it started.');
+  }
+}
+
+/** Rejects paths that are absolute or would escape the work directory. */
+function validatePath(path) {
+  if (typeof path !== 'string' || !path || path.length > 400 || path.includes('\0') || /^([a-zA-Z]:|[\\/])/.test(path)) {
+    throw new RequestError(400, `Invalid file path: ${String(path).slice(0, 100)}`);
+  }
+  if (path.split(/[\\/]/).some(segment => segment === '..' || segment === '.' || segment === '')) {
+    throw new RequestError(400, `Invalid file path: ${path.slice(0, 100)}`);
+  }
+  return path.replace(/\\/g, '/');
+}
+
+// --- Builds ---
+
+function shallowest(paths) {
+  return [...paths].sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))[0];
+}
+
+/** Chooses the commands to run for the requested mode. */
+function planSteps(paths, mode, id) {
+  if (mode === 'docker') {
+    const dockerfile = shallowest(paths.filter(path => /(^|\/)Dockerfile$/.test(path)));
+    if (!dockerfile) throw new RequestError(400, 'The project has no Dockerfile.');
+    return [{ tool: 'docker', args: ['build', '--progress=plain', '-f', dockerfile, '-t', `dotnet-builder-${id}`, '.'] }];
+  }
+
+  const target = shallowest(paths.filter(path => path.endsWith('.sln') || path.endsWith('.slnx')))
+    ?? shallowest(paths.filter(path => path.endsWith('.csproj')));
+  if (!target) throw new RequestError(400, 'The project has no .sln or .csproj file to build.');
+
+  const steps = [
+    { tool: 'dotnet', args: ['restore', target] },
+    { tool: 'dotnet', args: ['build', target, '--no-restore', '-nologo', '-consoleLoggerParameters:NoSummary'] }
+  ];
+  if (mode === 'test') steps.push({ tool: 'dotnet', args: ['test', target, '--no-build', '--nologo'] });
+  return steps;
+}
+
+function runStep(step, workDir, signal, onLine) {
+  return new Promise(resolveStep => {
+    const [command, commandArgs] = FAKE ? [process.execPath, [FAKE_RUNNER, step.tool, ...step.args]] : [step.tool, step.args];
+    const child = spawn(command, commandArgs, {
+      cwd: workDir,
+      env: { ...process.env, DOTNET_CLI_TELEMETRY_OPTOUT: '1', DOTNET_NOLOGO: '1', DOTNET_SKIP_FIRST_TIME_EXPERIENCE: '1' },
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+
+    let killTimer;
+    const stop = () => {
+      child.kill('SIGTERM');
+      killTimer = setTimeout(() => child.kill('SIGKILL'), 5000);
+    };
+    const timeout = setTimeout(() => {
+      onLine('stderr', `Timed out after ${STEP_TIMEOUT_MS / 60000} minutes.`);
+      stop();
+    }, STEP_TIMEOUT_MS);
+    signal.addEventListener('abort', stop, { once: true });
+
+    for (const stream of ['stdout', 'stderr']) {
+      const splitter = new LineSplitter();
+      child[stream].setEncoding('utf8');
+      child[stream].on('data', chunk => splitter.push(chunk).forEach(line => onLine(stream, line)));
+      child[stream].on('end', () => splitter.flush().forEach(line => onLine(stream, line)));
+    }
+
+    child.on('error', error => {
+      clearTimeout(timeout);
+      onLine('stderr', error.code === 'ENOENT' ? `'${step.tool}' was not found on the PATH.` : error.message);
+      resolveStep(127);
+    });
+    child.on('close', code => {
+      clearTimeout(timeout);
+      clearTimeout(killTimer);
+      signal.removeEventListener('abort', stop);
+      resolveStep(code ?? 1);
+    });
+  });
+}
+
+async function handleBuild(req, res) {
+  const body = await readJsonBody(req, MAX_BODY_BYTES, `The project is larger than ${MAX_BODY_BYTES / 1024 / 1024} MB.`);
+  const mode = body.mode ?? 'build';
+  if (!MODES.includes(mode)) throw new RequestError(400, `Unknown build mode: ${mode}`);
+  if (!body.files || typeof body.files !== 'object') throw new RequestError(400, 'The request has no files.');
+
+  const files = {};
+  for (const [path, content] of Object.entries(body.files)) {
+    if (typeof content !== 'string') throw new RequestError(400, `File content must be text: ${path}`);
+    files[validatePath(path)] = content;
+  }
+  const paths = Object.keys(files);
+  const id = Date.now().toString(36);
+  const steps = planSteps(paths, mode, id);
+
+  const workDir = await mkdtemp(join(tmpdir(), 'dotnet-builder-'));
+  try {
+    for (const [path, content] of Object.entries(files)) {
+      const target = resolve(workDir, path);
+      if (!target.startsWith(workDir + sep)) throw new RequestError(400, `Invalid file path: ${path}`);
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, content);
+    }
+  } catch (error) {
+    await rm(workDir, { recursive: true, force: true });
+    throw error;
+  }
+
+  const abort = new AbortController();
+  // The browser cancels a build by dropping the connection.
+  res.on('close', () => { if (!res.writableFinished) abort.abort(); });
+  res.writeHead(200, { ...corsHeaders(req), 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+  const send = event => { if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`); };
+
+  const started = Date.now();
+  const seen = new Set();
+  let exitCode = 0;
+  console.log(`[${id}] ${mode} of ${paths.length} files in ${workDir}`);
+
+  try {
+    for (const step of steps) {
+      send({ type: 'step', command: `${step.tool} ${step.args.join(' ')}` });
+      exitCode = await runStep(step, workDir, abort.signal, (stream, line) => {
+        send({ type: 'log', stream, text: line });
+        const parsed = parseOutputLine(line);
+        if (!parsed) return;
+        const diagnostic = { severity: parsed.severity, code: parsed.code, message: parsed.message, path: toProjectPath(parsed.file, workDir, paths) };
+        if (parsed.line) diagnostic.line = parsed.line;
+        // MSBuild repeats diagnostics once per target framework and in its summary.
+        const key = JSON.stringify(diagnostic);
+        if (seen.has(key)) return;
+        seen.add(key);
+        send({ type: 'diagnostic', diagnostic });
+      });
+      if (exitCode !== 0 || abort.signal.aborted) break;
+    }
+    send({ type: 'done', success: exitCode === 0, exitCode, durationMs: Date.now() - started });
+    console.log(`[${id}] ${abort.signal.aborted ? 'cancelled' : `exit ${exitCode}`} after ${Date.now() - started} ms`);
+  } finally {
+    res.end();
+    if (!KEEP) await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// --- Tool detection ---
+
+let toolsPromise = null;
+
+function detectTools() {
+  if (FAKE) return Promise.resolve({ dotnet: 'fake', docker: 'fake' });
+  const version = (command, versionArgs) => new Promise(resolveVersion => {
+    const child = spawn(command, versionArgs, { stdio: ['ignore', 'pipe', 'ignore'] });
+    let output = '';
+    child.stdout.on('data', chunk => output += chunk);
+    child.on('error', () => resolveVersion(null));
+    child.on('close', code => resolveVersion(code === 0 ? output.trim().split('\n')[0] : null));
+  });
+  toolsPromise ??= Promise.all([version('dotnet', ['--version']), version('docker', ['--version'])])
+    .then(([dotnet, docker]) => ({ dotnet, docker }));
+  return toolsPromise;
+}
+
+// --- Server ---
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, corsHeaders(req));
+      res.end();
+    } else if (req.method === 'GET' && pathname === '/health') {
+      guardRequest(req);
+      checkToken(req);
+      sendJson(res, 200, { name: 'dotnet-builder-build-server', version: 1, runner: FAKE ? 'fake' : 'local', tools: await detectTools() }, corsHeaders(req));
+    } else if (req.method === 'POST' && pathname === '/build') {
+      guardRequest(req);
+      checkToken(req);
+      await handleBuild(req, res);
+    } else {
+      throw new RequestError(404, `Not found: ${req.method} ${pathname}`);
+    }
+  } catch (error) {
+    const status = error instanceof RequestError ? error.status : 500;
+    if (status === 500) console.error(error);
+    if (!res.headersSent) sendJson(res, status, { error: error.message }, corsHeaders(req));
+    else res.end(`${JSON.stringify({ type: 'error', message: error.message })}\n`);
+  }
+});
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`Build server listening on http://127.0.0.1:${PORT} (${FAKE ? 'fake runner' : 'dotnet/docker'})`);
+  console.log(`Allowed origins: ${ORIGINS.join(', ')}`);
+  console.log(`Build token: ${TOKEN}${option('token', '') ? '' : ' (generated for this run; enter it in the Build tab)'}`);
+});
@@ -0,0 +1,236 @@
+#!/usr/bin/env node
+// A stand-in for the `dotnet` and `docker` CLIs, used by `build-server.js --fake` so the build flow can be
+// exercised without the .NET SDK. It runs in the build's work directory and prints output in the same
+// shape as the real tools: restore/build/test summaries and MSBuild-style diagnostics for a few cheap
+// checks (unbalanced braces and parentheses, `#error`/`#warning` directives, missing project files).
+//
+//   node fake-runner.js dotnet restore|build|test [target] [...options]
+//   node fake-runner.js docker build [...options] .
+//
+// FAKE_RUNNER_DELAY_MS (default 40) paces the output so streaming is visible.
+
+import { readdir, readFile } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+
+const DELAY_MS = Number(process.env.FAKE_RUNNER_DELAY_MS ?? 40);
+const [tool, command, ...rest] = process.argv.slice(2);
+const cwd = process.cwd();
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+async function print(line, prefix = '') {
+  process.stdout.write(`${prefix}${line}\n`);
+  if (DELAY_MS > 0) await sleep(DELAY_MS);
+}
+
+async function listFiles(dir) {
+  const result = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!['bin', 'obj', 'node_modules', '.git'].includes(entry.name)) result.push(...await listFiles(path));
+    } else {
+      result.push(relative(cwd, path).split(sep).join('/'));
+    }
+  }
+  return result.sort();
+}
+
+/** Finds unbalanced delimiters and diagnostic directives, ignoring strings and comments. */
+function checkSource(text) {
+  const problems = [];
+  const stack = [];
+  const lines = text.split(/\r?\n/);
+  let inBlockComment = false;
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const directive = /^\s*#(error|warning)\b\s*(.*)$/.exec(line);
+    if (directive && !inBlockComment) {
+      const isError = directive[1] === 'error';
+      problems.push({ line: lineNumber, column: line.indexOf('#') + 1, severity: directive[1], code: isError ? 'CS1029' : 'CS1030', message: `#${directive[1]}: '${directive[2].trim()}'` });
+      return;
+    }
+
+    for (let i = 0; i < line.length; i++) {
+      const c = line[i];
+      if (inBlockComment) {
+        if (c === '*' && line[i + 1] === '/') { inBlockComment = false; i++; }
+        continue;
+      }
+      if (c === '/' && line[i + 1] === '/') break;
+      if (c === '/' && line[i + 1] === '*') { inBlockComment = true; i++; continue; }
+      if (c === '"' || c === '\'') {
+        const verbatim = line[i - 1] === '@';
+        for (i++; i < line.length && line[i] !== c; i++) {
+          if (line[i] === '\\' && !verbatim) i++;
+        }
+        continue;
+      }
+      if (c === '{' || c === '(') stack.push({ c, line: lineNumber, column: i + 1 });
+      if (c === '}' || c === ')') {
+        const open = stack.pop();
+        const expected = c === '}' ? '{' : '(';
+        if (!open || open.c !== expected) {
+          problems.push({ line: lineNumber, column: i + 1, severity: 'error', code: 'CS1022', message: `Unexpected '${c}'` });
+          if (open) stack.push(open);
+        }
+      }
+    }
+  });
+
+  for (const open of stack) {
+    problems.push({
+      line: lines.length,
+      column: 1,
+      severity: 'error',
+      code: open.c === '{' ? 'CS1513' : 'CS1026',
+      message: `${open.c === '{' ? '}' : ')'} expected (opened at line ${open.line})`
+    });
+  }
+  return problems;
+}
+
+async function compile(files, { pathPrefix, linePrefix = '' }) {
+  const projects = files.filter(path => path.endsWith('.csproj'));
+  let errors = 0;
+  let warnings = 0;
+
+  if (projects.length === 0) {
+    await print('MSBUILD : error MSB1003: Specify a project or solution file. The current working directory does not contain a project or solution file.', linePrefix);
+    return { errors: 1, warnings: 0 };
+  }
+
+  for (const project of projects) {
+    const dir = project.includes('/') ? project.slice(0, project.lastIndexOf('/') + 1) : '';
+    const sources = files.filter(path => path.endsWith('.cs') && path.startsWith(dir));
+    const errorsBefore = errors;
+    for (const source of sources) {
+      for (const problem of checkSource(await readFile(join(cwd, source), 'utf8'))) {
+        if (problem.severity === 'error') errors++;
+        else warnings++;
+        await print(`${pathPrefix}${source}(${problem.line},${problem.column}): ${problem.severity} ${problem.code}: ${problem.message} [${pathPrefix}${project}]`, linePrefix);
+      }
+    }
+    if (errors === errorsBefore) {
+      const name = project.slice(project.lastIndexOf('/') + 1, -'.csproj'.length);
+      await print(`  ${name} -> ${pathPrefix}${dir}bin/Debug/net8.0/${name}.dll`, linePrefix);
+    }
+  }
+  return { errors, warnings };
+}
+
+async function summarize({ errors, warnings }, started, linePrefix = '') {
+  await print('', linePrefix);
+  await print(errors > 0 ? 'Build FAILED.' : 'Build succeeded.', linePrefix);
+  await print(`    ${warnings} Warning(s)`, linePrefix);
+  await print(`    ${errors} Error(s)`, linePrefix);
+  await print('', linePrefix);
+  await print(`Time Elapsed 00:00:0${Math.min(9, Math.round((Date.now() - started) / 1000))}.00`, linePrefix);
+}
+
+async function runTests(files) {
+  const testProjects = [];
+  for (const path of files.filter(p => p.endsWith('.csproj'))) {
+    if (/Microsoft\.NET\.Test\.Sdk|<IsTestProject>\s*true/i.test(await readFile(join(cwd, path), 'utf8'))) testProjects.push(path);
+  }
+  if (testProjects.length === 0) {
+    await print('No test projects were found.');
+    return 0;
+  }
+
+  let failed = 0;
+  let passed = 0;
+  for (const project of testProjects) {
+    const dir = project.includes('/') ? project.slice(0, project.lastIndexOf('/') + 1) : '';
+    await print(`Test run for ${cwd}/${dir}bin/Debug/net8.0/${project.slice(dir.length, -'.csproj'.length)}.dll (.NETCoreApp,Version=v8.0)`);
+    await print('Starting test execution, please wait...');
+    for (const source of files.filter(path => path.endsWith('.cs') && path.startsWith(dir))) {
+      const text = await readFile(join(cwd, source), 'utf8');
+      const className = /\bclass\s+(\w+)/.exec(text)?.[1] ?? 'Tests';
+      const namespace = /\bnamespace\s+([\w.]+)/.exec(text)?.[1];
+      const tests = [...text.matchAll(/\[(?:Fact|Theory|Test|TestMethod)[^\]]*\][\s\S]*?\b(?:void|Task)\s+(\w+)\s*\([^)]*\)\s*(?:=>|\{)([\s\S]*?)(?=\n\s*\[(?:Fact|Theory|Test|TestMethod)|$)/g)];
+      for (const [, name, body] of tests) {
+        if (/Assert\.(Fail|True\(\s*false|False\(\s*true)|throw new/.test(body)) {
+          failed++;
+          await print(`  Failed ${namespace ? `${namespace}.` : ''}${className}.${name} [3 ms]`);
+          await print('  Error Message:');
+          await print('   Assert failure');
+        } else {
+          passed++;
+        }
+      }
+    }
+  }
+  const total = failed + passed;
+  await print('');
+  await print(`${failed > 0 ? 'Failed!' : 'Passed!'}  - Failed: ${String(failed).padStart(5)}, Passed: ${String(passed).padStart(5)}, Skipped:     0, Total: ${String(total).padStart(5)}`);
+  return failed > 0 ? 1 : 0;
+}
+
+async function dotnet() {
+  const files = await listFiles(cwd);
+  const started = Date.now();
+  switch (command) {
+    case 'restore': {
+      await print('  Determining projects to restore...');
+      for (const project of files.filter(path => path.endsWith('.csproj'))) {
+        await print(`  Restored ${join(cwd, project)} (in ${20 + project.length} ms).`);
+      }
+      return 0;
+    }
+    case 'build': {
+      const result = await compile(files, { pathPrefix: `${cwd}/` });
+      await summarize(result, started);
+      return result.errors > 0 ? 1 : 0;
+    }
+    case 'test':
+      return runTests(files);
+    default:
+      process.stderr.write(`fake-runner: unsupported dotnet command '${command}'\n`);
+      return 1;
+  }
+}
+
+async function docker() {
+  if (command !== 'build') {
+    process.stderr.write(`fake-runner: unsupported docker command '${command}'\n`);
+    return 1;
+  }
+  const fileIndex = rest.indexOf('-f');
+  const dockerfile = fileIndex >= 0 ? rest[fileIndex + 1] : 'Dockerfile';
+  const files = await listFiles(cwd);
+  const steps = (await readFile(join(cwd, dockerfile), 'utf8'))
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => /^(FROM|RUN|COPY|WORKDIR)\b/i.test(line));
+
+  await print('#0 building with "default" instance using docker driver');
+  await print(`#1 [internal] load build definition from ${dockerfile}`);
+  await print('#1 DONE 0.0s');
+  let step = 2;
+  for (const instruction of steps) {
+    await print(`#${step} [${step - 1}/${steps.length}] ${instruction}`);
+    if (/^RUN\b.*dotnet\s+(publish|build)/i.test(instruction)) {
+      const prefix = `#${step} 1.234 `;
+      const result = await compile(files, { pathPrefix: '/src/', linePrefix: prefix });
+      await summarize(result, Date.now(), prefix);
+      if (result.errors > 0) {
+        await print(`#${step} ERROR: process "/bin/sh -c ${instruction.slice(4)}" did not complete successfully: exit code: 1`);
+        return 1;
+      }
+    }
+    await print(`#${step} DONE 0.${step}s`);
+    step++;
+  }
+  await print(`#${step} exporting to image`);
+  await print(`#${step} DONE 0.1s`);
+  return 0;
+}
+
+const handlers = { dotnet, docker };
+if (!handlers[tool]) {
+  process.stderr.write(`fake-runner: unknown tool '${tool}'\n`);
+  process.exit(2);
+}
+process.exitCode = await handlers[tool]();
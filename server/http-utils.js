@@ -0,0 +1,95 @@
+// Small helpers shared by the companion servers: command-line options, CORS, JSON bodies and errors.
+
+/** An error that maps to an HTTP status and a message safe to show to the client. */
+export class RequestError extends Error {
+  constructor(status, message, headers = {}) {
+    super(message);
+    this.name = 'RequestError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+/**
+ * Reads `--name value` options and `--flag` switches, falling back to `<PREFIX>_NAME` environment
+ * variables (dashes become underscores) and then to the default.
+ */
+export function readOptions(prefix, argv = process.argv.slice(2)) {
+  const envName = name => `${prefix}_${name.toUpperCase().replace(/-/g, '_')}`;
+  return {
+    option(name, fallback) {
+      const index = argv.indexOf(`--${name}`);
+      return index >= 0 && argv[index + 1] ? argv[index + 1] : process.env[envName(name)] || fallback;
+    },
+    flag(name) {
+      return argv.includes(`--${name}`) || /^(1|true|yes)$/i.test(process.env[envName(name)] ?? '');
+    }
+  };
+}
+
+export function parseList(value) {
+  return String(value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function isAllowedOrigin(origins, origin) {
+  return origins.includes('*') || origins.includes(origin);
+}
+
+/** Returns a function computing CORS headers that admit only the configured browser origins. */
+export function createCors(origins, allowHeaders) {
+  return req => {
+    const origin = req.headers.origin;
+    const headers = {
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': allowHeaders.join(', '),
+      'Access-Control-Expose-Headers': 'Retry-After',
+      'Vary': 'Origin'
+    };
+    if (origin && isAllowedOrigin(origins, origin)) headers['Access-Control-Allow-Origin'] = origin;
+    // Lets pages served from a public origin reach a local server in browsers that enforce Private Network Access.
+    if (req.headers['access-control-request-private-network'] === 'true') headers['Access-Control-Allow-Private-Network'] = 'true';
+    return headers;
+  };
+}
+
+/**
+ * Returns a check that rejects requests other web pages could send. CORS headers only stop a page
+ * from reading the response, not the request itself, so the Origin must be on the allowlist, and
+ * POST bodies must be declared as JSON, which browsers never send cross-origin without a preflight.
+ * With `requireOrigin` off, clients that send no Origin at all (curl, scripts) are let through.
+ */
+export function createRequestGuard(origins, { requireOrigin = true } = {}) {
+  return req => {
+    const origin = req.headers.origin;
+    if (origin ? !isAllowedOrigin(origins, origin) : requireOrigin) {
+      throw new RequestError(403, origin
+        ? `Requests from ${origin} are not allowed. Add the origin with --origins.`
+        : 'Requests without an Origin header are not allowed.');
+    }
+    if (req.method === 'POST' && !/^application\/json\s*(;|$)/i.test(req.headers['content-type'] ?? '')) {
+      throw new RequestError(415, 'The request body must be sent as application/json.');
+    }
+  };
+}
+
+export function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { ...headers, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export async function readJsonBody(req, maxBytes, tooLargeMessage) {
+  const declared = Number(req.headers['content-length'] ?? 0);
+  if (declared > maxBytes) throw new RequestError(413, tooLargeMessage);
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new RequestError(413, tooLargeMessage);
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new RequestError(400, 'The request body is not valid JSON.');
+  }
+}
@@ -0,0 +1,336 @@
+#!/usr/bin/env node
+// Server-side proxy for model calls. It holds the provider API key, so the browser only ever sees a per-user
+// access token. It forwards generate and modify calls to the provider, enforces per-user rate limits and
+// request size limits, and appends one JSON line per request to an audit log.
+//
+//   node server/model-proxy.js [--port 8787] [--host 127.0.0.1] [--stub] [--users alice:token,bob:token]
+//                              [--origins a,b] [--models m1,m2] [--rate-limit 20] [--rate-window 60]
+//                              [--max-prompt-kb 512] [--audit-log model-proxy-audit.log]
+//
+// Options may also be set as MODEL_PROXY_<NAME> environment variables (e.g. MODEL_PROXY_USERS). The upstream is
+// Gemini by default, using GEMINI_API_KEY (or API_KEY). Set MODEL_PROXY_UPSTREAM=openai-compatible with
+// OPENAI_BASE_URL and OPENAI_API_KEY to forward to a Chat Completions server instead. Without `--users` anyone who
+// can reach the proxy can spend the key, so it only listens on 127.0.0.1 unless `--host` says otherwise.
+
+import { createServer } from 'node:http';
+import { appendFile } from 'node:fs/promises';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { RequestError, createCors, createRequestGuard, parseList, readJsonBody, readOptions, sendJson } from './http-utils.js';
+import { stubResponse } from './stub-responses.js';
+
+const { option, flag } = readOptions('MODEL_PROXY');
+const PORT = Number(option('port', '8787'));
+const HOST = option('host', '127.0.0.1');
+const STUB = flag('stub') || option('upstream', '') === 'stub';
+const UPSTREAM = STUB ? 'stub' : option('upstream', 'gemini');
+const ORIGINS = parseList(option('origins', 'http://localhost:3000,http://localhost:4200'));
+const MODELS = parseList(option('models', ''));
+const RATE_LIMIT = Number(option('rate-limit', '20'));
+const RATE_WINDOW_MS = Number(option('rate-window', '60')) * 1000;
+const MAX_PROMPT_BYTES = Number(option('max-prompt-kb', '512')) * 1024;
+// Room for the schema and the other fields on top of the prompt.
+const MAX_BODY_BYTES = MAX_PROMPT_BYTES + 256 * 1024;
+const AUDIT_LOG = option('audit-log', 'model-proxy-audit.log');
+const PURPOSES = ['plan', 'generate', 'modify', 'review'];
+const DEFAULT_MODELS = { 'gemini': 'gemini-2.5-flash', 'openai-compatible': 'gpt-4o-mini', 'stub': 'stub' };
+const STUB_CHUNK_SIZE = 200;
+const STUB_CHUNK_DELAY_MS = 15;
+
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.API_KEY || '';
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+const OPENAI_BASE_URL = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || '';
+
+/** Access tokens by user name, from `name:token` pairs. */
+const USERS = new Map(parseList(option('users', '')).map(pair => {
+  const separator = pair.indexOf(':');
+  if (separator <= 0 || separator === pair.length - 1) {
+    console.error(`Ignoring malformed user entry (expected name:token): ${pair.split(':')[0]}`);
+    return null;
+  }
+  return [pair.slice(0, separator), pair.slice(separator + 1)];
+}).filter(Boolean));
+
+const corsHeaders = createCors(ORIGINS, ['Content-Type', 'Authorization']);
+// Without users there is no credential, so only the allowed browser origins may call the proxy; with users,
+// scripts that send no Origin can still authenticate with their token.
+const guardRequest = createRequestGuard(ORIGINS, { requireOrigin: USERS.size === 0 });
+
+/** Raised when the provider rejects or fails a call; the status is the provider's. */
+class UpstreamError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.status = status;
+  }
+}
+
+// --- Users and limits ---
+
+function sameSecret(a, b) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/** Resolves the caller from the bearer token, or from the client address when no users are configured. */
+function authenticate(req) {
+  const ip = req.socket.remoteAddress ?? 'unknown';
+  if (USERS.size === 0) return { user: `ip:${ip}`, ip };
+  const token = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '')?.[1]?.trim() ?? '';
+  for (const [user, secret] of USERS) {
+    if (token && sameSecret(token, secret)) return { user, ip };
+  }
+  throw new RequestError(401, 'Missing or unknown access token.');
+}
+
+/** Request timestamps per user inside the current sliding window. */
+const recentRequests = new Map();
+
+function checkRateLimit(user) {
+  const now = Date.now();
+  const timestamps = (recentRequests.get(user) ?? []).filter(time => now - time < RATE_WINDOW_MS);
+  if (timestamps.length >= RATE_LIMIT) {
+    const retryAfter = Math.max(1, Math.ceil((timestamps[0] + RATE_WINDOW_MS - now) / 1000));
+    recentRequests.set(user, timestamps);
+    throw new RequestError(429, `Rate limit reached: ${RATE_LIMIT} requests per ${RATE_WINDOW_MS / 1000} seconds. Try again in ${retryAfter} s.`, { 'Retry-After': String(retryAfter) });
+  }
+  timestamps.push(now);
+  recentRequests.set(user, timestamps);
+}
+
+// Keeps the map from growing with users who have gone quiet.
+setInterval(() => {
+  const now = Date.now();
+  for (const [user, timestamps] of recentRequests) {
+    if (timestamps.every(time => now - time >= RATE_WINDOW_MS)) recentRequests.delete(user);
+  }
+}, RATE_WINDOW_MS).unref();
+
+function validateRequest(body) {
+  if (!PURPOSES.includes(body.purpose)) throw new RequestError(400, `Unknown purpose: ${String(body.purpose).slice(0, 40)}`);
+  if (typeof body.prompt !== 'string' || !body.prompt) throw new RequestError(400, 'The request has no prompt.');
+  if (Buffer.byteLength(body.prompt) > MAX_PROMPT_BYTES) {
+    throw new RequestError(413, `The prompt is larger than the proxy allows (${MAX_PROMPT_BYTES / 1024} KB).`);
+  }
+  if (!body.schema || typeof body.schema !== 'object') throw new RequestError(400, 'The request has no response schema.');
+  if (body.model !== undefined && typeof body.model !== 'string') throw new RequestError(400, 'The model must be a string.');
+  if (body.model && MODELS.length > 0 && !MODELS.includes(body.model)) {
+    throw new RequestError(403, `The model '${body.model.slice(0, 80)}' is not allowed by this proxy. Allowed: ${MODELS.join(', ')}.`);
+  }
+  const temperature = Number(body.temperature ?? 0.4);
+  return {
+    purpose: body.purpose,
+    prompt: body.prompt,
+    schema: body.schema,
+    model: body.model || MODELS[0] || DEFAULT_MODELS[UPSTREAM],
+    temperature: Number.isFinite(temperature) ? Math.min(2, Math.max(0, temperature)) : 0.4,
+    stream: body.stream === true
+  };
+}
+
+// --- Upstreams ---
+
+/** Calls `onEvent` with each `data:` payload of a server-sent event stream. */
+async function readServerSentEvents(response, onEvent) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.startsWith('data:')) onEvent(line.slice(5).trim());
+    }
+  }
+  if (buffer.startsWith('data:')) onEvent(buffer.slice(5).trim());
+}
+
+async function upstreamFailure(response, provider) {
+  const detail = await response.text().catch(() => '');
+  let message = detail.slice(0, 500);
+  try {
+    message = JSON.parse(detail)?.error?.message ?? message;
+  } catch {
+    // Not JSON; keep the text.
+  }
+  return new UpstreamError(response.status, `${provider} responded with ${response.status}${message ? `: ${message}` : ''}`);
+}
+
+async function callGemini(request, signal, onText, onUsage) {
+  if (!GEMINI_API_KEY) throw new UpstreamError(500, 'The proxy has no GEMINI_API_KEY configured.');
+  const response = await fetch(`${GEMINI_BASE_URL}/models/${encodeURIComponent(request.model)}:streamGenerateContent?alt=sse`, {
+    method: 'POST',
+    signal,
+    headers: { 'Content-Type': 'application/json', 'x-goog-api-key': GEMINI_API_KEY },
+    body: JSON.stringify({
+      contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+      generationConfig: { temperature: request.temperature, responseMimeType: 'application/json', responseJsonSchema: request.schema }
+    })
+  });
+  if (!response.ok) throw await upstreamFailure(response, 'Gemini');
+
+  await readServerSentEvents(response, data => {
+    const event = JSON.parse(data);
+    const text = (event?.candidates?.[0]?.content?.parts ?? []).map(part => part.text ?? '').join('');
+    if (text) onText(text);
+    const usage = event?.usageMetadata;
+    if (usage?.promptTokenCount) onUsage({ promptTokens: usage.promptTokenCount, outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0) });
+  });
+}
+
+async function callOpenAiCompatible(request, signal, onText, onUsage) {
+  const headers = { 'Content-Type': 'application/json' };
+  if (OPENAI_API_KEY) headers['Authorization'] = `Bearer ${OPENAI_API_KEY}`;
+  const response = await fetch(`${OPENAI_BASE_URL}/chat/completions`, {
+    method: 'POST',
+    signal,
+    headers,
+    body: JSON.stringify({
+      model: request.model,
+      temperature: request.temperature,
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: [
+        { role: 'system', content: 'You are an expert .NET developer. Always answer with a single JSON object that matches the requested schema, without markdown fences.' },
+        { role: 'user', content: request.prompt }
+      ],
+      response_format: { type: 'json_schema', json_schema: { name: `${request.purpose}_response`, schema: request.schema } }
+    })
+  });
+  if (!response.ok) throw await upstreamFailure(response, 'The model server');
+
+  await readServerSentEvents(response, data => {
+    if (data === '[DONE]') return;
+    const event = JSON.parse(data);
+    const delta = event?.choices?.[0]?.delta?.content;
+    if (delta) onText(delta);
+    if (typeof event?.usage?.prompt_tokens === 'number') onUsage({ promptTokens: event.usage.prompt_tokens, outputTokens: event.usage.completion_tokens ?? 0 });
+  });
+}
+
+async function callStub(request, signal, onText) {
+  const text = JSON.stringify(stubResponse(request.purpose), null, 2);
+  for (let i = 0; i < text.length; i += STUB_CHUNK_SIZE) {
+    if (signal.aborted) return;
+    await new Promise(resolveDelay => setTimeout(resolveDelay, STUB_CHUNK_DELAY_MS));
+    onText(text.slice(i, i + STUB_CHUNK_SIZE));
+  }
+}
+
+const UPSTREAMS = { 'gemini': callGemini, 'openai-compatible': callOpenAiCompatible, 'stub': callStub };
+
+// --- Audit log ---
+
+/** Appends one line per request. Prompts are recorded by size and hash only, never by content. */
+function audit(entry) {
+  appendFile(AUDIT_LOG, `${JSON.stringify({ time: new Date().toISOString(), ...entry })}\n`)
+    .catch(error => console.error(`Could not write the audit log: ${error.message}`));
+}
+
+// --- Requests ---
+
+async function handleGenerate(req, res, entry) {
+  guardRequest(req);
+  const caller = authenticate(req);
+  Object.assign(entry, caller);
+  checkRateLimit(caller.user);
+
+  const body = await readJsonBody(req, MAX_BODY_BYTES, `The request is larger than the proxy allows (${Math.round(MAX_BODY_BYTES / 1024)} KB).`);
+  const request = validateRequest(body);
+  Object.assign(entry, {
+    purpose: request.purpose,
+    model: request.model,
+    stream: request.stream,
+    promptBytes: Buffer.byteLength(request.prompt),
+    promptSha256: createHash('sha256').update(request.prompt).digest('hex')
+  });
+
+  const abort = new AbortController();
+  // Stop paying for tokens nobody will read.
+  res.on('close', () => { if (!res.writableFinished) abort.abort(); });
+
+  const send = event => { if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`); };
+  let text = '';
+  let usage = null;
+  const onText = chunk => {
+    text += chunk;
+    if (request.stream) send({ type: 'text', text: chunk });
+  };
+
+  if (request.stream) res.writeHead(200, { ...corsHeaders(req), 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+  try {
+    await UPSTREAMS[UPSTREAM](request, abort.signal, onText, reported => usage = reported);
+    if (abort.signal.aborted) throw new Error('The client disconnected.');
+  } catch (error) {
+    if (abort.signal.aborted) {
+      entry.status = 499;
+      return;
+    }
+    const status = error instanceof UpstreamError ? error.status : 502;
+    entry.status = status;
+    entry.error = error.message;
+    // The provider's 401 is about the proxy's key, not the caller's token.
+    const clientStatus = status === 429 ? 429 : 502;
+    if (!request.stream) return sendJson(res, clientStatus, { error: error.message }, corsHeaders(req));
+    send({ type: 'error', status: clientStatus, message: error.message });
+    return res.end();
+  } finally {
+    entry.responseChars = text.length;
+    if (usage) Object.assign(entry, usage);
+  }
+
+  entry.status = 200;
+  if (!request.stream) return sendJson(res, 200, usage ? { text, usage } : { text }, corsHeaders(req));
+  if (usage) send({ type: 'usage', ...usage });
+  send({ type: 'done' });
+  res.end();
+}
+
+// --- Server ---
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  const started = Date.now();
+  const entry = { id: randomUUID(), user: null, ip: req.socket.remoteAddress ?? 'unknown' };
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, corsHeaders(req));
+      res.end();
+    } else if (req.method === 'GET' && pathname === '/health') {
+      sendJson(res, 200, {
+        name: 'dotnet-builder-model-proxy',
+        version: 1,
+        upstream: UPSTREAM,
+        authentication: USERS.size > 0 ? 'token' : 'none',
+        models: MODELS,
+        limits: { requests: RATE_LIMIT, windowSeconds: RATE_WINDOW_MS / 1000, maxPromptBytes: MAX_PROMPT_BYTES }
+      }, corsHeaders(req));
+    } else if (req.method === 'POST' && pathname === '/v1/generate') {
+      await handleGenerate(req, res, entry);
+    } else {
+      throw new RequestError(404, `Not found: ${req.method} ${pathname}`);
+    }
+  } catch (error) {
+    const status = error instanceof RequestError ? error.status : 500;
+    if (status === 500) console.error(error);
+    entry.status = status;
+    entry.error = error.message;
+    if (!res.headersSent) sendJson(res, status, { error: error.message }, { ...corsHeaders(req), ...(error.headers ?? {}) });
+    else res.end(`${JSON.stringify({ type: 'error', status, message: error.message })}\n`);
+  } finally {
+    if (pathname === '/v1/generate' && req.method === 'POST') audit({ ...entry, durationMs: Date.now() - started });
+  }
+});
+
+if (!UPSTREAMS[UPSTREAM]) {
+  console.error(`Unknown upstream '${UPSTREAM}'. Use gemini, openai-compatible or stub.`);
+  process.exit(1);
+}
+
+server.listen(PORT, HOST, () => {
+  console.log(`Model proxy listening on http://${HOST}:${PORT} (upstream: ${UPSTREAM})`);
+  console.log(`Allowed origins: ${ORIGINS.join(', ')}`);
+  if (USERS.size === 0) console.warn('No --users configured: every client that can reach the proxy can use the API key. Requests are rate limited per IP address.');
+  if (UPSTREAM === 'gemini' && !GEMINI_API_KEY) console.warn('GEMINI_API_KEY is not set; requests will fail until it is.');
+});
@@ -0,0 +1,70 @@
+// Parsing of `dotnet`/MSBuild console output into the diagnostics the Build panel shows.
+
+// Matches "path(line,col): error CS1002: ; expected [/abs/App.csproj]" as well as diagnostics without a
+// location ("MSBUILD : error MSB1003: ...") and the "#12 3.456 " prefix docker adds to each build line.
+const DIAGNOSTIC_PATTERN =
+  /^(?:#\d+\s+\d+(?:\.\d+)?\s+)?\s*(?:(.+?)(?:\((\d+)(?:,(\d+))?(?:,\d+,\d+)?\))?\s*:\s*)?(error|warning)\s+([A-Za-z]+\d+)\s*:\s*(.*?)(?:\s+\[([^\]]+)\])?\s*$/;
+
+const TEST_FAILURE_PATTERN = /^(?:#\d+\s+\d+(?:\.\d+)?\s+)?\s*Failed\s+([\w.+`<>,]+(?:\([^)]*\))?)\s+\[[^\]]*\]\s*$/;
+
+/** Splits a stream of text chunks into complete lines. */
+export class LineSplitter {
+  #pending = '';
+
+  push(chunk) {
+    const lines = (this.#pending + chunk).split(/\r?\n/);
+    this.#pending = lines.pop() ?? '';
+    return lines;
+  }
+
+  flush() {
+    const rest = this.#pending;
+    this.#pending = '';
+    return rest ? [rest] : [];
+  }
+}
+
+/**
+ * Parses one line of build output. Returns `{ severity, code, message, file, line }` for compiler and
+ * MSBuild diagnostics and failed tests, or null for ordinary log lines. `file` is the path as printed.
+ */
+export function parseOutputLine(text) {
+  const match = DIAGNOSTIC_PATTERN.exec(text);
+  if (match) {
+    const [, file, line, , severity, code, message] = match;
+    const location = file?.trim() ?? '';
+    return {
+      severity,
+      code: code.toUpperCase(),
+      message: message.trim(),
+      // "MSBUILD", "CSC" and "EXEC" name the tool, not a file.
+      file: /^(MSBUILD|CSC|EXEC|NUGET)$/i.test(location) ? '' : location,
+      line: line ? Number(line) : undefined
+    };
+  }
+
+  const failure = TEST_FAILURE_PATTERN.exec(text);
+  if (failure) {
+    return { severity: 'error', code: 'TEST', message: `Test failed: ${failure[1]}`, file: '', line: undefined };
+  }
+  return null;
+}
+
+/**
+ * Maps a path printed by the build to one of the project's relative paths. Absolute paths inside the
+ * work directory are made relative; other paths (e.g. "/src/..." inside a container) are matched by
+ * their longest suffix against the files that were sent. Returns '' when nothing matches.
+ */
+export function toProjectPath(file, workDir, projectPaths) {
+  if (!file) return '';
+  const normalized = file.replace(/\\/g, '/');
+  const root = workDir.replace(/\\/g, '/').replace(/\/?$/, '/');
+  if (normalized.startsWith(root)) return normalized.slice(root.length);
+  if (projectPaths.includes(normalized)) return normalized;
+
+  let best = '';
+  for (const path of projectPaths) {
+    if ((normalized === path || normalized.endsWith(`/${path}`)) && path.length > best.length) best = path;
+  }
+  return best;
+}
@@ -0,0 +1,83 @@
+// Canned model answers for `model-proxy.js --stub`, shaped like the app's plan/generate/modify/review schemas.
+
+const PROJECT = {
+  files: [
+    {
+      path: 'StubApi.csproj',
+      content: `<Project Sdk="Microsoft.NET.Sdk.Web">
+
+  <PropertyGroup>
+    <TargetFramework>net8.0</TargetFramework>
+    <Nullable>enable</Nullable>
+    <ImplicitUsings>enable</ImplicitUsings>
+  </PropertyGroup>
+
+</Project>
+`
+    },
+    {
+      path: 'Program.cs',
+      content: `using StubApi.Models;
+
+var builder = WebApplication.CreateBuilder(args);
+var app = builder.Build();
+
+var notes = new List<Note> { new(1, "Served through the model proxy stub") };
+
+app.MapGet("/api/notes", () => notes);
+app.MapPost("/api/notes", (Note note) =>
+{
+    notes.Add(note);
+    return Results.Created($"/api/notes/{note.Id}", note);
+});
+
+app.Run();
+`
+    },
+    {
+      path: 'Models/Note.cs',
+      content: `namespace StubApi.Models;
+
+public record Note(int Id, string Text);
+`
+    }
+  ],
+  dependencies: [],
+  explanation: 'Canned response from the model proxy stub: a minimal notes API using minimal APIs.',
+  build_commands: ['dotnet restore', 'dotnet build', 'dotnet run']
+};
+
+const PLAN = {
+  summary: 'A minimal notes API with minimal API endpoints and an in-memory list.',
+  layout: [
+    { path: 'StubApi.csproj', purpose: 'Web SDK project targeting net8.0.', owner: 'coder' },
+    { path: 'Program.cs', purpose: 'Minimal API endpoints for notes.', owner: 'coder' },
+    { path: 'Models/Note.cs', purpose: 'StubApi.Models.Note record.', owner: 'database' }
+  ],
+  entities: [{ name: 'Note', fields: ['int Id', 'string Text'] }],
+  endpoints: [
+    { method: 'GET', route: '/api/notes', description: 'List notes.' },
+    { method: 'POST', route: '/api/notes', description: 'Add a note.' }
+  ],
+  pages: [],
+  dependencies: []
+};
+
+export function stubResponse(purpose) {
+  switch (purpose) {
+    case 'plan': return PLAN;
+    case 'generate': return PROJECT;
+    case 'review': return { changes: [], explanation: 'Canned response from the model proxy stub: no inconsistencies found.' };
+    default: {
+      const timestamp = new Date();
+      return {
+        changes: [{
+          operation: 'create',
+          path: `Notes/ProxyStub-${timestamp.getTime()}.md`,
+          content: `# Stub change\n\nThis file was created by the model proxy stub at ${timestamp.toISOString()}.\n`
+        }],
+        explanation: 'Canned response from the model proxy stub: added a note file.'
+      };
+    }
+  }
+}
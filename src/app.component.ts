@@ -2,52 +2,174 @@
 import { Component, ChangeDetectionStrategy, signal, computed, effect, inject, model } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
-import { Framework, Feature, GeneratedProject, Agent } from './models/project.model';
-import { GeminiService } from './services/gemini.service';
-import { ProjectHistoryService } from './services/project-history.service';
-import { FileTreeComponent } from './components/file-tree.component';
+import { LlmSettings } from './models/settings.model';
+import { Framework, GeneratedProject, TargetSettings, Agent, AgentId, FileChange, PinnedContext, ProjectRevision, ProjectSummary, RevisionInfo } from './models/project.model';
+import { CodeGenerationService, GenerationCancelledError } from './services/code-generation.service';
+import { AgentPipelineService, PartialGenerationError } from './services/agent-pipeline.service';
+import { LlmSettingsService, PROVIDER_OPTIONS } from './services/llm-settings.service';
+import { ProjectHistoryService, StorageStatus } from './services/project-history.service';
+import { ProjectExportService } from './services/project-export.service';
+import { ImportedHistory, ProjectImportService } from './services/project-import.service';
+import { ChangeSetError, ChangeSetService } from './services/change-set.service';
+import { DiffService, FileDiff } from './services/diff.service';
+import { ProjectValidationService } from './services/project-validation.service';
+import { Diagnostic } from './models/diagnostic.model';
+import { ChatMessage, ProjectChat } from './models/chat.model';
+import { ChatHistoryService } from './services/chat-history.service';
+import { DEFAULT_TARGET, FeatureCatalogService, LANG_VERSIONS, TARGET_FRAMEWORKS } from './services/feature-catalog.service';
+import { MODEL_ERROR_HINTS, ModelError, ModelErrorKind } from './services/model-errors';
+import { FileTreeComponent, FileTreeOperation } from './components/file-tree.component';
 import { CodeAreaComponent } from './components/code-area.component';
+import { DiffViewerComponent } from './components/diff-viewer.component';
+import { SettingsPanelComponent } from './components/settings-panel.component';
+import { ProblemsPanelComponent } from './components/problems-panel.component';
+import { CatalogPanelComponent } from './components/catalog-panel.component';
+import { DependenciesPanelComponent, DependencyOperation } from './components/dependencies-panel.component';
+import { SchemaImportService, SchemaParseError } from './services/schema-import.service';
+import { SchemaModel } from './models/schema.model';
+import { BuildPanelComponent } from './components/build-panel.component';
+import { UsagePanelComponent } from './components/usage-panel.component';
+import { ProjectLibraryComponent } from './components/project-library.component';
+import { PreviewPanelComponent } from './components/preview-panel.component';
+import { BuildServerService } from './services/build-server.service';
+import { UsageService } from './services/usage.service';
 
 type AppState = 'landing' | 'configuring' | 'generating' | 'completed' | 'my_projects' | 'error';
-type WorkspaceTab = 'assistant' | 'preview' | 'info';
+type WorkspaceTab = 'assistant' | 'problems' | 'dependencies' | 'build' | 'preview' | 'usage' | 'history' | 'info';
+
+interface PendingReview {
+  prompt: string;
+  baseProject: GeneratedProject;
+  proposedProject: GeneratedProject;
+  changes: FileChange[];
+  diffs: FileDiff[];
+  decisions: { [path: string]: boolean };
+}
 
 @Component({
   selector: 'app-root',
-  imports: [CommonModule, FormsModule, FileTreeComponent, CodeAreaComponent],
+  imports: [CommonModule, FormsModule, FileTreeComponent, CodeAreaComponent, DiffViewerComponent, SettingsPanelComponent, ProblemsPanelComponent, CatalogPanelComponent, DependenciesPanelComponent, BuildPanelComponent, PreviewPanelComponent, UsagePanelComponent, ProjectLibraryComponent],
   templateUrl: './app.component.html',
   styleUrls: ['./app.component.css'],
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class AppComponent {
-  private geminiService = inject(GeminiService);
-  private sanitizer = inject(DomSanitizer);
+  private codeGenerationService = inject(CodeGenerationService);
+  private agentPipelineService = inject(AgentPipelineService);
+  private llmSettingsService = inject(LlmSettingsService);
   private projectHistoryService = inject(ProjectHistoryService);
+  private projectExportService = inject(ProjectExportService);
+  private projectImportService = inject(ProjectImportService);
+  private changeSetService = inject(ChangeSetService);
+  private chatHistoryService = inject(ChatHistoryService);
+  private featureCatalogService = inject(FeatureCatalogService);
+  private diffService = inject(DiffService);
+  private projectValidationService = inject(ProjectValidationService);
+  private schemaImportService = inject(SchemaImportService);
+  private buildServerService = inject(BuildServerService);
+  readonly usageService = inject(UsageService);
 
   // App State
   appState = signal<AppState>('landing');
   isDarkMode = signal<boolean>(false);
   errorMessage = signal<string>('');
+  errorKind = signal<ModelErrorKind | null>(null);
+  errorHint = computed(() => {
+    const kind = this.errorKind();
+    return kind ? MODEL_ERROR_HINTS[kind] : '';
+  });
+  storageStatus = signal<StorageStatus | null>(null);
+  storageError = signal<string>('');
+  isSettingsOpen = signal<boolean>(false);
+  readonly llmSettings = this.llmSettingsService.settings;
 
   // Configuration State
   prompt = model<string>('');
   selectedFramework = signal<Framework | null>(null);
   selectedFeatures = signal<string[]>([]);
+  targetSettings = signal<TargetSettings>(DEFAULT_TARGET);
+  selectedTemplateId = signal<string | null>(null);
+  selectedTemplate = computed(() => this.templates().find(t => t.id === this.selectedTemplateId()) ?? null);
+  isCatalogOpen = signal<boolean>(false);
+  sourceSchema = signal<SchemaModel | null>(null);
+  schemaText = signal<string>('');
+  schemaError = signal<string>('');
+  isPastingSchema = signal<boolean>(false);
 
   // Workspace State
-  projectHistory = signal<GeneratedProject[]>([]);
+  projectHistory = signal<ProjectSummary[]>([]);
   activeProject = signal<GeneratedProject | null>(null);
   activeAgents = signal<string[]>([]);
   agentLogs = signal<{ agent: Agent, message: string }[]>([]);
   selectedFile = signal<string | null>(null);
+  revealTarget = signal<{ line: number } | null>(null);
+  hasUnsavedEdits = signal<boolean>(false);
+  fileTreeError = signal<string>('');
+  dependencyError = signal<string>('');
   activeWorkspaceTab = signal<WorkspaceTab>('assistant');
+
+  // Generation Progress State
+  streamedFiles = signal<{ [path: string]: string }>({});
+  latestStreamedFile = signal<string | null>(null);
+  generationProgress = signal<{ filesReceived: number; bytesReceived: number; startedAt: number } | null>(null);
+  generationClock = signal<number>(Date.now());
+  cancelledProject = signal<GeneratedProject | null>(null);
+  isCancellingGeneration = signal<boolean>(false);
+  private generationAbort: AbortController | null = null;
+
+  elapsedSeconds = computed(() => {
+    const progress = this.generationProgress();
+    return progress ? Math.max(0, Math.floor((this.generationClock() - progress.startedAt) / 1000)) : 0;
+  });
+  streamedFilePaths = computed(() => Object.keys(this.streamedFiles()));
   
   // Code Assistant State
   assistantPrompt = model<string>('');
-  chatHistory = signal<{ role: 'user' | 'assistant', content: string }[]>([]);
+  projectChat = signal<ProjectChat | null>(null);
+  chatHistory = computed<ChatMessage[]>(() => {
+    const chat = this.projectChat();
+    return chat?.threads.find(t => t.id === chat.activeThreadId)?.messages ?? [];
+  });
   isModifying = signal<boolean>(false);
+  pendingReview = signal<PendingReview | null>(null);
+
+  // Assistant Context State
+  pinnedContext = signal<PinnedContext[]>([]);
+  mention = signal<{ start: number; query: string } | null>(null);
+  mentionIndex = signal<number>(0);
+  mentionSuggestions = computed(() => {
+    const mention = this.mention();
+    if (!mention) return [];
+    const query = mention.query.toLowerCase();
+    return Object.keys(this.activeProject()?.files ?? {})
+      .filter(path => path.toLowerCase().includes(query))
+      .sort((a, b) => a.length - b.length || a.localeCompare(b))
+      .slice(0, 8);
+  });
+
+  // Version History State
+  revisions = signal<ProjectRevision[]>([]);
+  revisionComparison = signal<{ title: string; diffs: FileDiff[] } | null>(null);
+  compareFromRevision = signal<number | null>(null);
+  compareToRevision = signal<number | null>(null);
+  isExporting = signal<boolean>(false);
+
+  // Import State
+  isImporting = signal<boolean>(false);
+  importError = signal<string>('');
 
   // Computed Values
+  diagnostics = computed<Diagnostic[]>(() => {
+    const project = this.activeProject();
+    return project ? this.projectValidationService.validateProject(project) : [];
+  });
+  diagnosticErrorCount = computed(() => this.diagnostics().filter(d => d.severity === 'error').length);
+  buildStatus = computed(() => {
+    const run = this.buildServerService.run();
+    return run && run.projectId === this.activeProject()?.id ? run.status : null;
+  });
+
+  overallUsage = computed(() => this.usageService.totals(this.usageService.records()));
   selectedFileContent = computed(() => {
     const project = this.activeProject();
     const file = this.selectedFile();
@@ -57,26 +179,6 @@ export class AppComponent {
     return null;
   });
 
-  previewableFiles = computed(() => {
-    const project = this.activeProject();
-    if (!project) return [];
-    return Object.keys(project.files).filter(path => path.endsWith('.html') || path.endsWith('.cshtml'));
-  });
-
-  selectedPreviewFile = signal<string | null>(null);
-
-  safePreviewContent = computed<SafeHtml>(() => {
-    const project = this.activeProject();
-    const selectedFile = this.selectedPreviewFile();
-    if (project && selectedFile && project.files[selectedFile]) {
-      const content = project.files[selectedFile]
-        .replace(/href="~\//g, 'href="')
-        .replace(/src="~\//g, 'src="');
-      return this.sanitizer.bypassSecurityTrustHtml(content);
-    }
-    return this.sanitizer.bypassSecurityTrustHtml('<div class="font-sans text-slate-400 flex items-center justify-center h-full">Select a file to preview</div>');
-  });
-
   constructor() {
     effect(() => {
       document.documentElement.classList.toggle('dark', this.isDarkMode());
@@ -87,39 +189,48 @@ export class AppComponent {
   }
 
   // Data definitions
-  readonly AVAILABLE_FRAMEWORKS: Framework[] = [
-    { value: "ASP.NET Core MVC", label: "ASP.NET Core MVC", description: "Traditional MVC web application" },
-    { value: "ASP.NET Core Web API", label: "ASP.NET Core Web API", description: "RESTful API backend" },
-    { value: "Razor Pages", label: "Razor Pages", description: "Page-focused framework" },
-    { value: "Blazor Server", label: "Blazor Server", description: "Server-side Blazor app" },
-    { value: "Blazor WebAssembly", label: "Blazor WebAssembly", description: "Client-side Blazor app" },
-  ];
-
-  readonly AVAILABLE_FEATURES: { [key: string]: Feature[] } = {
-    "Security": [{ id: "identity", label: "ASP.NET Core Identity", category: "security" }, { id: "jwt", label: "JWT Token Authentication", category: "security" }],
-    "Data": [{ id: "ef_core", label: "Entity Framework Core", category: "data" }, { id: "dapper", label: "Dapper ORM", category: "data" }],
-    "API": [{ id: "swagger", label: "Swagger/OpenAPI", category: "api" }, { id: "signalr", label: "SignalR Real-time", category: "api" }],
-    "UI": [{ id: "bootstrap", label: "Bootstrap 5", category: "ui" }, { id: "tailwind", label: "Tailwind CSS", category: "ui" }, { id: "clear_frontend", label: "Clear Frontend Design", category: "ui" }],
-    "DevOps": [{ id: "docker", label: "Docker Configuration", category: "devops" }],
-    "Infrastructure": [{ id: "logging", label: "Serilog Logging", category: "infrastructure" }, { id: "tests", label: "Unit & Integration Tests", category: "infrastructure" }],
-  };
-  
-  readonly featureCategories = computed(() => Object.keys(this.AVAILABLE_FEATURES));
+  readonly frameworks = this.featureCatalogService.frameworks;
+  readonly featuresByCategory = this.featureCatalogService.featuresByCategory;
+  readonly featureCategories = computed(() => Object.keys(this.featuresByCategory()));
+  readonly templates = this.featureCatalogService.templates;
+  readonly TARGET_FRAMEWORKS = TARGET_FRAMEWORKS;
+  readonly LANG_VERSIONS = LANG_VERSIONS;
   readonly AI_AGENTS: Agent[] = [
     { id: 'team_leader', name: 'Team Leader', role: 'Project Manager', gradient: 'from-yellow-500 to-orange-500' },
     { id: 'coder', name: 'AI Coder', role: 'Backend Developer', gradient: 'from-blue-500 to-cyan-500' },
     { id: 'frontend', name: 'UI Architect', role: 'UI/UX Developer', gradient: 'from-pink-500 to-rose-500' },
     { id: 'database', name: 'Database Admin', role: 'Data Architect', gradient: 'from-green-500 to-emerald-500' }
   ];
-  isGenerationDisabled = computed(() => this.prompt().trim().length < 10 || !this.selectedFramework());
+  isGenerationDisabled = computed(() => (this.prompt().trim().length < 10 && !this.sourceSchema()) || !this.selectedFramework());
 
   // --- App Flow and State Management ---
   loadTheme(): void {
     this.isDarkMode.set(localStorage.getItem('theme') === 'dark');
   }
 
-  loadProjects(): void {
-    this.projectHistory.set(this.projectHistoryService.getProjects());
+  async loadProjects(): Promise<void> {
+    try {
+      this.projectHistory.set(await this.projectHistoryService.getProjects());
+      this.storageStatus.set(await this.projectHistoryService.getStorageStatus());
+    } catch (error) {
+      console.error('Error loading projects', error);
+      this.storageError.set('Your saved projects could not be loaded from browser storage.');
+    }
+  }
+
+  /** Saves the project and surfaces storage failures in the UI instead of losing them silently. */
+  private async persistProject(project: GeneratedProject, revision?: RevisionInfo): Promise<boolean> {
+    try {
+      await this.projectHistoryService.saveProject(project, revision);
+      this.storageError.set('');
+      return true;
+    } catch (error: any) {
+      console.error('Error saving project', error);
+      this.storageError.set(error.message || 'The project could not be saved to browser storage.');
+      return false;
+    } finally {
+      await this.loadProjects();
+    }
   }
 
   setAppState(state: AppState): void {
@@ -138,40 +249,175 @@ export class AppComponent {
     this.prompt.set('');
     this.selectedFramework.set(null);
     this.selectedFeatures.set([]);
+    this.selectedTemplateId.set(null);
+    this.targetSettings.set(DEFAULT_TARGET);
+    this.clearSchema();
     this.activeProject.set(null);
     this.agentLogs.set([]);
     this.activeAgents.set([]);
-    this.chatHistory.set([]);
+    this.projectChat.set(null);
+    this.pendingReview.set(null);
+    this.revisions.set([]);
+    this.revisionComparison.set(null);
   }
   
-  loadProject(projectId: string): void {
-    const project = this.projectHistoryService.getProject(projectId);
+  async loadProject(projectId: string): Promise<void> {
+    const project = await this.projectHistoryService.getProject(projectId);
     if (project) {
+      await this.projectHistoryService.ensureHistory(project).catch(error => console.error('Error recording baseline revision', error));
       this.activeProject.set(project);
+      this.pendingReview.set(null);
       this.appState.set('completed');
       this.initializeWorkspace(false);
     }
   }
   
-  deleteProject(projectId: string): void {
-    this.projectHistoryService.deleteProject(projectId);
-    this.loadProjects();
+  async deleteProject(projectId: string): Promise<void> {
+    await this.projectHistoryService.deleteProject(projectId);
+    await this.loadProjects();
     if(this.activeProject()?.id === projectId) {
       this.activeProject.set(null);
       this.setAppState('landing');
     }
   }
 
+  /** Keeps the open project in step with details edited in My Projects, so a later save does not undo them. */
+  handleProjectDetailsChanged(updated: GeneratedProject): void {
+    const project = this.activeProject();
+    if (project?.id !== updated.id) return;
+    const details = { name: updated.name, description: updated.description, tags: updated.tags };
+    this.activeProject.set({ ...project, ...details });
+    // An open review is applied on top of its base project, which would otherwise restore the old details.
+    this.pendingReview.update(review => review && { ...review, baseProject: { ...review.baseProject, ...details } });
+  }
+
+  /** Reloads the open project when a restored backup replaced it, so a later save does not overwrite the restored version. */
+  async handleProjectsReplaced(ids: string[]): Promise<void> {
+    const project = this.activeProject();
+    if (!project || !ids.includes(project.id)) return;
+    const restored = await this.projectHistoryService.getProject(project.id);
+    this.pendingReview.set(null);
+    if (!restored) {
+      this.resetConfiguration();
+      return;
+    }
+    this.activeProject.set(restored);
+    this.initializeWorkspace(false);
+  }
+
+  async handleImportZip(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    await this.importProject(() => this.projectImportService.importFromZip(file, this.frameworks));
+  }
+
+  async handleImportFolder(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files || []);
+    input.value = '';
+    if (files.length === 0) return;
+    await this.importProject(() => this.projectImportService.importFromFolder(files, this.frameworks));
+  }
+
+  async handleImportGit(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    await this.importProject(() => this.projectImportService.importFromGit(file, this.frameworks));
+  }
+
+  private async importProject(importer: () => Promise<GeneratedProject | ImportedHistory>): Promise<void> {
+    if (this.isImporting()) return;
+    this.isImporting.set(true);
+    this.importError.set('');
+    try {
+      const imported = await importer();
+      const project = 'revisions' in imported ? imported.project : imported;
+      if ('revisions' in imported) {
+        await this.projectHistoryService.saveWithHistory(project, imported.revisions);
+        await this.loadProjects();
+      } else {
+        await this.persistProject(project, { kind: 'import', prompt: project.prompt });
+      }
+      this.activeProject.set(project);
+      this.pendingReview.set(null);
+      this.appState.set('completed');
+      this.initializeWorkspace(false);
+    } catch (error: any) {
+      console.error('Error importing project', error);
+      this.importError.set(error.message || 'Failed to import project.');
+    } finally {
+      this.isImporting.set(false);
+    }
+  }
+
   // --- UI Interaction ---
   toggleDarkMode(): void { this.isDarkMode.update(v => !v); }
+  saveLlmSettings(settings: LlmSettings): void {
+    this.llmSettingsService.update(settings);
+    this.isSettingsOpen.set(false);
+  }
   selectFramework(framework: Framework): void { this.selectedFramework.set(framework); }
+
+  updateTargetSettings(changes: Partial<TargetSettings>): void {
+    this.targetSettings.update(target => ({ ...target, ...changes }));
+  }
+
+  /** Starting from a template picks its framework and features; both can still be changed afterwards. */
+  selectTemplate(templateId: string | null): void {
+    this.selectedTemplateId.set(templateId);
+    const template = this.selectedTemplate();
+    if (!template) return;
+    this.selectedFramework.set(this.frameworks.find(f => f.value === template.framework) ?? this.selectedFramework());
+    const knownFeatures = new Set(this.featureCatalogService.features().map(f => f.id));
+    this.selectedFeatures.set(template.featureIds.filter(id => knownFeatures.has(id)));
+  }
+
+  async handleSchemaFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    this.loadSchema(await file.text(), file.name);
+  }
+
+  /** Parses an OpenAPI document or SQL script locally; generation then has to match it exactly. */
+  loadSchema(text: string, fileName = ''): void {
+    try {
+      this.sourceSchema.set(this.schemaImportService.parse(text, fileName));
+      this.schemaError.set('');
+      this.schemaText.set('');
+      this.isPastingSchema.set(false);
+    } catch (error) {
+      this.schemaError.set(error instanceof SchemaParseError ? error.message : 'The specification could not be read.');
+    }
+  }
+
+  clearSchema(): void {
+    this.sourceSchema.set(null);
+    this.schemaText.set('');
+    this.schemaError.set('');
+    this.isPastingSchema.set(false);
+  }
+
+  describeSchema(schema: SchemaModel): string {
+    return this.schemaImportService.summarize(schema);
+  }
+
   toggleFeature(featureId: string): void {
     this.selectedFeatures.update(current => 
       current.includes(featureId) ? current.filter(id => id !== featureId) : [...current, featureId]
     );
   }
   isFeatureSelected(featureId: string): boolean { return this.selectedFeatures().includes(featureId); }
-  selectFile(filePath: string): void { this.selectedFile.set(filePath); }
+  selectFile(filePath: string | null, line?: number): void {
+    if (this.hasUnsavedEdits() && filePath !== this.selectedFile() && !confirm(`Discard unsaved changes to ${this.selectedFile()}?`)) return;
+    this.selectedFile.set(filePath);
+    this.revealTarget.set(line ? { line } : null);
+  }
 
   // --- Project Generation ---
   async handleGenerateProject(): Promise<void> {
@@ -179,109 +425,605 @@ export class AppComponent {
 
     this.appState.set('generating');
     this.agentLogs.set([]);
-    this.runAgentSimulation();
+    this.streamedFiles.set({});
+    this.latestStreamedFile.set(null);
+    this.cancelledProject.set(null);
+    this.isCancellingGeneration.set(false);
+    this.generationProgress.set({ filesReceived: 0, bytesReceived: 0, startedAt: Date.now() });
+    this.generationAbort = new AbortController();
+    const clock = setInterval(() => this.generationClock.set(Date.now()), 500);
+
+    const teamLeader = this.getAgentById('team_leader');
+    const settings = this.llmSettings();
+    const providerLabel = PROVIDER_OPTIONS.find(p => p.id === settings.provider)?.label ?? settings.provider;
+    this.activeAgents.set([teamLeader.id]);
+    this.addAgentLog(teamLeader, `Assembling the team with ${providerLabel} (${settings.model})...`);
 
     try {
       const framework = this.selectedFramework();
       if (!framework) throw new Error("Framework not selected");
       
-      const allFeatures = Object.values(this.AVAILABLE_FEATURES).flat();
-      const features = allFeatures.filter(f => this.selectedFeatures().includes(f.id));
-      
-      const projectData = {
-        prompt: this.prompt(),
-        framework,
-      };
+      const features = this.featureCatalogService.features().filter(f => this.selectedFeatures().includes(f.id));
+      const template = this.selectedTemplate();
 
-      const project = await this.geminiService.generateProject(projectData.prompt, projectData.framework, features);
+      let currentAgent = teamLeader;
+      const schema = this.sourceSchema();
+      const prompt = this.prompt().trim() || schema?.title || '';
+      const project = await this.agentPipelineService.generateProject({ prompt, framework, features, template, target: this.targetSettings(), schema }, {
+        signal: this.generationAbort.signal,
+        onAgentStart: (agentId, task) => {
+          currentAgent = this.getAgentById(agentId);
+          this.activeAgents.set([agentId]);
+          this.addAgentLog(currentAgent, `${task}...`);
+        },
+        onAgentLog: (agentId, message) => this.addAgentLog(this.getAgentById(agentId), message),
+        onProgress: progress => this.generationProgress.update(p => p && { ...p, ...progress }),
+        onFile: (path, content) => {
+          this.streamedFiles.update(files => ({ ...files, [path]: content }));
+          this.latestStreamedFile.set(path);
+          this.addAgentLog(currentAgent, `Wrote ${path} (${this.formatBytes(content.length)})`);
+        },
+      });
       
+      const progress = this.generationProgress();
+      this.addAgentLog(teamLeader, `Received ${Object.keys(project.files).length} files (${this.formatBytes(progress?.bytesReceived ?? 0)}) in ${this.elapsedSeconds()}s.`);
+
       this.activeProject.set(project);
-      this.projectHistoryService.saveProject(project);
-      this.loadProjects();
+      await this.persistProject(project, { kind: 'generation', prompt: project.prompt });
+
+      const errors = this.diagnosticErrorCount();
+      const warnings = this.diagnostics().length - errors;
+      this.addAgentLog(teamLeader, errors + warnings > 0
+        ? `Static analysis found ${errors} error(s) and ${warnings} warning(s); see the Problems tab.`
+        : 'Static analysis found no problems.');
 
       this.appState.set('completed');
-      this.addAgentLog(this.getAgentById('team_leader'), "Project generation complete! Review the files below.");
+      this.addAgentLog(teamLeader, "Project generation complete! Review the files below.");
       
       this.initializeWorkspace(true);
 
     } catch (error: any) {
+      if (error instanceof GenerationCancelledError) {
+        const partial = error.partialProject;
+        this.addAgentLog(teamLeader, partial
+          ? `Generation cancelled after ${Object.keys(partial.files).length} file(s).`
+          : 'Generation cancelled before any files were received.');
+        if (partial) {
+          this.cancelledProject.set({ ...partial, explanation: 'Partial project: generation was cancelled before the model finished.' });
+        } else {
+          this.appState.set('configuring');
+        }
+        return;
+      }
+      if (error instanceof PartialGenerationError) {
+        const partial = error.partialProject;
+        const hint = error.error instanceof ModelError ? ` ${MODEL_ERROR_HINTS[error.error.kind]}` : '';
+        this.addAgentLog(teamLeader, `Generation failed after ${Object.keys(partial.files).length} file(s): ${error.message}${hint}`);
+        this.cancelledProject.set({ ...partial, explanation: `Partial project: generation failed before the team finished (${error.message}).` });
+        return;
+      }
       this.errorMessage.set(error.message || 'An unknown error occurred.');
+      this.errorKind.set(error instanceof ModelError ? error.kind : null);
       this.appState.set('error');
     } finally {
+        clearInterval(clock);
+        this.generationAbort = null;
+        this.isCancellingGeneration.set(false);
         this.activeAgents.set([]);
     }
   }
 
+  cancelGeneration(): void {
+    if (!this.generationAbort) return;
+    this.isCancellingGeneration.set(true);
+    this.generationAbort.abort();
+  }
+
+  async keepPartialProject(): Promise<void> {
+    const project = this.cancelledProject();
+    if (!project) return;
+    this.cancelledProject.set(null);
+    this.activeProject.set(project);
+    await this.persistProject(project, { kind: 'generation', prompt: project.prompt });
+    this.appState.set('completed');
+    this.initializeWorkspace(true);
+  }
+
+  discardPartialProject(): void {
+    this.cancelledProject.set(null);
+    this.appState.set('configuring');
+  }
+
   // --- Workspace & Code Assistant ---
   initializeWorkspace(isNew: boolean): void {
-    if (isNew) {
-      this.chatHistory.set([{ role: 'assistant', content: "Your project is ready! I'm your code assistant. Ask me to make changes or add features." }]);
-    } else {
-      this.chatHistory.set([{ role: 'assistant', content: `Loaded project "${this.activeProject()?.name}". How can I help you modify it?`}]);
-    }
+    void this.loadChat(isNew);
 
     const firstFile = Object.keys(this.activeProject()?.files || {})[0] || null;
+    this.hasUnsavedEdits.set(false);
+    this.fileTreeError.set('');
+    this.dependencyError.set('');
+    this.pinnedContext.set([]);
     this.selectFile(firstFile);
 
-    const firstPreview = this.previewableFiles()[0] || null;
-    this.selectedPreviewFile.set(firstPreview);
-    this.activeWorkspaceTab.set('assistant');
+    this.activeWorkspaceTab.set(this.diagnosticErrorCount() > 0 ? 'problems' : 'assistant');
+    this.revisionComparison.set(null);
+    void this.loadRevisions();
   }
 
   async handleModificationRequest(): Promise<void> {
     const userPrompt = this.assistantPrompt().trim();
-    if (!userPrompt || !this.activeProject() || this.isModifying()) return;
+    if (!userPrompt || !this.activeProject() || this.isModifying() || this.pendingReview()) return;
+
+    this.pinMentionedFiles(userPrompt);
+    const pinned = this.pinnedContext().filter(p => p.path in this.activeProject()!.files);
+    const conversation = this.chatHistoryService.summarizeForPrompt(this.chatHistory());
+
+    // The project's files make up nearly all of a modification prompt.
+    const files = this.codeGenerationService.describeFilesForModification(this.activeProject()!.files, [...new Set(pinned.map(p => p.path))]);
+    const estimate = this.usageService.estimateTokens(files + userPrompt + conversation);
+    const overBudget = this.usageService.checkBudget(this.activeProject()!.id, estimate);
+    if (overBudget && !confirm(`${overBudget}\n\nSend the request anyway?`)) return;
 
     this.isModifying.set(true);
-    this.chatHistory.update(h => [...h, { role: 'user', content: userPrompt }]);
+    this.addChatMessage('user', userPrompt);
     this.assistantPrompt.set('');
+    this.mention.set(null);
+    // Pins scope a single request; the next one starts unscoped unless files are pinned again.
+    this.pinnedContext.set([]);
 
     try {
       const currentProject = this.activeProject()!;
-      const updatedProject = await this.geminiService.modifyProject(userPrompt, currentProject);
-      
-      this.activeProject.set(updatedProject);
-      this.projectHistoryService.saveProject(updatedProject);
-      this.loadProjects();
-      
-      const assistantMessage = updatedProject.explanation ? `I've updated the project: ${updatedProject.explanation}` : "I've updated the project based on your request. Please review the changes.";
-      this.chatHistory.update(h => [...h, { role: 'assistant', content: assistantMessage }]);
+      const { project: proposedProject, changes, outOfScopeFiles } = await this.codeGenerationService.modifyProject(userPrompt, currentProject, {
+        recentlyEditedFiles: this.recentManualEdits(),
+        pinned,
+        conversation,
+      });
+      const diffs = this.diffService.diffProjects(currentProject.files, proposedProject.files);
 
-      if (this.selectedPreviewFile() && !this.previewableFiles().includes(this.selectedPreviewFile()!)) {
-        this.selectedPreviewFile.set(this.previewableFiles()[0] || null);
+      if (diffs.length === 0) {
+        this.addChatMessage('assistant', `I didn't change any files. ${proposedProject.explanation || ''}`.trim());
+        return;
       }
+
+      this.pendingReview.set({
+        prompt: userPrompt,
+        baseProject: currentProject,
+        proposedProject,
+        changes,
+        diffs,
+        // Changes outside the pinned files start out rejected so they are only applied on purpose.
+        decisions: Object.fromEntries(diffs.map(d => [d.path, !this.linkedReviewPaths(changes, d.path).some(path => outOfScopeFiles.includes(path))])),
+      });
+
+      const summary = proposedProject.explanation ? `I've proposed changes: ${proposedProject.explanation}` : "I've proposed changes based on your request.";
+      const touchedFiles = this.changeSetService.describeChanges(changes);
+      const scopeWarning = outOfScopeFiles.length > 0
+        ? `\n\nWarning: these files were not pinned but were changed anyway, so they are unchecked in the review: ${outOfScopeFiles.join(', ')}`
+        : '';
+      const assistantMessage = `${summary}\n\n${touchedFiles}${scopeWarning}\n\nReview the diff and apply the files you want to keep.`;
+      this.addChatMessage('assistant', assistantMessage);
     } catch (error: any) {
       const errorMessage = error.message || 'An unknown error occurred.';
+      const hint = error instanceof ModelError ? `\n\n${MODEL_ERROR_HINTS[error.kind]}` : '';
       this.errorMessage.set(errorMessage);
-      this.chatHistory.update(h => [...h, { role: 'assistant', content: `I encountered an error: ${errorMessage}` }]);
+      this.addChatMessage('assistant', `I encountered an error: ${errorMessage}${hint}`);
+      // Put the request back as it was so it can be retried without pinning the files again.
+      if (this.pinnedContext().length === 0) this.pinnedContext.set(pinned);
+      if (!this.assistantPrompt().trim()) this.assistantPrompt.set(userPrompt);
     } finally {
       this.isModifying.set(false);
     }
   }
 
-  // --- Agent Simulation ---
-  private getAgentById(id: string): Agent {
+  // --- Chat History ---
+  private async loadChat(isNew: boolean): Promise<void> {
+    const project = this.activeProject();
+    if (!project) return;
+    const greeting = isNew
+      ? "Your project is ready! I'm your code assistant. Ask me to make changes or add features."
+      : `Loaded project "${project.name}". How can I help you modify it?`;
+    try {
+      this.projectChat.set(await this.chatHistoryService.getChat(project.id, greeting));
+    } catch (error) {
+      console.error('Error loading chat history', error);
+      const thread = this.chatHistoryService.createThread(greeting);
+      this.projectChat.set({ projectId: project.id, activeThreadId: thread.id, threads: [thread] });
+    }
+  }
+
+  private addChatMessage(role: ChatMessage['role'], content: string, revision?: number): void {
+    const message: ChatMessage = { role, content, timestamp: new Date().toISOString(), ...(revision ? { revision } : {}) };
+    this.updateChat(chat => ({
+      ...chat,
+      threads: chat.threads.map(thread => {
+        if (thread.id !== chat.activeThreadId) return thread;
+        const updated = { ...thread, messages: [...thread.messages, message] };
+        return { ...updated, title: this.chatHistoryService.titleFor(updated) };
+      }),
+    }));
+  }
+
+  startChatThread(): void {
+    const thread = this.chatHistoryService.createThread('Started a new conversation. Earlier requests in this project will not be used as context.');
+    this.updateChat(chat => ({ ...chat, activeThreadId: thread.id, threads: [...chat.threads, thread] }));
+  }
+
+  switchChatThread(threadId: string): void {
+    this.updateChat(chat => ({ ...chat, activeThreadId: threadId }));
+  }
+
+  clearChatHistory(): void {
+    if (!confirm('Delete all conversations for this project? The project and its revisions are kept.')) return;
+    const thread = this.chatHistoryService.createThread('Chat history cleared. How can I help you modify the project?');
+    this.updateChat(chat => ({ ...chat, activeThreadId: thread.id, threads: [thread] }));
+  }
+
+  /** Opens the History tab on the changes a chat message produced. */
+  openChatRevision(revisionNumber: number): void {
+    this.activeWorkspaceTab.set('history');
+    this.showRevisionChanges(revisionNumber);
+  }
+
+  private updateChat(update: (chat: ProjectChat) => ProjectChat): void {
+    const current = this.projectChat();
+    if (!current) return;
+    const chat = update(current);
+    this.projectChat.set(chat);
+    this.chatHistoryService.saveChat(chat).catch(error => {
+      console.error('Error saving chat history', error);
+      this.storageError.set(error.message || 'The conversation could not be saved to browser storage.');
+    });
+  }
+
+  private latestRevisionNumber(): number | undefined {
+    return this.revisions()[this.revisions().length - 1]?.number;
+  }
+
+  // --- Assistant Context ---
+  pinContext(context: PinnedContext): void {
+    this.pinnedContext.update(pins => {
+      const isDuplicate = pins.some(p => p.path === context.path
+        && p.selection?.startLine === context.selection?.startLine
+        && p.selection?.endLine === context.selection?.endLine);
+      return isDuplicate ? pins : [...pins, context];
+    });
+    this.activeWorkspaceTab.set('assistant');
+  }
+
+  unpinContext(index: number): void {
+    this.pinnedContext.update(pins => pins.filter((_, i) => i !== index));
+  }
+
+  /** Tracks an "@partial/path" being typed right before the caret so file suggestions can be shown. */
+  updateMention(textarea: HTMLTextAreaElement): void {
+    const beforeCaret = textarea.value.slice(0, textarea.selectionStart);
+    const match = /(?:^|\s)@([^\s@]*)$/.exec(beforeCaret);
+    this.mention.set(match ? { start: beforeCaret.length - match[1].length - 1, query: match[1] } : null);
+    this.mentionIndex.set(0);
+  }
+
+  onPromptKeydown(event: KeyboardEvent, textarea: HTMLTextAreaElement): void {
+    const suggestions = this.mentionSuggestions();
+    if (suggestions.length > 0) {
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        this.mentionIndex.update(i => (i + (event.key === 'ArrowDown' ? 1 : -1) + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        event.preventDefault();
+        this.insertMention(suggestions[this.mentionIndex()], textarea);
+        return;
+      }
+      if (event.key === 'Escape') {
+        this.mention.set(null);
+        return;
+      }
+    }
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      void this.handleModificationRequest();
+    }
+  }
+
+  insertMention(path: string, textarea: HTMLTextAreaElement): void {
+    const mention = this.mention();
+    if (!mention) return;
+    const prompt = this.assistantPrompt();
+    const end = mention.start + 1 + mention.query.length;
+    const inserted = `@${path} `;
+    this.assistantPrompt.set(prompt.slice(0, mention.start) + inserted + prompt.slice(end));
+    this.mention.set(null);
+    this.pinContext({ path });
+    const caret = mention.start + inserted.length;
+    setTimeout(() => {
+      textarea.focus();
+      textarea.setSelectionRange(caret, caret);
+    });
+  }
+
+  private pinMentionedFiles(prompt: string): void {
+    const files = this.activeProject()?.files ?? {};
+    for (const match of prompt.matchAll(/(?:^|\s)@([^\s@]+)/g)) {
+      const path = match[1].replace(/[.,;:!?)]+$/, '');
+      if (path in files && !this.pinnedContext().some(p => p.path === path && !p.selection)) {
+        this.pinContext({ path });
+      }
+    }
+  }
+
+  // --- Manual Edits ---
+  /** Files edited by hand since the last non-edit revision; the assistant is told to keep them. */
+  recentManualEdits = computed(() => {
+    const paths = new Set<string>();
+    for (const revision of [...this.revisions()].reverse()) {
+      if (revision.kind !== 'edit') break;
+      Object.keys(revision.changes).forEach(path => paths.add(path));
+    }
+    return [...paths];
+  });
+
+  async saveFileEdit(path: string, content: string): Promise<void> {
+    const project = this.activeProject();
+    if (!project || this.pendingReview() || project.files[path] === content) return;
+
+    const updatedProject: GeneratedProject = { ...project, files: { ...project.files, [path]: content } };
+    if (!await this.persistProject(updatedProject, { kind: 'edit', prompt: `Edited ${path}` })) return;
+    this.activeProject.set(updatedProject);
+    await this.loadRevisions();
+  }
+
+  async applyFileOperation(operation: FileTreeOperation): Promise<void> {
+    const project = this.activeProject();
+    if (!project || this.pendingReview()) return;
+
+    let files: { [key: string]: string };
+    try {
+      files = this.changeSetService.applyChanges(project.files, operation.changes);
+    } catch (error) {
+      this.fileTreeError.set(error instanceof ChangeSetError ? error.message : 'The file operation could not be applied.');
+      return;
+    }
+
+    const updatedProject: GeneratedProject = { ...project, files };
+    if (!await this.persistProject(updatedProject, { kind: 'edit', prompt: operation.description })) return;
+    this.fileTreeError.set('');
+    this.activeProject.set(updatedProject);
+    await this.loadRevisions();
+
+    if (operation.select) {
+      this.selectFile(operation.select);
+    } else {
+      this.syncSelectionWithFiles();
+    }
+  }
+
+  async applyDependencyOperation(operation: DependencyOperation): Promise<void> {
+    const project = this.activeProject();
+    if (!project || this.pendingReview()) return;
+
+    let files: { [key: string]: string };
+    try {
+      files = this.changeSetService.applyChanges(project.files, operation.changes);
+    } catch (error) {
+      this.dependencyError.set(error instanceof ChangeSetError ? error.message : 'The dependency change could not be applied.');
+      return;
+    }
+
+    const updatedProject: GeneratedProject = { ...project, files, dependencies: operation.dependencies };
+    if (!await this.persistProject(updatedProject, { kind: 'edit', prompt: operation.description })) return;
+    this.dependencyError.set('');
+    this.activeProject.set(updatedProject);
+    await this.loadRevisions();
+  }
+
+  // --- Problems ---
+  openDiagnostic(diagnostic: Diagnostic): void {
+    if (diagnostic.path in (this.activeProject()?.files ?? {})) {
+      this.selectFile(diagnostic.path, diagnostic.line);
+    }
+  }
+
+  fixProblems(): void {
+    const diagnostics = this.diagnostics();
+    if (diagnostics.length === 0) return;
+    this.activeWorkspaceTab.set('assistant');
+    this.assistantPrompt.set(this.projectValidationService.describeForAssistant(diagnostics));
+    void this.handleModificationRequest();
+  }
+
+  // --- Build ---
+  fixBuild(): void {
+    const run = this.buildServerService.run();
+    if (!run || run.status !== 'failed' || run.projectId !== this.activeProject()?.id) return;
+    this.activeWorkspaceTab.set('assistant');
+    this.assistantPrompt.set(this.buildServerService.describeForAssistant(run));
+    void this.handleModificationRequest();
+  }
+
+  // --- Change Review ---
+  setReviewDecision(path: string, accepted: boolean): void {
+    this.pendingReview.update(review => {
+      if (!review) return review;
+      // Both halves of a rename are accepted or rejected together, so a file is never lost or duplicated.
+      const linked = this.linkedReviewPaths(review.changes, path);
+      return { ...review, decisions: { ...review.decisions, ...Object.fromEntries(linked.map(p => [p, accepted])) } };
+    });
+  }
+
+  /** The path together with every path it is renamed from or to in the change set. */
+  private linkedReviewPaths(changes: FileChange[], path: string): string[] {
+    const linked = new Set([path]);
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const change of changes) {
+        if (change.operation !== 'rename' || !change.new_path) continue;
+        const ends = [change.path.trim(), change.new_path.trim()];
+        if (ends.some(end => linked.has(end)) && ends.some(end => !linked.has(end))) {
+          ends.forEach(end => linked.add(end));
+          grew = true;
+        }
+      }
+    }
+    return [...linked];
+  }
+
+  async applyPendingReview(): Promise<void> {
+    const review = this.pendingReview();
+    if (!review) return;
+
+    const files = { ...review.baseProject.files };
+    const acceptedPaths = review.diffs.filter(d => review.decisions[d.path]).map(d => d.path);
+    for (const path of acceptedPaths) {
+      if (path in review.proposedProject.files) {
+        files[path] = review.proposedProject.files[path];
+      } else {
+        delete files[path];
+      }
+    }
+
+    // Metadata comes from the proposal only when files were accepted, and the package list only when
+    // no project file change was rejected, so it cannot disagree with the .csproj that is kept.
+    const base = review.baseProject;
+    const proposed = review.proposedProject;
+    const anyAccepted = acceptedPaths.length > 0;
+    const projectFileRejected = review.diffs.some(d => d.path.endsWith('.csproj') && !review.decisions[d.path]);
+    const updatedProject: GeneratedProject = {
+      ...base,
+      files,
+      dependencies: anyAccepted && !projectFileRejected ? proposed.dependencies : base.dependencies,
+      explanation: anyAccepted ? proposed.explanation : base.explanation,
+      build_commands: anyAccepted ? proposed.build_commands : base.build_commands,
+    };
+    // Keep the review open if saving fails so the changes can be applied again once space is freed.
+    if (!await this.persistProject(updatedProject, { kind: 'modification', prompt: review.prompt })) return;
+    this.activeProject.set(updatedProject);
+    this.pendingReview.set(null);
+    await this.loadRevisions();
+
+    const rejectedCount = review.diffs.length - acceptedPaths.length;
+    this.addChatMessage(
+      'assistant',
+      `Applied changes to ${acceptedPaths.length} file(s)` + (rejectedCount > 0 ? ` and rejected ${rejectedCount}.` : '.'),
+      this.latestRevisionNumber(),
+    );
+
+    this.syncSelectionWithFiles();
+  }
+
+  private syncSelectionWithFiles(): void {
+    const files = this.activeProject()?.files || {};
+    if (this.selectedFile() && !(this.selectedFile()! in files)) {
+      this.selectFile(Object.keys(files)[0] || null);
+    }
+  }
+
+  discardPendingReview(): void {
+    if (!this.pendingReview()) return;
+    this.pendingReview.set(null);
+    this.addChatMessage('assistant', 'Discarded the proposed changes. The project was not modified.');
+  }
+
+  // --- Version History ---
+  async loadRevisions(): Promise<void> {
+    const project = this.activeProject();
+    const revisions = project ? await this.projectHistoryService.getRevisions(project.id) : [];
+    this.revisions.set(revisions);
+    this.compareFromRevision.set(revisions.length > 1 ? revisions[revisions.length - 2].number : null);
+    this.compareToRevision.set(revisions.length > 0 ? revisions[revisions.length - 1].number : null);
+  }
+
+  showRevisionChanges(revisionNumber: number): void {
+    this.compareRevisions(revisionNumber - 1, revisionNumber);
+  }
+
+  async compareRevisions(fromNumber: number | null, toNumber: number | null): Promise<void> {
+    const project = this.activeProject();
+    if (!project || toNumber === null) return;
+    const before = fromNumber !== null && fromNumber > 0 ? await this.projectHistoryService.getSnapshot(project, fromNumber) : null;
+    const after = await this.projectHistoryService.getSnapshot(project, toNumber);
+    if (!after) return;
+    this.revisionComparison.set({
+      title: before ? `Revision ${fromNumber} → Revision ${toNumber}` : `Revision ${toNumber}`,
+      diffs: this.diffService.diffProjects(before?.files || {}, after.files),
+    });
+  }
+
+  async restoreRevision(revisionNumber: number): Promise<void> {
+    const project = this.activeProject();
+    if (!project || this.pendingReview()) return;
+    const snapshot = await this.projectHistoryService.getSnapshot(project, revisionNumber);
+    if (!snapshot) return;
+
+    if (!await this.persistProject(snapshot, { kind: 'restore', prompt: `Restored revision ${revisionNumber}` })) return;
+    this.activeProject.set(snapshot);
+    await this.loadRevisions();
+    this.revisionComparison.set(null);
+    this.syncSelectionWithFiles();
+    this.addChatMessage('assistant', `Restored the project to revision ${revisionNumber}.`, this.latestRevisionNumber());
+  }
+
+  async undoLastChange(): Promise<void> {
+    const revisions = this.revisions();
+    if (revisions.length < 2) return;
+    await this.restoreRevision(revisions[revisions.length - 2].number);
+  }
+
+  async branchFromRevision(revisionNumber: number): Promise<void> {
+    const project = this.activeProject();
+    if (!project) return;
+    const snapshot = await this.projectHistoryService.getSnapshot(project, revisionNumber);
+    if (!snapshot) return;
+
+    const branch: GeneratedProject = {
+      ...snapshot,
+      id: new Date().toISOString() + Math.random(),
+      name: `${project.name} (branch of r${revisionNumber})`,
+    };
+    if (!await this.persistProject(branch, { kind: 'branch', prompt: `Branched from "${project.name}" revision ${revisionNumber}` })) return;
+    await this.loadProject(branch.id);
+  }
+
+  async handleExportProject(): Promise<void> {
+    const project = this.activeProject();
+    if (!project || this.isExporting()) return;
+
+    this.isExporting.set(true);
+    try {
+      await this.projectExportService.exportAsZip(project);
+    } catch (error: any) {
+      console.error('Error exporting project', error);
+      this.errorMessage.set(error.message || 'Failed to export project.');
+    } finally {
+      this.isExporting.set(false);
+    }
+  }
+
+  async handleExportGitRepository(format: 'zip' | 'bundle'): Promise<void> {
+    const project = this.activeProject();
+    if (!project || this.isExporting()) return;
+
+    this.isExporting.set(true);
+    try {
+      const revisions = await this.projectHistoryService.getRevisions(project.id);
+      await this.projectExportService.exportAsGitRepository(project, revisions, format);
+    } catch (error: any) {
+      console.error('Error exporting git repository', error);
+      this.errorMessage.set(error.message || 'Failed to export the git repository.');
+    } finally {
+      this.isExporting.set(false);
+    }
+  }
+
+  // --- Agents ---
+  private getAgentById(id: AgentId): Agent {
     return this.AI_AGENTS.find(a => a.id === id)!;
   }
   private addAgentLog(agent: Agent, message: string): void {
     this.agentLogs.update(logs => [...logs, { agent, message }]);
   }
-  private async runAgentSimulation(): Promise<void> {
-    const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
-    const [teamLeader, coder, frontend, dbAdmin] = [this.getAgentById('team_leader'), this.getAgentById('coder'), this.getAgentById('frontend'), this.getAgentById('database')];
-
-    this.activeAgents.set([teamLeader.id]);
-    this.addAgentLog(teamLeader, "Analyzing project requirements...");
-    await delay(1500);
-    this.addAgentLog(teamLeader, "Assembling AI development team...");
-    this.activeAgents.set([teamLeader.id, coder.id, frontend.id, dbAdmin.id]);
-    await delay(1000);
-    this.addAgentLog(coder, "Scaffolding backend structure...");
-    await delay(2000);
-    this.addAgentLog(dbAdmin, "Designing database schema...");
-    await delay(1500);
-    this.addAgentLog(frontend, "Planning UI components...");
-    await delay(1800);
-    this.addAgentLog(teamLeader, "Team is now generating the full codebase. This may take a moment...");
+  formatBytes(bytes: number): string {
+    return bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
   }
 }
@@ -0,0 +1,160 @@
+import { Component, ChangeDetectionStrategy, input, output, computed, signal, inject, viewChild, ElementRef, afterRenderEffect } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { GeneratedProject } from '../models/project.model';
+import { BuildMode, BuildServerHealth } from '../models/build.model';
+import { BuildServerService, BuildServerError } from '../services/build-server.service';
+
+@Component({
+  selector: 'app-build-panel',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="h-full flex flex-col">
+      <div class="flex-shrink-0 p-3 space-y-2 border-b border-slate-200 dark:border-slate-800">
+        <div class="flex items-center gap-2">
+          <input [ngModel]="url()" (ngModelChange)="url.set($event)" (blur)="saveSettings()" placeholder="http://localhost:5199" aria-label="Build server URL" class="flex-grow min-w-0 px-2 py-1 text-xs font-mono bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+          <input type="password" [ngModel]="token()" (ngModelChange)="token.set($event)" (blur)="saveSettings()" placeholder="Token" aria-label="Build server token" class="w-20 px-2 py-1 text-xs bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+          <button (click)="checkConnection()" [disabled]="isChecking()" class="flex-shrink-0 px-2 py-1 text-xs rounded-md border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50">{{ isChecking() ? 'Checking...' : 'Check' }}</button>
+        </div>
+        @if (health(); as health) {
+          <p class="text-xs text-green-700 dark:text-green-400">
+            Connected{{ health.runner === 'fake' ? ' (fake runner)' : '' }} &middot; dotnet {{ health.tools.dotnet || 'not installed' }} &middot; docker {{ health.tools.docker || 'not installed' }}
+          </p>
+        } @else if (connectionError()) {
+          <p class="text-xs text-red-600 dark:text-red-400">{{ connectionError() }}</p>
+        } @else {
+          <p class="text-xs text-slate-500">Builds run on your machine through the companion server. Start it with <code class="font-mono">npm run build-server</code> and enter the token it prints.</p>
+        }
+        <div class="flex items-center gap-2">
+          @if (isRunning()) {
+            <button (click)="buildServer.cancel()" class="px-3 py-1.5 text-xs text-white bg-red-600 hover:bg-red-700 rounded-md transition-colors">Cancel</button>
+          } @else {
+            <button (click)="start('build')" [disabled]="disabled()" class="px-3 py-1.5 text-xs text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 dark:disabled:bg-slate-600 rounded-md transition-colors">Build</button>
+            <button (click)="start('test')" [disabled]="disabled()" class="px-3 py-1.5 text-xs rounded-md border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50">Build &amp; Test</button>
+            @if (hasDockerfile()) {
+              <button (click)="start('docker')" [disabled]="disabled()" class="px-3 py-1.5 text-xs rounded-md border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50">Docker Build</button>
+            }
+          }
+        </div>
+      </div>
+
+      @if (run(); as run) {
+        <div class="flex-shrink-0 p-3 flex items-center justify-between gap-2 border-b border-slate-200 dark:border-slate-800">
+          <p class="text-xs text-slate-500 dark:text-slate-400">
+            @switch (run.status) {
+              @case ('running') { <span class="font-semibold text-blue-600 dark:text-blue-400">Running {{ run.mode }}...</span> }
+              @case ('succeeded') { <span class="font-semibold text-green-600 dark:text-green-400">Succeeded</span> }
+              @case ('failed') { <span class="font-semibold text-red-500">Failed (exit code {{ run.exitCode }})</span> }
+              @case ('cancelled') { <span class="font-semibold">Cancelled</span> }
+              @case ('error') { <span class="font-semibold text-red-500">Could not build</span> }
+            }
+            @if (run.durationMs !== undefined) { in {{ (run.durationMs / 1000).toFixed(1) }}s }
+            &middot; {{ errorCount() }} error(s), {{ run.diagnostics.length - errorCount() }} warning(s)
+          </p>
+          <button (click)="fix.emit()" [disabled]="run.status !== 'failed' || disabled()" class="flex-shrink-0 px-3 py-1.5 text-xs text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 dark:disabled:bg-slate-600 rounded-md transition-colors">Ask Assistant to Fix the Build</button>
+        </div>
+        @if (run.error) {
+          <p class="flex-shrink-0 px-3 pt-2 text-xs text-red-600 dark:text-red-400">{{ run.error }}</p>
+        }
+        @if (run.diagnostics.length > 0) {
+          <div class="flex-shrink-0 max-h-[40%] overflow-y-auto p-2 space-y-1 border-b border-slate-200 dark:border-slate-800">
+            @for (diagnostic of run.diagnostics; track $index) {
+              <button (click)="openDiagnostic(diagnostic.path, diagnostic.line)" [disabled]="!isProjectFile(diagnostic.path)" class="w-full text-left p-2 rounded-md text-xs hover:bg-slate-100 dark:hover:bg-slate-800 disabled:hover:bg-transparent transition-colors">
+                <div class="flex items-start gap-2">
+                  <span [class]="'mt-0.5 w-2 h-2 flex-shrink-0 rounded-full ' + (diagnostic.severity === 'error' ? 'bg-red-500' : 'bg-yellow-500')"></span>
+                  <div class="min-w-0">
+                    <p class="text-slate-800 dark:text-slate-200">{{ diagnostic.message }}</p>
+                    <p class="font-mono text-slate-500 truncate">{{ diagnostic.path || 'project' }}@if (diagnostic.line) {:{{ diagnostic.line }}} &middot; {{ diagnostic.code }}</p>
+                  </div>
+                </div>
+              </button>
+            }
+          </div>
+        }
+        <div #log class="flex-grow overflow-auto bg-slate-950 p-2 font-mono text-[11px] leading-4">
+          @for (line of run.log; track $index) {
+            <div [class]="'whitespace-pre ' + (line.kind === 'step' ? 'text-blue-300 font-semibold mt-1' : line.kind === 'stderr' ? 'text-red-300' : isDiagnosticLine(line.text) ? 'text-yellow-200' : 'text-slate-300')">{{ line.text }}</div>
+          }
+        </div>
+      } @else {
+        <p class="p-4 text-sm text-center text-slate-500">Build the project to check that it compiles. Errors link to the code and can be sent to the assistant.</p>
+      }
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class BuildPanelComponent {
+  protected buildServer = inject(BuildServerService);
+
+  project = input.required<GeneratedProject>();
+  disabled = input<boolean>(false);
+  select = output<{ path: string; line?: number }>();
+  fix = output<void>();
+
+  url = signal(this.buildServer.settings().url);
+  token = signal(this.buildServer.settings().token);
+  health = signal<BuildServerHealth | null>(null);
+  connectionError = signal('');
+  isChecking = signal(false);
+
+  private logView = viewChild<ElementRef<HTMLDivElement>>('log');
+
+  /** The latest run, if it belongs to this project. */
+  run = computed(() => {
+    const run = this.buildServer.run();
+    return run?.projectId === this.project().id ? run : null;
+  });
+  isRunning = computed(() => this.run()?.status === 'running');
+  errorCount = computed(() => this.run()?.diagnostics.filter(d => d.severity === 'error').length ?? 0);
+  hasDockerfile = computed(() => Object.keys(this.project().files).some(path => /(^|\/)Dockerfile$/.test(path)));
+
+  constructor() {
+    // Follow the output while the build runs.
+    afterRenderEffect(() => {
+      const length = this.run()?.log.length;
+      const view = this.logView()?.nativeElement;
+      if (length && view) view.scrollTop = view.scrollHeight;
+    });
+  }
+
+  saveSettings(): void {
+    const settings = { url: this.url().trim(), token: this.token() };
+    const current = this.buildServer.settings();
+    if (settings.url === current.url && settings.token === current.token) return;
+    this.buildServer.updateSettings(settings);
+    this.health.set(null);
+    this.connectionError.set('');
+  }
+
+  async checkConnection(): Promise<void> {
+    this.saveSettings();
+    this.isChecking.set(true);
+    try {
+      this.health.set(await this.buildServer.checkHealth());
+      this.connectionError.set('');
+    } catch (error) {
+      this.health.set(null);
+      this.connectionError.set(error instanceof BuildServerError ? error.message : 'The build server did not respond as expected.');
+    } finally {
+      this.isChecking.set(false);
+    }
+  }
+
+  start(mode: BuildMode): void {
+    this.saveSettings();
+    void this.buildServer.build(this.project(), mode);
+  }
+
+  isProjectFile(path: string): boolean {
+    return !!path && path in this.project().files;
+  }
+
+  openDiagnostic(path: string, line?: number): void {
+    if (this.isProjectFile(path)) this.select.emit({ path, line });
+  }
+
+  isDiagnosticLine(text: string): boolean {
+    return /:\s*(error|warning)\s+[A-Za-z]+\d+\s*:/.test(text);
+  }
+}
@@ -0,0 +1,274 @@
+import { Component, ChangeDetectionStrategy, input, output, signal, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { FeatureCategory } from '../models/project.model';
+import { FeatureDefinition, PackageReference, ProjectTemplate, ReferenceFile } from '../models/catalog.model';
+import { CATEGORY_LABELS, CatalogImportError, FeatureCatalogService } from '../services/feature-catalog.service';
+import { ProjectExportService } from '../services/project-export.service';
+
+type CatalogDraft =
+  | { kind: 'feature'; value: FeatureDefinition; packagesText: string }
+  | { kind: 'template'; value: ProjectTemplate; packagesText: string };
+
+@Component({
+  selector: 'app-catalog-panel',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="fixed inset-0 z-30 bg-slate-900/60 flex items-center justify-center p-4" (click)="close.emit()">
+      <div class="w-full max-w-5xl h-[85vh] flex flex-col bg-white dark:bg-slate-800 rounded-lg shadow-xl border border-slate-200 dark:border-slate-700" (click)="$event.stopPropagation()">
+        <div class="p-4 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between gap-2">
+          <h3 class="text-lg font-semibold text-slate-900 dark:text-white">Features &amp; Templates</h3>
+          <div class="flex items-center gap-2 text-sm">
+            <input #catalogInput type="file" accept=".json,application/json" class="hidden" (change)="importCatalog($event)">
+            <button (click)="catalogInput.click()" class="px-3 py-1.5 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors">Import JSON</button>
+            <button (click)="exportCatalog()" class="px-3 py-1.5 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors">Export JSON</button>
+            <button (click)="close.emit()" class="p-1 rounded-md text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700">&times;</button>
+          </div>
+        </div>
+        @if (status(); as message) {
+          <p class="px-4 py-2 text-sm border-b border-slate-200 dark:border-slate-700" [class]="statusIsError() ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-400'">{{ message }}</p>
+        }
+        <div class="flex-grow flex min-h-0">
+          <div class="w-64 flex-shrink-0 border-r border-slate-200 dark:border-slate-700 flex flex-col">
+            <div class="p-2 flex gap-1 text-sm">
+              <button (click)="tab.set('feature')" [class]="'flex-1 py-1 rounded-md ' + (tab() === 'feature' ? 'bg-blue-600 text-white' : 'hover:bg-slate-100 dark:hover:bg-slate-700')">Features</button>
+              <button (click)="tab.set('template')" [class]="'flex-1 py-1 rounded-md ' + (tab() === 'template' ? 'bg-blue-600 text-white' : 'hover:bg-slate-100 dark:hover:bg-slate-700')">Templates</button>
+            </div>
+            <div class="flex-grow overflow-y-auto p-2 space-y-1 text-sm">
+              @for (item of listItems(); track item.id) {
+                <button (click)="edit(item)" [class]="'w-full text-left px-2 py-1.5 rounded-md flex items-center justify-between gap-2 ' + (draft()?.value?.id === item.id ? 'bg-blue-100 dark:bg-blue-900/40' : 'hover:bg-slate-100 dark:hover:bg-slate-700')">
+                  <span class="truncate">{{ item.label }}</span>
+                  @if (item.builtIn) { <span class="text-xs text-slate-400 flex-shrink-0">built-in</span> }
+                </button>
+              }
+            </div>
+            <div class="p-2 border-t border-slate-200 dark:border-slate-700 space-y-2">
+              <button (click)="create()" class="w-full px-3 py-1.5 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors">New {{ tab() === 'feature' ? 'Feature' : 'Template' }}</button>
+              @if (tab() === 'template' && currentFramework()) {
+                <button (click)="createFromSelection()" class="w-full px-3 py-1.5 text-sm bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors">Save Current Selection</button>
+              }
+            </div>
+          </div>
+
+          <div class="flex-grow overflow-y-auto p-4 text-sm">
+            @if (draft(); as current) {
+              <fieldset [disabled]="!!current.value.builtIn" class="space-y-4">
+                @if (current.value.builtIn) {
+                  <p class="text-xs text-slate-500">Built-in entries cannot be changed. Duplicate this one to customize it.</p>
+                }
+                <label class="block">
+                  <span class="font-medium">Name</span>
+                  <input [ngModel]="current.value.label" (ngModelChange)="patch({ label: $event })" class="mt-1 w-full p-2 bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md">
+                </label>
+                <label class="block">
+                  <span class="font-medium">Description</span>
+                  <input [ngModel]="current.value.description" (ngModelChange)="patch({ description: $event })" class="mt-1 w-full p-2 bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md">
+                </label>
+                @if (current.kind === 'feature') {
+                  <label class="block">
+                    <span class="font-medium">Category</span>
+                    <select [ngModel]="current.value.category" (ngModelChange)="patch({ category: $event })" class="mt-1 w-full p-2 bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md">
+                      @for (category of categories; track category.id) { <option [value]="category.id">{{ category.label }}</option> }
+                    </select>
+                  </label>
+                } @else {
+                  <label class="block">
+                    <span class="font-medium">Framework</span>
+                    <select [ngModel]="current.value.framework" (ngModelChange)="patch({ framework: $event })" class="mt-1 w-full p-2 bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md">
+                      @for (framework of catalog.frameworks; track framework.value) { <option [value]="framework.value">{{ framework.label }}</option> }
+                    </select>
+                  </label>
+                  <div>
+                    <span class="font-medium">Features</span>
+                    <div class="mt-1 grid grid-cols-2 gap-1">
+                      @for (feature of catalog.features(); track feature.id) {
+                        <label class="flex items-center gap-2"><input type="checkbox" [checked]="current.value.featureIds.includes(feature.id)" (change)="toggleTemplateFeature(feature.id)"> {{ feature.label }}</label>
+                      }
+                    </div>
+                  </div>
+                }
+                <label class="block">
+                  <span class="font-medium">Instructions for the generator</span>
+                  <textarea rows="6" [ngModel]="current.value.instructions" (ngModelChange)="patch({ instructions: $event })" class="mt-1 w-full p-2 bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md"></textarea>
+                </label>
+                <label class="block">
+                  <span class="font-medium">NuGet packages</span>
+                  <textarea rows="3" [ngModel]="current.packagesText" (ngModelChange)="setPackagesText($event)" placeholder="Serilog.AspNetCore 8.0.2" class="mt-1 w-full p-2 font-mono bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md"></textarea>
+                  <span class="text-xs text-slate-500 dark:text-slate-400">One package per line: name, then the pinned version.</span>
+                </label>
+                <div class="space-y-2">
+                  <div class="flex items-center justify-between">
+                    <span class="font-medium">Reference files</span>
+                    <button (click)="addReferenceFile()" class="text-xs text-blue-600 hover:underline">Add file</button>
+                  </div>
+                  @for (file of current.value.referenceFiles; track $index) {
+                    <div class="p-2 space-y-1 border border-slate-200 dark:border-slate-700 rounded-md">
+                      <div class="flex gap-2">
+                        <input [ngModel]="file.path" (ngModelChange)="updateReferenceFile($index, { path: $event })" placeholder="Path, e.g. Infrastructure/Logging.cs" class="flex-grow p-1.5 font-mono bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md">
+                        <button (click)="removeReferenceFile($index)" class="px-2 text-red-600 hover:underline text-xs">Remove</button>
+                      </div>
+                      <textarea rows="4" [ngModel]="file.content" (ngModelChange)="updateReferenceFile($index, { content: $event })" class="w-full p-1.5 font-mono text-xs bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md"></textarea>
+                    </div>
+                  } @empty {
+                    <p class="text-xs text-slate-500">Files listed here are added to every generated project exactly as written.</p>
+                  }
+                </div>
+              </fieldset>
+              <div class="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2">
+                @if (current.value.builtIn) {
+                  <button (click)="duplicate()" class="px-4 py-2 font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors">Duplicate</button>
+                } @else {
+                  @if (current.value.id) {
+                    <button (click)="remove()" class="px-4 py-2 font-semibold text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-md transition-colors">Delete</button>
+                  }
+                  <button (click)="save()" [disabled]="!current.value.label.trim()" class="px-4 py-2 font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 rounded-md transition-colors">Save</button>
+                }
+              </div>
+            } @else {
+              <p class="text-slate-500">Select a {{ tab() }} to see its definition, or create a new one.</p>
+            }
+          </div>
+        </div>
+      </div>
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class CatalogPanelComponent {
+  catalog = inject(FeatureCatalogService);
+  private projectExportService = inject(ProjectExportService);
+
+  /** The framework and features chosen on the configuration page, for "Save Current Selection". */
+  currentFramework = input<string | null>(null);
+  currentFeatureIds = input<string[]>([]);
+  close = output<void>();
+
+  readonly categories = (Object.keys(CATEGORY_LABELS) as FeatureCategory[]).map(id => ({ id, label: CATEGORY_LABELS[id] }));
+  tab = signal<'feature' | 'template'>('feature');
+  draft = signal<CatalogDraft | null>(null);
+  status = signal('');
+  statusIsError = signal(false);
+
+  listItems = computed<(FeatureDefinition | ProjectTemplate)[]>(() => (this.tab() === 'feature' ? this.catalog.features() : this.catalog.templates()));
+
+  edit(item: FeatureDefinition | ProjectTemplate): void {
+    const packagesText = item.packages.map(p => `${p.name} ${p.version}`).join('\n');
+    this.draft.set(this.tab() === 'feature'
+      ? { kind: 'feature', value: structuredClone(item as FeatureDefinition), packagesText }
+      : { kind: 'template', value: structuredClone(item as ProjectTemplate), packagesText });
+  }
+
+  create(): void {
+    const base = { id: '', label: '', description: '', instructions: '', packages: [], referenceFiles: [] };
+    this.draft.set(this.tab() === 'feature'
+      ? { kind: 'feature', value: { ...base, category: 'custom' }, packagesText: '' }
+      : { kind: 'template', value: { ...base, framework: this.currentFramework() ?? this.catalog.frameworks[0].value, featureIds: [...this.currentFeatureIds()] }, packagesText: '' });
+  }
+
+  createFromSelection(): void {
+    this.create();
+    this.patch({ label: 'My template' });
+  }
+
+  duplicate(): void {
+    const current = this.draft();
+    if (!current) return;
+    this.draft.set({ ...current, value: { ...structuredClone(current.value), id: '', label: `${current.value.label} (custom)`, builtIn: false } } as CatalogDraft);
+  }
+
+  patch(changes: Partial<FeatureDefinition> | Partial<ProjectTemplate>): void {
+    this.draft.update(d => d && ({ ...d, value: { ...d.value, ...changes } } as CatalogDraft));
+  }
+
+  setPackagesText(text: string): void {
+    this.draft.update(d => d && ({ ...d, packagesText: text }));
+  }
+
+  toggleTemplateFeature(featureId: string): void {
+    const current = this.draft();
+    if (current?.kind !== 'template') return;
+    const ids = current.value.featureIds;
+    this.patch({ featureIds: ids.includes(featureId) ? ids.filter(id => id !== featureId) : [...ids, featureId] });
+  }
+
+  addReferenceFile(): void {
+    const current = this.draft();
+    if (current) this.patch({ referenceFiles: [...current.value.referenceFiles, { path: '', content: '' }] });
+  }
+
+  updateReferenceFile(index: number, changes: Partial<ReferenceFile>): void {
+    const current = this.draft();
+    if (current) this.patch({ referenceFiles: current.value.referenceFiles.map((f, i) => (i === index ? { ...f, ...changes } : f)) });
+  }
+
+  removeReferenceFile(index: number): void {
+    const current = this.draft();
+    if (current) this.patch({ referenceFiles: current.value.referenceFiles.filter((_, i) => i !== index) });
+  }
+
+  save(): void {
+    const current = this.draft();
+    if (!current) return;
+    const packages = this.parsePackages(current.packagesText);
+    if (!packages) {
+      this.setStatus('Each package line needs a name and a version, e.g. "Serilog.AspNetCore 8.0.2".', true);
+      return;
+    }
+    const referenceFiles = current.value.referenceFiles
+      .map(f => ({ path: f.path.trim().replace(/^\/+/, ''), content: f.content }))
+      .filter(f => f.path);
+    if (current.kind === 'feature') {
+      const saved = this.catalog.saveFeature({ ...current.value, label: current.value.label.trim(), packages, referenceFiles });
+      this.draft.set({ ...current, value: saved });
+    } else {
+      const saved = this.catalog.saveTemplate({ ...current.value, label: current.value.label.trim(), packages, referenceFiles });
+      this.draft.set({ ...current, value: saved });
+    }
+    this.setStatus(`Saved "${current.value.label.trim()}".`, false);
+  }
+
+  remove(): void {
+    const current = this.draft();
+    if (!current || !confirm(`Delete "${current.value.label}"?`)) return;
+    if (current.kind === 'feature') {
+      this.catalog.deleteFeature(current.value.id);
+    } else {
+      this.catalog.deleteTemplate(current.value.id);
+    }
+    this.draft.set(null);
+  }
+
+  exportCatalog(): void {
+    this.projectExportService.downloadBlob(new Blob([this.catalog.exportCatalog()], { type: 'application/json' }), 'dotnet-builder-catalog.json');
+  }
+
+  async importCatalog(event: Event): Promise<void> {
+    const fileInput = event.target as HTMLInputElement;
+    const file = fileInput.files?.[0];
+    fileInput.value = '';
+    if (!file) return;
+    try {
+      const result = this.catalog.importCatalog(await file.text());
+      const skipped = result.skipped.length > 0 ? ` Skipped ${result.skipped.join(', ')}.` : '';
+      this.setStatus(`Imported ${result.features} feature(s) and ${result.templates} template(s).${skipped}`, false);
+    } catch (error) {
+      this.setStatus(error instanceof CatalogImportError ? error.message : 'The catalog could not be imported.', true);
+    }
+  }
+
+  private parsePackages(text: string): PackageReference[] | null {
+    const packages: PackageReference[] = [];
+    for (const line of text.split('\n').map(l => l.trim()).filter(Boolean)) {
+      const [name, version, ...rest] = line.split(/\s+/);
+      if (!name || !version || rest.length > 0) return null;
+      packages.push({ name, version });
+    }
+    return packages;
+  }
+
+  private setStatus(message: string, isError: boolean): void {
+    this.status.set(message);
+    this.statusIsError.set(isError);
+  }
+}
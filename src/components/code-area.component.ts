@@ -1,32 +1,74 @@
-
-import { Component, ChangeDetectionStrategy, input, signal } from '@angular/core';
+import { Component, ChangeDetectionStrategy, input, output, signal, computed, linkedSignal, inject, viewChild, ElementRef, effect, afterRenderEffect } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { SyntaxHighlightService } from '../services/syntax-highlight.service';
+import { PinnedContext } from '../models/project.model';
 
 @Component({
   selector: 'app-code-area',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, FormsModule],
   template: `
     @if (fileName(); as name) {
       <div class="h-full flex flex-col bg-slate-950">
-        <div class="flex-shrink-0 bg-slate-100 dark:bg-slate-900 p-3 flex justify-between items-center border-b border-slate-200 dark:border-slate-800">
-          <span class="text-sm font-mono text-slate-600 dark:text-slate-300">{{ name }}</span>
-          @if (fileContent() !== null) {
-            <button (click)="copyToClipboard(fileContent()!)" 
+        <div class="flex-shrink-0 bg-slate-100 dark:bg-slate-900 p-3 flex justify-between items-center gap-2 border-b border-slate-200 dark:border-slate-800">
+          <span class="text-sm font-mono text-slate-600 dark:text-slate-300 truncate">
+            {{ name }}
+            @if (isDirty()) { <span class="ml-1 text-amber-500" title="Unsaved changes">&#9679;</span> }
+            @if (readOnly()) { <span class="ml-2 text-xs text-slate-400">(read-only)</span> }
+          </span>
+          <div class="flex items-center gap-2 flex-shrink-0">
+            @if (pinnable()) {
+              <button (click)="pinToChat(name)" title="Pin the selected lines, or the whole file, as assistant context" class="px-3 py-1.5 text-xs bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-md transition-colors">Pin to Chat</button>
+            }
+            <button (click)="toggleSearch()" title="Search and replace (Ctrl+F)" [class]="'px-3 py-1.5 text-xs rounded-md transition-colors ' + (isSearchOpen() ? 'bg-blue-600 text-white' : 'bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200')">Find</button>
+            @if (!readOnly()) {
+              <button (click)="revert()" [disabled]="!isDirty()" class="px-3 py-1.5 text-xs bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-50 text-slate-800 dark:text-slate-200 rounded-md transition-colors">Revert</button>
+              <button (click)="saveDraft()" [disabled]="!isDirty()" title="Save (Ctrl+S)" class="px-3 py-1.5 text-xs text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-500 rounded-md transition-colors">Save</button>
+            }
+            <button (click)="copyToClipboard(draft())"
                     class="px-3 py-1.5 text-xs bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-md transition-colors flex items-center gap-2">
               <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect width="14" height="14" x="8" y="8" rx="2" ry="2"/><path d="M4 16c-1.1 0-2-.9-2-2V4c0-1.1.9-2 2-2h10c1.1 0 2 .9 2 2"/></svg>
               {{ copyButtonText() }}
             </button>
-          }
+          </div>
         </div>
-        <div class="flex-grow overflow-auto">
-          @if(fileContent(); as content) {
-            <pre class="h-full selection:bg-blue-500/20"><code class="text-sm p-4 block text-slate-300 whitespace-pre-wrap font-mono">{{ content }}</code></pre>
-          } @else {
-             <div class="w-full h-full flex items-center justify-center text-slate-500">
-              <p>File content is empty or could not be loaded.</p>
-            </div>
-          }
+        @if (isSearchOpen()) {
+          <div class="flex-shrink-0 bg-slate-900 border-b border-slate-800 p-2 flex flex-wrap items-center gap-2 text-xs">
+            <input #searchInput [ngModel]="searchQuery()" (ngModelChange)="searchQuery.set($event); activeMatch.set(0)" (keydown.enter)="findNext($event.shiftKey ? -1 : 1)" (keydown.escape)="toggleSearch()" placeholder="Find" class="w-40 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-slate-200 font-mono">
+            @if (!readOnly()) {
+              <input [ngModel]="replaceText()" (ngModelChange)="replaceText.set($event)" (keydown.escape)="toggleSearch()" placeholder="Replace" class="w-40 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-slate-200 font-mono">
+            }
+            <label class="flex items-center gap-1 text-slate-400"><input type="checkbox" [ngModel]="matchCase()" (ngModelChange)="matchCase.set($event)"> Aa</label>
+            <span class="text-slate-400 min-w-16">{{ matches().length > 0 ? (activeMatch() + 1) + ' of ' + matches().length : 'No results' }}</span>
+            <button (click)="findNext(-1)" [disabled]="matches().length === 0" class="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50">&uarr;</button>
+            <button (click)="findNext(1)" [disabled]="matches().length === 0" class="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50">&darr;</button>
+            @if (!readOnly()) {
+              <button (click)="replaceCurrent()" [disabled]="matches().length === 0" class="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50">Replace</button>
+              <button (click)="replaceAll()" [disabled]="matches().length === 0" class="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50">Replace All</button>
+            }
+          </div>
+        }
+        <div class="flex-grow flex overflow-hidden font-mono text-sm leading-6">
+          <div #gutter class="flex-shrink-0 overflow-hidden select-none text-right text-slate-600 bg-slate-950 border-r border-slate-800 py-4 px-3">
+            @for (line of lineNumbers(); track line) {
+              <div [class.text-slate-300]="line === highlightedLine()">{{ line }}</div>
+            }
+          </div>
+          <div class="relative flex-grow overflow-hidden">
+            <pre #highlight aria-hidden="true" class="absolute inset-0 m-0 p-4 overflow-hidden pointer-events-none whitespace-pre text-slate-300 font-mono text-sm leading-6"><code [innerHTML]="highlightedHtml()"></code></pre>
+            <textarea #editor
+                      [value]="draft()"
+                      (input)="onInput($event)"
+                      (scroll)="syncScroll()"
+                      (keydown)="onKeydown($event)"
+                      [readOnly]="readOnly()"
+                      wrap="off"
+                      spellcheck="false"
+                      autocapitalize="off"
+                      autocomplete="off"
+                      class="absolute inset-0 w-full h-full m-0 p-4 bg-transparent text-transparent caret-slate-100 selection:bg-blue-500/30 resize-none outline-none whitespace-pre overflow-auto font-mono text-sm leading-6"></textarea>
+          </div>
         </div>
       </div>
     } @else {
@@ -38,10 +80,171 @@ import { CommonModule } from '@angular/common';
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class CodeAreaComponent {
+  private syntaxHighlightService = inject(SyntaxHighlightService);
+
   fileName = input<string | null>(null);
   fileContent = input<string | null>(null);
+  readOnly = input<boolean>(false);
+  /** 1-based line to scroll to and mark, e.g. when opening a problem. A new object re-reveals the same line. */
+  revealLine = input<{ line: number } | null>(null);
+  pinnable = input<boolean>(false);
+  save = output<string>();
+  dirtyChange = output<boolean>();
+  pin = output<PinnedContext>();
+
+  private editor = viewChild<ElementRef<HTMLTextAreaElement>>('editor');
+  private highlight = viewChild<ElementRef<HTMLPreElement>>('highlight');
+  private gutter = viewChild<ElementRef<HTMLDivElement>>('gutter');
+  private searchInput = viewChild<ElementRef<HTMLInputElement>>('searchInput');
 
   copyButtonText = signal('Copy');
+  // Reset to the saved content whenever another file is shown or the saved content changes.
+  draft = linkedSignal({
+    source: () => ({ name: this.fileName(), content: this.fileContent() ?? '' }),
+    computation: source => source.content,
+  });
+  isDirty = computed(() => this.draft() !== (this.fileContent() ?? ''));
+
+  isSearchOpen = signal(false);
+  searchQuery = signal('');
+  replaceText = signal('');
+  matchCase = signal(false);
+  activeMatch = signal(0);
+  highlightedLine = computed(() => this.revealLine()?.line ?? null);
+
+  lineNumbers = computed(() => Array.from({ length: this.draft().split('\n').length }, (_, i) => i + 1));
+  highlightedHtml = computed(() => {
+    const language = this.syntaxHighlightService.languageFor(this.fileName());
+    // The trailing newline keeps the last line visible when the textarea is scrolled to the bottom.
+    return this.syntaxHighlightService.highlightLines(this.draft(), language).join('\n') + '\n';
+  });
+
+  matches = computed(() => {
+    const query = this.searchQuery();
+    if (!query) return [];
+    const text = this.matchCase() ? this.draft() : this.draft().toLowerCase();
+    const needle = this.matchCase() ? query : query.toLowerCase();
+    const found: number[] = [];
+    for (let index = text.indexOf(needle); index >= 0; index = text.indexOf(needle, index + needle.length)) {
+      found.push(index);
+    }
+    return found;
+  });
+
+  constructor() {
+    effect(() => this.dirtyChange.emit(this.isDirty()));
+    // Scroll after rendering so the textarea already holds the revealed file's content.
+    afterRenderEffect(() => {
+      const line = this.revealLine()?.line;
+      const textarea = this.editor()?.nativeElement;
+      if (!line || !textarea) return;
+      this.scrollToLine(textarea, line);
+    });
+  }
+
+  onInput(event: Event): void {
+    this.draft.set((event.target as HTMLTextAreaElement).value);
+  }
+
+  syncScroll(): void {
+    const textarea = this.editor()?.nativeElement;
+    if (!textarea) return;
+    const highlight = this.highlight()?.nativeElement;
+    const gutter = this.gutter()?.nativeElement;
+    if (highlight) {
+      highlight.scrollTop = textarea.scrollTop;
+      highlight.scrollLeft = textarea.scrollLeft;
+    }
+    if (gutter) gutter.scrollTop = textarea.scrollTop;
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    const textarea = event.target as HTMLTextAreaElement;
+    const modifier = event.ctrlKey || event.metaKey;
+    if (modifier && event.key.toLowerCase() === 's') {
+      event.preventDefault();
+      this.saveDraft();
+    } else if (modifier && event.key.toLowerCase() === 'f') {
+      event.preventDefault();
+      this.openSearch(textarea.value.slice(textarea.selectionStart, textarea.selectionEnd));
+    } else if (event.key === 'Tab' && !modifier && !this.readOnly()) {
+      event.preventDefault();
+      textarea.setRangeText('    ', textarea.selectionStart, textarea.selectionEnd, 'end');
+      this.draft.set(textarea.value);
+    }
+  }
+
+  saveDraft(): void {
+    if (!this.readOnly() && this.isDirty()) this.save.emit(this.draft());
+  }
+
+  revert(): void {
+    this.draft.set(this.fileContent() ?? '');
+  }
+
+  toggleSearch(): void {
+    if (this.isSearchOpen()) {
+      this.isSearchOpen.set(false);
+      this.editor()?.nativeElement.focus();
+    } else {
+      this.openSearch('');
+    }
+  }
+
+  findNext(direction: 1 | -1): void {
+    const count = this.matches().length;
+    if (count === 0) return;
+    const textarea = this.editor()?.nativeElement;
+    const caret = textarea?.selectionStart ?? 0;
+    const current = this.matches()[this.activeMatch()];
+    // Move relative to the caret when the user has clicked elsewhere since the last search.
+    const next = current === caret
+      ? (this.activeMatch() + direction + count) % count
+      : direction === 1
+        ? Math.max(0, this.matches().findIndex(index => index >= caret))
+        : Math.max(0, this.matches().length - 1 - [...this.matches()].reverse().findIndex(index => index < caret));
+    this.selectMatch(next);
+  }
+
+  replaceCurrent(): void {
+    if (this.matches().length === 0 || this.readOnly()) return;
+    const index = this.matches()[this.activeMatch()] ?? this.matches()[0];
+    const draft = this.draft();
+    this.draft.set(draft.slice(0, index) + this.replaceText() + draft.slice(index + this.searchQuery().length));
+    if (this.matches().length > 0) this.selectMatch(this.activeMatch() % this.matches().length);
+  }
+
+  replaceAll(): void {
+    if (this.matches().length === 0 || this.readOnly()) return;
+    const escaped = this.searchQuery().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const replacement = this.replaceText();
+    this.draft.set(this.draft().replace(new RegExp(escaped, this.matchCase() ? 'g' : 'gi'), () => replacement));
+    this.activeMatch.set(0);
+  }
+
+  pinToChat(path: string): void {
+    const textarea = this.editor()?.nativeElement;
+    const draft = this.draft();
+    // The textarea keeps its selection while the button has focus.
+    let start = textarea?.selectionStart ?? 0;
+    let end = textarea?.selectionEnd ?? 0;
+    if (start === end) {
+      this.pin.emit({ path });
+      return;
+    }
+    if (draft[end - 1] === '\n') end--;
+    start = draft.lastIndexOf('\n', start - 1) + 1;
+    const endOfLine = draft.indexOf('\n', end);
+    end = endOfLine < 0 ? draft.length : endOfLine;
+    this.pin.emit({
+      path,
+      selection: {
+        startLine: draft.slice(0, start).split('\n').length,
+        endLine: draft.slice(0, end).split('\n').length,
+        text: draft.slice(start, end),
+      },
+    });
+  }
 
   copyToClipboard(text: string): void {
     navigator.clipboard.writeText(text).then(() => {
@@ -49,4 +252,31 @@ export class CodeAreaComponent {
       setTimeout(() => this.copyButtonText.set('Copy'), 2000);
     });
   }
+
+  private openSearch(initialQuery: string): void {
+    this.isSearchOpen.set(true);
+    if (initialQuery && !initialQuery.includes('\n')) {
+      this.searchQuery.set(initialQuery);
+      this.activeMatch.set(0);
+    }
+    setTimeout(() => this.searchInput()?.nativeElement.select());
+  }
+
+  private selectMatch(matchIndex: number): void {
+    const textarea = this.editor()?.nativeElement;
+    const start = this.matches()[matchIndex];
+    if (!textarea || start === undefined) return;
+    this.activeMatch.set(matchIndex);
+    // Keep the textarea in sync before selecting, since the signal update has not been rendered yet.
+    textarea.value = this.draft();
+    textarea.focus();
+    textarea.setSelectionRange(start, start + this.searchQuery().length);
+    this.scrollToLine(textarea, this.draft().slice(0, start).split('\n').length);
+  }
+
+  private scrollToLine(textarea: HTMLTextAreaElement, line: number): void {
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 24;
+    textarea.scrollTop = Math.max(0, (line - 5) * lineHeight);
+    this.syncScroll();
+  }
 }
@@ -0,0 +1,262 @@
+import { Component, ChangeDetectionStrategy, input, output, computed, signal, linkedSignal, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { FileChange, GeneratedProject } from '../models/project.model';
+import { DependencyService, DependencyEditError } from '../services/dependency.service';
+
+/** Edits to .csproj files made from the panel, with the dependency list they leave the project with. */
+export interface DependencyOperation {
+  changes: FileChange[];
+  dependencies: string[];
+  description: string;
+}
+
+@Component({
+  selector: 'app-dependencies-panel',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="h-full flex flex-col">
+      <div class="flex-shrink-0 p-3 flex items-center justify-between gap-2 border-b border-slate-200 dark:border-slate-800">
+        <p class="text-xs text-slate-500 dark:text-slate-400">
+          {{ packageCount() }} package reference(s) in {{ report().projects.length }} project(s)
+          @if (report().centralPropsPath; as props) { &middot; versions managed in {{ props }} }
+        </p>
+        <button (click)="syncDependencyList()" [disabled]="disabled() || !listOutOfSync()" title="Make the dependency list match the .csproj references" class="px-3 py-1.5 text-xs text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 dark:disabled:bg-slate-600 rounded-md transition-colors">Sync Dependency List</button>
+      </div>
+      @if (error() || localError()) {
+        <p class="flex-shrink-0 px-3 pt-2 text-xs text-red-600 dark:text-red-400">{{ localError() || error() }}</p>
+      }
+
+      <div class="flex-grow overflow-y-auto p-3 space-y-4 text-sm">
+        @if (report().projects.length === 0) {
+          <p class="p-4 text-center text-slate-500">The project has no .csproj files yet.</p>
+        }
+
+        @if (report().issues.length > 0) {
+          <div class="space-y-1">
+            @for (issue of report().issues; track $index) {
+              <button (click)="select.emit({ path: issue.path, line: issue.line })" class="w-full text-left flex items-start gap-2 p-1.5 rounded-md text-xs hover:bg-slate-100 dark:hover:bg-slate-800">
+                <span [class]="'mt-1 w-2 h-2 flex-shrink-0 rounded-full ' + (issue.severity === 'error' ? 'bg-red-500' : 'bg-yellow-500')"></span>
+                <span class="text-slate-700 dark:text-slate-300">{{ issue.message }}</span>
+              </button>
+            }
+          </div>
+        }
+
+        @if (report().missing.length > 0 || report().unreferenced.length > 0) {
+          <div class="space-y-1">
+            @for (entry of report().missing; track entry.name) {
+              <div class="flex items-center justify-between gap-2 p-2 rounded-md bg-red-50 dark:bg-red-900/20 text-xs">
+                <span class="min-w-0 truncate"><span class="font-mono font-semibold">{{ entry.name }}</span> is used in code but not referenced</span>
+                <button (click)="addPackage(targetProject(), entry.name, suggestFor(entry.name))" [disabled]="disabled() || !targetProject()" class="flex-shrink-0 px-2 py-1 rounded-md bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50">Add Reference</button>
+              </div>
+            }
+            @for (name of report().unreferenced; track name) {
+              <div class="flex items-center justify-between gap-2 p-2 rounded-md bg-yellow-50 dark:bg-yellow-900/20 text-xs">
+                <span class="min-w-0 truncate"><span class="font-mono font-semibold">{{ name }}</span> is listed but no .csproj references it</span>
+                <div class="flex-shrink-0 flex gap-1">
+                  <button (click)="addPackage(targetProject(), name, suggestFor(name))" [disabled]="disabled() || !targetProject()" class="px-2 py-1 rounded-md bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50">Add Reference</button>
+                  <button (click)="unlist(name)" [disabled]="disabled()" class="px-2 py-1 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50">Unlist</button>
+                </div>
+              </div>
+            }
+          </div>
+        }
+
+        @for (project of report().projects; track project.path) {
+          <div class="border border-slate-200 dark:border-slate-800 rounded-md">
+            <button (click)="select.emit({ path: project.path })" class="w-full flex items-center justify-between gap-2 px-3 py-2 bg-slate-50 dark:bg-slate-800/50 rounded-t-md text-left">
+              <span class="font-mono text-xs font-semibold truncate">{{ project.path }}</span>
+              <span class="text-xs text-slate-500 flex-shrink-0">{{ project.targetFramework || 'no target framework' }}</span>
+            </button>
+            <div class="divide-y divide-slate-200 dark:divide-slate-800">
+              @for (pkg of project.packages; track pkg.name) {
+                <div class="px-3 py-2 flex items-center gap-2">
+                  <div class="min-w-0 flex-grow">
+                    <button (click)="select.emit({ path: project.path, line: pkg.line })" [title]="pkg.info?.description || 'Not in the offline package snapshot'" class="font-mono text-xs text-slate-800 dark:text-slate-200 truncate max-w-full text-left hover:underline">{{ pkg.name }}</button>
+                    <div class="flex flex-wrap gap-1 mt-0.5">
+                      @if (!pkg.listed) { <span class="px-1.5 rounded text-[10px] bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-300">not listed</span> }
+                      @if (pkg.used === false) { <span class="px-1.5 rounded text-[10px] bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-300">unused</span> }
+                      @if (conflicts().has(pkg.name.toLowerCase())) { <span class="px-1.5 rounded text-[10px] bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-300">version conflict</span> }
+                      @if (pkg.suggestedVersion && pkg.version !== pkg.suggestedVersion) {
+                        <button (click)="setVersion(project.path, pkg.name, pkg.suggestedVersion)" [disabled]="disabled()" class="px-1.5 rounded text-[10px] bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-300 hover:underline disabled:opacity-50">use {{ pkg.suggestedVersion }}</button>
+                      }
+                    </div>
+                  </div>
+                  <input [ngModel]="draftVersion(project.path, pkg.name, pkg.version)" (ngModelChange)="setDraft(project.path, pkg.name, $event)"
+                         (keydown.enter)="applyDraft(project.path, pkg.name, pkg.version)"
+                         [attr.list]="'dependency-versions-' + pkg.name" [disabled]="disabled()" placeholder="version"
+                         class="w-24 px-2 py-1 text-xs font-mono bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+                  <datalist [id]="'dependency-versions-' + pkg.name">
+                    @for (version of versionsOf(pkg.name); track version) { <option [value]="version"></option> }
+                  </datalist>
+                  @if (draftVersion(project.path, pkg.name, pkg.version) !== (pkg.version ?? '')) {
+                    <button (click)="applyDraft(project.path, pkg.name, pkg.version)" [disabled]="disabled()" class="px-2 py-1 text-xs text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50">Set</button>
+                  }
+                  <button (click)="removePackage(project.path, pkg.name)" [disabled]="disabled()" title="Remove reference" class="p-1 rounded-md text-slate-500 hover:text-red-600 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50">
+                    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+                  </button>
+                </div>
+              } @empty {
+                <p class="px-3 py-2 text-xs text-slate-500">No package references.</p>
+              }
+            </div>
+          </div>
+        }
+      </div>
+
+      @if (report().projects.length > 0) {
+        <div class="flex-shrink-0 p-3 border-t border-slate-200 dark:border-slate-800 space-y-2">
+          @if (report().projects.length > 1) {
+            <select [ngModel]="targetProject()" (ngModelChange)="targetProject.set($event)" class="w-full px-2 py-1 text-xs bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+              @for (project of report().projects; track project.path) { <option [value]="project.path">{{ project.path }}</option> }
+            </select>
+          }
+          <div class="flex gap-2">
+            <input [ngModel]="newName()" (ngModelChange)="onNewNameChange($event)" list="dependency-package-ids" placeholder="Package id"
+                   class="flex-grow min-w-0 px-2 py-1 text-xs font-mono bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+            <datalist id="dependency-package-ids">
+              @for (id of packageSuggestions(); track id) { <option [value]="id"></option> }
+            </datalist>
+            <input [ngModel]="newVersion()" (ngModelChange)="newVersion.set($event)" list="dependency-new-versions" placeholder="version"
+                   class="w-24 px-2 py-1 text-xs font-mono bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+            <datalist id="dependency-new-versions">
+              @for (version of versionsOf(newName()); track version) { <option [value]="version"></option> }
+            </datalist>
+            <button (click)="addNewPackage()" [disabled]="disabled() || !newName().trim() || !newVersion().trim()" class="px-3 py-1 text-xs text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 dark:disabled:bg-slate-600 rounded-md">Add</button>
+          </div>
+        </div>
+      }
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DependenciesPanelComponent {
+  private dependencyService = inject(DependencyService);
+
+  project = input.required<GeneratedProject>();
+  disabled = input<boolean>(false);
+  error = input<string>('');
+  operation = output<DependencyOperation>();
+  select = output<{ path: string; line?: number }>();
+
+  localError = signal<string>('');
+  newName = signal<string>('');
+  newVersion = signal<string>('');
+
+  report = computed(() => this.dependencyService.analyze(this.project()));
+  packageCount = computed(() => this.report().projects.reduce((count, project) => count + project.packages.length, 0));
+  conflicts = computed(() => {
+    const versions = new Map<string, Set<string | null>>();
+    for (const pkg of this.report().projects.flatMap(p => p.packages)) {
+      const key = pkg.name.toLowerCase();
+      versions.set(key, (versions.get(key) ?? new Set()).add(pkg.version));
+    }
+    return new Set([...versions].filter(([, set]) => set.size > 1).map(([name]) => name));
+  });
+  listOutOfSync = computed(() => this.report().unreferenced.length > 0 || this.report().projects.some(p => p.packages.some(pkg => !pkg.listed)));
+  packageSuggestions = computed(() => this.dependencyService.searchPackages(this.newName()).slice(0, 30));
+
+  /** Unsaved version edits keyed by project path and package; cleared whenever the project changes. */
+  drafts = linkedSignal<GeneratedProject, { [key: string]: string }>({ source: this.project, computation: () => ({}) });
+  targetProject = linkedSignal(() => {
+    const projects = this.report().projects;
+    // Prefer the application project over test projects when adding references.
+    return (projects.find(p => !/test/i.test(p.path)) ?? projects[0])?.path ?? '';
+  });
+
+  versionsOf(name: string): string[] {
+    return this.dependencyService.versionsOf(name);
+  }
+
+  suggestFor(name: string): string {
+    const project = this.report().projects.find(p => p.path === this.targetProject());
+    return this.dependencyService.suggestVersion(name, project?.targetFramework ?? null) ?? '*';
+  }
+
+  draftVersion(path: string, name: string, version: string | null): string {
+    return this.drafts()[`${path}|${name}`] ?? version ?? '';
+  }
+
+  setDraft(path: string, name: string, value: string): void {
+    this.drafts.update(drafts => ({ ...drafts, [`${path}|${name}`]: value }));
+  }
+
+  applyDraft(path: string, name: string, version: string | null): void {
+    const draft = this.draftVersion(path, name, version).trim();
+    if (draft && draft !== version) this.setVersion(path, name, draft);
+  }
+
+  onNewNameChange(name: string): void {
+    this.newName.set(name);
+    const suggestion = this.dependencyService.suggestVersion(name.trim(), this.report().projects.find(p => p.path === this.targetProject())?.targetFramework ?? null);
+    if (suggestion) this.newVersion.set(suggestion);
+  }
+
+  addNewPackage(): void {
+    if (this.addPackage(this.targetProject(), this.newName().trim(), this.newVersion().trim())) {
+      this.newName.set('');
+      this.newVersion.set('');
+    }
+  }
+
+  setVersion(path: string, name: string, version: string): void {
+    const props = this.report().centralPropsPath;
+    if (props) {
+      this.edit([[props, xml => this.dependencyService.setCentralVersion(xml, name, version)]], this.project().dependencies, `Set ${name} to ${version} in ${props}`);
+    } else {
+      this.edit([[path, xml => this.dependencyService.setPackageVersion(xml, name, version)]], this.project().dependencies, `Set ${name} to ${version} in ${path}`);
+    }
+  }
+
+  addPackage(path: string, name: string, version: string): boolean {
+    const dependencies = this.project().dependencies;
+    const listed = dependencies.some(dep => this.packageName(dep) === name.toLowerCase());
+    const props = this.report().centralPropsPath;
+    // With central package management the version goes into Directory.Packages.props, never the .csproj.
+    const updates: [string, (xml: string) => string][] = props
+      ? [[path, xml => this.dependencyService.addPackageReference(xml, name, null)], [props, xml => this.dependencyService.setCentralVersion(xml, name, version)]]
+      : [[path, xml => this.dependencyService.addPackageReference(xml, name, version)]];
+    return this.edit(updates, listed ? dependencies : [...dependencies, name], `Added ${name} ${version} to ${path}`);
+  }
+
+  removePackage(path: string, name: string): void {
+    const stillReferenced = this.report().projects.some(p => p.path !== path && p.packages.some(pkg => pkg.name.toLowerCase() === name.toLowerCase()));
+    const dependencies = stillReferenced ? this.project().dependencies : this.project().dependencies.filter(dep => this.packageName(dep) !== name.toLowerCase());
+    this.edit([[path, xml => this.dependencyService.removePackageReference(xml, name)]], dependencies, `Removed ${name} from ${path}`);
+  }
+
+  unlist(name: string): void {
+    const dependencies = this.project().dependencies.filter(dep => this.packageName(dep) !== name.toLowerCase());
+    this.operation.emit({ changes: [], dependencies, description: `Removed ${name} from the dependency list` });
+  }
+
+  syncDependencyList(): void {
+    const referenced = [...new Set(this.report().projects.flatMap(p => p.packages.map(pkg => pkg.name)))];
+    const kept = this.project().dependencies.filter(dep => referenced.some(name => name.toLowerCase() === this.packageName(dep)));
+    const added = referenced.filter(name => !kept.some(dep => this.packageName(dep) === name.toLowerCase()));
+    this.operation.emit({ changes: [], dependencies: [...kept, ...added], description: 'Synced the dependency list with the .csproj references' });
+  }
+
+  private edit(updates: [string, (xml: string) => string][], dependencies: string[], description: string): boolean {
+    const changes: FileChange[] = [];
+    try {
+      for (const [path, update] of updates) {
+        const xml = this.project().files[path];
+        if (xml === undefined) return false;
+        changes.push({ operation: 'update', path, content: update(xml) });
+      }
+    } catch (error) {
+      this.localError.set(error instanceof DependencyEditError ? error.message : 'The project file could not be updated.');
+      return false;
+    }
+    this.localError.set('');
+    this.operation.emit({ changes, dependencies, description });
+    return true;
+  }
+
+  private packageName(dependency: string): string {
+    return dependency.trim().split(/\s+/)[0].toLowerCase();
+  }
+}
@@ -0,0 +1,99 @@
+import { Component, ChangeDetectionStrategy, input, output, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FileDiff } from '../services/diff.service';
+
+@Component({
+  selector: 'app-diff-viewer',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="h-full flex flex-col bg-slate-950">
+      <div class="flex-shrink-0 bg-slate-100 dark:bg-slate-900 p-3 flex justify-between items-center gap-3 border-b border-slate-200 dark:border-slate-800">
+        <div>
+          <h3 class="text-sm font-semibold text-slate-800 dark:text-slate-100">{{ title() }}</h3>
+          <p class="text-xs text-slate-500 dark:text-slate-400">
+            {{ diffs().length }} file(s) changed
+            @if (mode() === 'review') { &middot; {{ acceptedCount() }} accepted }
+          </p>
+        </div>
+        <div class="flex gap-2">
+          @if (mode() === 'review') {
+            <button (click)="discard.emit()" class="px-3 py-1.5 text-xs bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-md transition-colors">Discard All</button>
+            <button (click)="apply.emit()" [disabled]="acceptedCount() === 0" class="px-3 py-1.5 text-xs text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-500 rounded-md transition-colors">Apply {{ acceptedCount() }} Change(s)</button>
+          } @else {
+            <button (click)="close.emit()" class="px-3 py-1.5 text-xs bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-md transition-colors">Close</button>
+          }
+        </div>
+      </div>
+      <div class="flex-grow flex overflow-hidden">
+        <div class="w-64 flex-shrink-0 overflow-y-auto border-r border-slate-800 bg-slate-900 p-2 space-y-1">
+          @for (diff of diffs(); track diff.path) {
+            <div [class]="'rounded-md p-2 text-xs cursor-pointer ' + (diff.path === activeDiff()?.path ? 'bg-slate-700' : 'hover:bg-slate-800')" (click)="selectedPath.set(diff.path)">
+              <div class="flex items-center gap-2">
+                @if (mode() === 'review') {
+                  <input type="checkbox" [checked]="isAccepted(diff.path)" (click)="$event.stopPropagation()" (change)="decisionChange.emit({ path: diff.path, accepted: !isAccepted(diff.path) })" class="h-3.5 w-3.5 rounded border-slate-500 text-blue-600 focus:ring-blue-500">
+                }
+                <span [class]="'font-bold uppercase ' + statusClass(diff.status)">{{ diff.status[0] }}</span>
+                <span class="font-mono text-slate-200 truncate" [title]="diff.path">{{ diff.path }}</span>
+              </div>
+              <div class="mt-1 pl-6 font-mono"><span class="text-green-400">+{{ diff.additions }}</span> <span class="text-red-400">-{{ diff.deletions }}</span></div>
+            </div>
+          }
+        </div>
+        <div class="flex-grow overflow-auto">
+          @if (activeDiff(); as diff) {
+            <table class="w-full text-xs font-mono border-collapse table-fixed">
+              <colgroup><col class="w-12"><col><col class="w-12"><col></colgroup>
+              <tbody>
+                @for (row of diff.rows; track $index) {
+                  @if (row.type === 'collapsed') {
+                    <tr class="bg-slate-900 text-slate-500"><td colspan="4" class="px-3 py-1 text-center">&#8943; {{ row.hiddenLines }} unchanged line(s)</td></tr>
+                  } @else {
+                    <tr>
+                      <td class="px-2 text-right text-slate-600 select-none align-top" [class]="row.left && row.type !== 'equal' ? 'bg-red-950/60' : ''">{{ row.left?.number }}</td>
+                      <td class="px-2 whitespace-pre-wrap break-all align-top border-r border-slate-800" [class]="row.left && row.type !== 'equal' ? 'bg-red-950/60 text-red-200' : 'text-slate-400'">{{ row.left?.text }}</td>
+                      <td class="px-2 text-right text-slate-600 select-none align-top" [class]="row.right && row.type !== 'equal' ? 'bg-green-950/60' : ''">{{ row.right?.number }}</td>
+                      <td class="px-2 whitespace-pre-wrap break-all align-top" [class]="row.right && row.type !== 'equal' ? 'bg-green-950/60 text-green-200' : 'text-slate-400'">{{ row.right?.text }}</td>
+                    </tr>
+                  }
+                }
+              </tbody>
+            </table>
+          } @else {
+            <div class="w-full h-full flex items-center justify-center text-slate-500">
+              <p>No changes to show.</p>
+            </div>
+          }
+        </div>
+      </div>
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DiffViewerComponent {
+  title = input<string>('Review Changes');
+  mode = input<'review' | 'compare'>('review');
+  diffs = input.required<FileDiff[]>();
+  decisions = input<{ [path: string]: boolean }>({});
+  decisionChange = output<{ path: string; accepted: boolean }>();
+  apply = output<void>();
+  discard = output<void>();
+  close = output<void>();
+
+  selectedPath = signal<string | null>(null);
+
+  activeDiff = computed(() => {
+    const diffs = this.diffs();
+    return diffs.find(d => d.path === this.selectedPath()) ?? diffs[0] ?? null;
+  });
+
+  acceptedCount = computed(() => this.diffs().filter(d => this.decisions()[d.path]).length);
+
+  isAccepted(path: string): boolean {
+    return !!this.decisions()[path];
+  }
+
+  statusClass(status: FileDiff['status']): string {
+    return status === 'added' ? 'text-green-400' : status === 'removed' ? 'text-red-400' : 'text-yellow-400';
+  }
+}
@@ -1,5 +1,7 @@
-import { Component, ChangeDetectionStrategy, input, output, computed, signal } from '@angular/core';
+import { Component, ChangeDetectionStrategy, input, output, computed, signal, linkedSignal, effect, viewChild, ElementRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { FileChange } from '../models/project.model';
 
 interface TreeNode {
   name: string;
@@ -9,51 +11,195 @@ interface TreeNode {
   level: number;
 }
 
+/** A set of file changes made from the tree, plus the file to select once they are applied. */
+export interface FileTreeOperation {
+  changes: FileChange[];
+  description: string;
+  select?: string;
+}
+
+interface SearchResult {
+  path: string;
+  line: number;
+  text: string;
+}
+
+type EditState =
+  | { mode: 'create-file' | 'create-folder'; parent: string; value: string }
+  | { mode: 'rename'; node: TreeNode; value: string };
+
+const MAX_SEARCH_RESULTS = 200;
+
 @Component({
   selector: 'app-file-tree',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, FormsModule],
   template: `
-    <div class="h-full flex flex-col">
-      <div class="p-4 border-b border-slate-200 dark:border-slate-800 flex-shrink-0">
-        <h3 class="text-lg font-semibold text-slate-900 dark:text-white">Project Files</h3>
+    <div class="h-full flex flex-col" (click)="contextMenu.set(null)">
+      <div class="p-4 border-b border-slate-200 dark:border-slate-800 flex-shrink-0 space-y-3">
+        <div class="flex items-center justify-between">
+          <h3 class="text-lg font-semibold text-slate-900 dark:text-white">Project Files</h3>
+          @if (!readOnly()) {
+            <div class="flex gap-1">
+              <button (click)="startCreate('create-file', currentFolder())" title="New file (Alt+N)" class="p-1.5 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800">
+                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14.5 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7.5L14.5 2z"/><line x1="12" x2="12" y1="11" y2="17"/><line x1="9" x2="15" y1="14" y2="14"/></svg>
+              </button>
+              <button (click)="startCreate('create-folder', currentFolder())" title="New folder (Alt+Shift+N)" class="p-1.5 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800">
+                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M4 20h16a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.93a2 2 0 0 1-1.66-.9l-.82-1.2A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13c0 1.1.9 2 2 2Z"/><line x1="12" x2="12" y1="10" y2="16"/><line x1="9" x2="15" y1="13" y2="13"/></svg>
+              </button>
+            </div>
+          }
+        </div>
+        <div class="flex rounded-md bg-slate-200 dark:bg-slate-800 p-0.5 text-xs">
+          <button (click)="mode.set('files')" [class]="'flex-1 py-1 rounded ' + (mode() === 'files' ? 'bg-white dark:bg-slate-700 shadow-sm' : '')">Files</button>
+          <button (click)="mode.set('search')" [class]="'flex-1 py-1 rounded ' + (mode() === 'search' ? 'bg-white dark:bg-slate-700 shadow-sm' : '')">Search</button>
+        </div>
+        @if (mode() === 'files') {
+          <input [ngModel]="filter()" (ngModelChange)="filter.set($event)" placeholder="Filter by name" class="w-full px-2 py-1 text-sm bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+        } @else {
+          <input [ngModel]="searchQuery()" (ngModelChange)="searchQuery.set($event)" placeholder="Search in file contents" class="w-full px-2 py-1 text-sm bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+        }
+        @if (error() || localError()) {
+          <p class="text-xs text-red-600 dark:text-red-400">{{ localError() || error() }}</p>
+        }
       </div>
-      <div class="flex-grow p-2 overflow-y-auto">
-        @for(node of fileTree(); track node.path) {
-          <button (click)="onNodeClick(node)" 
-                  [style.paddingLeft]="node.level * 1.25 + 'rem'"
-                  [class]="'w-full text-left text-sm py-1.5 px-2 rounded-md flex items-center gap-2 ' + (node.path === selectedFile() ? 'bg-blue-600 text-white' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800')">
-            @if(node.type === 'folder') {
-              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="opacity-70"><path d="M4 20h16a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.93a2 2 0 0 1-1.66-.9l-.82-1.2A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13c0 1.1.9 2 2 2Z"/></svg>
+
+      @if (mode() === 'files') {
+        <div #tree tabindex="0" class="flex-grow p-2 overflow-y-auto outline-none"
+             (keydown)="onKeydown($event)"
+             (contextmenu)="openContextMenu($event, null)"
+             (dragover)="onDragOver($event, null)"
+             (drop)="onDrop($event, null)">
+          @if (edit(); as state) {
+            @if (state.mode !== 'rename' && state.parent === '') {
+              <ng-container *ngTemplateOutlet="editInput; context: { level: 0 }" />
+            }
+          }
+          @for(node of fileTree(); track node.path) {
+            @if (isRenaming(node)) {
+              <ng-container *ngTemplateOutlet="editInput; context: { level: node.level }" />
             } @else {
-              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="opacity-50"><path d="M14.5 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7.5L14.5 2z"/><polyline points="14 2 14 8 20 8"/></svg>
+              <button (click)="onNodeClick(node)"
+                      (contextmenu)="openContextMenu($event, node)"
+                      [draggable]="!readOnly()"
+                      (dragstart)="onDragStart($event, node)"
+                      (dragover)="onDragOver($event, node)"
+                      (dragleave)="dropTarget.set(null)"
+                      (drop)="onDrop($event, node)"
+                      [style.paddingLeft]="node.level * 1.25 + 0.5 + 'rem'"
+                      [class]="'w-full text-left text-sm py-1.5 px-2 rounded-md flex items-center gap-2 ' + nodeClass(node)">
+                @if(node.type === 'folder') {
+                  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="opacity-70 flex-shrink-0"><path d="M4 20h16a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.93a2 2 0 0 1-1.66-.9l-.82-1.2A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13c0 1.1.9 2 2 2Z"/></svg>
+                } @else {
+                  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="opacity-50 flex-shrink-0"><path d="M14.5 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7.5L14.5 2z"/><polyline points="14 2 14 8 20 8"/></svg>
+                }
+                <span class="truncate">{{ node.name }}</span>
+              </button>
             }
-            <span>{{ node.name }}</span>
-          </button>
-        }
-      </div>
+            @if (edit(); as state) {
+              @if (state.mode !== 'rename' && node.type === 'folder' && state.parent === node.path) {
+                <ng-container *ngTemplateOutlet="editInput; context: { level: node.level + 1 }" />
+              }
+            }
+          } @empty {
+            <p class="p-2 text-sm text-slate-500">{{ filter() ? 'No files match the filter.' : 'No files.' }}</p>
+          }
+        </div>
+      } @else {
+        <div class="flex-grow p-2 overflow-y-auto text-xs">
+          @if (searchQuery().trim().length < 2) {
+            <p class="p-2 text-slate-500">Type at least two characters to search all files.</p>
+          } @else {
+            <p class="px-2 pb-2 text-slate-500">{{ searchResults().length }}{{ searchResults().length >= maxSearchResults ? '+' : '' }} match(es)</p>
+            @for (result of searchResults(); track $index) {
+              <button (click)="locationSelected.emit({ path: result.path, line: result.line })" class="w-full text-left p-2 rounded-md hover:bg-slate-200 dark:hover:bg-slate-800">
+                <p class="font-mono text-slate-500 truncate">{{ result.path }}:{{ result.line }}</p>
+                <p class="font-mono text-slate-700 dark:text-slate-300 truncate">{{ result.text }}</p>
+              </button>
+            }
+          }
+        </div>
+      }
+
+      @if (contextMenu(); as menu) {
+        <div class="fixed z-40 min-w-40 py-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-md shadow-lg text-sm" [style.left.px]="menu.x" [style.top.px]="menu.y" (click)="$event.stopPropagation()">
+          <button (click)="startCreate('create-file', folderFor(menu.node))" class="block w-full text-left px-3 py-1.5 hover:bg-slate-100 dark:hover:bg-slate-700">New File</button>
+          <button (click)="startCreate('create-folder', folderFor(menu.node))" class="block w-full text-left px-3 py-1.5 hover:bg-slate-100 dark:hover:bg-slate-700">New Folder</button>
+          @if (menu.node; as node) {
+            <button (click)="startRename(node)" class="block w-full text-left px-3 py-1.5 hover:bg-slate-100 dark:hover:bg-slate-700">Rename <span class="float-right text-xs text-slate-400">F2</span></button>
+            <button (click)="deleteNode(node)" class="block w-full text-left px-3 py-1.5 text-red-600 hover:bg-slate-100 dark:hover:bg-slate-700">Delete <span class="float-right text-xs text-slate-400">Del</span></button>
+          }
+        </div>
+      }
     </div>
+
+    <ng-template #editInput let-level="level">
+      <input #editField
+             [ngModel]="edit()?.value" (ngModelChange)="updateEditValue($event)"
+             (keydown.enter)="commitEdit()" (keydown.escape)="cancelEdit()" (blur)="cancelEdit()"
+             [style.marginLeft]="level * 1.25 + 0.5 + 'rem'"
+             [placeholder]="edit()?.mode === 'create-folder' ? 'Folder name' : 'File name'"
+             class="w-[calc(100%-1rem)] my-0.5 px-2 py-1 text-sm font-mono bg-white dark:bg-slate-800 border border-blue-500 rounded-md outline-none">
+    </ng-template>
   `,
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class FileTreeComponent {
   files = input.required<{ [key: string]: string }>();
+  /** The id of the open project; the tree's local state starts over when another project is opened. */
+  projectId = input<string | null>(null);
   selectedFile = input<string | null>(null);
+  readOnly = input<boolean>(false);
+  error = input<string>('');
   fileSelected = output<string>();
+  locationSelected = output<{ path: string; line: number }>();
+  operation = output<FileTreeOperation>();
+
+  readonly maxSearchResults = MAX_SEARCH_RESULTS;
+  private tree = viewChild<ElementRef<HTMLDivElement>>('tree');
+  private editField = viewChild<ElementRef<HTMLInputElement>>('editField');
 
-  // DO: Initialize signal for managing open folders state.
   openFolders = signal<Set<string>>(new Set());
+  // Folders only exist in the files dictionary through their files, so new empty folders live here until a file is added.
+  emptyFolders = linkedSignal<string | null, Set<string>>({ source: this.projectId, computation: () => new Set() });
+  focusedPath = signal<string | null>(null);
+  mode = signal<'files' | 'search'>('files');
+  filter = signal('');
+  searchQuery = signal('');
+  edit = signal<EditState | null>(null);
+  localError = signal('');
+  contextMenu = signal<{ x: number; y: number; node: TreeNode | null } | null>(null);
+  dropTarget = signal<string | null>(null);
+  private draggedNode: TreeNode | null = null;
+
+  constructor() {
+    // Reveal the selected file by expanding all of its parent folders.
+    effect(() => {
+      const selected = this.selectedFile();
+      if (!selected) return;
+      const parents = this.parentFolders(selected);
+      if (parents.every(folder => this.openFolders().has(folder))) return;
+      this.openFolders.update(open => new Set([...open, ...parents]));
+    });
+    effect(() => {
+      if (this.editField()) setTimeout(() => this.editField()?.nativeElement.select());
+    });
+  }
 
   fileTree = computed(() => {
-    const filePaths = Object.keys(this.files()).sort();
+    const query = this.filter().trim().toLowerCase();
+    const allPaths = Object.keys(this.files());
+    const filePaths = (query ? allPaths.filter(path => path.toLowerCase().split('/').pop()!.includes(query)) : allPaths).sort();
+    const folderPaths = query ? [] : [...this.emptyFolders()].filter(folder => !allPaths.some(path => path.startsWith(folder + '/')));
     const root: TreeNode[] = [];
     const map = new Map<string, TreeNode>();
 
-    for (const path of filePaths) {
+    for (const path of [...filePaths, ...folderPaths.map(folder => folder + '/')]) {
       const parts = path.split('/');
       let currentPath = '';
       for (let i = 0; i < parts.length; i++) {
         const name = parts[i];
+        if (!name) continue;
         const parentPath = currentPath;
         currentPath += (currentPath ? '/' : '') + name;
 
@@ -76,13 +222,15 @@ export class FileTreeComponent {
         }
       }
     }
-    
+
+    const byTypeThenName = (a: TreeNode, b: TreeNode) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1);
     const flattened: TreeNode[] = [];
     const open = this.openFolders();
     function flatten(nodes: TreeNode[]) {
-      for (const node of nodes) {
+      for (const node of [...nodes].sort(byTypeThenName)) {
         flattened.push(node);
-        if (node.type === 'folder' && open.has(node.path) && node.children) {
+        // While filtering, every folder on the way to a match is shown expanded.
+        if (node.type === 'folder' && (query || open.has(node.path)) && node.children) {
           flatten(node.children);
         }
       }
@@ -92,19 +240,254 @@ export class FileTreeComponent {
     return flattened;
   });
 
+  searchResults = computed<SearchResult[]>(() => {
+    const query = this.searchQuery().trim().toLowerCase();
+    if (query.length < 2) return [];
+    const results: SearchResult[] = [];
+    for (const [path, content] of Object.entries(this.files()).sort(([a], [b]) => a.localeCompare(b))) {
+      const lines = content.split('\n');
+      for (let i = 0; i < lines.length && results.length < MAX_SEARCH_RESULTS; i++) {
+        if (lines[i].toLowerCase().includes(query)) {
+          results.push({ path, line: i + 1, text: lines[i].trim().slice(0, 160) });
+        }
+      }
+    }
+    return results;
+  });
+
+  /** The folder new items are created in: the focused folder, or the folder of the focused/selected file. */
+  currentFolder = computed(() => {
+    const focused = this.focusedPath() ?? this.selectedFile();
+    if (!focused) return '';
+    return this.isFolder(focused) ? focused : this.parentOf(focused);
+  });
+
+  nodeClass(node: TreeNode): string {
+    if (this.dropTarget() === node.path) return 'bg-blue-100 dark:bg-blue-900/50 ring-1 ring-blue-500 text-slate-700 dark:text-slate-200';
+    if (node.path === this.selectedFile()) return 'bg-blue-600 text-white';
+    if (node.path === this.focusedPath()) return 'bg-slate-200 dark:bg-slate-800 text-slate-700 dark:text-slate-200';
+    return 'text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800';
+  }
+
   onNodeClick(node: TreeNode): void {
+    this.focusedPath.set(node.path);
     if (node.type === 'file') {
       this.fileSelected.emit(node.path);
     } else {
-      this.openFolders.update(open => {
-        const newSet = new Set(open);
-        if (newSet.has(node.path)) {
-          newSet.delete(node.path);
-        } else {
-          newSet.add(node.path);
-        }
-        return newSet;
+      this.toggleFolder(node.path);
+    }
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    if (this.edit()) return;
+    const nodes = this.fileTree();
+    const index = nodes.findIndex(node => node.path === (this.focusedPath() ?? this.selectedFile()));
+    const node = nodes[index];
+
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const next = nodes[Math.min(nodes.length - 1, Math.max(0, index + (event.key === 'ArrowDown' ? 1 : -1)))];
+      if (next) this.focusedPath.set(next.path);
+    } else if (event.key === 'Enter' && node) {
+      event.preventDefault();
+      this.onNodeClick(node);
+    } else if (this.readOnly()) {
+      return;
+    } else if (event.key === 'F2' && node) {
+      event.preventDefault();
+      this.startRename(node);
+    } else if (event.key === 'Delete' && node) {
+      event.preventDefault();
+      this.deleteNode(node);
+    } else if (event.altKey && event.key.toLowerCase() === 'n') {
+      event.preventDefault();
+      this.startCreate(event.shiftKey ? 'create-folder' : 'create-file', this.currentFolder());
+    }
+  }
+
+  openContextMenu(event: MouseEvent, node: TreeNode | null): void {
+    event.preventDefault();
+    event.stopPropagation();
+    if (this.readOnly()) return;
+    if (node) this.focusedPath.set(node.path);
+    this.contextMenu.set({ x: event.clientX, y: event.clientY, node });
+  }
+
+  folderFor(node: TreeNode | null): string {
+    if (!node) return '';
+    return node.type === 'folder' ? node.path : this.parentOf(node.path);
+  }
+
+  startCreate(mode: 'create-file' | 'create-folder', parent: string): void {
+    if (this.readOnly()) return;
+    this.contextMenu.set(null);
+    this.localError.set('');
+    this.filter.set('');
+    if (parent) this.openFolders.update(open => new Set([...open, parent, ...this.parentFolders(parent + '/')]));
+    this.edit.set({ mode, parent, value: '' });
+  }
+
+  startRename(node: TreeNode): void {
+    if (this.readOnly()) return;
+    this.contextMenu.set(null);
+    this.localError.set('');
+    this.edit.set({ mode: 'rename', node, value: node.name });
+  }
+
+  isRenaming(node: TreeNode): boolean {
+    const state = this.edit();
+    return state?.mode === 'rename' && state.node.path === node.path;
+  }
+
+  updateEditValue(value: string): void {
+    this.edit.update(state => state && { ...state, value });
+  }
+
+  cancelEdit(): void {
+    this.edit.set(null);
+    this.tree()?.nativeElement.focus();
+  }
+
+  commitEdit(): void {
+    const state = this.edit();
+    if (!state) return;
+    const name = state.value.trim().replace(/^\/+|\/+$/g, '');
+    if (!name || name.split('/').some(part => !part || part === '.' || part === '..')) {
+      this.localError.set('Enter a valid name.');
+      return;
+    }
+
+    if (state.mode === 'rename') {
+      const target = this.join(this.parentOf(state.node.path), name);
+      if (target !== state.node.path && !this.move(state.node, target)) return;
+    } else {
+      const target = this.join(state.parent, name);
+      if (this.exists(target)) {
+        this.localError.set(`${target} already exists.`);
+        return;
+      }
+      if (state.mode === 'create-folder') {
+        this.emptyFolders.update(folders => new Set([...folders, target]));
+        this.openFolders.update(open => new Set([...open, target]));
+        this.focusedPath.set(target);
+      } else {
+        this.operation.emit({ changes: [{ operation: 'create', path: target, content: '' }], description: `Created ${target}`, select: target });
+      }
+    }
+    this.localError.set('');
+    this.edit.set(null);
+  }
+
+  deleteNode(node: TreeNode): void {
+    this.contextMenu.set(null);
+    if (this.readOnly()) return;
+    const paths = node.type === 'file' ? [node.path] : this.filesUnder(node.path);
+    if (paths.length === 0) {
+      this.emptyFolders.update(folders => new Set([...folders].filter(folder => folder !== node.path && !folder.startsWith(node.path + '/'))));
+      return;
+    }
+    const label = node.type === 'file' ? node.path : `the folder ${node.path} and its ${paths.length} file(s)`;
+    if (!confirm(`Delete ${label}?`)) return;
+    this.operation.emit({ changes: paths.map(path => ({ operation: 'delete', path })), description: `Deleted ${node.path}` });
+  }
+
+  onDragStart(event: DragEvent, node: TreeNode): void {
+    if (this.readOnly()) return;
+    this.draggedNode = node;
+    event.dataTransfer?.setData('text/plain', node.path);
+    if (event.dataTransfer) event.dataTransfer.effectAllowed = 'move';
+  }
+
+  onDragOver(event: DragEvent, node: TreeNode | null): void {
+    if (!this.draggedNode) return;
+    const folder = node ? this.folderFor(node) : '';
+    if (!this.canMoveInto(this.draggedNode, folder)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    this.dropTarget.set(node?.type === 'folder' ? node.path : null);
+  }
+
+  onDrop(event: DragEvent, node: TreeNode | null): void {
+    event.preventDefault();
+    event.stopPropagation();
+    const dragged = this.draggedNode;
+    this.draggedNode = null;
+    this.dropTarget.set(null);
+    if (!dragged) return;
+    const folder = node ? this.folderFor(node) : '';
+    if (!this.canMoveInto(dragged, folder)) return;
+    if (folder) this.openFolders.update(open => new Set([...open, folder]));
+    this.move(dragged, this.join(folder, dragged.name));
+  }
+
+  /** Renames or moves a file or folder; returns false (and shows why) if the target is taken. */
+  private move(node: TreeNode, target: string): boolean {
+    if (this.exists(target)) {
+      this.localError.set(`${target} already exists.`);
+      return false;
+    }
+    const selected = this.selectedFile();
+    if (node.type === 'file') {
+      this.operation.emit({
+        changes: [{ operation: 'rename', path: node.path, new_path: target }],
+        description: `Moved ${node.path} to ${target}`,
+        select: selected === node.path ? target : undefined,
+      });
+      return true;
+    }
+
+    const paths = this.filesUnder(node.path);
+    this.emptyFolders.update(folders => new Set([...folders].map(folder => folder === node.path || folder.startsWith(node.path + '/') ? target + folder.slice(node.path.length) : folder)));
+    this.openFolders.update(open => new Set([...open, target]));
+    if (paths.length > 0) {
+      this.operation.emit({
+        changes: paths.map(path => ({ operation: 'rename', path, new_path: target + path.slice(node.path.length) })),
+        description: `Moved ${node.path} to ${target}`,
+        select: selected && selected.startsWith(node.path + '/') ? target + selected.slice(node.path.length) : undefined,
       });
     }
+    return true;
+  }
+
+  private canMoveInto(node: TreeNode, folder: string): boolean {
+    if (this.parentOf(node.path) === folder) return false;
+    return node.type === 'file' || (folder !== node.path && !folder.startsWith(node.path + '/'));
+  }
+
+  private toggleFolder(path: string): void {
+    this.openFolders.update(open => {
+      const newSet = new Set(open);
+      if (newSet.has(path)) {
+        newSet.delete(path);
+      } else {
+        newSet.add(path);
+      }
+      return newSet;
+    });
+  }
+
+  private exists(path: string): boolean {
+    return path in this.files() || this.isFolder(path);
+  }
+
+  private isFolder(path: string): boolean {
+    return this.emptyFolders().has(path) || Object.keys(this.files()).some(file => file.startsWith(path + '/'));
+  }
+
+  private filesUnder(folder: string): string[] {
+    return Object.keys(this.files()).filter(path => path.startsWith(folder + '/'));
+  }
+
+  private parentOf(path: string): string {
+    return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+  }
+
+  private parentFolders(path: string): string[] {
+    const parts = path.split('/').slice(0, -1);
+    return parts.map((_, i) => parts.slice(0, i + 1).join('/'));
   }
-}
\ No newline at end of file
+
+  private join(folder: string, name: string): string {
+    return folder ? `${folder}/${name}` : name;
+  }
+}
@@ -0,0 +1,139 @@
+import { Component, ChangeDetectionStrategy, input, computed, signal, linkedSignal, inject, effect, viewChild, ElementRef, DestroyRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
+import { GeneratedProject } from '../models/project.model';
+import { RazorPreviewService } from '../services/razor-preview.service';
+
+interface ViewportPreset {
+  id: 'desktop' | 'tablet' | 'mobile';
+  label: string;
+  width: number;
+  height: number;
+}
+
+const VIEWPORTS: ViewportPreset[] = [
+  { id: 'desktop', label: 'Desktop', width: 1280, height: 800 },
+  { id: 'tablet', label: 'Tablet', width: 768, height: 1024 },
+  { id: 'mobile', label: 'Mobile', width: 390, height: 844 },
+];
+
+@Component({
+  selector: 'app-preview-panel',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="h-full flex flex-col">
+      <div class="flex-shrink-0 p-2 space-y-2 border-b border-slate-200 dark:border-slate-800">
+        @if (previewableFiles().length > 0) {
+          <select [ngModel]="selectedFile()" (ngModelChange)="selectedFile.set($event)" aria-label="File to preview" class="w-full text-sm bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md p-1">
+            @for (file of previewableFiles(); track file) { <option [value]="file">{{ file }}</option> }
+          </select>
+        } @else {
+          <span class="text-sm text-slate-500 px-2">No previewable files</span>
+        }
+        <div class="flex items-center gap-1">
+          @for (preset of viewports; track preset.id) {
+            <button (click)="viewport.set(preset)" [title]="preset.width + ' x ' + preset.height" [class]="'px-2 py-1 text-xs rounded-md ' + (viewport().id === preset.id ? 'bg-slate-200 dark:bg-slate-700 font-semibold' : 'hover:bg-slate-100 dark:hover:bg-slate-800')">{{ preset.label }}</button>
+          }
+          <span class="text-xs text-slate-500 ml-1">{{ viewport().width }}px @if (scale() < 1) { &middot; {{ (scale() * 100).toFixed(0) }}% }</span>
+          <button (click)="reload()" [disabled]="!selectedFile()" class="ml-auto px-2 py-1 text-xs rounded-md hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50">Reload</button>
+        </div>
+        @if (preview()?.notes?.length) {
+          <details class="text-xs text-slate-500">
+            <summary class="cursor-pointer">Approximate rendering: {{ preview()!.notes.length }} note(s)</summary>
+            <ul class="mt-1 list-disc list-inside space-y-0.5">
+              @for (note of preview()!.notes; track note) { <li>{{ note }}</li> }
+            </ul>
+          </details>
+        }
+      </div>
+      <div #frameContainer class="flex-grow overflow-auto bg-slate-100 dark:bg-slate-950">
+        @if (frameUrl(); as url) {
+          <div class="mx-auto" [style.width.px]="viewport().width * scale()" [style.height.px]="viewport().height * scale()">
+            <!-- Without allow-same-origin the document gets an opaque origin and cannot reach the app. -->
+            <iframe title="Live Preview" sandbox="allow-scripts allow-modals" [src]="url" class="bg-white border-0 origin-top-left" [style.width.px]="viewport().width" [style.height.px]="viewport().height" [style.transform]="'scale(' + scale() + ')'"></iframe>
+          </div>
+        } @else {
+          <div class="h-full flex items-center justify-center text-sm text-slate-400">Select a file to preview</div>
+        }
+      </div>
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class PreviewPanelComponent {
+  private razorPreviewService = inject(RazorPreviewService);
+  private sanitizer = inject(DomSanitizer);
+
+  project = input.required<GeneratedProject>();
+
+  readonly viewports = VIEWPORTS;
+  viewport = signal<ViewportPreset>(VIEWPORTS[0]);
+  private containerWidth = signal(0);
+  private reloadCount = signal(0);
+  private frameContainer = viewChild<ElementRef<HTMLDivElement>>('frameContainer');
+
+  previewableFiles = computed(() =>
+    Object.keys(this.project().files)
+      .filter(path => this.razorPreviewService.isPreviewable(path))
+      // Pages before layouts and partials.
+      .sort((a, b) => Number(this.isUnderscored(a)) - Number(this.isUnderscored(b)) || a.localeCompare(b))
+  );
+
+  selectedFile = linkedSignal<string[], string | null>({
+    source: this.previewableFiles,
+    computation: (files, previous) => previous?.value && files.includes(previous.value) ? previous.value : files[0] ?? null,
+  });
+
+  preview = computed(() => {
+    this.reloadCount();
+    const file = this.selectedFile();
+    return file ? this.razorPreviewService.render(this.project(), file) : null;
+  });
+
+  scale = computed(() => {
+    const available = this.containerWidth() - 16;
+    return available > 0 ? Math.min(1, available / this.viewport().width) : 1;
+  });
+
+  /** Blob URL of the current preview document; the previous one is revoked when it changes. */
+  frameUrl = signal<SafeResourceUrl | null>(null);
+  private objectUrl: string | null = null;
+
+  constructor() {
+    effect(() => {
+      const preview = this.preview();
+      this.revokeUrl();
+      if (!preview) {
+        this.frameUrl.set(null);
+        return;
+      }
+      this.objectUrl = URL.createObjectURL(new Blob([preview.html], { type: 'text/html' }));
+      this.frameUrl.set(this.sanitizer.bypassSecurityTrustResourceUrl(this.objectUrl));
+    });
+
+    effect(onCleanup => {
+      const element = this.frameContainer()?.nativeElement;
+      if (!element) return;
+      const observer = new ResizeObserver(entries => this.containerWidth.set(entries[0].contentRect.width));
+      observer.observe(element);
+      onCleanup(() => observer.disconnect());
+    });
+
+    inject(DestroyRef).onDestroy(() => this.revokeUrl());
+  }
+
+  reload(): void {
+    this.reloadCount.update(count => count + 1);
+  }
+
+  private revokeUrl(): void {
+    if (this.objectUrl) URL.revokeObjectURL(this.objectUrl);
+    this.objectUrl = null;
+  }
+
+  private isUnderscored(path: string): boolean {
+    return (path.split('/').pop() ?? '').startsWith('_');
+  }
+}
@@ -0,0 +1,44 @@
+import { Component, ChangeDetectionStrategy, input, output, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Diagnostic } from '../models/diagnostic.model';
+
+@Component({
+  selector: 'app-problems-panel',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="h-full flex flex-col">
+      <div class="flex-shrink-0 p-3 flex items-center justify-between gap-2 border-b border-slate-200 dark:border-slate-800">
+        <p class="text-xs text-slate-500 dark:text-slate-400">
+          <span class="text-red-500 font-semibold">{{ errorCount() }} error(s)</span>,
+          <span class="text-yellow-600 dark:text-yellow-400 font-semibold">{{ diagnostics().length - errorCount() }} warning(s)</span>
+        </p>
+        <button (click)="fix.emit()" [disabled]="diagnostics().length === 0 || disabled()" class="px-3 py-1.5 text-xs text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 dark:disabled:bg-slate-600 rounded-md transition-colors">Ask Assistant to Fix</button>
+      </div>
+      <div class="flex-grow overflow-y-auto p-2 space-y-1">
+        @for (diagnostic of diagnostics(); track $index) {
+          <button (click)="diagnostic.path && select.emit(diagnostic)" class="w-full text-left p-2 rounded-md text-xs hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            <div class="flex items-start gap-2">
+              <span [class]="'mt-0.5 w-2 h-2 flex-shrink-0 rounded-full ' + (diagnostic.severity === 'error' ? 'bg-red-500' : 'bg-yellow-500')"></span>
+              <div class="min-w-0">
+                <p class="text-slate-800 dark:text-slate-200">{{ diagnostic.message }}</p>
+                <p class="font-mono text-slate-500 truncate">{{ diagnostic.path || 'project' }}@if (diagnostic.line) {:{{ diagnostic.line }}} &middot; {{ diagnostic.code }}</p>
+              </div>
+            </div>
+          </button>
+        } @empty {
+          <p class="p-4 text-sm text-center text-slate-500">No problems found.</p>
+        }
+      </div>
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ProblemsPanelComponent {
+  diagnostics = input.required<Diagnostic[]>();
+  disabled = input<boolean>(false);
+  select = output<Diagnostic>();
+  fix = output<void>();
+
+  errorCount = computed(() => this.diagnostics().filter(d => d.severity === 'error').length);
+}
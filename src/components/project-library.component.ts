@@ -0,0 +1,275 @@
+import { Component, ChangeDetectionStrategy, DestroyRef, input, output, signal, computed, effect, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { GeneratedProject, ProjectSummary } from '../models/project.model';
+import { ProjectSearchMatch, ProjectSortOrder } from '../models/library.model';
+import { UsageRecord } from '../models/usage.model';
+import { ProjectHistoryService } from '../services/project-history.service';
+import { LibraryBackupService } from '../services/library-backup.service';
+import { UsageService } from '../services/usage.service';
+
+const SEARCH_DELAY_MS = 200;
+
+@Component({
+  selector: 'app-project-library',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="mb-6 flex flex-wrap items-center gap-2">
+      @if (projects().length > 0) {
+        <input type="search" [ngModel]="query()" (ngModelChange)="query.set($event)" placeholder="Search names, prompts and code..." aria-label="Search projects" class="flex-grow min-w-48 px-3 py-2 text-sm bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+        @if (allTags().length > 0) {
+          <select [ngModel]="tagFilter()" (ngModelChange)="tagFilter.set($event)" aria-label="Filter by tag" class="px-2 py-2 text-sm bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+            <option value="">All tags</option>
+            @for (tag of allTags(); track tag) { <option [value]="tag">{{ tag }}</option> }
+          </select>
+        }
+        <select [ngModel]="sortOrder()" (ngModelChange)="sortOrder.set($event)" aria-label="Sort projects" class="px-2 py-2 text-sm bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+          <option value="updated">Last updated</option>
+          <option value="created">Date created</option>
+          <option value="framework">Framework</option>
+          <option value="size">Size</option>
+        </select>
+      }
+      <div class="flex gap-2 ml-auto">
+        <input #backupInput type="file" accept=".json,application/json" class="hidden" (change)="restoreBackup($event)">
+        <button (click)="downloadBackup()" [disabled]="projects().length === 0 || isBusy()" title="Download all projects with their history and conversations as one JSON file" class="px-3 py-2 text-sm font-semibold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 disabled:opacity-50 rounded-md transition-colors">Back Up Library</button>
+        <button (click)="backupInput.click()" [disabled]="isBusy()" class="px-3 py-2 text-sm font-semibold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 disabled:opacity-50 rounded-md transition-colors">Restore Backup</button>
+      </div>
+    </div>
+    @if (message()) {
+      <p class="mb-6 text-sm text-slate-600 dark:text-slate-400">{{ message() }}</p>
+    }
+    @if (error()) {
+      <div class="mb-6 bg-red-100 dark:bg-red-900/30 border border-red-400 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg" role="alert">{{ error() }}</div>
+    }
+
+    @if (projects().length > 0) {
+      @if (visibleProjects().length === 0) {
+        <p class="py-8 text-center text-slate-500">{{ isSearching() ? 'Searching...' : 'No projects match your search.' }}</p>
+      }
+      <div class="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        @for (project of visibleProjects(); track project.id) {
+          <div class="bg-white dark:bg-slate-800 p-6 rounded-lg border border-slate-200 dark:border-slate-700 flex flex-col justify-between">
+            @if (editingId() === project.id) {
+              <div class="space-y-3 text-sm">
+                <label class="block">
+                  <span class="text-slate-500">Name</span>
+                  <input [ngModel]="editName()" (ngModelChange)="editName.set($event)" class="mt-1 w-full px-2 py-1.5 bg-slate-100 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-md">
+                </label>
+                <label class="block">
+                  <span class="text-slate-500">Description</span>
+                  <textarea rows="3" [ngModel]="editDescription()" (ngModelChange)="editDescription.set($event)" class="mt-1 w-full px-2 py-1.5 bg-slate-100 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-md"></textarea>
+                </label>
+                <label class="block">
+                  <span class="text-slate-500">Tags (comma-separated)</span>
+                  <input [ngModel]="editTags()" (ngModelChange)="editTags.set($event)" placeholder="e.g. demo, customer-x" class="mt-1 w-full px-2 py-1.5 bg-slate-100 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-md">
+                </label>
+              </div>
+              <div class="mt-6 flex gap-3">
+                <button (click)="saveDetails(project.id)" [disabled]="!editName().trim() || isBusy()" class="flex-grow px-4 py-2 font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-md transition-colors">Save</button>
+                <button (click)="editingId.set(null)" class="px-4 py-2 font-semibold bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors">Cancel</button>
+              </div>
+            } @else {
+              <div>
+                <h3 class="font-bold text-lg truncate" [title]="project.name">{{ project.name }}</h3>
+                <p class="text-sm text-slate-500 dark:text-slate-400 mt-1">{{ project.framework.label }} &middot; {{ project.fileCount }} files &middot; {{ formatSize(project.size) }}</p>
+                @if (project.tags?.length) {
+                  <div class="flex flex-wrap gap-1 mt-2">
+                    @for (tag of project.tags; track tag) {
+                      <button (click)="tagFilter.set(tag)" class="px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200 text-xs hover:underline">{{ tag }}</button>
+                    }
+                  </div>
+                }
+                <p class="text-sm text-slate-600 dark:text-slate-300 mt-3 h-12 line-clamp-2" [title]="project.description || project.prompt">{{ project.description || project.prompt }}</p>
+                @if (searchMatches()?.get(project.id); as match) {
+                  <p class="text-xs text-slate-500 dark:text-slate-400 mt-2 truncate">Matched in {{ match.field === 'file' ? match.path : match.field }}</p>
+                }
+                @if (usageByProject().get(project.id); as usage) {
+                  <p class="text-xs text-slate-500 dark:text-slate-400 mt-2">{{ usage.calls }} model call(s) &middot; {{ usageService.formatTokens(usage.promptTokens + usage.outputTokens) }} tokens &middot; {{ usageService.formatCost(usage.cost) }}</p>
+                }
+                <p class="text-xs text-slate-500 dark:text-slate-400 mt-2">Created {{ project.createdAt | date:'mediumDate' }} &middot; updated {{ project.updatedAt | date:'short' }}</p>
+              </div>
+              <div class="mt-6 flex gap-1">
+                <button (click)="open.emit(project.id)" class="flex-grow mr-2 px-4 py-2 font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors">Open Workspace</button>
+                <button (click)="startEditing(project)" title="Rename, describe or tag" class="p-2 text-slate-500 hover:text-blue-600 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md transition-colors">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M12 20h9"/><path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4Z"/></svg>
+                </button>
+                <button (click)="duplicate(project.id)" [disabled]="isBusy()" title="Duplicate" class="p-2 text-slate-500 hover:text-blue-600 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50 rounded-md transition-colors">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect width="14" height="14" x="8" y="8" rx="2" ry="2"/><path d="M4 16c-1.1 0-2-.9-2-2V4c0-1.1.9-2 2-2h10c1.1 0 2 .9 2 2"/></svg>
+                </button>
+                <button (click)="delete.emit(project.id)" title="Delete" class="p-2 text-slate-500 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-md transition-colors">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M3 6h18"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6"/><path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/></svg>
+                </button>
+              </div>
+            }
+          </div>
+        }
+      </div>
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ProjectLibraryComponent {
+  readonly usageService = inject(UsageService);
+  private projectHistoryService = inject(ProjectHistoryService);
+  private libraryBackupService = inject(LibraryBackupService);
+
+  projects = input.required<ProjectSummary[]>();
+  open = output<string>();
+  delete = output<string>();
+  /** Projects were added or changed; the list should be reloaded. */
+  changed = output<void>();
+  /** A project was renamed, described or tagged. */
+  detailsChanged = output<GeneratedProject>();
+  /** The ids of saved projects that a restored backup overwrote. */
+  replaced = output<string[]>();
+
+  query = signal('');
+  tagFilter = signal('');
+  sortOrder = signal<ProjectSortOrder>('updated');
+  /** Matches of the current query, or null while there is no query. */
+  searchMatches = signal<Map<string, ProjectSearchMatch> | null>(null);
+  isSearching = signal(false);
+  isBusy = signal(false);
+  message = signal('');
+  error = signal('');
+
+  editingId = signal<string | null>(null);
+  editName = signal('');
+  editDescription = signal('');
+  editTags = signal('');
+
+  allTags = computed(() => [...new Set(this.projects().flatMap(project => project.tags ?? []))].sort((a, b) => a.localeCompare(b)));
+
+  visibleProjects = computed(() => {
+    const matches = this.searchMatches();
+    const tag = this.tagFilter();
+    const projects = this.projects().filter(project => (!matches || matches.has(project.id)) && (!tag || project.tags?.includes(tag)));
+    switch (this.sortOrder()) {
+      case 'created': return projects.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      case 'framework': return projects.sort((a, b) => a.framework.label.localeCompare(b.framework.label) || a.name.localeCompare(b.name));
+      case 'size': return projects.sort((a, b) => b.size - a.size);
+      default: return projects.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+  });
+
+  usageByProject = computed(() => {
+    const byProject = new Map<string, UsageRecord[]>();
+    for (const record of this.usageService.records()) {
+      if (!record.projectId) continue;
+      const records = byProject.get(record.projectId) ?? [];
+      records.push(record);
+      byProject.set(record.projectId, records);
+    }
+    return new Map([...byProject].map(([projectId, records]) => [projectId, this.usageService.totals(records)]));
+  });
+
+  private searchTimer: ReturnType<typeof setTimeout> | undefined;
+  private searchRun = 0;
+
+  constructor() {
+    // Search again when the query changes and when projects are saved, since file contents may have changed.
+    effect(() => {
+      const query = this.query().trim();
+      this.projects();
+      clearTimeout(this.searchTimer);
+      const run = ++this.searchRun;
+      if (!query) {
+        this.searchMatches.set(null);
+        this.isSearching.set(false);
+        return;
+      }
+      this.isSearching.set(true);
+      this.searchTimer = setTimeout(async () => {
+        try {
+          const matches = await this.projectHistoryService.searchProjects(query);
+          if (run === this.searchRun) this.searchMatches.set(matches);
+        } catch (e) {
+          console.error('Error searching projects', e);
+        } finally {
+          if (run === this.searchRun) this.isSearching.set(false);
+        }
+      }, SEARCH_DELAY_MS);
+    });
+    inject(DestroyRef).onDestroy(() => clearTimeout(this.searchTimer));
+  }
+
+  startEditing(project: ProjectSummary): void {
+    this.editingId.set(project.id);
+    this.editName.set(project.name);
+    this.editDescription.set(project.description ?? '');
+    this.editTags.set((project.tags ?? []).join(', '));
+  }
+
+  async saveDetails(id: string): Promise<void> {
+    await this.run(async () => {
+      const updated = await this.projectHistoryService.updateDetails(id, {
+        name: this.editName(),
+        description: this.editDescription(),
+        tags: this.editTags().split(','),
+      });
+      this.editingId.set(null);
+      if (updated) this.detailsChanged.emit(updated);
+      this.changed.emit();
+    });
+  }
+
+  async duplicate(id: string): Promise<void> {
+    await this.run(async () => {
+      const copy = await this.projectHistoryService.duplicateProject(id);
+      if (copy) this.message.set(`Created "${copy.name}".`);
+      this.changed.emit();
+    });
+  }
+
+  async downloadBackup(): Promise<void> {
+    await this.run(async () => {
+      const count = await this.libraryBackupService.downloadBackup();
+      this.message.set(`Backed up ${count} project(s) with their history and conversations.`);
+    });
+  }
+
+  async restoreBackup(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    await this.run(async () => {
+      const { entries, invalid } = await this.libraryBackupService.readBackup(file);
+      if (entries.length === 0) {
+        throw new Error('The backup does not contain any projects.');
+      }
+      const existingIds = new Set(this.projects().map(project => project.id));
+      const existing = entries.filter(entry => existingIds.has(entry.project.id)).length;
+      const replace = existing > 0 && confirm(`${existing} of the ${entries.length} project(s) in this backup already exist. Replace them with the backed-up version? Cancel keeps the current ones.`);
+      const { restored, skipped, replaced } = await this.projectHistoryService.restoreBackupEntries(entries, replace);
+      this.message.set(`Restored ${restored} project(s)` +
+        (replaced.length > 0 ? `, replacing ${replaced.length} existing` : '') +
+        (skipped > 0 ? `, kept ${skipped} existing` : '') +
+        (invalid > 0 ? `, ignored ${invalid} invalid entr${invalid === 1 ? 'y' : 'ies'}` : '') + '.');
+      if (replaced.length > 0) this.replaced.emit(replaced);
+      this.changed.emit();
+    });
+  }
+
+  formatSize(chars: number): string {
+    return chars >= 1024 * 1024 ? `${(chars / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(chars / 1024))} KB`;
+  }
+
+  private async run(action: () => Promise<void>): Promise<void> {
+    if (this.isBusy()) return;
+    this.isBusy.set(true);
+    this.message.set('');
+    this.error.set('');
+    try {
+      await action();
+    } catch (e: any) {
+      console.error('Error updating the project library', e);
+      this.error.set(e.message || 'The project library could not be updated.');
+    } finally {
+      this.isBusy.set(false);
+    }
+  }
+}
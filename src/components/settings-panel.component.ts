@@ -0,0 +1,90 @@
+import { Component, ChangeDetectionStrategy, input, output, signal, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { LlmProviderId, LlmSettings } from '../models/settings.model';
+import { PROVIDER_OPTIONS } from '../services/llm-settings.service';
+
+@Component({
+  selector: 'app-settings-panel',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="fixed inset-0 z-30 bg-slate-900/60 flex items-center justify-center p-4" (click)="close.emit()">
+      <div class="w-full max-w-lg bg-white dark:bg-slate-800 rounded-lg shadow-xl border border-slate-200 dark:border-slate-700" (click)="$event.stopPropagation()">
+        <div class="p-4 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between">
+          <h3 class="text-lg font-semibold text-slate-900 dark:text-white">Model Settings</h3>
+          <button (click)="close.emit()" class="p-1 rounded-md text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700">&times;</button>
+        </div>
+        <div class="p-4 space-y-4 text-sm">
+          <label class="block">
+            <span class="font-medium">Provider</span>
+            <select [ngModel]="draft().provider" (ngModelChange)="selectProvider($event)" class="mt-1 w-full p-2 bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md">
+              @for (option of providerOptions; track option.id) { <option [value]="option.id">{{ option.label }}</option> }
+            </select>
+          </label>
+          <label class="block">
+            <span class="font-medium">Model</span>
+            <input [ngModel]="draft().model" (ngModelChange)="patch({ model: $event })" class="mt-1 w-full p-2 bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md font-mono" placeholder="Model name">
+          </label>
+          @if (draft().provider === 'openai-compatible') {
+            <label class="block">
+              <span class="font-medium">Base URL</span>
+              <input [ngModel]="draft().baseUrl" (ngModelChange)="patch({ baseUrl: $event })" class="mt-1 w-full p-2 bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md font-mono" placeholder="http://localhost:11434/v1">
+              <span class="text-xs text-slate-500 dark:text-slate-400">The endpoint must implement <code>/chat/completions</code>.</span>
+            </label>
+            <label class="block">
+              <span class="font-medium">API Key (optional)</span>
+              <input type="password" [ngModel]="draft().apiKey" (ngModelChange)="patch({ apiKey: $event })" class="mt-1 w-full p-2 bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md font-mono" autocomplete="off">
+              <span class="text-xs text-slate-500 dark:text-slate-400">Stored in this browser only.</span>
+            </label>
+          }
+          @if (draft().provider === 'proxy') {
+            <label class="block">
+              <span class="font-medium">Proxy URL</span>
+              <input [ngModel]="draft().baseUrl" (ngModelChange)="patch({ baseUrl: $event })" class="mt-1 w-full p-2 bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md font-mono" placeholder="http://localhost:8787">
+              <span class="text-xs text-slate-500 dark:text-slate-400">Run <code>npm run model-proxy</code>; the provider API key stays on that server.</span>
+            </label>
+            <label class="block">
+              <span class="font-medium">Access Token</span>
+              <input type="password" [ngModel]="draft().apiKey" (ngModelChange)="patch({ apiKey: $event })" class="mt-1 w-full p-2 bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md font-mono" autocomplete="off">
+              <span class="text-xs text-slate-500 dark:text-slate-400">Your token from the proxy's <code>--users</code> list. Leave empty if it has none.</span>
+            </label>
+          }
+          <label class="block">
+            <span class="font-medium">Temperature: {{ draft().temperature }}</span>
+            <input type="range" min="0" max="1" step="0.05" [ngModel]="draft().temperature" (ngModelChange)="patch({ temperature: +$event })" class="mt-1 w-full">
+          </label>
+        </div>
+        <div class="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2">
+          <button (click)="close.emit()" class="px-4 py-2 font-semibold bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors">Cancel</button>
+          <button (click)="save.emit(draft())" class="px-4 py-2 font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors">Save</button>
+        </div>
+      </div>
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SettingsPanelComponent implements OnInit {
+  settings = input.required<LlmSettings>();
+  save = output<LlmSettings>();
+  close = output<void>();
+
+  readonly providerOptions = PROVIDER_OPTIONS;
+  draft = signal<LlmSettings>({ provider: 'gemini', model: '', baseUrl: '', apiKey: '', temperature: 0.4 });
+
+  ngOnInit(): void {
+    this.draft.set({ ...this.settings() });
+  }
+
+  patch(changes: Partial<LlmSettings>): void {
+    this.draft.update(d => ({ ...d, ...changes }));
+  }
+
+  selectProvider(provider: LlmProviderId): void {
+    const option = PROVIDER_OPTIONS.find(o => o.id === provider)!;
+    const { baseUrl } = this.draft();
+    // Keep a URL the user typed, but swap one provider's default for the next one's.
+    const isDefault = !baseUrl || PROVIDER_OPTIONS.some(o => o.defaultBaseUrl === baseUrl);
+    this.patch({ provider, model: option.defaultModel, baseUrl: isDefault ? option.defaultBaseUrl : baseUrl });
+  }
+}
@@ -0,0 +1,130 @@
+import { Component, ChangeDetectionStrategy, input, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ModelPrice, UsageBudget, UsagePurpose } from '../models/usage.model';
+import { UsageService } from '../services/usage.service';
+
+const PURPOSES: UsagePurpose[] = ['plan', 'generate', 'review', 'modify'];
+
+@Component({
+  selector: 'app-usage-panel',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="h-full flex flex-col">
+      <div class="flex-shrink-0 p-3 space-y-2 border-b border-slate-200 dark:border-slate-800 text-xs">
+        <div class="grid grid-cols-3 gap-2">
+          <div><p class="text-slate-500">Calls</p><p class="text-sm font-semibold">{{ totals().calls }}@if (totals().failedCalls > 0) { <span class="text-red-500 font-normal">({{ totals().failedCalls }} failed)</span> }</p></div>
+          <div><p class="text-slate-500">Tokens in / out</p><p class="text-sm font-semibold">{{ usage.formatTokens(totals().promptTokens) }} / {{ usage.formatTokens(totals().outputTokens) }}</p></div>
+          <div><p class="text-slate-500">Estimated cost</p><p class="text-sm font-semibold" [title]="totals().unpricedCalls > 0 ? totals().unpricedCalls + ' call(s) use a model without a price' : ''">{{ usage.formatCost(totals().cost) }}@if (totals().unpricedCalls > 0) {*}</p></div>
+        </div>
+        <p class="text-slate-500">Average latency {{ (totals().averageLatencyMs / 1000).toFixed(1) }}s</p>
+        @if (byPurpose().length > 0) {
+          <div class="flex flex-wrap gap-1">
+            @for (entry of byPurpose(); track entry.purpose) {
+              <span class="px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-800">{{ entry.purpose }}: {{ entry.totals.calls }} &middot; {{ usage.formatTokens(entry.totals.promptTokens + entry.totals.outputTokens) }} &middot; {{ (entry.totals.averageLatencyMs / 1000).toFixed(1) }}s</span>
+            }
+          </div>
+        }
+      </div>
+
+      <div class="flex-grow overflow-y-auto">
+        @for (record of recent(); track record.id) {
+          <div class="px-3 py-2 border-b border-slate-100 dark:border-slate-800 text-xs">
+            <div class="flex items-center justify-between gap-2">
+              <span class="font-semibold">{{ record.purpose }} <span class="font-normal font-mono text-slate-500">{{ record.model }}</span></span>
+              <span [class]="record.outcome === 'success' ? 'text-green-600 dark:text-green-400' : record.outcome === 'error' ? 'text-red-500' : 'text-slate-500'">{{ record.outcome }}</span>
+            </div>
+            <p class="text-slate-500">
+              {{ record.createdAt | date:'short' }} &middot;
+              <span [title]="record.estimated ? 'Estimated from the text length; the provider did not report token counts' : ''">{{ record.estimated ? '~' : '' }}{{ usage.formatTokens(record.promptTokens) }} in, {{ record.estimated ? '~' : '' }}{{ usage.formatTokens(record.outputTokens) }} out</span>
+              &middot; {{ (record.latencyMs / 1000).toFixed(1) }}s &middot; {{ usage.formatCost(usage.costOf(record)) }}
+            </p>
+            @if (record.error) { <p class="text-red-500 truncate" [title]="record.error">{{ record.error }}</p> }
+          </div>
+        } @empty {
+          <p class="p-4 text-sm text-center text-slate-500">No model calls recorded for this project yet.</p>
+        }
+      </div>
+
+      <div class="flex-shrink-0 p-3 space-y-2 border-t border-slate-200 dark:border-slate-800 text-xs">
+        <div class="grid grid-cols-2 gap-2">
+          <label class="block">
+            <span class="text-slate-500">Budget per request (tokens)</span>
+            <input type="number" min="0" step="1000" [ngModel]="budget().maxRequestTokens" (ngModelChange)="updateBudget({ maxRequestTokens: toLimit($event) })" placeholder="No limit" class="mt-1 w-full px-2 py-1 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+          </label>
+          <label class="block">
+            <span class="text-slate-500">Budget per project (tokens)</span>
+            <input type="number" min="0" step="10000" [ngModel]="budget().maxProjectTokens" (ngModelChange)="updateBudget({ maxProjectTokens: toLimit($event) })" placeholder="No limit" class="mt-1 w-full px-2 py-1 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+          </label>
+        </div>
+        <p class="text-slate-500">The assistant asks before sending a modification that would go over a budget.</p>
+        <details>
+          <summary class="cursor-pointer text-slate-600 dark:text-slate-300">Price table (USD per million tokens)</summary>
+          <div class="mt-2 space-y-1 max-h-48 overflow-y-auto">
+            @for (price of prices(); track $index) {
+              <div class="flex items-center gap-1">
+                <input [ngModel]="price.model" (ngModelChange)="updatePrice($index, { model: $event })" aria-label="Model name prefix" class="flex-grow min-w-0 px-2 py-1 font-mono bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+                <input type="number" min="0" step="0.01" [ngModel]="price.inputPerMillion" (ngModelChange)="updatePrice($index, { inputPerMillion: +$event || 0 })" aria-label="Input price" title="Input" class="w-16 px-1 py-1 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+                <input type="number" min="0" step="0.01" [ngModel]="price.outputPerMillion" (ngModelChange)="updatePrice($index, { outputPerMillion: +$event || 0 })" aria-label="Output price" title="Output" class="w-16 px-1 py-1 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-md">
+                <button (click)="removePrice($index)" class="px-1 text-slate-500 hover:text-red-500" title="Remove">&times;</button>
+              </div>
+            }
+          </div>
+          <div class="mt-2 flex gap-2">
+            <button (click)="addPrice()" class="px-2 py-1 rounded-md border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800">Add Model</button>
+            <button (click)="usage.resetPrices()" class="px-2 py-1 rounded-md border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800">Reset to Defaults</button>
+          </div>
+          <p class="mt-1 text-slate-500">A model uses the longest entry its name starts with.</p>
+        </details>
+        <button (click)="clearHistory()" [disabled]="records().length === 0" class="text-red-600 dark:text-red-400 hover:underline disabled:opacity-50 disabled:no-underline">Clear this project's usage history</button>
+      </div>
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class UsagePanelComponent {
+  readonly usage = inject(UsageService);
+
+  projectId = input.required<string>();
+
+  records = computed(() => this.usage.records().filter(record => record.projectId === this.projectId()));
+  recent = computed(() => this.records().slice().reverse());
+  // Costs read the price table, so these also update when prices are edited.
+  totals = computed(() => this.usage.totals(this.records()));
+  byPurpose = computed(() => PURPOSES
+    .map(purpose => ({ purpose, totals: this.usage.totals(this.records().filter(record => record.purpose === purpose)) }))
+    .filter(entry => entry.totals.calls > 0));
+  budget = computed(() => this.usage.settings().budget);
+  prices = computed(() => this.usage.settings().prices);
+
+  toLimit(value: unknown): number | null {
+    const limit = Number(value);
+    return value !== null && value !== '' && Number.isFinite(limit) && limit > 0 ? Math.round(limit) : null;
+  }
+
+  updateBudget(changes: Partial<UsageBudget>): void {
+    const settings = this.usage.settings();
+    this.usage.updateSettings({ ...settings, budget: { ...settings.budget, ...changes } });
+  }
+
+  updatePrice(index: number, changes: Partial<ModelPrice>): void {
+    const settings = this.usage.settings();
+    this.usage.updateSettings({ ...settings, prices: settings.prices.map((price, i) => i === index ? { ...price, ...changes } : price) });
+  }
+
+  addPrice(): void {
+    const settings = this.usage.settings();
+    this.usage.updateSettings({ ...settings, prices: [...settings.prices, { model: '', inputPerMillion: 0, outputPerMillion: 0 }] });
+  }
+
+  removePrice(index: number): void {
+    const settings = this.usage.settings();
+    this.usage.updateSettings({ ...settings, prices: settings.prices.filter((_, i) => i !== index) });
+  }
+
+  async clearHistory(): Promise<void> {
+    if (!confirm('Delete the usage history of this project? Totals in My Projects will no longer include it.')) return;
+    await this.usage.clear(this.projectId());
+  }
+}
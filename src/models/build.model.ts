@@ -0,0 +1,45 @@
+import { Diagnostic } from './diagnostic.model';
+
+/** Connection details of the local companion build server (`npm run build-server`). */
+export interface BuildServerSettings {
+  url: string;
+  /** Must match the server's --token when it was started with one. */
+  token: string;
+}
+
+export interface BuildServerHealth {
+  runner: 'local' | 'fake';
+  /** Tool versions on the server's machine; null when a tool is not installed. */
+  tools: { dotnet: string | null; docker: string | null };
+}
+
+/** `build` runs restore and build, `test` adds `dotnet test`, `docker` runs `docker build` instead. */
+export type BuildMode = 'build' | 'test' | 'docker';
+
+/** One line of the server's newline-delimited JSON response. */
+export type BuildEvent =
+  | { type: 'step'; command: string }
+  | { type: 'log'; stream: 'stdout' | 'stderr'; text: string }
+  | { type: 'diagnostic'; diagnostic: Diagnostic }
+  | { type: 'done'; success: boolean; exitCode: number; durationMs: number }
+  | { type: 'error'; message: string };
+
+export interface BuildLogLine {
+  kind: 'step' | 'stdout' | 'stderr';
+  text: string;
+}
+
+export type BuildStatus = 'running' | 'succeeded' | 'failed' | 'cancelled' | 'error';
+
+export interface BuildRun {
+  projectId: string;
+  mode: BuildMode;
+  status: BuildStatus;
+  log: BuildLogLine[];
+  diagnostics: Diagnostic[];
+  startedAt: string;
+  durationMs?: number;
+  exitCode?: number;
+  /** Why the build could not run, when status is 'error'. */
+  error?: string;
+}
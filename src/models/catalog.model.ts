@@ -0,0 +1,44 @@
+import { Feature } from './project.model';
+
+export interface PackageReference {
+  name: string;
+  version: string;
+}
+
+/** A file the generator must add to the project exactly as given. */
+export interface ReferenceFile {
+  path: string;
+  content: string;
+}
+
+/** A feature as the generator sees it: what to build, with which packages and which files. */
+export interface FeatureDefinition extends Feature {
+  description: string;
+  instructions: string;
+  packages: PackageReference[];
+  referenceFiles: ReferenceFile[];
+  /** Built-in definitions ship with the app and cannot be edited or deleted. */
+  builtIn?: boolean;
+}
+
+/** A reusable starting point: a framework, a set of features and house rules that apply on top. */
+export interface ProjectTemplate {
+  id: string;
+  label: string;
+  description: string;
+  /** The `value` of the framework the template is built on. */
+  framework: string;
+  featureIds: string[];
+  instructions: string;
+  packages: PackageReference[];
+  referenceFiles: ReferenceFile[];
+  builtIn?: boolean;
+}
+
+/** The JSON document used to share custom features and templates. */
+export interface CatalogExport {
+  format: 'dotnet-builder-catalog';
+  version: 1;
+  features: FeatureDefinition[];
+  templates: ProjectTemplate[];
+}
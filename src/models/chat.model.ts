@@ -0,0 +1,21 @@
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  /** The project revision this message's changes were saved as, when it produced one. */
+  revision?: number;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: string;
+  messages: ChatMessage[];
+}
+
+/** All assistant conversations of one project, stored alongside it. */
+export interface ProjectChat {
+  projectId: string;
+  activeThreadId: string;
+  threads: ChatThread[];
+}
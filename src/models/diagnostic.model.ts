@@ -0,0 +1,11 @@
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/** A problem found in a project's files, by static analysis or a build. */
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: string;
+  message: string;
+  path: string;
+  /** 1-based line number, when the problem can be located. */
+  line?: number;
+}
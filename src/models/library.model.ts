@@ -0,0 +1,33 @@
+import { GeneratedProject, ProjectRevision } from './project.model';
+import { ProjectChat } from './chat.model';
+
+export type ProjectSortOrder = 'updated' | 'created' | 'framework' | 'size';
+
+/** The parts of a project that can be edited in My Projects. */
+export interface ProjectDetails {
+  name: string;
+  description: string;
+  tags: string[];
+}
+
+/** Why a project matched a library search; `path` is set when the match was in a file. */
+export interface ProjectSearchMatch {
+  field: 'name' | 'description' | 'tags' | 'prompt' | 'file';
+  path?: string;
+}
+
+/** One project in a library backup, with everything stored alongside it. */
+export interface LibraryBackupEntry {
+  project: GeneratedProject;
+  createdAt: string;
+  updatedAt: string;
+  revisions: ProjectRevision[];
+  chat: ProjectChat | null;
+}
+
+export interface LibraryBackup {
+  format: 'dotnet-builder-library';
+  version: number;
+  exportedAt: string;
+  projects: LibraryBackupEntry[];
+}
@@ -1,14 +1,34 @@
+import { SchemaModel } from './schema.model';
+
 
 export interface Framework {
   value: string;
   label: string;
   description: string;
+  /** The MSBuild SDK of the main project, e.g. "Microsoft.NET.Sdk.Web". */
+  sdk?: string;
+  /** What the generator must know about this project type beyond its name. */
+  instructions?: string;
+  /** The solution is split into several projects that reference each other. */
+  multiProject?: boolean;
+}
+
+/** The compiler and target settings every generated .csproj must use. */
+export interface TargetSettings {
+  /** Target framework moniker such as "net8.0". */
+  targetFramework: string;
+  /** C# LangVersion; "default" leaves it to the SDK. */
+  langVersion: string;
+  nullable: boolean;
+  implicitUsings: boolean;
 }
 
+export type FeatureCategory = 'security' | 'data' | 'api' | 'ui' | 'devops' | 'infrastructure' | 'custom';
+
 export interface Feature {
   id: string;
   label: string;
-  category: 'security' | 'data' | 'api' | 'ui' | 'devops' | 'infrastructure';
+  category: FeatureCategory;
 }
 
 export interface GeneratedProject {
@@ -20,11 +40,93 @@ export interface GeneratedProject {
   dependencies: string[];
   explanation: string;
   build_commands: string[];
+  /** Requested target settings; missing on projects created before they could be chosen. */
+  target?: TargetSettings;
+  /** The OpenAPI document or SQL schema the project was generated from. */
+  schema?: SchemaModel;
+  /** Notes and labels added in My Projects. */
+  description?: string;
+  tags?: string[];
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  prompt: string;
+  framework: Framework;
+  description?: string;
+  tags?: string[];
+  fileCount: number;
+  size: number;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface Agent {
-    id: string;
+    id: AgentId;
     name: string;
     role: string;
     gradient: string;
 }
+
+export type AgentId = 'team_leader' | 'coder' | 'frontend' | 'database';
+
+/** The Team Leader's blueprint that the role-specific agents implement. */
+export interface ProjectPlan {
+  summary: string;
+  layout: { path: string; purpose: string; owner: AgentId }[];
+  entities: { name: string; fields: string[] }[];
+  endpoints: { method: string; route: string; description: string }[];
+  pages: { route: string; title: string; description: string }[];
+  dependencies: string[];
+}
+
+export interface FilePatch {
+  search: string;
+  replace: string;
+}
+
+export interface FileChange {
+  operation: 'create' | 'update' | 'delete' | 'rename';
+  path: string;
+  new_path?: string;
+  content?: string;
+  patches?: FilePatch[];
+}
+
+export interface ProjectChangeSet {
+  changes: FileChange[];
+  dependencies?: string[];
+  explanation: string;
+  build_commands?: string[];
+}
+
+/** A file, or a range of lines in it, pinned to the assistant chat to scope a modification request. */
+export interface PinnedContext {
+  path: string;
+  selection?: { startLine: number; endLine: number; text: string };
+}
+
+export interface ModificationResult {
+  project: GeneratedProject;
+  changes: FileChange[];
+  /** Files the change set touched although the request was scoped to pinned files. */
+  outOfScopeFiles: string[];
+}
+
+export type RevisionKind = 'baseline' | 'generation' | 'modification' | 'edit' | 'import' | 'restore' | 'branch';
+
+export interface RevisionInfo {
+  kind: RevisionKind;
+  prompt: string;
+}
+
+export interface ProjectRevision extends RevisionInfo {
+  number: number;
+  explanation: string;
+  timestamp: string;
+  /** Files that changed since the previous revision; `null` marks a deleted file. */
+  changes: { [path: string]: string | null };
+  dependencies: string[];
+  build_commands: string[];
+}
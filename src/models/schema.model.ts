@@ -0,0 +1,45 @@
+/** A property of an entity or DTO, with its C# type. */
+export interface SchemaField {
+  name: string;
+  type: string;
+  nullable: boolean;
+  key?: boolean;
+  maxLength?: number;
+  /** The database column, when it differs from the property name. */
+  column?: string;
+}
+
+export interface SchemaEntity {
+  name: string;
+  /** The database table, for entities parsed from SQL. */
+  table?: string;
+  fields: SchemaField[];
+}
+
+export interface SchemaRelationship {
+  from: string;
+  to: string;
+  kind: 'many-to-one' | 'one-to-many';
+  /** The property on `from` that holds the foreign key or navigation. */
+  field: string;
+}
+
+export interface SchemaEndpoint {
+  method: string;
+  path: string;
+  operationId?: string;
+  summary?: string;
+  /** C# type of the request body. */
+  request?: string;
+  /** C# type of the success response. */
+  response?: string;
+}
+
+/** The structured model parsed from an OpenAPI document or SQL DDL script that a project is generated from. */
+export interface SchemaModel {
+  source: 'openapi' | 'sql';
+  title: string;
+  entities: SchemaEntity[];
+  relationships: SchemaRelationship[];
+  endpoints: SchemaEndpoint[];
+}
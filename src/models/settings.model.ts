@@ -0,0 +1,9 @@
+export type LlmProviderId = 'gemini' | 'openai-compatible' | 'proxy' | 'mock';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+  temperature: number;
+}
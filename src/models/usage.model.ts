@@ -0,0 +1,61 @@
+import { LlmProviderId } from './settings.model';
+
+/** Token counts of one model call as reported by the provider. */
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export type UsagePurpose = 'plan' | 'generate' | 'modify' | 'review';
+
+export type UsageOutcome = 'success' | 'error' | 'cancelled';
+
+/** One model call, kept so cost and latency can be reviewed per project and overall. */
+export interface UsageRecord {
+  id: string;
+  /** The project the call was made for; generation calls use the id the project is saved under. */
+  projectId: string | null;
+  purpose: UsagePurpose;
+  provider: LlmProviderId;
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  /** The provider did not report token counts, so they were estimated from the text length. */
+  estimated: boolean;
+  latencyMs: number;
+  outcome: UsageOutcome;
+  error?: string;
+  createdAt: string;
+}
+
+/** USD per million tokens for models whose name starts with `model`; the longest matching prefix wins. */
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/** Token limits checked before a modification request is sent; null means no limit. */
+export interface UsageBudget {
+  /** Estimated prompt tokens of a single request. */
+  maxRequestTokens: number | null;
+  /** All tokens spent on one project so far plus the next request. */
+  maxProjectTokens: number | null;
+}
+
+export interface UsageSettings {
+  prices: ModelPrice[];
+  budget: UsageBudget;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  outputTokens: number;
+  /** Null when no call had a price. */
+  cost: number | null;
+  /** Calls whose model has no entry in the price table. */
+  unpricedCalls: number;
+  averageLatencyMs: number;
+}
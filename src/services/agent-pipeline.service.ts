@@ -0,0 +1,301 @@
+import { Injectable, inject } from '@angular/core';
+import { AgentId, Framework, GeneratedProject, ProjectPlan, TargetSettings } from '../models/project.model';
+import { FeatureDefinition, ProjectTemplate } from '../models/catalog.model';
+import { ChangeSetService } from './change-set.service';
+import { CodeGenerationService, GenerationCancelledError, GenerationOptions } from './code-generation.service';
+import { FeatureCatalogService } from './feature-catalog.service';
+import { SchemaImportService } from './schema-import.service';
+import { SchemaModel } from '../models/schema.model';
+
+export interface AgentPipelineOptions extends GenerationOptions {
+  /** Called when an agent starts working on its step. */
+  onAgentStart?: (agent: AgentId, task: string) => void;
+  /** Called with what an agent actually produced, including how long its step took. */
+  onAgentLog?: (agent: AgentId, message: string) => void;
+}
+
+/** What the user asked for, with the catalog definitions of the chosen features and template. */
+export interface ProjectSpec {
+  prompt: string;
+  framework: Framework;
+  features: FeatureDefinition[];
+  template: ProjectTemplate | null;
+  target: TargetSettings;
+  /** An OpenAPI document or SQL schema the generated code must match exactly. */
+  schema: SchemaModel | null;
+}
+
+/** A step after planning failed; carries the files the earlier agents finished so they can be kept. */
+export class PartialGenerationError extends Error {
+  constructor(readonly error: unknown, readonly partialProject: GeneratedProject) {
+    super(error instanceof Error ? error.message : String(error));
+    this.name = 'PartialGenerationError';
+  }
+}
+
+interface AgentStep {
+  agent: Exclude<AgentId, 'team_leader'>;
+  title: string;
+  task: string;
+  instructions: string;
+}
+
+// Role steps run in this order so each agent can build on its teammates' files.
+const AGENT_STEPS: AgentStep[] = [
+  {
+    agent: 'database',
+    title: 'Database Admin',
+    task: 'Writing the data layer',
+    instructions: 'Implement the data layer: the entity classes, the DbContext with its DbSets and model configuration, and any seed data or migrations in the plan.',
+  },
+  {
+    agent: 'coder',
+    title: 'Backend Developer',
+    task: 'Writing the backend',
+    instructions: 'Implement the backend: the project file, Program.cs with dependency injection and middleware, configuration files, services, DTOs and the controllers or endpoints in the plan.',
+  },
+  {
+    agent: 'frontend',
+    title: 'UI Architect',
+    task: 'Building the user interface',
+    instructions: 'Implement the user interface: layouts, views, pages or components and static assets for the pages in the plan, calling the backend exactly as it is implemented.',
+  },
+];
+
+/**
+ * Generates a project the way a small team would: the Team Leader plans it, the Database Admin,
+ * AI Coder and UI Architect each implement their part against that plan, and the Team Leader
+ * finishes with a consistency review of the merged result.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AgentPipelineService {
+  private codeGenerationService = inject(CodeGenerationService);
+  private changeSetService = inject(ChangeSetService);
+  private featureCatalogService = inject(FeatureCatalogService);
+  private schemaImportService = inject(SchemaImportService);
+
+  async generateProject(spec: ProjectSpec, options: AgentPipelineOptions = {}): Promise<GeneratedProject> {
+    const { prompt, framework, target, schema } = spec;
+    const requirements = this.describeRequirements(spec);
+    const log = (agent: AgentId, message: string) => options.onAgentLog?.(agent, message);
+    let files: { [path: string]: string } = {};
+    let plan: ProjectPlan | null = null;
+    const dependencies = new Set<string>();
+    const projectId = options.projectId ?? this.codeGenerationService.newProjectId();
+
+    try {
+      options.onAgentStart?.('team_leader', 'Planning the project');
+      let started = Date.now();
+      plan = await this.codeGenerationService.requestPlan(this.buildPlanPrompt(requirements), options.signal, projectId);
+      log('team_leader', `Plan ready in ${this.elapsed(started)}: ${plan.layout.length} files, ${plan.entities.length} entities, ${plan.endpoints.length} endpoints, ${plan.pages.length} pages.`);
+      if (plan.summary) log('team_leader', plan.summary);
+
+      const owners = new Map(plan.layout.map(entry => [entry.path, entry.owner]));
+      plan.dependencies.forEach(dependency => dependencies.add(dependency));
+      const lostFiles = new Set<string>();
+      let buildCommands: string[] = [];
+      let bytesBefore = 0;
+
+      for (const step of AGENT_STEPS) {
+        const assigned = plan.layout.filter(entry => entry.owner === step.agent);
+        if (assigned.length === 0) {
+          log(step.agent, 'Nothing assigned in the plan, skipping.');
+          continue;
+        }
+
+        options.onAgentStart?.(step.agent, step.task);
+        started = Date.now();
+        let stepBytes = 0;
+        const written: string[] = [];
+        const result = await this.codeGenerationService.generateFiles(this.buildStepPrompt(requirements, plan, step, files), {
+          signal: options.signal,
+          projectId,
+          onNotice: message => log(step.agent, message),
+          onFile: (path, content) => {
+            const owner = owners.get(path);
+            if (owner && owner !== step.agent) {
+              log(step.agent, `Ignored ${path}: the plan assigns it to another agent.`);
+              return;
+            }
+            files = { ...files, [path]: content };
+            written.push(path);
+            options.onFile?.(path, content);
+          },
+          onProgress: progress => {
+            stepBytes = progress.bytesReceived;
+            options.onProgress?.({ filesReceived: Object.keys(files).length, bytesReceived: bytesBefore + stepBytes });
+          },
+        });
+        bytesBefore += stepBytes;
+
+        result.dependencies.forEach(dependency => dependencies.add(dependency));
+        result.lostFiles.forEach(path => lostFiles.add(path));
+        if (result.build_commands.length > 0) buildCommands = result.build_commands;
+        log(step.agent, `Wrote ${written.length} file(s) in ${this.elapsed(started)}.${result.explanation ? ' ' + result.explanation : ''}`);
+      }
+
+      const missing = plan.layout.map(entry => entry.path).filter(path => !(path in files));
+      if (missing.length > 0) log('team_leader', `Planned files still missing: ${missing.join(', ')}.`);
+
+      const reviewed = await this.reviewConsistency(requirements, plan, files, missing, { ...options, projectId });
+      files = reviewed.files;
+      reviewed.dependencies.forEach(dependency => dependencies.add(dependency));
+
+      // Reference files are part of the definitions, so they are added verbatim even if the team forgot them.
+      for (const reference of this.featureCatalogService.referenceFiles(spec.features, spec.template)) {
+        if (reference.path in files) continue;
+        files = { ...files, [reference.path]: reference.content };
+        options.onFile?.(reference.path, reference.content);
+        log('team_leader', `Added the reference file ${reference.path}.`);
+      }
+      for (const reference of this.featureCatalogService.pinnedPackages(spec.features, spec.template, spec.target.targetFramework)) {
+        const listed = [...dependencies].some(dependency => dependency.split(/\s+/)[0].toLowerCase() === reference.name.toLowerCase());
+        if (!listed) dependencies.add(reference.name);
+      }
+
+      if (schema) {
+        const uncovered = this.schemaImportService.checkCoverage(schema, files);
+        log('team_leader', uncovered.length === 0
+          ? `Every ${schema.source === 'sql' ? 'table' : 'schema and endpoint'} in "${schema.title}" is implemented.`
+          : `Missing from the specification:\n${uncovered.map(d => `- ${d.message}`).join('\n')}`);
+      }
+
+      const stillLost = [...lostFiles].filter(path => !(path in files));
+      const notes = stillLost.length > 0 ? `These files were cut off and could not be recovered: ${stillLost.join(', ')}. Ask the assistant to create them.` : '';
+      const project = this.codeGenerationService.createProject(prompt, framework, target, {
+        files,
+        dependencies: [...dependencies],
+        explanation: [plan.summary, reviewed.explanation, notes].filter(Boolean).join('\n\n'),
+        build_commands: buildCommands.length > 0 ? buildCommands : ['dotnet restore', 'dotnet build', 'dotnet run'],
+      }, projectId);
+      return schema ? { ...project, schema } : project;
+    } catch (error) {
+      const partial = Object.keys(files).length > 0
+        ? this.codeGenerationService.createProject(prompt, framework, target, { files, dependencies: [...dependencies], explanation: plan?.summary ?? '', build_commands: [] }, projectId)
+        : null;
+      const partialProject = partial && schema ? { ...partial, schema } : partial;
+      if (error instanceof GenerationCancelledError || options.signal?.aborted) throw new GenerationCancelledError(partialProject);
+      if (partialProject) throw new PartialGenerationError(error, partialProject);
+      throw error;
+    }
+  }
+
+  /**
+   * Has the Team Leader check the merged files against the plan and applies its fixes. Review
+   * failures are logged rather than thrown: the unreviewed project is still worth keeping.
+   */
+  private async reviewConsistency(
+    requirements: string,
+    plan: ProjectPlan,
+    files: { [path: string]: string },
+    missing: string[],
+    options: AgentPipelineOptions,
+  ): Promise<{ files: { [path: string]: string }; dependencies: string[]; explanation: string }> {
+    options.onAgentStart?.('team_leader', 'Reviewing the merged project for consistency');
+    const started = Date.now();
+    try {
+      const review = await this.codeGenerationService.requestChangeSet('review', this.buildReviewPrompt(requirements, plan, files, missing), {
+        signal: options.signal,
+        projectId: options.projectId,
+        onNotice: message => options.onAgentLog?.('team_leader', message),
+      });
+      if (review.changes.length === 0) {
+        options.onAgentLog?.('team_leader', `Consistency review found nothing to fix (${this.elapsed(started)}).`);
+        return { files, dependencies: review.dependencies ?? [], explanation: review.explanation };
+      }
+
+      const reviewed = this.changeSetService.applyChanges(files, review.changes);
+      for (const [path, content] of Object.entries(reviewed)) {
+        if (files[path] !== content) options.onFile?.(path, content);
+      }
+      options.onAgentLog?.('team_leader', `Consistency review applied ${review.changes.length} fix(es) in ${this.elapsed(started)}:\n${this.changeSetService.describeChanges(review.changes)}`);
+      return { files: reviewed, dependencies: review.dependencies ?? [], explanation: review.explanation };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      options.onAgentLog?.('team_leader', `Skipped the consistency fixes: ${error instanceof Error ? error.message : error}`);
+      return { files, dependencies: [], explanation: '' };
+    }
+  }
+
+  private describeRequirements(spec: ProjectSpec): string {
+    const { prompt, framework, features, template, target, schema } = spec;
+    const featureInstructions = features.map(f => `        - **${f.label}:** ${f.instructions || f.description}`).join('\n');
+    const packages = this.featureCatalogService.pinnedPackages(features, template, target.targetFramework);
+    const referenceFiles = this.featureCatalogService.referenceFiles(features, template);
+    const frontendInstruction = features.some(f => f.category === 'ui')
+      ? ''
+      : `- **Frontend Design:** Generate basic, functional HTML/CSHTML for the required views. The focus is on functionality.`;
+
+    return `
+      **Project Requirements:**
+      - **User Prompt:** "${prompt}"
+      - **Project Type:** "${framework.label}"${framework.instructions ? ` ${framework.instructions}` : ''}
+      - **Target:** Every .csproj must use <TargetFramework>${target.targetFramework}</TargetFramework>${framework.value === '.NET MAUI' ? ' (or its platform-specific variants in <TargetFrameworks>)' : ''}, ${target.langVersion === 'default' ? 'no <LangVersion> (the SDK default)' : `<LangVersion>${target.langVersion}</LangVersion>`}, <Nullable>${target.nullable ? 'enable' : 'disable'}</Nullable> and <ImplicitUsings>${target.implicitUsings ? 'enable' : 'disable'}</ImplicitUsings>. Only use APIs and C# features available there${target.implicitUsings ? '' : ', and write every using directive explicitly'}.
+      ${template ? `- **Template "${template.label}":** ${template.instructions || template.description}` : ''}
+      - **Selected Features:** ${features.length > 0 ? '\n' + featureInstructions : 'None'}
+      ${frontendInstruction}
+      ${packages.length > 0 ? `- **Required NuGet Packages (reference exactly these versions in the .csproj):** ${packages.map(p => `${p.name} ${p.version}`).join(', ')}` : ''}
+      ${referenceFiles.length > 0 ? `- **Reference Files (include them with exactly this content and build on them):** ${JSON.stringify(Object.fromEntries(referenceFiles.map(f => [f.path, f.content])))}` : ''}
+      ${schema ? this.schemaImportService.describeForPrompt(schema) : ''}
+    `;
+  }
+
+  private buildPlanPrompt(requirements: string): string {
+    return `
+      You are the Team Leader of a team of expert .NET developers. Plan a complete, production-ready .NET project. Do not write any code yet.
+      ${requirements}
+      **Instructions:**
+      1.  List every file the project needs in "layout", including the .csproj, Program.cs and configuration files.
+      2.  Assign each file to exactly one owner: "database" (entities, DbContext, migrations, seed data), "coder" (backend code, configuration and project files) or "frontend" (views, pages, components, wwwroot assets).
+      3.  In each "purpose", name the namespace, types and public members other files rely on, so your team's work fits together. Use a single root namespace.
+      4.  Describe the entities, API endpoints and UI pages, and list the NuGet packages. When a source specification is given, plan exactly its entities, properties and routes; do not rename, merge or skip any of them.
+      5.  Return the plan as a single, valid JSON object matching the provided schema.
+    `;
+  }
+
+  private buildStepPrompt(requirements: string, plan: ProjectPlan, step: AgentStep, files: { [path: string]: string }): string {
+    const assigned = plan.layout.filter(entry => entry.owner === step.agent).map(entry => `- ${entry.path}: ${entry.purpose}`).join('\n');
+    const existing = Object.keys(files).length > 0
+      ? `**Files already written by your teammates (use their namespaces, types and members exactly; do not repeat them):**\n${JSON.stringify(files)}`
+      : '';
+
+    return `
+      You are the ${step.title} on a team building a .NET project. Implement your part of the Team Leader's plan.
+      ${requirements}
+      **Plan:**
+      ${JSON.stringify(plan)}
+
+      **Your Task:** ${step.instructions}
+
+      **Files Assigned to You:**
+      ${assigned}
+
+      ${existing}
+
+      Return a single, valid JSON object matching the provided schema. Put the "files" array first and include only the files assigned to you, with complete content. Then list the NuGet packages your files need, briefly explain what you wrote, and give the CLI commands to build and run the project. Do not include any markdown formatting like \`\`\`json.
+    `;
+  }
+
+  private buildReviewPrompt(requirements: string, plan: ProjectPlan, files: { [path: string]: string }, missing: string[]): string {
+    return `
+      You are the Team Leader reviewing the merged work of your team against your plan.
+      ${requirements}
+      **Plan:**
+      ${JSON.stringify(plan)}
+
+      **Instructions:**
+      - Look for inconsistencies that would break the build or the app: namespaces or type names that do not match, missing using directives, calls to members that do not exist, services missing from Program.cs, routes that differ from the plan or the source specification and missing NuGet packages.
+      ${missing.length > 0 ? `- These planned files were not written; create them: ${missing.join(', ')}.` : ''}
+      - Return only the fixes as a change set. Use "update" with small search/replace patches; each "search" must be copied exactly from the current file. Return an empty "changes" array if everything is consistent.
+
+      **Project Files (JSON object of path to content):**
+      ${JSON.stringify(files)}
+    `;
+  }
+
+  private elapsed(started: number): string {
+    return `${((Date.now() - started) / 1000).toFixed(1)}s`;
+  }
+}
@@ -0,0 +1,173 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { GeneratedProject } from '../models/project.model';
+import { Diagnostic } from '../models/diagnostic.model';
+import { BuildEvent, BuildLogLine, BuildMode, BuildRun, BuildServerHealth, BuildServerSettings } from '../models/build.model';
+import { ProjectExportService } from './project-export.service';
+
+export class BuildServerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BuildServerError';
+  }
+}
+
+const DEFAULT_SETTINGS: BuildServerSettings = {
+  url: 'http://localhost:5199',
+  token: '',
+};
+
+const MAX_LOG_LINES = 5000;
+
+/**
+ * Talks to the optional companion build server in `server/`, which builds the project with the real
+ * `dotnet` CLI (or a fake runner) and streams the output back. The latest run is kept here so its log
+ * survives switching workspace tabs.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BuildServerService {
+  private readonly STORAGE_KEY = 'dotnet-builder-build-server';
+  private projectExportService = inject(ProjectExportService);
+  private abortController: AbortController | null = null;
+
+  readonly settings = signal<BuildServerSettings>(this.load());
+  readonly run = signal<BuildRun | null>(null);
+
+  updateSettings(settings: BuildServerSettings): void {
+    this.settings.set(settings);
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+      console.error('Error saving build server settings to localStorage', e);
+    }
+  }
+
+  async checkHealth(): Promise<BuildServerHealth> {
+    const response = await this.request('/health', { method: 'GET' });
+    const body = await response.json() as BuildServerHealth;
+    return { runner: body.runner, tools: body.tools };
+  }
+
+  /** Sends the project to the build server and streams the run into `run`. Resolves when the run ends. */
+  async build(project: GeneratedProject, mode: BuildMode): Promise<void> {
+    this.cancel();
+    const controller = new AbortController();
+    this.abortController = controller;
+
+    // Send what an export would contain, so projects without a .csproj/.sln still build; map the
+    // sanitized paths back to the project's own so diagnostics link into the editor.
+    const rootName = this.projectExportService.toIdentifier(project.name);
+    const files = this.projectExportService.buildSolutionLayout(project, rootName);
+    const originalPaths = new Map(Object.keys(project.files).map(path => [this.projectExportService.sanitizePath(path), path]));
+
+    const log: BuildLogLine[] = [];
+    const diagnostics: Diagnostic[] = [];
+    let current: BuildRun = { projectId: project.id, mode, status: 'running', log: [], diagnostics: [], startedAt: new Date().toISOString() };
+    this.run.set(current);
+    const update = (changes: Partial<BuildRun>) => {
+      current = { ...current, ...changes, log: log.slice(-MAX_LOG_LINES), diagnostics: [...diagnostics] };
+      if (this.abortController === controller) this.run.set(current);
+    };
+
+    try {
+      const response = await this.request('/build', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode, files }),
+        signal: controller.signal,
+      });
+      if (!response.body) throw new BuildServerError('The build server returned an empty response.');
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let pending = '';
+      let done: Extract<BuildEvent, { type: 'done' }> | null = null;
+      while (true) {
+        const { value, done: finished } = await reader.read();
+        if (finished) break;
+        const lines = (pending + value).split('\n');
+        pending = lines.pop() ?? '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line) as BuildEvent;
+          switch (event.type) {
+            case 'step': log.push({ kind: 'step', text: `> ${event.command}` }); break;
+            case 'log': log.push({ kind: event.stream, text: event.text }); break;
+            case 'diagnostic': diagnostics.push({ ...event.diagnostic, path: originalPaths.get(event.diagnostic.path) ?? event.diagnostic.path }); break;
+            case 'done': done = event; break;
+            case 'error': throw new BuildServerError(event.message);
+          }
+        }
+        // One update per network chunk keeps long logs from re-rendering on every line.
+        update({});
+      }
+
+      if (!done) throw new BuildServerError('The build server closed the connection before the build finished.');
+      update({ status: done.success ? 'succeeded' : 'failed', exitCode: done.exitCode, durationMs: done.durationMs });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        update({ status: 'cancelled' });
+      } else {
+        update({ status: 'error', error: error instanceof BuildServerError ? error.message : `The build output could not be read: ${(error as Error).message}` });
+      }
+    } finally {
+      if (this.abortController === controller) this.abortController = null;
+    }
+  }
+
+  /** Stops the running build; the server kills its process when the connection drops. */
+  cancel(): void {
+    const controller = this.abortController;
+    if (!controller) return;
+    controller.abort();
+    this.run.update(run => run && run.status === 'running' ? { ...run, status: 'cancelled' } : run);
+    this.abortController = null;
+  }
+
+  clear(): void {
+    this.cancel();
+    this.run.set(null);
+  }
+
+  describeForAssistant(run: BuildRun): string {
+    const errors = run.diagnostics.filter(d => d.severity === 'error');
+    const lines = errors.map(d => `- ${d.path || 'project'}${d.line ? `:${d.line}` : ''}: ${d.code} ${d.message}`);
+    if (lines.length === 0) {
+      // Failures without compiler diagnostics (restore, docker) are only explained by the log.
+      const tail = run.log.filter(line => line.kind !== 'step').slice(-30).map(line => line.text).join('\n');
+      return `The project fails to build (\`${run.mode}\` exited with code ${run.exitCode}). Fix the build. The end of the build log:\n${tail}`;
+    }
+    return `The project fails to build. Fix these ${run.mode === 'test' ? 'build and test' : 'compiler'} errors:\n${lines.join('\n')}`;
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const { url, token } = this.settings();
+    const headers = new Headers(init.headers);
+    if (token) headers.set('X-Build-Token', token);
+
+    let response: Response;
+    try {
+      response = await fetch(`${url.replace(/\/+$/, '')}${path}`, { ...init, headers });
+    } catch (error) {
+      if (init.signal?.aborted) throw error;
+      throw new BuildServerError(`Could not reach the build server at ${url}. Start it with "npm run build-server" and check the URL.`);
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as { error?: string } | null;
+      throw new BuildServerError(body?.error ?? `The build server responded with HTTP ${response.status}.`);
+    }
+    return response;
+  }
+
+  private load(): BuildServerSettings {
+    try {
+      const settingsJson = localStorage.getItem(this.STORAGE_KEY);
+      if (settingsJson) {
+        return { ...DEFAULT_SETTINGS, ...JSON.parse(settingsJson) };
+      }
+    } catch (e) {
+      console.error('Error reading build server settings from localStorage', e);
+    }
+    return DEFAULT_SETTINGS;
+  }
+}
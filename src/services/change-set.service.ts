@@ -0,0 +1,143 @@
+import { Injectable } from '@angular/core';
+import { FileChange, FilePatch } from '../models/project.model';
+
+export class ChangeSetError extends Error {
+  constructor(readonly failures: string[]) {
+    super(`The assistant's changes could not be applied, so the project was left unchanged:\n- ${failures.join('\n- ')}`);
+    this.name = 'ChangeSetError';
+  }
+}
+
+/**
+ * Applies structured file changes returned by the model to a project's files map.
+ * Changes are applied to a copy and all of them must succeed, otherwise a ChangeSetError listing
+ * every failure is thrown and the original files are left untouched.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ChangeSetService {
+  applyChanges(files: { [key: string]: string }, changes: FileChange[]): { [key: string]: string } {
+    const result = { ...files };
+    const failures: string[] = [];
+
+    for (const change of changes) {
+      const failure = this.applyChange(result, change);
+      if (failure) failures.push(failure);
+    }
+
+    if (failures.length > 0) {
+      throw new ChangeSetError(failures);
+    }
+    return result;
+  }
+
+  describeChanges(changes: FileChange[]): string {
+    const groups: { label: string; items: string[] }[] = [
+      { label: 'Created', items: changes.filter(c => c.operation === 'create').map(c => c.path) },
+      { label: 'Updated', items: changes.filter(c => c.operation === 'update').map(c => c.path) },
+      { label: 'Renamed', items: changes.filter(c => c.operation === 'rename').map(c => `${c.path} → ${c.new_path}`) },
+      { label: 'Deleted', items: changes.filter(c => c.operation === 'delete').map(c => c.path) },
+    ];
+    return groups
+      .filter(group => group.items.length > 0)
+      .map(group => `${group.label}: ${[...new Set(group.items)].join(', ')}`)
+      .join('\n');
+  }
+
+  /** Every path a change set creates, updates, deletes or renames from or to. */
+  touchedPaths(changes: FileChange[]): string[] {
+    return [...new Set(changes.flatMap(c => c.operation === 'rename' && c.new_path ? [c.path, c.new_path] : [c.path]))];
+  }
+
+  private applyChange(files: { [key: string]: string }, change: FileChange): string | null {
+    const path = change.path?.trim();
+    if (!path) return `A ${change.operation} operation is missing its file path.`;
+
+    switch (change.operation) {
+      case 'create':
+        if (path in files) return `Cannot create ${path}: the file already exists.`;
+        if (typeof change.content !== 'string') return `Cannot create ${path}: no content was provided.`;
+        files[path] = change.content;
+        return null;
+
+      case 'update':
+        if (!(path in files)) return `Cannot update ${path}: the file does not exist.`;
+        return this.updateContent(files, path, change);
+
+      case 'delete':
+        if (!(path in files)) return `Cannot delete ${path}: the file does not exist.`;
+        delete files[path];
+        return null;
+
+      case 'rename': {
+        const newPath = change.new_path?.trim();
+        if (!(path in files)) return `Cannot rename ${path}: the file does not exist.`;
+        if (!newPath) return `Cannot rename ${path}: no new path was provided.`;
+        if (newPath !== path && newPath in files) return `Cannot rename ${path} to ${newPath}: the target already exists.`;
+        const content = files[path];
+        delete files[path];
+        files[newPath] = content;
+        return this.updateContent(files, newPath, change);
+      }
+
+      default:
+        return `Unknown operation "${change.operation}" for ${path}.`;
+    }
+  }
+
+  private updateContent(files: { [key: string]: string }, path: string, change: FileChange): string | null {
+    if (typeof change.content === 'string') {
+      files[path] = change.content;
+      return null;
+    }
+    if (change.content != null) return `Cannot update ${path}: the content is not text.`;
+    if (change.patches != null && !Array.isArray(change.patches)) return `Cannot update ${path}: the patches are not a list.`;
+
+    let content = files[path];
+    for (const [index, patch] of (change.patches || []).entries()) {
+      if (typeof patch?.search !== 'string' || typeof patch?.replace !== 'string') {
+        return `Patch ${index + 1} for ${path} needs a text "search" and "replace".`;
+      }
+      const patched = this.applyPatch(content, patch);
+      if (patched === null) {
+        return `Patch ${index + 1} for ${path} did not match the file content exactly once.`;
+      }
+      content = patched;
+    }
+
+    if (change.operation === 'update' && !change.patches?.length) {
+      return `Cannot update ${path}: neither content nor patches were provided.`;
+    }
+    files[path] = content;
+    return null;
+  }
+
+  private applyPatch(content: string, patch: FilePatch): string | null {
+    if (!patch.search) return null;
+    const index = content.indexOf(patch.search);
+    if (index !== -1) {
+      if (content.indexOf(patch.search, index + 1) !== -1) return null;
+      return content.slice(0, index) + patch.replace + content.slice(index + patch.search.length);
+    }
+    if (!content.includes('\r\n')) return null;
+
+    // Models usually write patches with LF line endings. Match against the LF copy of a CRLF file,
+    // then splice the edit into the original so the file keeps its line endings.
+    const normalized = content.replace(/\r\n/g, '\n');
+    const search = patch.search.replace(/\r\n/g, '\n');
+    const start = normalized.indexOf(search);
+    if (start === -1 || normalized.indexOf(search, start + 1) !== -1) return null;
+    const replace = patch.replace.replace(/\r?\n/g, '\r\n');
+    return content.slice(0, this.toOriginalOffset(content, start)) + replace + content.slice(this.toOriginalOffset(content, start + search.length));
+  }
+
+  /** Maps an offset in the LF copy of `content` back to the same position in `content`. */
+  private toOriginalOffset(content: string, normalizedOffset: number): number {
+    let offset = 0;
+    for (let i = 0; i < normalizedOffset; i++, offset++) {
+      if (content[offset] === '\r' && content[offset + 1] === '\n') offset++;
+    }
+    return offset;
+  }
+}
@@ -0,0 +1,62 @@
+import { Injectable, inject } from '@angular/core';
+import { ChatMessage, ChatThread, ProjectChat } from '../models/chat.model';
+import { IndexedDbService } from './indexed-db.service';
+
+// How much of the conversation is replayed into a modification prompt.
+const PROMPT_TURN_LIMIT = 8;
+const PROMPT_MESSAGE_LENGTH = 400;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ChatHistoryService {
+  private db = inject(IndexedDbService);
+
+  /** Loads a project's conversations, starting a first thread with `greeting` if there are none. */
+  async getChat(projectId: string, greeting: string): Promise<ProjectChat> {
+    const chat = await this.db.get<ProjectChat>('chats', projectId);
+    if (chat && chat.threads.length > 0) return chat;
+    const thread = this.createThread(greeting);
+    return { projectId, activeThreadId: thread.id, threads: [thread] };
+  }
+
+  async saveChat(chat: ProjectChat): Promise<void> {
+    await this.db.write(['chats'], tx => tx.objectStore('chats').put(chat));
+  }
+
+  createThread(greeting: string): ChatThread {
+    const now = new Date().toISOString();
+    return {
+      id: crypto.randomUUID(),
+      title: 'New conversation',
+      createdAt: now,
+      messages: [{ role: 'assistant', content: greeting, timestamp: now }],
+    };
+  }
+
+  /** Names a thread after its first request so threads can be told apart. */
+  titleFor(thread: ChatThread): string {
+    const firstRequest = thread.messages.find(m => m.role === 'user')?.content.replace(/\s+/g, ' ').trim();
+    if (!firstRequest) return thread.title;
+    return firstRequest.length > 48 ? `${firstRequest.slice(0, 47)}…` : firstRequest;
+  }
+
+  /**
+   * Condenses the latest turns of a thread into a short transcript for the model, so follow-up
+   * requests can refer to earlier ones. Long messages are shortened and the greeting is skipped.
+   */
+  summarizeForPrompt(messages: ChatMessage[]): string {
+    const firstRequest = messages.findIndex(m => m.role === 'user');
+    if (firstRequest < 0) return '';
+    return messages
+      .slice(firstRequest)
+      .slice(-PROMPT_TURN_LIMIT)
+      .map(message => {
+        const text = message.content.replace(/\s+/g, ' ').trim();
+        const shortened = text.length > PROMPT_MESSAGE_LENGTH ? `${text.slice(0, PROMPT_MESSAGE_LENGTH - 1)}…` : text;
+        const speaker = message.role === 'user' ? 'User' : message.revision ? `Assistant (saved as revision ${message.revision})` : 'Assistant';
+        return `${speaker}: ${shortened}`;
+      })
+      .join('\n');
+  }
+}
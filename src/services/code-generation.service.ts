@@ -0,0 +1,587 @@
+
+import { Injectable, inject } from '@angular/core';
+import { AgentId, FileChange, Framework, GeneratedProject, ModificationResult, PinnedContext, ProjectChangeSet, ProjectPlan, TargetSettings } from '../models/project.model';
+import { ChangeSetService } from './change-set.service';
+import { LlmSettingsService } from './llm-settings.service';
+import { UsageService } from './usage.service';
+import { JsonSchema, LlmJsonRequest } from './providers/llm-provider';
+import { ChangeSetStreamParser, ProjectStreamParser } from './project-stream-parser';
+import { isTruncatedJson, parseLenientJson, stripMarkdownFences } from './json-repair';
+import { SchemaMismatchError, TruncatedOutputError, toModelError } from './model-errors';
+
+interface RawProjectResponse {
+  files: { path: string; content: string }[];
+  dependencies: string[];
+  explanation: string;
+  build_commands: string[];
+}
+
+/** The files and metadata returned by one generation call, after repair and continuation. */
+export interface GeneratedFiles {
+  files: { [path: string]: string };
+  dependencies: string[];
+  explanation: string;
+  build_commands: string[];
+  /** Files the model started but that were cut off and could not be recovered. */
+  lostFiles: string[];
+}
+
+export interface GenerationProgress {
+  filesReceived: number;
+  bytesReceived: number;
+}
+
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  /** The id the project will be saved under, so the calls' usage is recorded against it. */
+  projectId?: string;
+  onFile?: (path: string, content: string) => void;
+  onProgress?: (progress: GenerationProgress) => void;
+  /** Called with status messages worth showing to the user, such as automatic continuation requests. */
+  onNotice?: (message: string) => void;
+}
+
+export interface ModificationContext {
+  /** Files the user changed by hand since the assistant's last change, so the model builds on those edits instead of reverting them. */
+  recentlyEditedFiles?: string[];
+  /** Files and selections the request is limited to; changes to any other file are reported as out of scope. */
+  pinned?: PinnedContext[];
+  /** A short transcript of the earlier turns of the conversation, for follow-up requests. */
+  conversation?: string;
+}
+
+export class GenerationCancelledError extends Error {
+  constructor(readonly partialProject: GeneratedProject | null) {
+    super('Generation was cancelled.');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+type ParsedProjectResponse = { response: RawProjectResponse } | { lostFiles: string[] };
+
+// How many times a truncated generation is followed up with a request for the remaining files.
+const MAX_CONTINUATIONS = 2;
+// C# type declarations and public members, listed in the outline of files outside a scoped request.
+const TYPE_DECLARATION = /^(?:(?:public|internal|protected|private|static|sealed|abstract|partial|readonly)\s+)*(?:class|interface|record|struct|enum)\s+\w+/;
+const PUBLIC_MEMBER = /^public\s+(?:[^=;(]*\{\s*get|[^=;]*?\w+\s*\()/;
+const MAX_OUTLINE_ENTRIES = 20;
+const CHANGE_OPERATIONS = ['create', 'update', 'delete', 'rename'];
+const AGENT_IDS: AgentId[] = ['team_leader', 'coder', 'frontend', 'database'];
+
+const PLAN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'A short description of the architecture and how the parts fit together.' },
+    layout: {
+      type: 'array',
+      description: 'Every file the project needs, with the agent responsible for writing it.',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'The full path of the file (e.g., "Data/AppDbContext.cs").' },
+          purpose: { type: 'string', description: 'What the file contains, including the key type and member names other files rely on.' },
+          owner: {
+            type: 'string',
+            enum: AGENT_IDS,
+            description: '"database" for entities, DbContext, migrations and seed data; "coder" for backend code, configuration and project files; "frontend" for views, pages, components and static assets.'
+          }
+        },
+        required: ['path', 'purpose', 'owner']
+      }
+    },
+    entities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          fields: { type: 'array', items: { type: 'string' }, description: 'Properties as "Type Name", e.g. "int Id".' }
+        },
+        required: ['name', 'fields']
+      }
+    },
+    endpoints: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          method: { type: 'string' },
+          route: { type: 'string' },
+          description: { type: 'string' }
+        },
+        required: ['method', 'route', 'description']
+      }
+    },
+    pages: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          route: { type: 'string' },
+          title: { type: 'string' },
+          description: { type: 'string' }
+        },
+        required: ['route', 'title', 'description']
+      }
+    },
+    dependencies: { type: 'array', items: { type: 'string' }, description: 'NuGet package names the project needs.' }
+  },
+  required: ['summary', 'layout', 'entities', 'endpoints', 'pages', 'dependencies'],
+};
+
+const CHANGE_SET_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    changes: {
+      type: 'array',
+      description: 'The file operations needed to fulfil the request. Only include files that actually change.',
+      items: {
+        type: 'object',
+        properties: {
+          operation: {
+            type: 'string',
+            enum: ['create', 'update', 'delete', 'rename'],
+            description: 'The kind of change to apply to the file.'
+          },
+          path: {
+            type: 'string',
+            description: 'The existing path of the file, or the path of the new file for "create".'
+          },
+          new_path: {
+            type: 'string',
+            description: 'The new path of the file. Only used for "rename".'
+          },
+          content: {
+            type: 'string',
+            description: 'The complete file content. Required for "create"; for "update" use it only when most of the file changes.'
+          },
+          patches: {
+            type: 'array',
+            description: 'Search/replace edits for "update" (and optionally "rename"). Each search string must match the current file exactly once.',
+            items: {
+              type: 'object',
+              properties: {
+                search: { type: 'string', description: 'An exact, unique excerpt of the current file content, including enough surrounding lines to be unambiguous.' },
+                replace: { type: 'string', description: 'The text that replaces the excerpt.' }
+              },
+              required: ['search', 'replace']
+            }
+          }
+        },
+        required: ['operation', 'path']
+      }
+    },
+    dependencies: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'The complete, updated list of NuGet package names. Omit if unchanged.'
+    },
+    explanation: {
+      type: 'string',
+      description: 'A brief description of the changes that were made.'
+    },
+    build_commands: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'The updated CLI commands to build and run the project. Omit if unchanged.'
+    }
+  },
+  required: ['changes', 'explanation'],
+};
+
+const PROJECT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    files: {
+      type: 'array',
+      description: 'An array of objects, where each object represents a file with its path and content.',
+      items: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            description: 'The full path of the file (e.g., "Controllers/HomeController.cs").'
+          },
+          content: {
+            type: 'string',
+            description: 'The code content of the file.'
+          }
+        },
+        required: ['path', 'content']
+      }
+    },
+    dependencies: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'An array of NuGet package names required for the project.'
+    },
+    explanation: {
+      type: 'string',
+      description: 'A brief explanation of the generated project structure and key files.'
+    },
+    build_commands: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'An array of CLI commands to build and run the project.'
+    }
+  },
+  required: ["files", "dependencies", "explanation", "build_commands"],
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CodeGenerationService {
+  private changeSetService = inject(ChangeSetService);
+  private llmSettingsService = inject(LlmSettingsService);
+  private usageService = inject(UsageService);
+
+  private async requestText(purpose: LlmJsonRequest['purpose'], fullPrompt: string, schema: JsonSchema, signal?: AbortSignal, projectId?: string): Promise<string> {
+      try {
+        const request: LlmJsonRequest = { purpose, prompt: fullPrompt, schema, settings: this.llmSettingsService.settings(), signal };
+        return await this.usageService.track(request, projectId ?? null, tracked => this.llmSettingsService.activeProvider().generateJson(tracked));
+      } catch (error) {
+        throw toModelError(error);
+      }
+  }
+
+  private async requestJson(purpose: LlmJsonRequest['purpose'], fullPrompt: string, schema: JsonSchema, signal?: AbortSignal, projectId?: string): Promise<unknown> {
+      const text = await this.requestText(purpose, fullPrompt, schema, signal, projectId);
+      const value = parseLenientJson(text);
+      if (value === undefined) {
+        if (isTruncatedJson(stripMarkdownFences(text))) throw new TruncatedOutputError([]);
+        throw new SchemaMismatchError(['the response is not valid JSON']);
+      }
+      return value;
+  }
+
+  /**
+   * Streams a project-shaped response (files first) for the prompt. A response that is cut off is
+   * followed up with continuation requests, and whatever arrived complete is kept.
+   */
+  async generateFiles(fullPrompt: string, options: GenerationOptions = {}): Promise<GeneratedFiles> {
+      const files = new Map<string, string>();
+      let bytesReceived = 0;
+      let prompt = fullPrompt;
+      let response: RawProjectResponse | null = null;
+      let lostFiles: string[] = [];
+
+      for (let attempt = 0; attempt <= MAX_CONTINUATIONS; attempt++) {
+        const parser = new ProjectStreamParser();
+        let text: string;
+        try {
+          const request: LlmJsonRequest = { purpose: 'generate', prompt, schema: PROJECT_SCHEMA, settings: this.llmSettingsService.settings(), signal: options.signal };
+          text = await this.usageService.track(request, options.projectId ?? null, (tracked, onOutput) => this.llmSettingsService.activeProvider().streamJson(tracked, chunk => {
+            onOutput(chunk);
+            bytesReceived += chunk.length;
+            for (const file of parser.push(chunk)) {
+              files.set(file.path, file.content);
+              options.onFile?.(file.path, file.content);
+            }
+            options.onProgress?.({ filesReceived: files.size, bytesReceived });
+          }));
+        } catch (error) {
+          // Callers track streamed files themselves, so they can assemble the partial project.
+          if (options.signal?.aborted) throw new GenerationCancelledError(null);
+          throw toModelError(error);
+        }
+
+        const parsed = this.parseProjectResponse(text, parser);
+        if ('response' in parsed) {
+          for (const file of parsed.response.files) {
+            // Files the stream parser could not read (e.g. invalid escapes) only appear after repair.
+            if (files.get(file.path) !== file.content) options.onFile?.(file.path, file.content);
+            files.set(file.path, file.content);
+          }
+          response = parsed.response;
+          break;
+        }
+
+        lostFiles = [...new Set([...lostFiles, ...parsed.lostFiles])];
+        if (attempt === MAX_CONTINUATIONS || files.size === 0) break;
+        options.onNotice?.(`The response was cut off after ${files.size} file(s). Asking the model to continue (${attempt + 1}/${MAX_CONTINUATIONS})...`);
+        prompt = this.buildContinuationPrompt(fullPrompt, [...files.keys()], parsed.lostFiles.filter(path => !files.has(path)));
+      }
+
+      lostFiles = lostFiles.filter(path => !files.has(path));
+      if (files.size === 0) {
+        if (!response) throw new TruncatedOutputError(lostFiles);
+        throw new SchemaMismatchError(['the "files" array is empty']);
+      }
+
+      if (lostFiles.length > 0) {
+        options.onNotice?.(`These files were cut off and could not be recovered: ${lostFiles.join(', ')}.`);
+      }
+      return {
+        files: Object.fromEntries(files),
+        dependencies: response?.dependencies ?? [],
+        explanation: response?.explanation ?? 'The model\'s output was cut off before it finished, so only the files that arrived complete were kept.',
+        build_commands: response?.build_commands ?? [],
+        lostFiles,
+      };
+  }
+
+  /**
+   * Parses a full project response, repairing common formatting mistakes. A response that ends
+   * early is reported as incomplete along with the paths of files that were started but not finished.
+   */
+  private parseProjectResponse(text: string, parser: ProjectStreamParser): ParsedProjectResponse {
+      const value = parseLenientJson<unknown>(text);
+      if (value !== undefined) {
+        return { response: this.validateProjectResponse(value) };
+      }
+      if (!isTruncatedJson(stripMarkdownFences(text))) {
+        throw new SchemaMismatchError(['the response is not valid JSON']);
+      }
+
+      const recovered = new Set(parser.files.map(file => file.path));
+      return { lostFiles: this.mentionedPaths(text).filter(path => !recovered.has(path)) };
+  }
+
+  /** The "path" values that appear anywhere in a (possibly cut off) response. */
+  private mentionedPaths(text: string): string[] {
+      const mentioned = [...text.matchAll(/"path"\s*:\s*"((?:[^"\\]|\\.)*)"/g)].map(match => match[1].replace(/\\(.)/g, '$1'));
+      return [...new Set(mentioned)];
+  }
+
+  private validateProjectResponse(value: unknown): RawProjectResponse {
+      const response = value as Partial<RawProjectResponse> | null;
+      if (typeof response !== 'object' || response === null || Array.isArray(response)) {
+        throw new SchemaMismatchError(['expected a JSON object']);
+      }
+      if (!Array.isArray(response.files)) {
+        throw new SchemaMismatchError(['"files" must be an array of { path, content } objects']);
+      }
+      const isStringArray = (list: unknown): list is string[] => Array.isArray(list) && list.every(item => typeof item === 'string');
+
+      return {
+        files: response.files.filter(file => typeof file?.path === 'string' && file.path && typeof file.content === 'string'),
+        dependencies: isStringArray(response.dependencies) ? response.dependencies : [],
+        explanation: typeof response.explanation === 'string' ? response.explanation : '',
+        build_commands: isStringArray(response.build_commands) ? response.build_commands : [],
+      };
+  }
+
+  private buildContinuationPrompt(fullPrompt: string, receivedPaths: string[], cutOffPaths: string[]): string {
+    return `${fullPrompt}
+
+      **Continuation:**
+      Your previous answer to this request was cut off before it was complete.
+      - These files were already received and must NOT be repeated: ${receivedPaths.join(', ')}.
+      ${cutOffPaths.length > 0 ? `- These files were cut off and must be regenerated in full: ${cutOffPaths.join(', ')}.` : ''}
+      - Return only the remaining files in the "files" array, followed by the complete "dependencies", "explanation" and "build_commands" for the whole project.
+      - Keep each file concise so the answer fits in a single response.
+    `;
+  }
+
+  newProjectId(): string {
+      return new Date().toISOString() + Math.random();
+  }
+
+  createProject(originalPrompt: string, framework: Framework, target: TargetSettings, generated: Omit<GeneratedFiles, 'lostFiles'>, id = this.newProjectId()): GeneratedProject {
+      const filesDictionary = Object.fromEntries(Object.entries(generated.files).filter(([path, content]) => path && content));
+      const projectName = originalPrompt.length > 50 ? originalPrompt.substring(0, 47) + '...' : originalPrompt;
+
+      return {
+        id,
+        name: projectName,
+        prompt: originalPrompt,
+        framework: framework,
+        files: filesDictionary,
+        dependencies: generated.dependencies,
+        explanation: generated.explanation,
+        build_commands: generated.build_commands,
+        target,
+      };
+  }
+
+  async requestPlan(fullPrompt: string, signal?: AbortSignal, projectId?: string): Promise<ProjectPlan> {
+      const plan = await this.requestJson('plan', fullPrompt, PLAN_SCHEMA, signal, projectId) as Partial<ProjectPlan> | null;
+      if (typeof plan !== 'object' || plan === null || !Array.isArray(plan.layout) || plan.layout.length === 0) {
+        throw new SchemaMismatchError(['the plan must contain a non-empty "layout" array']);
+      }
+      const list = <T>(value: T[] | undefined): T[] => Array.isArray(value) ? value : [];
+      return {
+        summary: typeof plan.summary === 'string' ? plan.summary : '',
+        layout: plan.layout
+          .filter(entry => typeof entry?.path === 'string' && entry.path)
+          .map(entry => ({ path: entry.path, purpose: String(entry.purpose ?? ''), owner: AGENT_IDS.includes(entry.owner) ? entry.owner : 'coder' })),
+        entities: list(plan.entities),
+        endpoints: list(plan.endpoints),
+        pages: list(plan.pages),
+        dependencies: list(plan.dependencies).filter(dep => typeof dep === 'string'),
+      };
+  }
+
+  /**
+   * Requests a change set. A response that is cut off is followed up with continuation requests for
+   * the remaining operations, and the complete operations from every part are kept in order.
+   */
+  async requestChangeSet(purpose: 'modify' | 'review', fullPrompt: string, options: GenerationOptions = {}): Promise<ProjectChangeSet> {
+      const changes: FileChange[] = [];
+      let prompt = fullPrompt;
+      let lostPaths: string[] = [];
+
+      for (let attempt = 0; attempt <= MAX_CONTINUATIONS; attempt++) {
+        const text = await this.requestText(purpose, prompt, CHANGE_SET_SCHEMA, options.signal, options.projectId);
+        const value = parseLenientJson<unknown>(text);
+        if (value !== undefined) {
+          const changeSet = this.validateChangeSet(value);
+          return { ...changeSet, changes: [...changes, ...changeSet.changes] };
+        }
+        if (!isTruncatedJson(stripMarkdownFences(text))) {
+          throw new SchemaMismatchError(['the response is not valid JSON']);
+        }
+
+        const parser = new ChangeSetStreamParser();
+        parser.push(text);
+        const received = this.validateChangeSet({ changes: parser.changes }).changes;
+        changes.push(...received);
+        const recovered = new Set(received.map(change => change.path));
+        lostPaths = [...new Set([...lostPaths, ...this.mentionedPaths(text).filter(path => !recovered.has(path))])];
+        if (attempt === MAX_CONTINUATIONS || received.length === 0) break;
+        options.onNotice?.(`The response was cut off after ${changes.length} change(s). Asking the model to continue (${attempt + 1}/${MAX_CONTINUATIONS})...`);
+        prompt = this.buildChangeSetContinuationPrompt(fullPrompt, changes, lostPaths.filter(path => !changes.some(change => change.path === path)));
+      }
+
+      lostPaths = lostPaths.filter(path => !changes.some(change => change.path === path));
+      if (changes.length === 0) throw new TruncatedOutputError(lostPaths);
+      return {
+        changes,
+        explanation: 'The model\'s output was cut off before it finished, so only the changes that arrived complete were kept.'
+          + (lostPaths.length > 0 ? ` These files were cut off and not changed: ${lostPaths.join(', ')}.` : ''),
+      };
+  }
+
+  private buildChangeSetContinuationPrompt(fullPrompt: string, received: FileChange[], cutOffPaths: string[]): string {
+    return `${fullPrompt}
+
+      **Continuation:**
+      Your previous answer to this request was cut off before it was complete.
+      - These operations were already received and must NOT be repeated: ${this.changeSetService.describeChanges(received).replace(/\n/g, '; ')}.
+      ${cutOffPaths.length > 0 ? `- The operations for these files were cut off and must be sent again in full: ${cutOffPaths.join(', ')}.` : ''}
+      - The files above are unchanged by the operations already received; write the remaining operations against them.
+      - Return only the remaining operations in the "changes" array, followed by the complete "dependencies", "explanation" and "build_commands" for the whole change.
+      - Prefer small patches over full file contents so the answer fits in a single response.
+    `;
+  }
+
+  private validateChangeSet(value: unknown): ProjectChangeSet {
+      const changeSet = value as Partial<ProjectChangeSet> | null;
+      if (typeof changeSet !== 'object' || changeSet === null || !Array.isArray(changeSet.changes)) {
+        throw new SchemaMismatchError(['"changes" must be an array of file operations']);
+      }
+
+      const isStringArray = (list: unknown): list is string[] => Array.isArray(list) && list.every(item => typeof item === 'string');
+      const problems: string[] = [];
+      changeSet.changes.forEach((change, index) => {
+        if (!CHANGE_OPERATIONS.includes(change?.operation)) problems.push(`changes[${index}] has an unknown operation "${change?.operation}"`);
+        if (typeof change?.path !== 'string' || !change.path) problems.push(`changes[${index}] is missing a path`);
+        if (change?.operation === 'create' ? typeof change.content !== 'string' : change?.content != null && typeof change.content !== 'string') {
+          problems.push(`changes[${index}] has a "content" that is not a string`);
+        }
+        if (change?.new_path != null && typeof change.new_path !== 'string') problems.push(`changes[${index}] has a "new_path" that is not a string`);
+        if (change?.patches != null) {
+          if (!Array.isArray(change.patches)) {
+            problems.push(`changes[${index}].patches must be an array`);
+          } else {
+            change.patches.forEach((patch, patchIndex) => {
+              if (typeof patch?.search !== 'string' || typeof patch?.replace !== 'string') {
+                problems.push(`changes[${index}].patches[${patchIndex}] must have string "search" and "replace" fields`);
+              }
+            });
+          }
+        }
+      });
+      if (changeSet.dependencies != null && !isStringArray(changeSet.dependencies)) problems.push('"dependencies" must be an array of strings');
+      if (changeSet.build_commands != null && !isStringArray(changeSet.build_commands)) problems.push('"build_commands" must be an array of strings');
+      if (problems.length > 0) throw new SchemaMismatchError(problems);
+
+      return {
+        changes: changeSet.changes,
+        dependencies: changeSet.dependencies ?? undefined,
+        explanation: typeof changeSet.explanation === 'string' ? changeSet.explanation : '',
+        build_commands: changeSet.build_commands ?? undefined,
+      };
+  }
+
+  /**
+   * The project files as sent with a modification request: all of them in full, or when the request
+   * is scoped to pinned files, those in full and only an outline of the others.
+   */
+  describeFilesForModification(files: { [path: string]: string }, scope: string[]): string {
+    if (scope.length === 0) {
+      return `**Existing Project Files (JSON object of path to content):**\n${JSON.stringify(files)}`;
+    }
+    const pinned = Object.fromEntries(scope.filter(path => path in files).map(path => [path, files[path]]));
+    const outline = Object.keys(files).filter(path => !scope.includes(path)).map(path => this.outlineFile(path, files[path]));
+    return `**Pinned Project Files (JSON object of path to content):**\n${JSON.stringify(pinned)}`
+      + (outline.length > 0 ? `\n\n**Other Project Files (outline only, for reference):**\n${outline.join('\n')}` : '');
+  }
+
+  /** The path of a file, with its type declarations and public members for C# files. */
+  private outlineFile(path: string, content: string): string {
+    if (!path.endsWith('.cs')) return `- ${path}`;
+    const declarations = content.split('\n')
+      .map(line => line.trim())
+      .filter(line => TYPE_DECLARATION.test(line) || PUBLIC_MEMBER.test(line))
+      .map(line => line.replace(/\s*(?:\{.*|=>.*)$/, ''))
+      .slice(0, MAX_OUTLINE_ENTRIES);
+    return declarations.length > 0 ? `- ${path}: ${declarations.join('; ')}` : `- ${path}`;
+  }
+
+  async modifyProject(prompt: string, existingProject: GeneratedProject, context: ModificationContext = {}): Promise<ModificationResult> {
+    const { recentlyEditedFiles = [], pinned = [], conversation } = context;
+    const target = existingProject.target;
+    const scope = [...new Set(pinned.map(p => p.path))];
+    const selections = pinned
+      .filter(p => p.selection)
+      .map(p => `--- ${p.path}, lines ${p.selection!.startLine}-${p.selection!.endLine} ---\n${p.selection!.text}`);
+    const fullPrompt = `
+      You are an expert AI .NET developer. You will be given the files of an existing .NET project and a user request for modification.
+      Your task is to apply the requested changes and return *only* the file operations needed, as a structured change set.
+
+      **Rules for the change set:**
+      - Use "create" for new files (with full content), "delete" to remove files and "rename" to move files.
+      - Use "update" with small search/replace patches for targeted edits. Each "search" must be copied exactly from the current file and match it only once.
+      - Only use full "content" for an "update" when most of the file changes.
+      - Never include files that do not need to change.
+
+      ${conversation ? `**Conversation So Far (the request below may refer to it):**\n${conversation}\n` : ''}
+      **User Request for Modification:**
+      "${prompt}"
+
+      **Current Dependencies:** ${existingProject.dependencies.join(', ') || 'None'}
+      ${target ? `**Target Settings (keep them in every .csproj):** TargetFramework ${target.targetFramework}, LangVersion ${target.langVersion}, Nullable ${target.nullable ? 'enable' : 'disable'}, ImplicitUsings ${target.implicitUsings ? 'enable' : 'disable'}.` : ''}
+      ${recentlyEditedFiles.length > 0 ? `**Files Edited by Hand Since Your Last Change:** ${recentlyEditedFiles.join(', ')}. Their current content is intentional: build on it and do not revert it.` : ''}
+      ${scope.length > 0 ? `**Scope:** The user pinned these files: ${scope.join(', ')}. Only these files may change. Do not create, delete, rename or update any other file; if the request cannot be completed within them, make what changes you can and say what else is needed in the explanation.` : ''}
+      ${selections.length > 0 ? `**Code the User Selected (focus the change here):**\n${selections.join('\n')}` : ''}
+
+      ${this.describeFilesForModification(existingProject.files, scope)}
+
+      Now, provide the change set as a single, valid JSON object matching the required schema. The 'explanation' field should describe the changes you made.
+    `;
+
+    let changeSet: ProjectChangeSet;
+    try {
+        changeSet = await this.requestChangeSet('modify', fullPrompt, { projectId: existingProject.id });
+    } catch (error) {
+        console.error("Error calling the model for modification:", error);
+        throw toModelError(error);
+    }
+
+    // Throws a ChangeSetError describing every operation that failed; the project stays unchanged.
+    const files = this.changeSetService.applyChanges(existingProject.files, changeSet.changes);
+    return {
+      project: {
+        ...existingProject,
+        files,
+        dependencies: changeSet.dependencies ?? existingProject.dependencies,
+        explanation: changeSet.explanation,
+        build_commands: changeSet.build_commands ?? existingProject.build_commands,
+      },
+      changes: changeSet.changes,
+      outOfScopeFiles: scope.length > 0 ? this.changeSetService.touchedPaths(changeSet.changes).filter(path => !scope.includes(path)) : [],
+    };
+  }
+}
@@ -0,0 +1,391 @@
+import { Injectable } from '@angular/core';
+import { GeneratedProject } from '../models/project.model';
+import { Diagnostic } from '../models/diagnostic.model';
+import { NUGET_SNAPSHOT, NuGetPackageInfo } from './nuget-snapshot';
+
+export class DependencyEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DependencyEditError';
+  }
+}
+
+export interface PackageReference {
+  name: string;
+  version: string | null;
+}
+
+export interface PackageUsage {
+  name: string;
+  /** The declared version, or the central version from Directory.Packages.props. */
+  version: string | null;
+  line?: number;
+  /** The package is in the project's dependency list. */
+  listed: boolean;
+  /** Whether code uses the package; `null` when the snapshot cannot tell. */
+  used: boolean | null;
+  /** The version the snapshot recommends for the project's target framework. */
+  suggestedVersion: string | null;
+  info?: NuGetPackageInfo;
+}
+
+export interface ProjectPackages {
+  path: string;
+  targetFramework: string | null;
+  packages: PackageUsage[];
+}
+
+export interface DependencyReport {
+  projects: ProjectPackages[];
+  /** Dependencies listed on the project that no .csproj references. */
+  unreferenced: string[];
+  /** Packages that code uses but no .csproj references. */
+  missing: { name: string; namespace: string; path: string; line?: number }[];
+  /** Directory.Packages.props, when versions are managed centrally. */
+  centralPropsPath: string | null;
+  issues: Diagnostic[];
+}
+
+const PACKAGE_NAME = /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/;
+const PACKAGE_VERSION = /^[\w.*+\-[\](), ]+$/;
+
+/**
+ * Analyzes and edits the NuGet package references of a project's .csproj files. Analysis compares
+ * references with the dependency list, with what the code uses and with the target framework, using
+ * the bundled NuGet snapshot rather than the network. Edits rewrite the csproj text in place so the
+ * rest of the file keeps its formatting.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DependencyService {
+  analyze(project: GeneratedProject): DependencyReport {
+    const files = project.files;
+    const projectFiles = Object.keys(files).filter(path => path.toLowerCase().endsWith('.csproj')).sort();
+    const centralPropsPath = Object.keys(files).find(path => /(^|\/)Directory\.Packages\.props$/i.test(path)) ?? null;
+    const centralVersions = this.readCentralVersions(centralPropsPath ? files[centralPropsPath] : '');
+    const buildProps = Object.entries(files).filter(([path]) => /(^|\/)Directory\.Build\.props$/i.test(path)).map(([, xml]) => xml);
+    const listed = new Set(project.dependencies.map(dep => dep.trim().split(/\s+/)[0].toLowerCase()).filter(Boolean));
+    const sources = Object.entries(files).filter(([path]) => !/\.(csproj|sln|props)$/i.test(path));
+    const text = sources.map(([, content]) => content).join('\n');
+
+    const issues: Diagnostic[] = [];
+    const projects: ProjectPackages[] = projectFiles.map(path => {
+      const xml = files[path];
+      const targetFramework = this.readTargetFramework(xml) ?? buildProps.map(props => this.readTargetFramework(props)).find(Boolean) ?? null;
+      const packages = this.parsePackageReferences(xml).map(reference => {
+        const info = this.lookup(reference.name);
+        return {
+          name: reference.name,
+          version: reference.version ?? centralVersions.get(reference.name.toLowerCase()) ?? null,
+          line: this.lineAt(xml, this.findElement(xml, 'PackageReference', reference.name)?.index ?? -1),
+          listed: listed.has(reference.name.toLowerCase()),
+          used: info ? this.isUsed(reference.name, info, text) : null,
+          suggestedVersion: this.suggestVersion(reference.name, targetFramework),
+          info,
+        };
+      });
+      return { path, targetFramework, packages };
+    });
+
+    const referenced = new Set(projects.flatMap(p => p.packages.map(pkg => pkg.name.toLowerCase())));
+    const unreferenced = projectFiles.length === 0 ? [] : project.dependencies
+      .map(dep => dep.trim().split(/\s+/)[0])
+      .filter(name => name && !referenced.has(name.toLowerCase()));
+    for (const name of unreferenced) {
+      issues.push({ severity: 'warning', code: 'package-not-referenced', message: `"${name}" is listed as a dependency but no .csproj has a PackageReference for it.`, path: projectFiles[0] });
+    }
+
+    const versions = new Map<string, Set<string>>();
+    for (const { packages } of projects) {
+      for (const pkg of packages) {
+        if (!pkg.version) continue;
+        const key = pkg.name.toLowerCase();
+        versions.set(key, (versions.get(key) ?? new Set()).add(pkg.version));
+      }
+    }
+
+    for (const { path, targetFramework, packages } of projects) {
+      for (const pkg of packages) {
+        const at = { path, line: pkg.line };
+        if (!pkg.listed) {
+          issues.push({ severity: 'warning', code: 'package-not-listed', message: `PackageReference "${pkg.name}" is missing from the project's dependency list.`, ...at });
+        }
+        if (pkg.used === false) {
+          issues.push({ severity: 'warning', code: 'package-unused', message: `"${pkg.name}" is referenced but nothing in the code uses it.`, ...at });
+        }
+        if (!pkg.version) {
+          issues.push({ severity: 'warning', code: 'package-version-missing', message: `PackageReference "${pkg.name}" has no version.`, ...at });
+          continue;
+        }
+        if (pkg.version.includes('*')) {
+          issues.push({ severity: 'warning', code: 'package-version-floating', message: `"${pkg.name}" floats to version ${pkg.version}; pin a version for reproducible builds.`, ...at });
+        }
+        const conflicting = versions.get(pkg.name.toLowerCase())!;
+        if (conflicting.size > 1) {
+          issues.push({ severity: 'warning', code: 'package-version-conflict', message: `"${pkg.name}" is referenced with different versions across projects: ${[...conflicting].join(', ')}.`, ...at });
+        }
+        const problem = this.checkRuntimeVersion(pkg, targetFramework);
+        if (problem) issues.push({ ...problem, ...at });
+      }
+    }
+
+    const missing = this.findMissingPackages(sources, referenced);
+    for (const entry of missing) {
+      issues.push({ severity: 'error', code: 'package-missing', message: `The code uses ${entry.namespace} from the ${entry.name} package, which no .csproj references.`, path: entry.path, line: entry.line });
+    }
+
+    return { projects, unreferenced, missing, centralPropsPath, issues };
+  }
+
+  /** Package ids from the snapshot that match a search query, best matches first. */
+  searchPackages(query: string): string[] {
+    const q = query.trim().toLowerCase();
+    const ids = Object.keys(NUGET_SNAPSHOT);
+    if (!q) return ids;
+    return ids
+      .filter(id => id.toLowerCase().includes(q) || NUGET_SNAPSHOT[id].description.toLowerCase().includes(q))
+      .sort((a, b) => Number(!a.toLowerCase().startsWith(q)) - Number(!b.toLowerCase().startsWith(q)) || a.localeCompare(b));
+  }
+
+  /** The PackageReference items of a .csproj, with inline or child-element versions. */
+  parsePackageReferences(csproj: string): PackageReference[] {
+    const references: PackageReference[] = [];
+    const pattern = /<PackageReference\b([^>]*?)(\/>|>([\s\S]*?)<\/PackageReference>)/gi;
+    for (const match of csproj.matchAll(pattern)) {
+      const name = /\bInclude\s*=\s*"([^"]+)"/i.exec(match[1])?.[1];
+      if (!name) continue;
+      const version = /\bVersion\s*=\s*"([^"]+)"/i.exec(match[1])?.[1]
+        ?? /<Version>\s*([^<]+?)\s*<\/Version>/i.exec(match[3] || '')?.[1]
+        ?? null;
+      references.push({ name, version });
+    }
+    return references;
+  }
+
+  /** Known versions of a package, newest first. */
+  versionsOf(name: string): string[] {
+    return [...(this.lookup(name)?.versions ?? [])].sort((a, b) => this.compareVersions(b, a));
+  }
+
+  /** The newest known version, or for runtime-aligned packages the newest one matching the target framework. */
+  suggestVersion(name: string, targetFramework: string | null): string | null {
+    const info = this.lookup(name);
+    if (!info) return null;
+    const versions = this.versionsOf(name);
+    const major = this.runtimeMajor(targetFramework);
+    if (info.tracksRuntime && major !== null) {
+      return versions.find(v => this.major(v) === major) ?? versions.find(v => this.major(v)! < major) ?? versions[0];
+    }
+    return versions[0];
+  }
+
+  /** A pinned version moved to the target framework's major for runtime-aligned packages; other pins are kept. */
+  alignToRuntime(name: string, version: string, targetFramework: string | null): string {
+    const runtime = this.runtimeMajor(targetFramework);
+    if (!this.lookup(name)?.tracksRuntime || runtime === null || this.major(version) === runtime) return version;
+    return this.suggestVersion(name, targetFramework) ?? version;
+  }
+
+  setPackageVersion(xml: string, name: string, version: string): string {
+    return this.setVersion(xml, 'PackageReference', name, version);
+  }
+
+  /**
+   * Adds a PackageReference next to the existing ones, or updates its version when it is already there.
+   * A `null` version leaves it to central package management.
+   */
+  addPackageReference(xml: string, name: string, version: string | null): string {
+    return this.addElement(xml, 'PackageReference', name, version);
+  }
+
+  /** Sets or adds a package's <PackageVersion> in Directory.Packages.props. */
+  setCentralVersion(props: string, name: string, version: string): string {
+    return this.addElement(props, 'PackageVersion', name, version);
+  }
+
+  /** Removes a PackageReference, and its ItemGroup when nothing else is left in it. */
+  removePackageReference(xml: string, name: string): string {
+    const element = this.findElement(xml, 'PackageReference', name);
+    if (!element) {
+      throw new DependencyEditError(`The project does not reference "${name}".`);
+    }
+    const lineStart = xml.lastIndexOf('\n', element.index - 1) + 1;
+    const lineEnd = xml.indexOf('\n', element.index + element.text.length);
+    const ownsLine = !xml.slice(lineStart, element.index).trim() && !xml.slice(element.index + element.text.length, lineEnd < 0 ? xml.length : lineEnd).trim();
+    const removedAt = ownsLine ? lineStart : element.index;
+    const result = ownsLine
+      ? xml.slice(0, lineStart) + (lineEnd < 0 ? '' : xml.slice(lineEnd + 1))
+      : xml.slice(0, element.index) + xml.slice(element.index + element.text.length);
+
+    const open = /<ItemGroup\b[^>]*>\s*$/i.exec(result.slice(0, removedAt));
+    const close = /^\s*<\/ItemGroup>[ \t]*/i.exec(result.slice(removedAt));
+    if (!open || !close) return result;
+    return result.slice(0, open.index).replace(/\s*$/, '') + result.slice(removedAt + close[0].length);
+  }
+
+  private setVersion(xml: string, tag: string, name: string, version: string): string {
+    this.checkVersion(version);
+    const element = this.findElement(xml, tag, name);
+    if (!element) {
+      throw new DependencyEditError(`The project does not reference "${name}".`);
+    }
+    const escaped = this.escapeXml(version);
+    let updated: string;
+    if (/\bVersion\s*=\s*"[^"]*"/i.test(element.text)) {
+      updated = element.text.replace(/(\bVersion\s*=\s*")[^"]*(")/i, `$1${escaped}$2`);
+    } else if (/<Version>[^<]*<\/Version>/i.test(element.text)) {
+      updated = element.text.replace(/(<Version>)[^<]*(<\/Version>)/i, `$1${escaped}$2`);
+    } else {
+      updated = element.text.replace(/(\bInclude\s*=\s*"[^"]*")/i, `$1 Version="${escaped}"`);
+    }
+    return xml.slice(0, element.index) + updated + xml.slice(element.index + element.text.length);
+  }
+
+  private addElement(xml: string, tag: string, name: string, version: string | null): string {
+    if (!PACKAGE_NAME.test(name)) {
+      throw new DependencyEditError(`"${name}" is not a valid package id.`);
+    }
+    if (this.findElement(xml, tag, name)) {
+      return version === null ? xml : this.setVersion(xml, tag, name, version);
+    }
+    if (version !== null) this.checkVersion(version);
+    const eol = xml.includes('\r\n') ? '\r\n' : '\n';
+    const element = `<${tag} Include="${this.escapeXml(name)}"` + (version === null ? '' : ` Version="${this.escapeXml(version)}"`) + ' />';
+
+    const siblings = [...xml.matchAll(new RegExp(`^([ \\t]*)<${tag}\\b[^>]*?(?:\\/>|>[\\s\\S]*?<\\/${tag}>)[ \\t]*$`, 'gmi'))];
+    const last = siblings[siblings.length - 1];
+    if (last) {
+      const end = last.index! + last[0].length;
+      return xml.slice(0, end) + eol + last[1] + element + xml.slice(end);
+    }
+
+    const close = xml.search(/<\/Project>\s*$/i);
+    if (close < 0) {
+      throw new DependencyEditError('The project file has no closing </Project> element.');
+    }
+    const indent = /^([ \t]+)<(?:PropertyGroup|ItemGroup)\b/m.exec(xml)?.[1] ?? '  ';
+    const before = xml.slice(0, close).replace(/\s*$/, '');
+    return `${before}${eol}${eol}${indent}<ItemGroup>${eol}${indent}${indent}${element}${eol}${indent}</ItemGroup>${eol}${eol}${xml.slice(close)}`;
+  }
+
+  /** Parses the target framework moniker's .NET major version, e.g. 8 for "net8.0". */
+  runtimeMajor(targetFramework: string | null): number | null {
+    const match = /^net(\d+)\.\d+/i.exec(targetFramework ?? '');
+    return match && Number(match[1]) >= 5 ? Number(match[1]) : null;
+  }
+
+  private checkRuntimeVersion(pkg: PackageUsage, targetFramework: string | null): Omit<Diagnostic, 'path'> | null {
+    const runtime = this.runtimeMajor(targetFramework);
+    const major = this.major(pkg.version!);
+    if (!pkg.info?.tracksRuntime || runtime === null || major === null || major === runtime) return null;
+    const suggestion = pkg.suggestedVersion ? ` Use ${pkg.suggestedVersion} instead.` : '';
+    if (major > runtime) {
+      return { severity: 'error', code: 'package-version-target', message: `${pkg.name} ${pkg.version} requires net${major}.0 or later, but the project targets ${targetFramework}.${suggestion}` };
+    }
+    return { severity: 'warning', code: 'package-version-target', message: `${pkg.name} ${pkg.version} was built for net${major}.0, but the project targets ${targetFramework}.${suggestion}` };
+  }
+
+  /**
+   * A package counts as used when code mentions one of its symbols or a namespace it owns. Packages
+   * that only contribute namespaces owned by another package (such as EF Core providers) need a symbol.
+   */
+  private isUsed(name: string, info: NuGetPackageInfo, text: string): boolean | null {
+    if (info.tooling) return null;
+    const owned = info.namespaces.filter(ns => ns.toLowerCase() === name.toLowerCase() || ns.toLowerCase().startsWith(name.toLowerCase() + '.'));
+    const symbols = info.symbols ?? [];
+    if (owned.length === 0 && symbols.length === 0) return null;
+    return symbols.some(symbol => text.includes(symbol))
+      || owned.some(ns => new RegExp(`(^|[^\\w.])${this.escapeRegExp(ns)}\\b`).test(text));
+  }
+
+  private findMissingPackages(sources: [string, string][], referenced: Set<string>): DependencyReport['missing'] {
+    const provided = [...referenced].flatMap(name => [name, ...(this.lookup(name)?.namespaces ?? []).map(ns => ns.toLowerCase())]);
+    const isProvided = (namespace: string) => provided.some(ns => namespace.toLowerCase() === ns || namespace.toLowerCase().startsWith(ns + '.'));
+    const declared = new Set(sources.flatMap(([, content]) => [...content.matchAll(/^\s*namespace\s+([\w.]+)/gm)].map(match => match[1])));
+
+    const missing = new Map<string, DependencyReport['missing'][number]>();
+    for (const [path, content] of sources) {
+      if (!/\.(cs|cshtml|razor)$/i.test(path)) continue;
+      for (const match of content.matchAll(/^\s*(?:global\s+)?@?using\s+(?!static\b)(?!\w+\s*=)([\w.]+)\s*;?\s*$/gm)) {
+        const namespace = match[1];
+        if (declared.has(namespace) || isProvided(namespace)) continue;
+        const name = this.packageForNamespace(namespace);
+        if (name && !missing.has(name)) {
+          missing.set(name, { name, namespace, path, line: this.lineAt(content, match.index!) });
+        }
+      }
+    }
+    return [...missing.values()];
+  }
+
+  /** The snapshot package that primarily provides a namespace, preferring the one named after it. */
+  private packageForNamespace(namespace: string): string | null {
+    const candidates = Object.entries(NUGET_SNAPSHOT)
+      .filter(([, info]) => info.namespaces[0] && (namespace === info.namespaces[0] || namespace.startsWith(info.namespaces[0] + '.')));
+    if (candidates.length === 0) return null;
+    return (candidates.find(([id, info]) => id === info.namespaces[0]) ?? candidates[0])[0];
+  }
+
+  private readCentralVersions(props: string): Map<string, string> {
+    const versions = new Map<string, string>();
+    for (const match of props.matchAll(/<PackageVersion\b[^>]*?\bInclude\s*=\s*"([^"]+)"[^>]*?\bVersion\s*=\s*"([^"]+)"/gi)) {
+      versions.set(match[1].toLowerCase(), match[2]);
+    }
+    return versions;
+  }
+
+  private readTargetFramework(xml: string): string | null {
+    const match = /<TargetFrameworks?>\s*([^<;\s]+)/i.exec(xml);
+    return match ? match[1] : null;
+  }
+
+  private findElement(xml: string, tag: string, name: string): { index: number; text: string } | null {
+    const pattern = new RegExp(`<${tag}\\b[^>]*?\\bInclude\\s*=\\s*"${this.escapeRegExp(name)}"[^>]*?(?:\\/>|>[\\s\\S]*?<\\/${tag}>)`, 'i');
+    const match = pattern.exec(xml);
+    return match ? { index: match.index, text: match[0] } : null;
+  }
+
+  private lookup(name: string): NuGetPackageInfo | undefined {
+    const id = Object.keys(NUGET_SNAPSHOT).find(key => key.toLowerCase() === name.toLowerCase());
+    return id ? NUGET_SNAPSHOT[id] : undefined;
+  }
+
+  private checkVersion(version: string): void {
+    if (!version.trim() || !PACKAGE_VERSION.test(version)) {
+      throw new DependencyEditError(`"${version}" is not a valid package version.`);
+    }
+  }
+
+  private major(version: string): number | null {
+    const match = /^\[?\s*(\d+)\./.exec(version);
+    return match ? Number(match[1]) : null;
+  }
+
+  private compareVersions(a: string, b: string): number {
+    const parts = (v: string) => v.split(/[.-]/).map(part => Number.parseInt(part, 10) || 0);
+    const [pa, pb] = [parts(a), parts(b)];
+    for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+      const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  }
+
+  private lineAt(content: string, index: number): number | undefined {
+    if (index < 0) return undefined;
+    let line = 1;
+    for (let i = 0; i < index; i++) {
+      if (content.charCodeAt(i) === 10) line++;
+    }
+    return line;
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
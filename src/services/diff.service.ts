@@ -0,0 +1,176 @@
+import { Injectable } from '@angular/core';
+
+export type FileDiffStatus = 'added' | 'removed' | 'modified';
+
+export interface DiffLine {
+  number: number;
+  text: string;
+}
+
+export interface DiffRow {
+  type: 'equal' | 'added' | 'removed' | 'modified' | 'collapsed';
+  left: DiffLine | null;
+  right: DiffLine | null;
+  hiddenLines?: number;
+}
+
+export interface FileDiff {
+  path: string;
+  status: FileDiffStatus;
+  additions: number;
+  deletions: number;
+  rows: DiffRow[];
+}
+
+interface EditOp {
+  op: 'equal' | 'removed' | 'added';
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+// Above this many cells the LCS table is skipped and the changed region is shown as a full replacement.
+const MAX_LCS_CELLS = 4_000_000;
+const CONTEXT_LINES = 3;
+
+/**
+ * Line-based diffing used to review changes between two versions of a project's files.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DiffService {
+  diffProjects(before: { [key: string]: string }, after: { [key: string]: string }): FileDiff[] {
+    const paths = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    const diffs: FileDiff[] = [];
+    for (const path of paths) {
+      const inBefore = path in before;
+      const inAfter = path in after;
+      if (inBefore && inAfter && before[path] === after[path]) continue;
+      const status: FileDiffStatus = !inBefore ? 'added' : !inAfter ? 'removed' : 'modified';
+      diffs.push(this.diffFile(path, before[path] ?? '', after[path] ?? '', status));
+    }
+    return diffs;
+  }
+
+  diffFile(path: string, before: string, after: string, status: FileDiffStatus = 'modified'): FileDiff {
+    const oldLines = status === 'added' ? [] : this.splitLines(before);
+    const newLines = status === 'removed' ? [] : this.splitLines(after);
+    const ops = this.diffLines(oldLines, newLines);
+    return {
+      path,
+      status,
+      additions: ops.filter(op => op.op === 'added').length,
+      deletions: ops.filter(op => op.op === 'removed').length,
+      rows: this.collapseUnchanged(this.pairRows(ops)),
+    };
+  }
+
+  private splitLines(content: string): string[] {
+    return content.replace(/\r\n/g, '\n').split('\n');
+  }
+
+  private diffLines(oldLines: string[], newLines: string[]): EditOp[] {
+    const equal = (i: number, j: number): EditOp => ({ op: 'equal', left: { number: i + 1, text: oldLines[i] }, right: { number: j + 1, text: newLines[j] } });
+    const removed = (i: number): EditOp => ({ op: 'removed', left: { number: i + 1, text: oldLines[i] }, right: null });
+    const added = (j: number): EditOp => ({ op: 'added', left: null, right: { number: j + 1, text: newLines[j] } });
+
+    const ops: EditOp[] = [];
+    let start = 0;
+    while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+      ops.push(equal(start, start));
+      start++;
+    }
+    let oldEnd = oldLines.length;
+    let newEnd = newLines.length;
+    while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+      oldEnd--;
+      newEnd--;
+    }
+
+    const n = oldEnd - start;
+    const m = newEnd - start;
+    if (n * m > MAX_LCS_CELLS) {
+      for (let i = start; i < oldEnd; i++) ops.push(removed(i));
+      for (let j = start; j < newEnd; j++) ops.push(added(j));
+    } else {
+      // lcs[i * (m + 1) + j] is the LCS length of the remaining old lines from i and new lines from j.
+      const width = m + 1;
+      const lcs = new Uint32Array((n + 1) * width);
+      for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+          lcs[i * width + j] = oldLines[start + i] === newLines[start + j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+        }
+      }
+
+      let i = 0;
+      let j = 0;
+      while (i < n || j < m) {
+        if (i < n && j < m && oldLines[start + i] === newLines[start + j]) {
+          ops.push(equal(start + i++, start + j++));
+        } else if (i < n && (j === m || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+          ops.push(removed(start + i++));
+        } else {
+          ops.push(added(start + j++));
+        }
+      }
+    }
+
+    for (let k = 0; oldEnd + k < oldLines.length; k++) {
+      ops.push(equal(oldEnd + k, newEnd + k));
+    }
+    return ops;
+  }
+
+  /** Pairs each run of removed lines with the added lines that follow it so they sit side by side. */
+  private pairRows(ops: EditOp[]): DiffRow[] {
+    const rows: DiffRow[] = [];
+    let index = 0;
+    while (index < ops.length) {
+      if (ops[index].op === 'equal') {
+        rows.push({ type: 'equal', left: ops[index].left, right: ops[index].right });
+        index++;
+        continue;
+      }
+      const removedRun: DiffLine[] = [];
+      const addedRun: DiffLine[] = [];
+      while (index < ops.length && ops[index].op !== 'equal') {
+        if (ops[index].op === 'removed') removedRun.push(ops[index].left!);
+        else addedRun.push(ops[index].right!);
+        index++;
+      }
+      for (let k = 0; k < Math.max(removedRun.length, addedRun.length); k++) {
+        const left = removedRun[k] ?? null;
+        const right = addedRun[k] ?? null;
+        rows.push({ type: left && right ? 'modified' : left ? 'removed' : 'added', left, right });
+      }
+    }
+    return rows;
+  }
+
+  private collapseUnchanged(rows: DiffRow[]): DiffRow[] {
+    const keep = rows.map(row => row.type !== 'equal');
+    const changed = [...keep];
+    for (let i = 0; i < rows.length; i++) {
+      if (!changed[i]) continue;
+      for (let k = Math.max(0, i - CONTEXT_LINES); k <= Math.min(rows.length - 1, i + CONTEXT_LINES); k++) {
+        keep[k] = true;
+      }
+    }
+
+    const result: DiffRow[] = [];
+    let hidden = 0;
+    for (let i = 0; i < rows.length; i++) {
+      if (keep[i]) {
+        if (hidden > 0) result.push({ type: 'collapsed', left: null, right: null, hiddenLines: hidden });
+        hidden = 0;
+        result.push(rows[i]);
+      } else {
+        hidden++;
+      }
+    }
+    if (hidden > 0) result.push({ type: 'collapsed', left: null, right: null, hiddenLines: hidden });
+    return result;
+  }
+}
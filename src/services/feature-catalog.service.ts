@@ -0,0 +1,404 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { FeatureCategory, Framework, TargetSettings } from '../models/project.model';
+import { CatalogExport, FeatureDefinition, PackageReference, ProjectTemplate, ReferenceFile } from '../models/catalog.model';
+import { DependencyService } from './dependency.service';
+
+export const CATEGORY_LABELS: { [category in FeatureCategory]: string } = {
+  security: 'Security',
+  data: 'Data',
+  api: 'API',
+  ui: 'UI',
+  devops: 'DevOps',
+  infrastructure: 'Infrastructure',
+  custom: 'Custom',
+};
+
+const WEB_SDK = 'Microsoft.NET.Sdk.Web';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const FRAMEWORKS: Framework[] = [
+  { value: "ASP.NET Core MVC", label: "ASP.NET Core MVC", description: "Traditional MVC web application", sdk: WEB_SDK },
+  { value: "ASP.NET Core Web API", label: "ASP.NET Core Web API", description: "RESTful API backend", sdk: WEB_SDK },
+  {
+    value: "Minimal API", label: "Minimal API", description: "Endpoint-routed API without controllers", sdk: WEB_SDK,
+    instructions: 'Use minimal APIs: map endpoints with MapGet/MapPost/MapPut/MapDelete in extension methods grouped per resource with MapGroup, and use TypedResults. Do not add controllers.',
+  },
+  { value: "Razor Pages", label: "Razor Pages", description: "Page-focused framework", sdk: WEB_SDK },
+  { value: "Blazor Server", label: "Blazor Server", description: "Server-side Blazor app", sdk: WEB_SDK },
+  { value: "Blazor WebAssembly", label: "Blazor WebAssembly", description: "Client-side Blazor app", sdk: 'Microsoft.NET.Sdk.BlazorWebAssembly' },
+  {
+    value: "gRPC Service", label: "gRPC Service", description: "Contract-first RPC service", sdk: WEB_SDK,
+    instructions: 'Build an ASP.NET Core gRPC service: define the contracts in .proto files under Protos/ included with <Protobuf Include="..." GrpcServices="Server" />, implement them in Services/ by deriving from the generated base classes, and register them with AddGrpc and MapGrpcService. Reference Grpc.AspNetCore. There is no HTML UI.',
+  },
+  {
+    value: "Worker Service", label: "Worker Service", description: "Long-running background service", sdk: 'Microsoft.NET.Sdk.Worker',
+    instructions: 'Build a Worker Service with Host.CreateApplicationBuilder: one or more BackgroundService classes registered with AddHostedService, options bound from appsettings.json, and graceful handling of the stopping token. There is no HTTP endpoint or UI.',
+  },
+  {
+    value: "Console App", label: "Console App", description: "Command-line application", sdk: 'Microsoft.NET.Sdk',
+    instructions: 'Build a console application (<OutputType>Exe</OutputType>) with a Program.cs entry point that parses its command-line arguments, and keep the logic in separate classes so it can be tested. There is no UI other than console output.',
+  },
+  {
+    value: "Class Library", label: "Class Library", description: "Reusable library package", sdk: 'Microsoft.NET.Sdk',
+    instructions: 'Build a class library with a clean public API documented with XML doc comments (<GenerateDocumentationFile>true</GenerateDocumentationFile>) and NuGet package metadata in the .csproj. Include a small README showing how to use it. There is no Program.cs and no UI.',
+  },
+  {
+    value: ".NET MAUI", label: ".NET MAUI", description: "Cross-platform mobile and desktop app", sdk: 'Microsoft.NET.Sdk',
+    instructions: 'Build a .NET MAUI app with <UseMaui>true</UseMaui>, targeting the Android, iOS, Mac Catalyst and Windows variants of the requested target framework (e.g. net8.0-android;net8.0-ios;net8.0-maccatalyst;net8.0-windows10.0.19041.0) in <TargetFrameworks>. Use MauiProgram.cs, App.xaml, AppShell.xaml and XAML pages with MVVM view models.',
+  },
+  {
+    value: "Multi-project Solution", label: "Multi-project Solution", description: "API + Core + Infrastructure + Tests", sdk: WEB_SDK, multiProject: true,
+    instructions: 'Create a solution with four projects and a .sln file that lists them all: src/{Name}.Api (ASP.NET Core Web API, Sdk="Microsoft.NET.Sdk.Web"), src/{Name}.Core (domain entities and interfaces, no dependencies), src/{Name}.Infrastructure (data access implementing the Core interfaces) and tests/{Name}.Tests (xUnit). Api references Core and Infrastructure, Infrastructure references Core and Tests references the projects it tests, all through <ProjectReference> items.',
+  },
+];
+
+export const TARGET_FRAMEWORKS: { value: string; label: string }[] = [
+  { value: 'net6.0', label: '.NET 6 (LTS, out of support)' },
+  { value: 'net7.0', label: '.NET 7 (out of support)' },
+  { value: 'net8.0', label: '.NET 8 (LTS)' },
+  { value: 'net9.0', label: '.NET 9' },
+  { value: 'net10.0', label: '.NET 10 (LTS)' },
+];
+
+export const LANG_VERSIONS = ['default', 'latest', 'preview', '10.0', '11.0', '12.0', '13.0', '14.0'];
+
+export const DEFAULT_TARGET: TargetSettings = {
+  targetFramework: 'net8.0',
+  langVersion: 'default',
+  nullable: true,
+  implicitUsings: true,
+};
+
+// Pins for packages that follow the .NET runtime are moved to the target's major in pinnedPackages.
+const ASPNET_VERSION = '8.0.8';
+
+const BUILT_IN_FEATURES: FeatureDefinition[] = [
+  {
+    id: 'identity', label: 'ASP.NET Core Identity', category: 'security',
+    description: 'Cookie-based user accounts stored with Entity Framework Core.',
+    instructions: 'Add ASP.NET Core Identity with an ApplicationUser class deriving from IdentityUser and an ApplicationDbContext deriving from IdentityDbContext<ApplicationUser>. Register it with AddIdentity (or AddDefaultIdentity for Razor UI), require confirmed accounts off, and call UseAuthentication before UseAuthorization. Protect pages or controllers that change data with [Authorize] and provide register, login and logout flows.',
+    packages: [
+      { name: 'Microsoft.AspNetCore.Identity.EntityFrameworkCore', version: ASPNET_VERSION },
+      { name: 'Microsoft.AspNetCore.Identity.UI', version: ASPNET_VERSION },
+    ],
+    referenceFiles: [],
+    builtIn: true,
+  },
+  {
+    id: 'jwt', label: 'JWT Token Authentication', category: 'security',
+    description: 'Stateless bearer tokens for APIs.',
+    instructions: 'Add JWT bearer authentication with AddAuthentication(JwtBearerDefaults.AuthenticationScheme).AddJwtBearer, validating issuer, audience, lifetime and signing key read from a "Jwt" section in appsettings.json (Issuer, Audience, Key, ExpiresMinutes). Add an AuthController with a POST /api/auth/login endpoint that issues tokens through a small ITokenService, and protect the other endpoints with [Authorize]. Never hard-code the signing key in code.',
+    packages: [{ name: 'Microsoft.AspNetCore.Authentication.JwtBearer', version: ASPNET_VERSION }],
+    referenceFiles: [],
+    builtIn: true,
+  },
+  {
+    id: 'ef_core', label: 'Entity Framework Core', category: 'data',
+    description: 'EF Core with SQLite and migrations-ready configuration.',
+    instructions: 'Use Entity Framework Core with SQLite. Put the DbContext in a Data folder, configure entities with the fluent API in OnModelCreating, read the "DefaultConnection" connection string from appsettings.json and register the context with AddDbContext. Call Database.EnsureCreated() at startup and seed a few sample rows so the app shows data on first run.',
+    packages: [
+      { name: 'Microsoft.EntityFrameworkCore.Sqlite', version: ASPNET_VERSION },
+      { name: 'Microsoft.EntityFrameworkCore.Design', version: ASPNET_VERSION },
+    ],
+    referenceFiles: [],
+    builtIn: true,
+  },
+  {
+    id: 'dapper', label: 'Dapper ORM', category: 'data',
+    description: 'Hand-written SQL with Dapper over SQLite.',
+    instructions: 'Use Dapper over Microsoft.Data.Sqlite for data access. Create one repository interface and implementation per aggregate with parameterized SQL only, open connections through an IDbConnectionFactory registered as a singleton, and create the schema with CREATE TABLE IF NOT EXISTS statements at startup.',
+    packages: [
+      { name: 'Dapper', version: '2.1.35' },
+      { name: 'Microsoft.Data.Sqlite', version: ASPNET_VERSION },
+    ],
+    referenceFiles: [],
+    builtIn: true,
+  },
+  {
+    id: 'swagger', label: 'Swagger/OpenAPI', category: 'api',
+    description: 'Interactive API documentation.',
+    instructions: 'Add Swagger with AddEndpointsApiExplorer and AddSwaggerGen, and enable UseSwagger and UseSwaggerUI in the Development environment. Annotate endpoints with ProducesResponseType so the generated document lists their responses.',
+    packages: [{ name: 'Swashbuckle.AspNetCore', version: '6.6.2' }],
+    referenceFiles: [],
+    builtIn: true,
+  },
+  {
+    id: 'signalr', label: 'SignalR Real-time', category: 'api',
+    description: 'Push updates to connected browsers.',
+    instructions: 'Add a SignalR hub in a Hubs folder, register it with AddSignalR and MapHub at "/hubs/notifications", and broadcast changes from the services that modify data through IHubContext. Connect from the UI with the @microsoft/signalr client loaded from a CDN and update the page when messages arrive.',
+    packages: [],
+    referenceFiles: [],
+    builtIn: true,
+  },
+  {
+    id: 'bootstrap', label: 'Bootstrap 5', category: 'ui',
+    description: 'Bootstrap 5 styling from a CDN.',
+    instructions: 'Style the UI with Bootstrap 5 loaded from the jsDelivr CDN in the shared layout. Use the grid, navbar, cards, tables and form classes instead of custom CSS wherever possible.',
+    packages: [],
+    referenceFiles: [],
+    builtIn: true,
+  },
+  {
+    id: 'tailwind', label: 'Tailwind CSS', category: 'ui',
+    description: 'Tailwind utility classes from the Play CDN.',
+    instructions: 'Style the UI with Tailwind CSS loaded from https://cdn.tailwindcss.com in the shared layout, using utility classes directly in the markup. Do not add a Node build step.',
+    packages: [],
+    referenceFiles: [],
+    builtIn: true,
+  },
+  {
+    id: 'clear_frontend', label: 'Clear Frontend Design', category: 'ui',
+    description: 'A polished, modern UI instead of a wireframe.',
+    instructions: 'Generate a visually appealing, modern, and user-friendly frontend using HTML and Tailwind CSS (if no other UI framework is specified). This should include a clean layout, a professional color scheme, and interactive elements. The UI should look professional, not like a barebones wireframe.',
+    packages: [],
+    referenceFiles: [],
+    builtIn: true,
+  },
+  {
+    id: 'docker', label: 'Docker Configuration', category: 'devops',
+    description: 'Multi-stage Dockerfile and .dockerignore.',
+    instructions: 'Add a multi-stage Dockerfile at the project root that restores and publishes with mcr.microsoft.com/dotnet/sdk:8.0 and runs on mcr.microsoft.com/dotnet/aspnet:8.0 as a non-root user, exposing port 8080. Mention "docker build" and "docker run" in the build commands.',
+    packages: [],
+    referenceFiles: [
+      { path: '.dockerignore', content: '**/bin/\n**/obj/\n**/.vs/\n**/.vscode/\n**/*.user\n**/node_modules/\n.git/\nDockerfile*\n' },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'logging', label: 'Serilog Logging', category: 'infrastructure',
+    description: 'Structured logging with Serilog.',
+    instructions: 'Configure Serilog with builder.Host.UseSerilog, reading its settings from a "Serilog" section in appsettings.json with console and rolling file sinks. Add app.UseSerilogRequestLogging() and log through ILogger<T> in services rather than Serilog\'s static Log class.',
+    packages: [{ name: 'Serilog.AspNetCore', version: '8.0.2' }],
+    referenceFiles: [],
+    builtIn: true,
+  },
+  {
+    id: 'tests', label: 'Unit & Integration Tests', category: 'infrastructure',
+    description: 'An xUnit test project next to the app.',
+    instructions: 'Add an xUnit test project under tests/ that references the main project. Cover the services with unit tests and the HTTP endpoints with integration tests using WebApplicationFactory<Program>; make Program visible to the tests with "public partial class Program { }". Add "dotnet test" to the build commands.',
+    packages: [
+      { name: 'xunit', version: '2.9.0' },
+      { name: 'xunit.runner.visualstudio', version: '2.8.2' },
+      { name: 'Microsoft.NET.Test.Sdk', version: '17.11.0' },
+      { name: 'Microsoft.AspNetCore.Mvc.Testing', version: ASPNET_VERSION },
+    ],
+    referenceFiles: [],
+    builtIn: true,
+  },
+];
+
+const BUILT_IN_TEMPLATES: ProjectTemplate[] = [
+  {
+    id: 'clean_architecture_api',
+    label: 'Clean Architecture Web API',
+    description: 'Domain, Application, Infrastructure and Api layers with EF Core and Swagger.',
+    framework: 'ASP.NET Core Web API',
+    featureIds: ['ef_core', 'swagger', 'tests'],
+    instructions: 'Lay the solution out as Clean Architecture: src/Domain (entities and domain logic, no dependencies), src/Application (use cases, DTOs and interfaces such as repositories), src/Infrastructure (EF Core DbContext and repository implementations) and src/Api (controllers and Program.cs). Dependencies only point inwards, and each layer registers its own services through an AddXxx extension method on IServiceCollection.',
+    packages: [],
+    referenceFiles: [],
+    builtIn: true,
+  },
+];
+
+const EMPTY_CATALOG = { features: [] as FeatureDefinition[], templates: [] as ProjectTemplate[] };
+
+export class CatalogImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogImportError';
+  }
+}
+
+/**
+ * The frameworks, features and templates offered when configuring a project. Built-in entries ship
+ * with the app; custom ones are kept in this browser and can be shared as JSON.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FeatureCatalogService {
+  private dependencyService = inject(DependencyService);
+  private readonly STORAGE_KEY = 'dotnet-builder-catalog';
+  private readonly custom = signal(this.load());
+
+  readonly frameworks = FRAMEWORKS;
+  readonly features = computed(() => [...BUILT_IN_FEATURES, ...this.custom().features]);
+  readonly templates = computed(() => [...BUILT_IN_TEMPLATES, ...this.custom().templates]);
+
+  /** Features grouped under their category label, in the order categories are declared. */
+  readonly featuresByCategory = computed(() => {
+    const groups: { [label: string]: FeatureDefinition[] } = {};
+    for (const category of Object.keys(CATEGORY_LABELS) as FeatureCategory[]) {
+      const features = this.features().filter(f => f.category === category);
+      if (features.length > 0) groups[CATEGORY_LABELS[category]] = features;
+    }
+    return groups;
+  });
+
+  saveFeature(feature: FeatureDefinition): FeatureDefinition {
+    const saved = { ...feature, id: feature.id || this.uniqueId(feature.label, this.features()), builtIn: false };
+    this.persist({ ...this.custom(), features: this.upsert(this.custom().features, saved) });
+    return saved;
+  }
+
+  deleteFeature(id: string): void {
+    const custom = this.custom();
+    this.persist({
+      features: custom.features.filter(f => f.id !== id),
+      templates: custom.templates.map(t => ({ ...t, featureIds: t.featureIds.filter(featureId => featureId !== id) })),
+    });
+  }
+
+  saveTemplate(template: ProjectTemplate): ProjectTemplate {
+    const saved = { ...template, id: template.id || this.uniqueId(template.label, this.templates()), builtIn: false };
+    this.persist({ ...this.custom(), templates: this.upsert(this.custom().templates, saved) });
+    return saved;
+  }
+
+  deleteTemplate(id: string): void {
+    this.persist({ ...this.custom(), templates: this.custom().templates.filter(t => t.id !== id) });
+  }
+
+  /** Serializes the custom features and templates; built-in ones are the same everywhere. */
+  exportCatalog(): string {
+    const document: CatalogExport = { format: 'dotnet-builder-catalog', version: 1, ...this.custom() };
+    return JSON.stringify(document, null, 2);
+  }
+
+  /**
+   * Merges a catalog exported by `exportCatalog`. Entries with the id of an existing custom entry
+   * replace it; entries that would shadow a built-in one are skipped.
+   */
+  importCatalog(json: string): { features: number; templates: number; skipped: string[] } {
+    let document: Partial<CatalogExport>;
+    try {
+      document = JSON.parse(json);
+    } catch {
+      throw new CatalogImportError('The file is not valid JSON.');
+    }
+    if (document?.format !== 'dotnet-builder-catalog' || !Array.isArray(document.features) || !Array.isArray(document.templates)) {
+      throw new CatalogImportError('The file is not a feature catalog export.');
+    }
+
+    const skipped: string[] = [];
+    const features = document.features.map(f => this.toFeature(f)).filter(f => {
+      if (!f || BUILT_IN_FEATURES.some(b => b.id === f.id)) {
+        skipped.push(f ? `feature "${f.label}"` : 'an invalid feature');
+        return false;
+      }
+      return true;
+    }) as FeatureDefinition[];
+    const templates = document.templates.map(t => this.toTemplate(t)).filter(t => {
+      if (!t || BUILT_IN_TEMPLATES.some(b => b.id === t.id)) {
+        skipped.push(t ? `template "${t.label}"` : 'an invalid template');
+        return false;
+      }
+      return true;
+    }) as ProjectTemplate[];
+
+    const custom = this.custom();
+    this.persist({
+      features: features.reduce((all, feature) => this.upsert(all, feature), custom.features),
+      templates: templates.reduce((all, template) => this.upsert(all, template), custom.templates),
+    });
+    return { features: features.length, templates: templates.length, skipped };
+  }
+
+  /**
+   * Packages pinned by the given features and template, with later pins winning for the same package.
+   * Runtime-aligned packages get the version matching the target framework.
+   */
+  pinnedPackages(features: FeatureDefinition[], template: ProjectTemplate | null, targetFramework: string | null): PackageReference[] {
+    const packages = new Map<string, PackageReference>();
+    for (const reference of [...features.flatMap(f => f.packages), ...(template?.packages ?? [])]) {
+      packages.set(reference.name.toLowerCase(), { ...reference, version: this.dependencyService.alignToRuntime(reference.name, reference.version, targetFramework) });
+    }
+    return [...packages.values()];
+  }
+
+  referenceFiles(features: FeatureDefinition[], template: ProjectTemplate | null): ReferenceFile[] {
+    const files = new Map<string, ReferenceFile>();
+    for (const file of [...features.flatMap(f => f.referenceFiles), ...(template?.referenceFiles ?? [])]) {
+      files.set(file.path, file);
+    }
+    return [...files.values()];
+  }
+
+  private toFeature(value: unknown): FeatureDefinition | null {
+    if (!isRecord(value) || typeof value['id'] !== 'string' || typeof value['label'] !== 'string') return null;
+    const category = value['category'];
+    return {
+      id: value['id'],
+      label: value['label'],
+      category: typeof category === 'string' && Object.hasOwn(CATEGORY_LABELS, category) ? category as FeatureCategory : 'custom',
+      description: typeof value['description'] === 'string' ? value['description'] : '',
+      instructions: typeof value['instructions'] === 'string' ? value['instructions'] : '',
+      packages: this.toPackages(value['packages']),
+      referenceFiles: this.toReferenceFiles(value['referenceFiles']),
+    };
+  }
+
+  private toTemplate(value: unknown): ProjectTemplate | null {
+    if (!isRecord(value) || typeof value['id'] !== 'string' || typeof value['label'] !== 'string') return null;
+    const framework = FRAMEWORKS.find(f => f.value === value['framework']) ?? FRAMEWORKS[0];
+    const featureIds = value['featureIds'];
+    return {
+      id: value['id'],
+      label: value['label'],
+      description: typeof value['description'] === 'string' ? value['description'] : '',
+      framework: framework.value,
+      featureIds: Array.isArray(featureIds) ? featureIds.filter((id): id is string => typeof id === 'string') : [],
+      instructions: typeof value['instructions'] === 'string' ? value['instructions'] : '',
+      packages: this.toPackages(value['packages']),
+      referenceFiles: this.toReferenceFiles(value['referenceFiles']),
+    };
+  }
+
+  private toPackages(value: unknown): PackageReference[] {
+    if (!Array.isArray(value)) return [];
+    return value.filter(p => typeof p?.name === 'string' && typeof p?.version === 'string').map(p => ({ name: p.name, version: p.version }));
+  }
+
+  private toReferenceFiles(value: unknown): ReferenceFile[] {
+    if (!Array.isArray(value)) return [];
+    return value.filter(f => typeof f?.path === 'string' && typeof f?.content === 'string').map(f => ({ path: f.path, content: f.content }));
+  }
+
+  private upsert<T extends { id: string }>(items: T[], item: T): T[] {
+    return items.some(i => i.id === item.id) ? items.map(i => (i.id === item.id ? item : i)) : [...items, item];
+  }
+
+  private uniqueId(label: string, existing: { id: string }[]): string {
+    const base = `custom_${label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'item'}`;
+    let id = base;
+    for (let i = 2; existing.some(e => e.id === id); i++) id = `${base}_${i}`;
+    return id;
+  }
+
+  private persist(custom: typeof EMPTY_CATALOG): void {
+    this.custom.set(custom);
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(custom));
+    } catch (e) {
+      console.error('Error saving the feature catalog to localStorage', e);
+    }
+  }
+
+  private load(): typeof EMPTY_CATALOG {
+    try {
+      const catalogJson = localStorage.getItem(this.STORAGE_KEY);
+      if (catalogJson) {
+        const stored = JSON.parse(catalogJson);
+        return {
+          features: (stored.features ?? []).map((f: unknown) => this.toFeature(f)).filter(Boolean),
+          templates: (stored.templates ?? []).map((t: unknown) => this.toTemplate(t)).filter(Boolean),
+        };
+      }
+    } catch (e) {
+      console.error('Error reading the feature catalog from localStorage', e);
+    }
+    return EMPTY_CATALOG;
+  }
+}
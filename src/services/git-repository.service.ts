@@ -0,0 +1,493 @@
+import { Injectable } from '@angular/core';
+import { ZipArchiveEntry, ZipEntry } from './zip.service';
+import { inflateZlib } from './inflate';
+
+export type GitObjectType = 'commit' | 'tree' | 'blob' | 'tag';
+
+export interface GitObject {
+  type: GitObjectType;
+  data: Uint8Array;
+}
+
+export interface GitPerson {
+  name: string;
+  email: string;
+}
+
+/** One commit to write: the complete file tree at that point and who made it when. */
+export interface GitCommitInput {
+  files: { [path: string]: string };
+  message: string;
+  author: GitPerson;
+  timestamp: string;
+}
+
+/** A commit read back from a repository, with its complete file tree. */
+export interface GitCommitSnapshot {
+  sha: string;
+  message: string;
+  timestamp: string;
+  files: { [path: string]: Uint8Array };
+}
+
+export interface GitRepository {
+  objects: Map<string, GitObject>;
+  branch: string;
+  head: string;
+}
+
+const BUNDLE_SIGNATURE = '# v2 git bundle\n';
+const PACK_TYPES: GitObjectType[] = ['commit', 'tree', 'blob', 'tag'];
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+// Repositories larger than this are not worth inflating in a browser tab.
+export const MAX_REPOSITORY_BYTES = 64 * 1024 * 1024;
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+async function sha1(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-1', data as BufferSource));
+}
+
+async function deflateZlib(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Applies a git delta (copy and insert instructions) to its base object. */
+function applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+  let position = 0;
+  const readSize = () => {
+    let size = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = delta[position++];
+      size += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return size;
+  };
+
+  if (readSize() !== base.length) throw new Error('A delta in the pack does not match its base object.');
+  const result = new Uint8Array(readSize());
+  let length = 0;
+  while (position < delta.length) {
+    const instruction = delta[position++];
+    if (instruction & 0x80) {
+      let offset = 0;
+      let size = 0;
+      for (let i = 0; i < 4; i++) if (instruction & (1 << i)) offset += delta[position++] * 2 ** (8 * i);
+      for (let i = 0; i < 3; i++) if (instruction & (0x10 << i)) size += delta[position++] * 2 ** (8 * i);
+      size ||= 0x10000;
+      result.set(base.subarray(offset, offset + size), length);
+      length += size;
+    } else if (instruction) {
+      result.set(delta.subarray(position, position + instruction), length);
+      position += instruction;
+      length += instruction;
+    } else {
+      throw new Error('A delta in the pack contains an invalid instruction.');
+    }
+  }
+  if (length !== result.length) throw new Error('A delta in the pack produced the wrong size.');
+  return result;
+}
+
+/**
+ * A small git implementation for the browser: writes a linear history as loose objects, a pack
+ * or a bundle, and reads one back from a `.git` folder inside a ZIP archive or from a bundle.
+ * Only what these exports need is supported: one branch, no signatures, no shallow or
+ * multi-pack-index repositories.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GitRepositoryService {
+  private readonly encoder = new TextEncoder();
+  private readonly decoder = new TextDecoder();
+
+  /** Builds a repository with one commit per entry, each the parent of the next. */
+  async createRepository(commits: GitCommitInput[], branch = 'main'): Promise<GitRepository> {
+    if (commits.length === 0) {
+      throw new Error('There is no history to export.');
+    }
+    const objects = new Map<string, GitObject>();
+    let parent: string | null = null;
+    for (const commit of commits) {
+      const tree = await this.writeTree(objects, commit.files);
+      const seconds = Math.floor(new Date(commit.timestamp).getTime() / 1000);
+      const signature = `${commit.author.name} <${commit.author.email}> ${seconds} +0000`;
+      const message = commit.message.trim() + '\n';
+      const lines = [`tree ${tree}`, ...(parent ? [`parent ${parent}`] : []), `author ${signature}`, `committer ${signature}`, '', message];
+      parent = await this.addObject(objects, 'commit', this.encoder.encode(lines.join('\n')));
+    }
+    return { objects, branch, head: parent! };
+  }
+
+  /**
+   * Lays the repository out as it would be on disk after a clone: the files of the last commit
+   * plus a `.git` folder with loose objects and an index, so `git status` is clean.
+   */
+  async toZipEntries(repository: GitRepository, rootName: string): Promise<ZipEntry[]> {
+    const entries: ZipEntry[] = [];
+    const git = (path: string, data: Uint8Array | string) => entries.push({ path: `${rootName}/.git/${path}`, data });
+
+    git('HEAD', `ref: refs/heads/${repository.branch}\n`);
+    git('config', '[core]\n\trepositoryformatversion = 0\n\tfilemode = false\n\tbare = false\n\tlogallrefupdates = true\n');
+    git('description', 'Unnamed repository; edit this file \'description\' to name the repository.\n');
+    git(`refs/heads/${repository.branch}`, `${repository.head}\n`);
+    for (const [sha, object] of repository.objects) {
+      git(`objects/${sha.slice(0, 2)}/${sha.slice(2)}`, await deflateZlib(this.encodeObject(object)));
+    }
+
+    const files = this.readTree(repository, this.parseCommit(repository, repository.head).tree);
+    git('index', await this.createIndex(files));
+    for (const [path, { data }] of files) {
+      entries.push({ path: `${rootName}/${path}`, data });
+    }
+    return entries;
+  }
+
+  /** Writes a v2 bundle that `git clone <file>` accepts. */
+  async toBundle(repository: GitRepository): Promise<Blob> {
+    const header = `${BUNDLE_SIGNATURE}${repository.head} HEAD\n${repository.head} refs/heads/${repository.branch}\n\n`;
+    return new Blob([this.encoder.encode(header) as BlobPart, await this.createPack(repository) as BlobPart]);
+  }
+
+  isBundle(bytes: Uint8Array): boolean {
+    return this.decoder.decode(bytes.subarray(0, BUNDLE_SIGNATURE.length)) === BUNDLE_SIGNATURE;
+  }
+
+  async readBundle(bytes: Uint8Array): Promise<GitRepository> {
+    if (!this.isBundle(bytes)) {
+      throw new Error('The file is not a git bundle (only v2 bundles are supported).');
+    }
+    let position = BUNDLE_SIGNATURE.length;
+    const refs = new Map<string, string>();
+    while (bytes[position] !== 0x0a) {
+      const end = bytes.indexOf(0x0a, position);
+      if (end < 0) throw new Error('The git bundle header is truncated.');
+      const line = this.decoder.decode(bytes.subarray(position, end));
+      position = end + 1;
+      if (line.startsWith('-')) {
+        throw new Error('The git bundle is incremental and needs commits that are not in it. Create it with "git bundle create <file> --all".');
+      }
+      const [sha, name] = line.split(' ');
+      refs.set(name, sha);
+    }
+    const objects = new Map<string, GitObject>();
+    await this.readPack(bytes.subarray(position + 1), objects);
+    return this.resolveHead(objects, name => refs.get(name) ?? null);
+  }
+
+  /**
+   * Reads the repository in the `.git` folder of a ZIP archive, which may sit below a top-level
+   * folder. Returns null when the archive contains no repository.
+   */
+  async readZip(entries: ZipArchiveEntry[]): Promise<GitRepository | null> {
+    const head = entries.find(entry => /^([^/]+\/)?\.git\/HEAD$/.test(entry.path));
+    if (!head) return null;
+    const prefix = head.path.slice(0, -'HEAD'.length);
+    const files = new Map(entries.filter(entry => !entry.isDirectory && entry.path.startsWith(prefix)).map(entry => [entry.path.slice(prefix.length), entry]));
+
+    const totalSize = [...files.values()].reduce((size, entry) => size + entry.size, 0);
+    if (totalSize > MAX_REPOSITORY_BYTES) {
+      throw new Error('This git repository is too large to import in the browser. Export a bundle of the branch with "git bundle create" instead.');
+    }
+
+    const objects = new Map<string, GitObject>();
+    for (const [path, entry] of files) {
+      if (/^objects\/pack\/pack-[0-9a-f]+\.pack$/.test(path)) {
+        await this.readPack(await entry.read(), objects);
+      }
+    }
+    for (const [path, entry] of files) {
+      const loose = /^objects\/([0-9a-f]{2})\/([0-9a-f]{38})$/.exec(path);
+      if (loose) objects.set(loose[1] + loose[2], this.decodeObject(inflateZlib(await entry.read()).data));
+    }
+
+    const readText = async (path: string) => {
+      const entry = files.get(path);
+      return entry ? this.decoder.decode(await entry.read()) : null;
+    };
+    const packedRefs = new Map<string, string>();
+    for (const line of (await readText('packed-refs'))?.split('\n') ?? []) {
+      const match = /^([0-9a-f]{40}) (\S+)$/.exec(line.trim());
+      if (match) packedRefs.set(match[2], match[1]);
+    }
+    const refs = new Map<string, string>();
+    for (const name of ['HEAD', ...[...files.keys()].filter(path => path.startsWith('refs/heads/'))]) {
+      const value = (await readText(name))?.trim();
+      if (value) refs.set(name, value);
+    }
+    const resolveRef = (name: string): string | null => {
+      const value = refs.get(name) ?? packedRefs.get(name) ?? null;
+      return value?.startsWith('ref: ') ? resolveRef(value.slice(5).trim()) : value;
+    };
+    return this.resolveHead(objects, resolveRef, refs.get('HEAD'));
+  }
+
+  /**
+   * Returns the history of the branch, oldest first, following the first parent of merges.
+   * At most `limit` commits are read, counted from the newest.
+   */
+  readHistory(repository: GitRepository, limit: number): GitCommitSnapshot[] {
+    const history: GitCommitSnapshot[] = [];
+    let sha: string | null = repository.head;
+    while (sha && history.length < limit) {
+      const commit = this.parseCommit(repository, sha);
+      const files: { [path: string]: Uint8Array } = {};
+      for (const [path, { data }] of this.readTree(repository, commit.tree)) files[path] = data;
+      history.push({ sha, message: commit.message, timestamp: commit.timestamp, files });
+      sha = commit.parent;
+    }
+    return history.reverse();
+  }
+
+  private resolveHead(objects: Map<string, GitObject>, resolveRef: (name: string) => string | null, headValue?: string): GitRepository {
+    const branchRef = headValue?.startsWith('ref: ') ? headValue.slice(5).trim() : null;
+    const candidates = ['HEAD', ...(branchRef ? [branchRef] : []), 'refs/heads/main', 'refs/heads/master'];
+    for (const name of candidates) {
+      const head = resolveRef(name);
+      if (head && objects.get(head)?.type === 'commit') {
+        const branch = (branchRef ?? (name.startsWith('refs/heads/') ? name : 'refs/heads/main')).replace('refs/heads/', '');
+        return { objects, branch, head };
+      }
+    }
+    throw new Error('The repository has no commits on its current branch, or the commit objects are missing.');
+  }
+
+  private async writeTree(objects: Map<string, GitObject>, files: { [path: string]: string }): Promise<string> {
+    interface Directory { files: Map<string, string>; directories: Map<string, Directory> }
+    const root: Directory = { files: new Map(), directories: new Map() };
+    for (const [path, content] of Object.entries(files)) {
+      const segments = path.split('/');
+      let directory = root;
+      for (const segment of segments.slice(0, -1)) {
+        if (!directory.directories.has(segment)) directory.directories.set(segment, { files: new Map(), directories: new Map() });
+        directory = directory.directories.get(segment)!;
+      }
+      directory.files.set(segments[segments.length - 1], content);
+    }
+
+    const write = async (directory: Directory): Promise<string> => {
+      const entries: { name: string; mode: string; sha: string }[] = [];
+      for (const [name, content] of directory.files) {
+        entries.push({ name, mode: '100644', sha: await this.addObject(objects, 'blob', this.encoder.encode(content)) });
+      }
+      for (const [name, child] of directory.directories) {
+        entries.push({ name, mode: '40000', sha: await write(child) });
+      }
+      // Git orders entries by name, comparing directory names as if they ended with a slash.
+      const sortKey = (entry: { name: string; mode: string }) => entry.mode === '40000' ? `${entry.name}/` : entry.name;
+      entries.sort((a, b) => sortKey(a) < sortKey(b) ? -1 : sortKey(a) > sortKey(b) ? 1 : 0);
+      return this.addObject(objects, 'tree', concat(entries.flatMap(entry => [this.encoder.encode(`${entry.mode} ${entry.name}\0`), fromHex(entry.sha)])));
+    };
+    return write(root);
+  }
+
+  private async addObject(objects: Map<string, GitObject>, type: GitObjectType, data: Uint8Array): Promise<string> {
+    const object = { type, data };
+    const sha = toHex(await sha1(this.encodeObject(object)));
+    objects.set(sha, object);
+    return sha;
+  }
+
+  private encodeObject(object: GitObject): Uint8Array {
+    return concat([this.encoder.encode(`${object.type} ${object.data.length}\0`), object.data]);
+  }
+
+  private decodeObject(raw: Uint8Array): GitObject {
+    const separator = raw.indexOf(0);
+    const [type] = this.decoder.decode(raw.subarray(0, separator)).split(' ');
+    if (!PACK_TYPES.includes(type as GitObjectType)) throw new Error(`Unknown git object type "${type}".`);
+    return { type: type as GitObjectType, data: raw.slice(separator + 1) };
+  }
+
+  private parseCommit(repository: GitRepository, sha: string): { tree: string; parent: string | null; timestamp: string; message: string } {
+    const object = repository.objects.get(sha);
+    if (object?.type !== 'commit') throw new Error(`The repository is missing commit ${sha.slice(0, 7)}.`);
+    const text = this.decoder.decode(object.data);
+    const separator = text.indexOf('\n\n');
+    const headers = (separator < 0 ? text : text.slice(0, separator)).split('\n');
+    const header = (name: string) => headers.find(line => line.startsWith(`${name} `))?.slice(name.length + 1) ?? null;
+    const seconds = Number(/ (\d+) [+-]\d{4}$/.exec(header('committer') ?? header('author') ?? '')?.[1] ?? 0);
+    return {
+      tree: header('tree') ?? '',
+      parent: header('parent'),
+      timestamp: new Date(seconds * 1000).toISOString(),
+      message: separator < 0 ? '' : text.slice(separator + 2),
+    };
+  }
+
+  /** Flattens a tree into its files, sorted by path. Submodules and symbolic links are skipped. */
+  private readTree(repository: GitRepository, sha: string, prefix = ''): Map<string, { sha: string; data: Uint8Array }> {
+    const object = repository.objects.get(sha);
+    if (object?.type !== 'tree') throw new Error(`The repository is missing tree ${sha.slice(0, 7)}.`);
+    const files = new Map<string, { sha: string; data: Uint8Array }>();
+    let position = 0;
+    while (position < object.data.length) {
+      const space = object.data.indexOf(0x20, position);
+      const nul = object.data.indexOf(0, space);
+      const mode = this.decoder.decode(object.data.subarray(position, space));
+      const name = this.decoder.decode(object.data.subarray(space + 1, nul));
+      const entrySha = toHex(object.data.subarray(nul + 1, nul + 21));
+      position = nul + 21;
+      if (mode === '40000') {
+        for (const [path, file] of this.readTree(repository, entrySha, `${prefix}${name}/`)) files.set(path, file);
+      } else if (mode.startsWith('100')) {
+        const blob = repository.objects.get(entrySha);
+        if (blob?.type !== 'blob') throw new Error(`The repository is missing the contents of ${prefix}${name}.`);
+        files.set(`${prefix}${name}`, { sha: entrySha, data: blob.data });
+      }
+    }
+    return files;
+  }
+
+  /** Writes a version 2 index without stat data; git re-reads the files once and then treats them as clean. */
+  private async createIndex(files: Map<string, { sha: string; data: Uint8Array }>): Promise<Uint8Array> {
+    const paths = [...files.keys()].sort((a, b) => {
+      const left = this.encoder.encode(a);
+      const right = this.encoder.encode(b);
+      for (let i = 0; i < Math.min(left.length, right.length); i++) if (left[i] !== right[i]) return left[i] - right[i];
+      return left.length - right.length;
+    });
+    const chunks: Uint8Array[] = [];
+    const header = new DataView(new ArrayBuffer(12));
+    header.setUint32(0, 0x44495243); // "DIRC"
+    header.setUint32(4, 2);
+    header.setUint32(8, paths.length);
+    chunks.push(new Uint8Array(header.buffer));
+
+    for (const path of paths) {
+      const file = files.get(path)!;
+      const name = this.encoder.encode(path);
+      // 62 bytes of fixed fields and the name, padded with 1 to 8 NULs to a multiple of 8.
+      const length = Math.ceil((62 + name.length + 1) / 8) * 8;
+      const entry = new Uint8Array(length);
+      const view = new DataView(entry.buffer);
+      view.setUint32(24, 0o100644);
+      view.setUint32(36, file.data.length);
+      entry.set(fromHex(file.sha), 40);
+      view.setUint16(60, Math.min(name.length, 0xfff));
+      entry.set(name, 62);
+      chunks.push(entry);
+    }
+    const content = concat(chunks);
+    return concat([content, await sha1(content)]);
+  }
+
+  private async createPack(repository: GitRepository): Promise<Uint8Array> {
+    const header = new DataView(new ArrayBuffer(12));
+    header.setUint32(0, 0x5041434b); // "PACK"
+    header.setUint32(4, 2);
+    header.setUint32(8, repository.objects.size);
+    const chunks: Uint8Array[] = [new Uint8Array(header.buffer)];
+
+    for (const object of repository.objects.values()) {
+      // Type and size: 3 type bits and 4 size bits in the first byte, then 7 size bits per byte.
+      const sizeBytes: number[] = [];
+      let size = object.data.length;
+      let byte = ((PACK_TYPES.indexOf(object.type) + 1) << 4) | (size & 0x0f);
+      size = Math.floor(size / 16);
+      while (size > 0) {
+        sizeBytes.push(byte | 0x80);
+        byte = size & 0x7f;
+        size = Math.floor(size / 128);
+      }
+      sizeBytes.push(byte);
+      chunks.push(new Uint8Array(sizeBytes), await deflateZlib(object.data));
+    }
+    const pack = concat(chunks);
+    return concat([pack, await sha1(pack)]);
+  }
+
+  private async readPack(pack: Uint8Array, objects: Map<string, GitObject>): Promise<void> {
+    const view = new DataView(pack.buffer, pack.byteOffset, pack.byteLength);
+    if (pack.length < 32 || view.getUint32(0) !== 0x5041434b) throw new Error('The git pack data is not valid.');
+    const version = view.getUint32(4);
+    if (version !== 2 && version !== 3) throw new Error(`Git pack version ${version} is not supported.`);
+    const count = view.getUint32(8);
+
+    const byOffset = new Map<number, GitObject>();
+    const pendingDeltas: { offset: number; base: number | string; delta: Uint8Array }[] = [];
+    let position = 12;
+    for (let i = 0; i < count; i++) {
+      const offset = position;
+      let byte = pack[position++];
+      const type = (byte >> 4) & 0x07;
+      let size = byte & 0x0f;
+      let shift = 4;
+      while (byte & 0x80) {
+        byte = pack[position++];
+        size += (byte & 0x7f) * 2 ** shift;
+        shift += 7;
+      }
+
+      let base: number | string | null = null;
+      if (type === OFS_DELTA) {
+        byte = pack[position++];
+        let distance = byte & 0x7f;
+        while (byte & 0x80) {
+          byte = pack[position++];
+          distance = ((distance + 1) * 128) + (byte & 0x7f);
+        }
+        base = offset - distance;
+      } else if (type === REF_DELTA) {
+        base = toHex(pack.subarray(position, position + 20));
+        position += 20;
+      } else if (type < 1 || type > 4) {
+        throw new Error(`The git pack contains an object of unknown type ${type}.`);
+      }
+
+      const { data, end } = inflateZlib(pack, position, size);
+      position = end;
+      if (base === null) {
+        const object = { type: PACK_TYPES[type - 1], data };
+        byOffset.set(offset, object);
+        objects.set(toHex(await sha1(this.encodeObject(object))), object);
+      } else {
+        pendingDeltas.push({ offset, base, delta: data });
+      }
+    }
+
+    // Deltas may build on other deltas, so resolve them in rounds until nothing changes.
+    let remaining = pendingDeltas;
+    while (remaining.length > 0) {
+      const unresolved: typeof remaining = [];
+      for (const pending of remaining) {
+        const base = typeof pending.base === 'number' ? byOffset.get(pending.base) : objects.get(pending.base);
+        if (!base) {
+          unresolved.push(pending);
+          continue;
+        }
+        const object = { type: base.type, data: applyDelta(base.data, pending.delta) };
+        byOffset.set(pending.offset, object);
+        objects.set(toHex(await sha1(this.encodeObject(object))), object);
+      }
+      if (unresolved.length === remaining.length) {
+        throw new Error('The git pack refers to objects it does not contain (thin packs are not supported).');
+      }
+      remaining = unresolved;
+    }
+  }
+}
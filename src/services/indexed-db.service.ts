@@ -0,0 +1,93 @@
+import { Injectable } from '@angular/core';
+
+const DB_NAME = 'dotnet-builder';
+const DB_VERSION = 3;
+
+export type StoreName = 'projects' | 'project-index' | 'revisions' | 'chats' | 'usage';
+
+export class StorageQuotaError extends Error {
+  constructor() {
+    super('Browser storage is full, so your latest changes could not be saved. Delete or export old projects to free up space.');
+    this.name = 'StorageQuotaError';
+  }
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Thin promise-based wrapper around the app's IndexedDB database.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class IndexedDbService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  async get<T>(store: StoreName, key: string): Promise<T | undefined> {
+    const db = await this.open();
+    return promisify<T | undefined>(db.transaction(store, 'readonly').objectStore(store).get(key));
+  }
+
+  async getAll<T>(store: StoreName): Promise<T[]> {
+    const db = await this.open();
+    return promisify<T[]>(db.transaction(store, 'readonly').objectStore(store).getAll());
+  }
+
+  /**
+   * Runs several writes in a single transaction so that related records (e.g. a project and its
+   * index entry) are either all stored or none are.
+   */
+  async write(stores: StoreName[], work: (tx: IDBTransaction) => void): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(stores, 'readwrite');
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onabort = () => reject(this.toStorageError(tx.error));
+      tx.onerror = () => reject(this.toStorageError(tx.error));
+    });
+    try {
+      work(tx);
+    } catch (e) {
+      tx.abort();
+      throw this.toStorageError(e);
+    }
+    return done;
+  }
+
+  async getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains('projects')) db.createObjectStore('projects', { keyPath: 'id' });
+          if (!db.objectStoreNames.contains('project-index')) db.createObjectStore('project-index', { keyPath: 'id' });
+          if (!db.objectStoreNames.contains('revisions')) db.createObjectStore('revisions', { keyPath: 'projectId' });
+          if (!db.objectStoreNames.contains('chats')) db.createObjectStore('chats', { keyPath: 'projectId' });
+          if (!db.objectStoreNames.contains('usage')) db.createObjectStore('usage', { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private toStorageError(error: unknown): unknown {
+    return error instanceof DOMException && error.name === 'QuotaExceededError' ? new StorageQuotaError() : error;
+  }
+}
@@ -0,0 +1,197 @@
+// A small DEFLATE decoder (RFC 1950/1951). The native DecompressionStream cannot say where a
+// compressed stream ends, which reading git pack files needs: objects follow each other without
+// any length prefix.
+
+const MAX_BITS = 15;
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+class BitReader {
+  private buffer = 0;
+  private available = 0;
+
+  constructor(private readonly data: Uint8Array, public position: number) {}
+
+  bits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      if (this.available === 0) {
+        if (this.position >= this.data.length) throw new Error('The compressed data ended unexpectedly.');
+        this.buffer = this.data[this.position++];
+        this.available = 8;
+      }
+      value |= (this.buffer & 1) << i;
+      this.buffer >>= 1;
+      this.available--;
+    }
+    return value;
+  }
+
+  /** Drops the rest of the current byte, as stored blocks start on a byte boundary. */
+  align(): void {
+    this.available = 0;
+  }
+
+  bytes(count: number): Uint8Array {
+    if (this.position + count > this.data.length) throw new Error('The compressed data ended unexpectedly.');
+    const bytes = this.data.subarray(this.position, this.position + count);
+    this.position += count;
+    return bytes;
+  }
+}
+
+class Output {
+  bytes: Uint8Array;
+  length = 0;
+
+  constructor(sizeHint: number) {
+    this.bytes = new Uint8Array(Math.max(sizeHint, 1024));
+  }
+
+  push(byte: number): void {
+    if (this.length === this.bytes.length) this.grow(1);
+    this.bytes[this.length++] = byte;
+  }
+
+  append(bytes: Uint8Array): void {
+    if (this.length + bytes.length > this.bytes.length) this.grow(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  copy(distance: number, length: number): void {
+    if (distance > this.length) throw new Error('The compressed data is corrupted (invalid distance).');
+    for (let i = 0; i < length; i++) this.push(this.bytes[this.length - distance]);
+  }
+
+  private grow(needed: number): void {
+    const bytes = new Uint8Array(Math.max(this.bytes.length * 2, this.length + needed));
+    bytes.set(this.bytes.subarray(0, this.length));
+    this.bytes = bytes;
+  }
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+  const offsets = new Uint16Array(MAX_BITS + 2);
+  for (let length = 1; length <= MAX_BITS; length++) offsets[length + 1] = offsets[length] + counts[length];
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol]) symbols[offsets[lengths[symbol]]++] = symbol;
+  }
+  return { counts, symbols };
+}
+
+function decodeSymbol(reader: BitReader, huffman: Huffman): number {
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let length = 1; length <= MAX_BITS; length++) {
+    code |= reader.bits(1);
+    const count = huffman.counts[length];
+    if (code - count < first) return huffman.symbols[index + (code - first)];
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new Error('The compressed data is corrupted (invalid Huffman code).');
+}
+
+const FIXED_LITERALS = buildHuffman(Array.from({ length: 288 }, (_, i) => i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8));
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+function readDynamicTables(reader: BitReader): [Huffman, Huffman] {
+  const literalCount = reader.bits(5) + 257;
+  const distanceCount = reader.bits(5) + 1;
+  const codeLengthCount = reader.bits(4) + 4;
+
+  const codeLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+  const codeLengthHuffman = buildHuffman(codeLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  for (let i = 0; i < lengths.length;) {
+    const symbol = decodeSymbol(reader, codeLengthHuffman);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (i === 0) throw new Error('The compressed data is corrupted (repeat without a previous length).');
+      value = lengths[i - 1];
+      repeat = 3 + reader.bits(2);
+    } else {
+      repeat = symbol === 17 ? 3 + reader.bits(3) : 11 + reader.bits(7);
+    }
+    if (i + repeat > lengths.length) throw new Error('The compressed data is corrupted (too many code lengths).');
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+  return [buildHuffman(lengths.subarray(0, literalCount)), buildHuffman(lengths.subarray(literalCount))];
+}
+
+function inflateBlock(reader: BitReader, output: Output, literals: Huffman, distances: Huffman): void {
+  while (true) {
+    const symbol = decodeSymbol(reader, literals);
+    if (symbol < 256) {
+      output.push(symbol);
+    } else if (symbol === 256) {
+      return;
+    } else {
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) throw new Error('The compressed data is corrupted (invalid length).');
+      const length = LENGTH_BASE[lengthIndex] + reader.bits(LENGTH_EXTRA[lengthIndex]);
+      const distanceIndex = decodeSymbol(reader, distances);
+      if (distanceIndex >= DISTANCE_BASE.length) throw new Error('The compressed data is corrupted (invalid distance code).');
+      output.copy(DISTANCE_BASE[distanceIndex] + reader.bits(DISTANCE_EXTRA[distanceIndex]), length);
+    }
+  }
+}
+
+/**
+ * Decompresses the zlib stream that starts at `offset` and returns the data together with the
+ * offset of the first byte after the stream. `sizeHint` is the expected size, if known.
+ */
+export function inflateZlib(data: Uint8Array, offset = 0, sizeHint = 0): { data: Uint8Array; end: number } {
+  const method = data[offset];
+  const flags = data[offset + 1];
+  if ((method & 0x0f) !== 8 || ((method << 8) | flags) % 31 !== 0 || flags & 0x20) {
+    throw new Error('The data is not a zlib stream.');
+  }
+
+  const reader = new BitReader(data, offset + 2);
+  const output = new Output(sizeHint);
+  let last = 0;
+  while (!last) {
+    last = reader.bits(1);
+    const type = reader.bits(2);
+    if (type === 0) {
+      reader.align();
+      const header = reader.bytes(4);
+      const length = header[0] | (header[1] << 8);
+      if ((length ^ 0xffff) !== (header[2] | (header[3] << 8))) throw new Error('The compressed data is corrupted (stored block length).');
+      output.append(reader.bytes(length));
+    } else if (type === 1) {
+      inflateBlock(reader, output, FIXED_LITERALS, FIXED_DISTANCES);
+    } else if (type === 2) {
+      const [literals, distances] = readDynamicTables(reader);
+      inflateBlock(reader, output, literals, distances);
+    } else {
+      throw new Error('The compressed data is corrupted (invalid block type).');
+    }
+  }
+  // The Adler-32 checksum follows the last block.
+  return { data: output.bytes.slice(0, output.length), end: reader.position + 4 };
+}
@@ -0,0 +1,90 @@
+const VALID_ESCAPES = new Set(['"', '\\', '/', 'b', 'f', 'n', 'r', 't', 'u']);
+
+/** Removes markdown code fences and any prose around the outermost JSON object. */
+export function stripMarkdownFences(text: string): string {
+  let result = text.trim().replace(/^```[a-zA-Z]*\s*/, '').replace(/\s*```\s*$/, '');
+  const start = result.indexOf('{');
+  if (start > 0) result = result.slice(start);
+  const end = result.lastIndexOf('}');
+  if (end >= 0 && !isTruncatedJson(result)) result = result.slice(0, end + 1);
+  return result;
+}
+
+/**
+ * Fixes the string-level mistakes models commonly make when emitting code inside JSON: raw
+ * newlines/tabs and other control characters, and backslashes that do not form a valid escape
+ * (e.g. C# regexes like `\d` or Windows paths).
+ */
+export function repairJsonStrings(text: string): string {
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (!inString) {
+      if (c === '"') inString = true;
+      result += c;
+      continue;
+    }
+    if (c === '\\') {
+      const next = text[i + 1];
+      const validUnicode = next === 'u' && /^[0-9a-fA-F]{4}$/.test(text.slice(i + 2, i + 6));
+      if (next !== undefined && VALID_ESCAPES.has(next) && (next !== 'u' || validUnicode)) {
+        result += c + next;
+        i++;
+      } else {
+        result += '\\\\';
+      }
+      continue;
+    }
+    if (c === '"') {
+      inString = false;
+      result += c;
+    } else if (c === '\n') {
+      result += '\\n';
+    } else if (c === '\r') {
+      result += '\\r';
+    } else if (c === '\t') {
+      result += '\\t';
+    } else if (c < ' ') {
+      result += '\\u' + c.charCodeAt(0).toString(16).padStart(4, '0');
+    } else {
+      result += c;
+    }
+  }
+  return result;
+}
+
+/** True when the text opened a JSON object or array and ends inside a string or with one still open. */
+export function isTruncatedJson(text: string): boolean {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let started = false;
+  for (const c of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === '\\') escaped = true;
+      else if (c === '"') inString = false;
+      continue;
+    }
+    if (c === '"') inString = true;
+    else if (c === '{' || c === '[') {
+      depth++;
+      started = true;
+    } else if (c === '}' || c === ']') depth--;
+  }
+  return started && (inString || depth > 0);
+}
+
+/** Parses model output, repairing fences and string escapes if needed. Returns undefined when it still fails. */
+export function parseLenientJson<T>(text: string): T | undefined {
+  const candidate = stripMarkdownFences(text);
+  for (const attempt of [candidate, repairJsonStrings(candidate)]) {
+    try {
+      return JSON.parse(attempt) as T;
+    } catch {
+      // try the next repair strategy
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,211 @@
+import { Injectable, inject } from '@angular/core';
+import { Framework, GeneratedProject, ProjectRevision } from '../models/project.model';
+import { LibraryBackup, LibraryBackupEntry } from '../models/library.model';
+import { ChatMessage, ChatThread, ProjectChat } from '../models/chat.model';
+import { SchemaModel } from '../models/schema.model';
+import { ProjectHistoryService } from './project-history.service';
+import { ProjectExportService } from './project-export.service';
+import { REVISION_KINDS } from './project-import.service';
+import { DEFAULT_TARGET, FeatureCatalogService } from './feature-catalog.service';
+
+const BACKUP_FORMAT = 'dotnet-builder-library';
+const BACKUP_VERSION = 1;
+
+/**
+ * Upgrades a backup by one version, keyed by the version it upgrades from. Version 0 is a bare
+ * array of projects, the shape early versions of the app kept in localStorage.
+ */
+const MIGRATIONS: { [fromVersion: number]: (backup: unknown) => unknown } = {
+  0: projects => ({
+    format: BACKUP_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    projects: Array.isArray(projects) ? projects.map(project => ({ project })) : [],
+  }),
+};
+
+export interface LibraryBackupContents {
+  entries: LibraryBackupEntry[];
+  /** Entries that were left out because they are not projects. */
+  invalid: number;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+const isSchema = (value: unknown): value is SchemaModel => isObject(value) && (value['source'] === 'openapi' || value['source'] === 'sql')
+  && typeof value['title'] === 'string' && Array.isArray(value['entities']) && Array.isArray(value['relationships']) && Array.isArray(value['endpoints']);
+const isRevisionChanges = (value: unknown): value is ProjectRevision['changes'] =>
+  isObject(value) && Object.values(value).every(content => typeof content === 'string' || content === null);
+
+/**
+ * Saves the whole project library, with history and conversations, as one versioned JSON file and
+ * restores it. Older backups are migrated step by step, and projects saved by earlier versions of
+ * the app get the fields they were missing.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LibraryBackupService {
+  private projectHistoryService = inject(ProjectHistoryService);
+  private projectExportService = inject(ProjectExportService);
+  private featureCatalogService = inject(FeatureCatalogService);
+
+  /** Downloads the backup and returns the number of projects in it. */
+  async downloadBackup(): Promise<number> {
+    const backup: LibraryBackup = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      projects: await this.projectHistoryService.getBackupEntries(),
+    };
+    const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+    this.projectExportService.downloadBlob(blob, `dotnet-builder-library-${backup.exportedAt.slice(0, 10)}.json`);
+    return backup.projects.length;
+  }
+
+  async readBackup(file: File): Promise<LibraryBackupContents> {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+
+    let version: number;
+    if (Array.isArray(data)) {
+      version = 0;
+    } else if (isObject(data) && data['format'] === BACKUP_FORMAT && typeof data['version'] === 'number' && Number.isInteger(data['version'])) {
+      version = data['version'];
+    } else {
+      throw new Error('The file is not a .NET Builder library backup.');
+    }
+    if (version > BACKUP_VERSION) {
+      throw new Error(`This backup was made by a newer version of the app (format version ${version}). Update the app to restore it.`);
+    }
+    for (; version < BACKUP_VERSION; version++) {
+      data = MIGRATIONS[version](data);
+    }
+
+    const projects: unknown[] = isObject(data) && Array.isArray(data['projects']) ? data['projects'] : [];
+    const entries = projects.map(entry => this.normalizeEntry(entry)).filter((entry): entry is LibraryBackupEntry => entry !== null);
+    return { entries, invalid: projects.length - entries.length };
+  }
+
+  private normalizeEntry(entry: unknown): LibraryBackupEntry | null {
+    if (!isObject(entry)) return null;
+    const project = this.normalizeProject(entry['project']);
+    if (!project) return null;
+    const now = new Date().toISOString();
+    const createdAt = typeof entry['createdAt'] === 'string' ? entry['createdAt'] : now;
+    return {
+      project,
+      createdAt,
+      updatedAt: typeof entry['updatedAt'] === 'string' ? entry['updatedAt'] : createdAt,
+      revisions: Array.isArray(entry['revisions'])
+        ? entry['revisions'].map(revision => this.normalizeRevision(revision, createdAt)).filter((revision): revision is ProjectRevision => revision !== null)
+        : [],
+      chat: this.normalizeChat(entry['chat'], project.id),
+    };
+  }
+
+  /** Defaults the descriptive fields of a revision; returns null when its number or changes are unusable. */
+  private normalizeRevision(value: unknown, fallbackTimestamp: string): ProjectRevision | null {
+    if (!isObject(value) || typeof value['number'] !== 'number' || !isRevisionChanges(value['changes'])) return null;
+    const kind = REVISION_KINDS.find(kind => kind === value['kind']);
+    return {
+      number: value['number'],
+      kind: kind ?? (value['number'] === 1 ? 'baseline' : 'edit'),
+      prompt: typeof value['prompt'] === 'string' ? value['prompt'] : '',
+      explanation: typeof value['explanation'] === 'string' ? value['explanation'] : '',
+      timestamp: typeof value['timestamp'] === 'string' ? value['timestamp'] : fallbackTimestamp,
+      changes: value['changes'],
+      dependencies: isStringArray(value['dependencies']) ? value['dependencies'] : [],
+      build_commands: isStringArray(value['build_commands']) ? value['build_commands'] : [],
+    };
+  }
+
+  /** Keeps the threads that have an id and messages, dropping messages without a role or text. */
+  private normalizeChat(value: unknown, projectId: string): ProjectChat | null {
+    if (!isObject(value) || !Array.isArray(value['threads'])) return null;
+    const threads: ChatThread[] = [];
+    for (const thread of value['threads']) {
+      if (!isObject(thread) || typeof thread['id'] !== 'string' || !thread['id'] || !Array.isArray(thread['messages'])) continue;
+      const createdAt = typeof thread['createdAt'] === 'string' ? thread['createdAt'] : new Date().toISOString();
+      const messages: ChatMessage[] = thread['messages']
+        .filter(message => isObject(message) && (message['role'] === 'user' || message['role'] === 'assistant') && typeof message['content'] === 'string')
+        .map(message => ({
+          role: message['role'],
+          content: message['content'],
+          timestamp: typeof message['timestamp'] === 'string' ? message['timestamp'] : createdAt,
+          revision: typeof message['revision'] === 'number' ? message['revision'] : undefined,
+        }));
+      threads.push({
+        id: thread['id'],
+        title: typeof thread['title'] === 'string' ? thread['title'] : 'New conversation',
+        createdAt,
+        messages,
+      });
+    }
+    if (threads.length === 0) return null;
+    const activeThreadId = threads.some(thread => thread.id === value['activeThreadId']) ? value['activeThreadId'] as string : threads[0].id;
+    return { projectId, activeThreadId, threads };
+  }
+
+  /** Fills in what older project shapes lack; returns null for anything without files. */
+  private normalizeProject(value: unknown): GeneratedProject | null {
+    if (!isObject(value) || !isObject(value['files'])) return null;
+    const files: { [key: string]: string } = {};
+    for (const [path, content] of Object.entries(value['files'])) {
+      if (typeof content === 'string') files[path] = content;
+    }
+    const prompt = typeof value['prompt'] === 'string' ? value['prompt'] : '';
+    const name = typeof value['name'] === 'string' && value['name'].trim()
+      ? value['name']
+      : prompt.length > 50 ? prompt.substring(0, 47) + '...' : prompt || 'Untitled project';
+
+    const target = value['target'];
+    return {
+      id: typeof value['id'] === 'string' && value['id'] ? value['id'] : new Date().toISOString() + Math.random(),
+      name,
+      prompt,
+      framework: this.normalizeFramework(value['framework']),
+      files,
+      dependencies: isStringArray(value['dependencies']) ? value['dependencies'] : [],
+      explanation: typeof value['explanation'] === 'string' ? value['explanation'] : '',
+      build_commands: isStringArray(value['build_commands']) ? value['build_commands'] : [],
+      target: isObject(target) && typeof target['targetFramework'] === 'string'
+        ? {
+            targetFramework: target['targetFramework'],
+            langVersion: typeof target['langVersion'] === 'string' ? target['langVersion'] : DEFAULT_TARGET.langVersion,
+            nullable: typeof target['nullable'] === 'boolean' ? target['nullable'] : DEFAULT_TARGET.nullable,
+            implicitUsings: typeof target['implicitUsings'] === 'boolean' ? target['implicitUsings'] : DEFAULT_TARGET.implicitUsings,
+          }
+        : undefined,
+      schema: isSchema(value['schema']) ? value['schema'] : undefined,
+      description: typeof value['description'] === 'string' ? value['description'] : undefined,
+      tags: isStringArray(value['tags']) ? value['tags'] : undefined,
+    };
+  }
+
+  /**
+   * Early projects stored only the framework's value, label and description. Known frameworks are
+   * replaced with the current catalog entry so they regain the SDK and generation instructions.
+   */
+  private normalizeFramework(value: unknown): Framework {
+    const frameworks = this.featureCatalogService.frameworks;
+    const key = typeof value === 'string' ? value : isObject(value) && typeof value['value'] === 'string' ? value['value'] : '';
+    const known = frameworks.find(framework => framework.value === key || framework.label === key);
+    if (known) return known;
+    if (isObject(value) && key) {
+      return {
+        value: key,
+        label: typeof value['label'] === 'string' ? value['label'] : key,
+        description: typeof value['description'] === 'string' ? value['description'] : '',
+        sdk: typeof value['sdk'] === 'string' ? value['sdk'] : undefined,
+        instructions: typeof value['instructions'] === 'string' ? value['instructions'] : undefined,
+        multiProject: value['multiProject'] === true || undefined,
+      };
+    }
+    return frameworks[0];
+  }
+}
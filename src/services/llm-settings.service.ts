@@ -0,0 +1,62 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { LlmProviderId, LlmSettings } from '../models/settings.model';
+import { LlmProvider } from './providers/llm-provider';
+import { GeminiProvider } from './providers/gemini-provider.service';
+import { OpenAiCompatibleProvider } from './providers/openai-compatible-provider.service';
+import { ProxyProvider } from './providers/proxy-provider.service';
+import { MockProvider } from './providers/mock-provider.service';
+
+export const PROVIDER_OPTIONS: { id: LlmProviderId; label: string; defaultModel: string; defaultBaseUrl: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash', defaultBaseUrl: '' },
+  { id: 'openai-compatible', label: 'OpenAI-compatible endpoint', defaultModel: 'gpt-4o-mini', defaultBaseUrl: 'http://localhost:11434/v1' },
+  { id: 'proxy', label: 'Model proxy (API key kept on the server)', defaultModel: 'gemini-2.5-flash', defaultBaseUrl: 'http://localhost:8787' },
+  { id: 'mock', label: 'Mock (offline, canned responses)', defaultModel: 'mock', defaultBaseUrl: '' },
+];
+
+const DEFAULT_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  baseUrl: '',
+  apiKey: '',
+  temperature: 0.4,
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class LlmSettingsService {
+  private readonly STORAGE_KEY = 'dotnet-builder-llm-settings';
+  private readonly providers: { [id in LlmProviderId]: LlmProvider } = {
+    'gemini': inject(GeminiProvider),
+    'openai-compatible': inject(OpenAiCompatibleProvider),
+    'proxy': inject(ProxyProvider),
+    'mock': inject(MockProvider),
+  };
+
+  readonly settings = signal<LlmSettings>(this.load());
+
+  update(settings: LlmSettings): void {
+    this.settings.set(settings);
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+      console.error('Error saving model settings to localStorage', e);
+    }
+  }
+
+  activeProvider(): LlmProvider {
+    return this.providers[this.settings().provider] ?? this.providers.gemini;
+  }
+
+  private load(): LlmSettings {
+    try {
+      const settingsJson = localStorage.getItem(this.STORAGE_KEY);
+      if (settingsJson) {
+        return { ...DEFAULT_SETTINGS, ...JSON.parse(settingsJson) };
+      }
+    } catch (e) {
+      console.error('Error reading model settings from localStorage', e);
+    }
+    return DEFAULT_SETTINGS;
+  }
+}
@@ -0,0 +1,63 @@
+export type ModelErrorKind = 'truncated' | 'schema' | 'api' | 'auth';
+
+/** What the user can do about each kind of failure. */
+export const MODEL_ERROR_HINTS: { [kind in ModelErrorKind]: string } = {
+  truncated: 'The response was too long for the model. Try asking for fewer features at once, or pick a model with a larger output limit in Settings.',
+  schema: 'The model did not follow the expected response format. Trying again usually helps; a more capable model is more reliable.',
+  api: 'The model service could not complete the request. Check your connection and provider settings, then try again.',
+  auth: 'Check the API key for the selected provider in Settings.',
+};
+
+/** Base class for failures talking to the model, typed so the UI can suggest a next step. */
+export class ModelError extends Error {
+  constructor(readonly kind: ModelErrorKind, message: string) {
+    super(message);
+    this.name = 'ModelError';
+  }
+}
+
+export class TruncatedOutputError extends ModelError {
+  constructor(readonly lostFiles: string[]) {
+    super('truncated', 'The model stopped before finishing its response and no complete files could be recovered. Try a smaller request or a model with a larger output limit.');
+    this.name = 'TruncatedOutputError';
+  }
+}
+
+export class SchemaMismatchError extends ModelError {
+  constructor(readonly problems: string[]) {
+    super('schema', `The model returned a response in an unexpected format: ${problems.join('; ')}.`);
+    this.name = 'SchemaMismatchError';
+  }
+}
+
+export class ModelApiError extends ModelError {
+  constructor(message: string, readonly status?: number) {
+    super('api', message);
+    this.name = 'ModelApiError';
+  }
+}
+
+export class ModelAuthError extends ModelError {
+  constructor(message: string) {
+    super('auth', message);
+    this.name = 'ModelAuthError';
+  }
+}
+
+/** Maps provider/SDK/network errors onto the typed errors above. */
+export function toModelError(error: unknown): ModelError {
+  if (error instanceof ModelError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+
+  if (status === 401 || status === 403 || /api[ _-]?key|unauthori[sz]ed|permission denied|forbidden/i.test(message)) {
+    return new ModelAuthError(`The model provider rejected the credentials: ${message}`);
+  }
+  if (status === 429) {
+    return new ModelApiError('The model provider is rate limiting requests. Wait a moment and try again.', status);
+  }
+  if (error instanceof TypeError && /fetch|network/i.test(message)) {
+    return new ModelApiError(`Could not reach the model provider: ${message}`);
+  }
+  return new ModelApiError(`The model provider returned an error: ${message}`, status);
+}
@@ -0,0 +1,222 @@
+/**
+ * Offline snapshot of NuGet metadata for packages that generated projects commonly use, so the
+ * Dependencies panel can suggest versions and spot unused or missing packages without network access.
+ * Versions are listed oldest first; refresh the snapshot when new major versions ship.
+ */
+export interface NuGetPackageInfo {
+  description: string;
+  versions: string[];
+  /** Namespaces available once the package is referenced, its own first. */
+  namespaces: string[];
+  /** Identifiers whose use shows the package is needed even without a using directive. */
+  symbols?: string[];
+  /** Major versions follow the .NET runtime (8.x for net8.0), so they must match the target framework. */
+  tracksRuntime?: boolean;
+  /** Build-time or test tooling that is never referenced from code. */
+  tooling?: boolean;
+}
+
+const RUNTIME_VERSIONS = ['6.0.36', '7.0.20', '8.0.11', '9.0.0'];
+
+export const NUGET_SNAPSHOT: { [packageId: string]: NuGetPackageInfo } = {
+  'Microsoft.EntityFrameworkCore': {
+    description: 'Entity Framework Core object-relational mapper.',
+    versions: RUNTIME_VERSIONS, namespaces: ['Microsoft.EntityFrameworkCore'], symbols: ['DbContext', 'DbSet'], tracksRuntime: true,
+  },
+  'Microsoft.EntityFrameworkCore.Sqlite': {
+    description: 'SQLite database provider for EF Core.',
+    versions: RUNTIME_VERSIONS, namespaces: ['Microsoft.EntityFrameworkCore', 'Microsoft.Data.Sqlite'], symbols: ['UseSqlite'], tracksRuntime: true,
+  },
+  'Microsoft.EntityFrameworkCore.SqlServer': {
+    description: 'SQL Server database provider for EF Core.',
+    versions: RUNTIME_VERSIONS, namespaces: ['Microsoft.EntityFrameworkCore', 'Microsoft.Data.SqlClient'], symbols: ['UseSqlServer'], tracksRuntime: true,
+  },
+  'Microsoft.EntityFrameworkCore.InMemory': {
+    description: 'In-memory database provider for EF Core, for tests and prototypes.',
+    versions: RUNTIME_VERSIONS, namespaces: ['Microsoft.EntityFrameworkCore'], symbols: ['UseInMemoryDatabase'], tracksRuntime: true,
+  },
+  'Microsoft.EntityFrameworkCore.Design': {
+    description: 'Design-time components for EF Core migrations.',
+    versions: RUNTIME_VERSIONS, namespaces: ['Microsoft.EntityFrameworkCore.Design'], tracksRuntime: true, tooling: true,
+  },
+  'Microsoft.EntityFrameworkCore.Tools': {
+    description: 'Package Manager Console tools for EF Core.',
+    versions: RUNTIME_VERSIONS, namespaces: [], tracksRuntime: true, tooling: true,
+  },
+  'Npgsql.EntityFrameworkCore.PostgreSQL': {
+    description: 'PostgreSQL database provider for EF Core.',
+    versions: ['6.0.29', '7.0.18', '8.0.10', '9.0.2'], namespaces: ['Npgsql', 'Microsoft.EntityFrameworkCore'], symbols: ['UseNpgsql'], tracksRuntime: true,
+  },
+  'Pomelo.EntityFrameworkCore.MySql': {
+    description: 'MySQL and MariaDB database provider for EF Core.',
+    versions: ['6.0.3', '7.0.0', '8.0.2', '9.0.0'], namespaces: ['Pomelo.EntityFrameworkCore.MySql', 'Microsoft.EntityFrameworkCore'], symbols: ['UseMySql'], tracksRuntime: true,
+  },
+  'Microsoft.Data.Sqlite': {
+    description: 'Lightweight ADO.NET provider for SQLite.',
+    versions: RUNTIME_VERSIONS, namespaces: ['Microsoft.Data.Sqlite'], symbols: ['SqliteConnection'], tracksRuntime: true,
+  },
+  'Microsoft.Data.SqlClient': {
+    description: 'ADO.NET provider for SQL Server and Azure SQL.',
+    versions: ['5.1.6', '5.2.2'], namespaces: ['Microsoft.Data.SqlClient'], symbols: ['SqlConnection'],
+  },
+  'Dapper': {
+    description: 'Micro-ORM that maps query results to objects.',
+    versions: ['2.0.151', '2.1.28', '2.1.35'], namespaces: ['Dapper'], symbols: ['QueryAsync', 'ExecuteAsync'],
+  },
+  'Microsoft.AspNetCore.Authentication.JwtBearer': {
+    description: 'JWT bearer token authentication middleware.',
+    versions: RUNTIME_VERSIONS, namespaces: ['Microsoft.AspNetCore.Authentication.JwtBearer', 'Microsoft.IdentityModel.Tokens', 'System.IdentityModel.Tokens.Jwt'], symbols: ['AddJwtBearer', 'JwtBearerDefaults'], tracksRuntime: true,
+  },
+  'System.IdentityModel.Tokens.Jwt': {
+    description: 'Creates, serializes and validates JSON Web Tokens.',
+    versions: ['6.35.0', '7.7.1', '8.2.1'], namespaces: ['System.IdentityModel.Tokens.Jwt', 'Microsoft.IdentityModel.Tokens'], symbols: ['JwtSecurityTokenHandler'],
+  },
+  'Microsoft.AspNetCore.Identity.EntityFrameworkCore': {
+    description: 'ASP.NET Core Identity stores backed by EF Core.',
+    versions: RUNTIME_VERSIONS, namespaces: ['Microsoft.AspNetCore.Identity.EntityFrameworkCore', 'Microsoft.EntityFrameworkCore'], symbols: ['IdentityDbContext', 'AddEntityFrameworkStores'], tracksRuntime: true,
+  },
+  'Microsoft.AspNetCore.Identity.UI': {
+    description: 'Default Razor Pages UI for ASP.NET Core Identity.',
+    versions: RUNTIME_VERSIONS, namespaces: ['Microsoft.AspNetCore.Identity.UI'], symbols: ['AddDefaultIdentity', 'AddDefaultUI'], tracksRuntime: true,
+  },
+  'Microsoft.AspNetCore.OpenApi': {
+    description: 'OpenAPI document generation for ASP.NET Core.',
+    versions: ['7.0.20', '8.0.11', '9.0.0'], namespaces: ['Microsoft.AspNetCore.OpenApi', 'Microsoft.OpenApi'], symbols: ['AddOpenApi', 'MapOpenApi', 'WithOpenApi'], tracksRuntime: true,
+  },
+  'Swashbuckle.AspNetCore': {
+    description: 'Swagger document generation and Swagger UI.',
+    versions: ['6.5.0', '6.6.2', '6.9.0', '7.2.0'], namespaces: ['Swashbuckle.AspNetCore', 'Microsoft.OpenApi'], symbols: ['AddSwaggerGen', 'UseSwagger', 'UseSwaggerUI'],
+  },
+  'Microsoft.AspNetCore.SignalR.Client': {
+    description: '.NET client for ASP.NET Core SignalR.',
+    versions: RUNTIME_VERSIONS, namespaces: ['Microsoft.AspNetCore.SignalR.Client'], symbols: ['HubConnectionBuilder'], tracksRuntime: true,
+  },
+  'Microsoft.AspNetCore.Components.WebAssembly': {
+    description: 'Runtime for Blazor WebAssembly apps.',
+    versions: RUNTIME_VERSIONS, namespaces: ['Microsoft.AspNetCore.Components.WebAssembly'], symbols: ['WebAssemblyHostBuilder'], tracksRuntime: true,
+  },
+  'Microsoft.AspNetCore.Components.WebAssembly.DevServer': {
+    description: 'Development server for Blazor WebAssembly apps.',
+    versions: RUNTIME_VERSIONS, namespaces: [], tracksRuntime: true, tooling: true,
+  },
+  'Microsoft.Extensions.Caching.StackExchangeRedis': {
+    description: 'Distributed cache backed by Redis.',
+    versions: RUNTIME_VERSIONS, namespaces: ['Microsoft.Extensions.Caching.StackExchangeRedis'], symbols: ['AddStackExchangeRedisCache'], tracksRuntime: true,
+  },
+  'Microsoft.Extensions.Http.Polly': {
+    description: 'Polly resilience policies for IHttpClientFactory.',
+    versions: RUNTIME_VERSIONS, namespaces: ['Polly'], symbols: ['AddPolicyHandler', 'AddTransientHttpErrorPolicy'], tracksRuntime: true,
+  },
+  'StackExchange.Redis': {
+    description: 'High-performance Redis client.',
+    versions: ['2.7.33', '2.8.16'], namespaces: ['StackExchange.Redis'], symbols: ['ConnectionMultiplexer'],
+  },
+  'Polly': {
+    description: 'Resilience and transient-fault-handling library.',
+    versions: ['7.2.4', '8.4.2'], namespaces: ['Polly'], symbols: ['ResiliencePipelineBuilder'],
+  },
+  'Serilog': {
+    description: 'Structured logging library.',
+    versions: ['3.1.1', '4.1.0'], namespaces: ['Serilog'],
+  },
+  'Serilog.AspNetCore': {
+    description: 'Serilog integration for ASP.NET Core.',
+    versions: ['6.1.0', '7.0.0', '8.0.3', '9.0.0'], namespaces: ['Serilog', 'Serilog.AspNetCore'], symbols: ['UseSerilog', 'UseSerilogRequestLogging'],
+  },
+  'Serilog.Sinks.Console': {
+    description: 'Serilog sink that writes to the console.',
+    versions: ['5.0.1', '6.0.0'], namespaces: ['Serilog.Sinks.SystemConsole'], symbols: ['WriteTo.Console'],
+  },
+  'Serilog.Sinks.File': {
+    description: 'Serilog sink that writes to rolling files.',
+    versions: ['5.0.0', '6.0.0'], namespaces: ['Serilog.Sinks.File'], symbols: ['WriteTo.File'],
+  },
+  'AutoMapper': {
+    description: 'Convention-based object-to-object mapper.',
+    versions: ['12.0.1', '13.0.1'], namespaces: ['AutoMapper'], symbols: ['IMapper', 'AddAutoMapper'],
+  },
+  'MediatR': {
+    description: 'In-process mediator for requests and notifications.',
+    versions: ['12.2.0', '12.4.1'], namespaces: ['MediatR'], symbols: ['IMediator', 'IRequestHandler', 'AddMediatR'],
+  },
+  'FluentValidation': {
+    description: 'Strongly-typed validation rules.',
+    versions: ['11.9.2', '11.11.0'], namespaces: ['FluentValidation'], symbols: ['AbstractValidator'],
+  },
+  'FluentValidation.DependencyInjectionExtensions': {
+    description: 'Registers FluentValidation validators with dependency injection.',
+    versions: ['11.9.2', '11.11.0'], namespaces: ['FluentValidation'], symbols: ['AddValidatorsFromAssembly', 'AddValidatorsFromAssemblyContaining'],
+  },
+  'Newtonsoft.Json': {
+    description: 'Json.NET serializer.',
+    versions: ['13.0.1', '13.0.3'], namespaces: ['Newtonsoft.Json'], symbols: ['JsonConvert', 'AddNewtonsoftJson'],
+  },
+  'Hangfire.AspNetCore': {
+    description: 'Background job processing for ASP.NET Core.',
+    versions: ['1.8.14'], namespaces: ['Hangfire'], symbols: ['AddHangfire', 'UseHangfireDashboard'],
+  },
+  'Grpc.AspNetCore': {
+    description: 'gRPC server for ASP.NET Core, including code generation.',
+    versions: ['2.57.0', '2.62.0', '2.66.0'], namespaces: ['Grpc.Core', 'Google.Protobuf'], symbols: ['AddGrpc', 'MapGrpcService', 'syntax = "proto3"'],
+  },
+  'Grpc.Tools': {
+    description: 'Protocol Buffers compiler integration for MSBuild.',
+    versions: ['2.62.0', '2.67.0'], namespaces: [], tooling: true,
+  },
+  'Google.Protobuf': {
+    description: 'Protocol Buffers runtime.',
+    versions: ['3.25.3', '3.28.3'], namespaces: ['Google.Protobuf'], symbols: ['syntax = "proto3"'],
+  },
+  'CommunityToolkit.Mvvm': {
+    description: 'MVVM source generators and helpers.',
+    versions: ['8.2.2', '8.3.2'], namespaces: ['CommunityToolkit.Mvvm'], symbols: ['ObservableObject', 'ObservableProperty', 'RelayCommand'],
+  },
+  'Microsoft.Maui.Controls': {
+    description: '.NET MAUI controls.',
+    versions: ['8.0.92', '9.0.10'], namespaces: ['Microsoft.Maui.Controls'], symbols: ['UseMauiApp'], tracksRuntime: true,
+  },
+  'Bogus': {
+    description: 'Fake data generator for seeding and tests.',
+    versions: ['35.5.1', '35.6.1'], namespaces: ['Bogus'], symbols: ['Faker'],
+  },
+  'xunit': {
+    description: 'xUnit.net testing framework.',
+    versions: ['2.6.6', '2.9.2'], namespaces: ['Xunit'], symbols: ['[Fact', '[Theory'],
+  },
+  'xunit.runner.visualstudio': {
+    description: 'Runs xUnit.net tests from dotnet test and Visual Studio.',
+    versions: ['2.5.7', '2.8.2'], namespaces: [], tooling: true,
+  },
+  'NUnit': {
+    description: 'NUnit testing framework.',
+    versions: ['3.14.0', '4.2.2'], namespaces: ['NUnit.Framework'], symbols: ['[Test', '[TestFixture'],
+  },
+  'NUnit3TestAdapter': {
+    description: 'Runs NUnit tests from dotnet test and Visual Studio.',
+    versions: ['4.5.0', '4.6.0'], namespaces: [], tooling: true,
+  },
+  'Microsoft.NET.Test.Sdk': {
+    description: 'MSBuild targets and properties for test projects.',
+    versions: ['17.9.0', '17.11.1'], namespaces: [], tooling: true,
+  },
+  'coverlet.collector': {
+    description: 'Code coverage collector for dotnet test.',
+    versions: ['6.0.0', '6.0.2'], namespaces: [], tooling: true,
+  },
+  'Moq': {
+    description: 'Mocking library for .NET.',
+    versions: ['4.20.70', '4.20.72'], namespaces: ['Moq'], symbols: ['Mock<'],
+  },
+  'NSubstitute': {
+    description: 'Friendly substitute for mocking libraries.',
+    versions: ['5.1.0', '5.3.0'], namespaces: ['NSubstitute'], symbols: ['Substitute.For'],
+  },
+  'FluentAssertions': {
+    description: 'Fluent assertion methods for tests.',
+    versions: ['6.12.0', '6.12.1'], namespaces: ['FluentAssertions'], symbols: ['.Should()'],
+  },
+  'Microsoft.AspNetCore.Mvc.Testing': {
+    description: 'In-memory test server for ASP.NET Core integration tests.',
+    versions: RUNTIME_VERSIONS, namespaces: ['Microsoft.AspNetCore.Mvc.Testing'], symbols: ['WebApplicationFactory'], tracksRuntime: true,
+  },
+};
@@ -0,0 +1,152 @@
+/** A C# class or record found in the project, reduced to what sample data needs. */
+export interface ModelClass {
+  name: string;
+  properties: { name: string; type: string }[];
+}
+
+/** Sample objects remember their C# type so unknown members can still render something sensible. */
+export interface SampleObject {
+  [key: string]: unknown;
+  __type?: string;
+}
+
+const COLLECTION_TYPE = /^(?:(?:System\.Collections\.Generic\.)?(?:IEnumerable|ICollection|IList|IReadOnlyList|IReadOnlyCollection|List|HashSet|ISet|IQueryable|PaginatedList|PagedList)<(.+)>|(.+)\[\])$/;
+const PROPERTY_PATTERN = /\bpublic\s+(?:(?:required|virtual|override|new|static|readonly)\s+)*([\w.]+(?:<[\w.,\s<>?[\]]+>)?(?:\[\])?\??)\s+(\w+)\s*(?:\{\s*(?:get|init|set)|=>|[=;])/g;
+const SAMPLE_COUNT = 3;
+const MAX_DEPTH = 3;
+
+/**
+ * Collects the public properties of the classes and records in the project's C# files, including
+ * positional record parameters. Enums are returned as classes whose properties are their members.
+ */
+export function collectModelClasses(files: { [path: string]: string }): Map<string, ModelClass> {
+  const classes = new Map<string, ModelClass>();
+  for (const [path, content] of Object.entries(files)) {
+    if (!path.endsWith('.cs')) continue;
+    const code = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+
+    for (const match of code.matchAll(/\b(class|record|struct|enum)\s+(?:class\s+|struct\s+)?(\w+)(?:<[^>]*>)?\s*(\(([^)]*)\))?[^{;]*([{;])/g)) {
+      const [, kind, name, , parameters, terminator] = match;
+      const properties: ModelClass['properties'] = [];
+      for (const parameter of splitTopLevel(parameters ?? '')) {
+        const typed = /^(?:\[[^\]]*\]\s*)*([\w.]+(?:<.+>)?(?:\[\])?\??)\s+(\w+)(?:\s*=.*)?$/.exec(parameter.trim());
+        if (typed) properties.push({ type: typed[1], name: typed[2] });
+      }
+      if (terminator === '{') {
+        const body = blockAt(code, match.index! + match[0].length - 1);
+        if (kind === 'enum') {
+          for (const member of body.split(',')) {
+            const memberName = /^\s*(?:\[[^\]]*\]\s*)*(\w+)/.exec(member)?.[1];
+            if (memberName) properties.push({ name: memberName, type: 'enum' });
+          }
+        } else {
+          // Only the class's own members, not those of nested types.
+          const nested: [number, number][] = [];
+          for (const inner of body.matchAll(/\b(?:class|record|struct|enum|interface)\s+\w+[^{;]*\{/g)) {
+            const open = inner.index! + inner[0].length - 1;
+            nested.push([open, open + blockAt(body, open).length + 2]);
+          }
+          for (const property of body.matchAll(PROPERTY_PATTERN)) {
+            if (nested.some(([start, end]) => property.index! > start && property.index! < end)) continue;
+            properties.push({ type: property[1], name: property[2] });
+          }
+        }
+      }
+      if (!classes.has(name) || properties.length > classes.get(name)!.properties.length) {
+        classes.set(name, { name: kind === 'enum' ? `enum:${name}` : name, properties });
+      }
+    }
+  }
+  return classes;
+}
+
+/** Builds a sample value for a C# type: lists hold three items and nested objects stop after three levels. */
+export function createSample(type: string, classes: Map<string, ModelClass>, index = 1, propertyName = '', depth = 0): unknown {
+  const clean = type.replace(/\?$/, '').replace(/^global::/, '').trim();
+  const collection = COLLECTION_TYPE.exec(clean);
+  if (collection) {
+    if (depth >= MAX_DEPTH) return [];
+    const itemType = collection[1] ?? collection[2];
+    return Array.from({ length: SAMPLE_COUNT }, (_, i) => createSample(itemType, classes, i + 1, singular(propertyName), depth + 1));
+  }
+
+  const simpleName = clean.replace(/<.*>$/, '').split('.').pop()!;
+  switch (simpleName.toLowerCase()) {
+    case 'string': return sampleString(propertyName, index);
+    case 'int': case 'int32': case 'long': case 'int64': case 'short': case 'byte':
+      return /id$/i.test(propertyName) || !propertyName ? index : index * 10;
+    case 'decimal': case 'double': case 'float': case 'single':
+      return Math.round(index * 12.5 * 100) / 100 + 0.99;
+    case 'bool': case 'boolean': return index % 2 === 1;
+    case 'datetime': case 'datetimeoffset': case 'dateonly':
+      return new Date(Date.UTC(2024, 0, index * 3));
+    case 'timeonly': case 'timespan': return `0${8 + index}:30`;
+    case 'guid': return `00000000-0000-0000-0000-${String(index).padStart(12, '0')}`;
+    case 'char': return 'A';
+  }
+
+  const modelClass = classes.get(simpleName);
+  if (modelClass?.name.startsWith('enum:')) return modelClass.properties[(index - 1) % Math.max(1, modelClass.properties.length)]?.name ?? simpleName;
+  if (!modelClass || depth > MAX_DEPTH) return { __type: simpleName } as SampleObject;
+
+  const sample: SampleObject = { __type: simpleName };
+  for (const property of modelClass.properties) {
+    sample[property.name] = createSample(property.type, classes, index, property.name, depth + 1);
+  }
+  return sample;
+}
+
+/** "UnitPrice" -> "Unit Price", as ASP.NET's display-name fallback does. */
+export function humanize(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/_/g, ' ');
+}
+
+function sampleString(propertyName: string, index: number): string {
+  const name = propertyName.toLowerCase();
+  if (name.includes('email')) return `user${index}@example.com`;
+  if (name.includes('phone')) return `555-010${index}`;
+  if (/(url|uri|link|image|photo|picture|avatar)$/.test(name)) return `https://placehold.co/320x180?text=${encodeURIComponent(humanize(propertyName))}+${index}`;
+  if (name.includes('color') || name.includes('colour')) return ['#2563eb', '#16a34a', '#dc2626'][(index - 1) % 3];
+  if (/(description|summary|content|body|notes?|comment|bio)$/.test(name)) return `Sample ${humanize(propertyName).toLowerCase()} for item ${index}. Lorem ipsum dolor sit amet.`;
+  return propertyName ? `${humanize(propertyName)} ${index}` : `Item ${index}`;
+}
+
+function singular(name: string): string {
+  return name.replace(/ies$/, 'y').replace(/s$/, '');
+}
+
+/** Returns the text between the brace at `open` and its match, skipping strings and char literals. */
+export function blockAt(code: string, open: number): string {
+  let depth = 0;
+  for (let i = open; i < code.length; i++) {
+    const c = code[i];
+    if (c === '"' || c === '\'') {
+      const verbatim = code[i - 1] === '@';
+      for (i++; i < code.length && code[i] !== c; i++) {
+        if (code[i] === '\\' && !verbatim) i++;
+      }
+    } else if (c === '{') {
+      depth++;
+    } else if (c === '}' && --depth === 0) {
+      return code.slice(open + 1, i);
+    }
+  }
+  return code.slice(open + 1);
+}
+
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '<' || c === '(' || c === '[') depth++;
+    else if (c === '>' || c === ')' || c === ']') depth--;
+    else if (c === ',' && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  if (text.trim()) parts.push(text.slice(start));
+  return parts;
+}
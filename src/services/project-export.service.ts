@@ -0,0 +1,306 @@
+import { Injectable, inject } from '@angular/core';
+import { GeneratedProject, ProjectRevision } from '../models/project.model';
+import { ZipService } from './zip.service';
+import { DEFAULT_TARGET, FeatureCatalogService } from './feature-catalog.service';
+import { DependencyService, PackageReference } from './dependency.service';
+import { GitCommitInput, GitRepositoryService } from './git-repository.service';
+
+// Visual Studio project type GUID for SDK-style C# projects.
+const CSHARP_PROJECT_TYPE_GUID = '9A19103F-16F7-4668-BE54-9A1E7A4F7556';
+
+/** Added to exported repositories that have no .gitignore of their own; removed again on import. */
+export const DOTNET_GITIGNORE = [
+  '# Build output',
+  'bin/',
+  'obj/',
+  'out/',
+  'publish/',
+  '*.nupkg',
+  '*.snupkg',
+  '',
+  '# Test results and coverage',
+  'TestResults/',
+  'coverage*.json',
+  'coverage*.xml',
+  '*.trx',
+  '',
+  '# IDE and user-specific files',
+  '.vs/',
+  '.vscode/',
+  '.idea/',
+  '*.user',
+  '*.suo',
+  '*.userprefs',
+  '',
+  '# Local settings and secrets',
+  'appsettings.*.local.json',
+  '*.env',
+  '.DS_Store',
+  '',
+].join('\n');
+
+const COMMIT_AUTHOR = { name: '.NET Builder AI', email: 'dotnet-builder@users.noreply.local' };
+const COMMIT_SUBJECT_LENGTH = 72;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ProjectExportService {
+  private zipService = inject(ZipService);
+  private gitRepositoryService = inject(GitRepositoryService);
+  private dependencyService = inject(DependencyService);
+  private featureCatalogService = inject(FeatureCatalogService);
+
+  async exportAsZip(project: GeneratedProject): Promise<void> {
+    const rootName = this.toIdentifier(project.name);
+    const files = this.buildSolutionLayout(project, rootName);
+    const blob = await this.zipService.createZip(
+      Object.entries(files).map(([path, content]) => ({ path: `${rootName}/${path}`, data: content }))
+    );
+    this.downloadBlob(blob, `${rootName}.zip`);
+  }
+
+  /**
+   * Exports the project history as a git repository with one commit per revision, either as a ZIP
+   * of the checked-out repository or as a bundle for `git clone`.
+   */
+  async exportAsGitRepository(project: GeneratedProject, revisions: ProjectRevision[], format: 'zip' | 'bundle'): Promise<void> {
+    const rootName = this.toIdentifier(project.name);
+    const repository = await this.gitRepositoryService.createRepository(this.toCommits(project, revisions));
+    if (format === 'bundle') {
+      this.downloadBlob(await this.gitRepositoryService.toBundle(repository), `${rootName}.bundle`);
+    } else {
+      this.downloadBlob(await this.zipService.createZip(await this.gitRepositoryService.toZipEntries(repository, rootName)), `${rootName}-git.zip`);
+    }
+  }
+
+  /**
+   * Formats a commit message: the prompt's first line as the subject, the full prompt quoted when
+   * it does not fit, the explanation as the body and the revision kind as a trailer.
+   */
+  createCommitMessage(revision: Pick<ProjectRevision, 'kind' | 'prompt' | 'explanation'>): string {
+    const prompt = revision.prompt.trim() || 'Update project';
+    const firstLine = prompt.split('\n')[0].trim();
+    const subject = firstLine.length > COMMIT_SUBJECT_LENGTH ? `${firstLine.slice(0, COMMIT_SUBJECT_LENGTH - 3).trimEnd()}...` : firstLine;
+    const paragraphs = [subject];
+    if (subject !== prompt) {
+      paragraphs.push(prompt.split('\n').map(line => line.trim() ? `> ${line}` : '>').join('\n'));
+    }
+    if (revision.explanation.trim()) {
+      paragraphs.push(revision.explanation.trim());
+    }
+    paragraphs.push(`Revision-Kind: ${revision.kind}`);
+    return paragraphs.join('\n\n');
+  }
+
+  private toCommits(project: GeneratedProject, revisions: ProjectRevision[]): GitCommitInput[] {
+    const withGitignore = (files: { [path: string]: string }) => {
+      const sanitized: { [path: string]: string } = {};
+      for (const [rawPath, content] of Object.entries(files)) {
+        const path = this.sanitizePath(rawPath);
+        if (path) sanitized[this.uniquePath(sanitized, path)] = content;
+      }
+      return '.gitignore' in sanitized ? sanitized : { '.gitignore': DOTNET_GITIGNORE, ...sanitized };
+    };
+
+    if (revisions.length === 0) {
+      return [{
+        files: withGitignore(project.files),
+        message: this.createCommitMessage({ kind: 'baseline', prompt: project.prompt, explanation: project.explanation }),
+        author: COMMIT_AUTHOR,
+        timestamp: new Date().toISOString(),
+      }];
+    }
+
+    const files: { [path: string]: string } = {};
+    return revisions.map(revision => {
+      for (const [path, content] of Object.entries(revision.changes)) {
+        if (content === null) delete files[path];
+        else files[path] = content;
+      }
+      return { files: withGitignore(files), message: this.createCommitMessage(revision), author: COMMIT_AUTHOR, timestamp: revision.timestamp };
+    });
+  }
+
+  /**
+   * Returns the files that make up the exported archive: the project's own files under sanitized
+   * paths, a README, and a .csproj/.sln when the model did not produce them.
+   */
+  buildSolutionLayout(project: GeneratedProject, rootName: string): { [path: string]: string } {
+    const files: { [path: string]: string } = {};
+    for (const [rawPath, content] of Object.entries(project.files)) {
+      const path = this.sanitizePath(rawPath);
+      if (!path) continue;
+      files[this.uniquePath(files, path)] = content;
+    }
+
+    let projectFiles = Object.keys(files).filter(path => path.toLowerCase().endsWith('.csproj'));
+    let unversioned: string[] = [];
+    if (projectFiles.length === 0) {
+      const csprojPath = `${rootName}.csproj`;
+      const packages = this.resolvePackageVersions(project);
+      unversioned = packages.filter(p => !p.version).map(p => p.name);
+      files[csprojPath] = this.createCsproj(project, packages.filter(p => p.version));
+      projectFiles = [csprojPath];
+    }
+
+    if (!Object.keys(files).some(path => path.toLowerCase().endsWith('.sln'))) {
+      files[`${rootName}.sln`] = this.createSolution(projectFiles);
+    }
+
+    const readmePath = Object.keys(files).find(path => path.toLowerCase() === 'readme.md') ? 'README.generated.md' : 'README.md';
+    files[readmePath] = this.createReadme(project, unversioned);
+    return files;
+  }
+
+  /**
+   * Normalizes a model-provided path into a safe, relative, forward-slash path.
+   * Backslashes, drive letters, leading slashes and `.`/`..` segments are resolved so that no
+   * entry can escape the archive root. Returns an empty string when nothing usable remains.
+   */
+  sanitizePath(rawPath: string): string {
+    const segments: string[] = [];
+    const normalized = rawPath.trim().replace(/\\/g, '/').replace(/^[a-zA-Z]:/, '');
+    for (const segment of normalized.split('/')) {
+      const part = segment.trim();
+      if (!part || part === '.') continue;
+      if (part === '..') {
+        segments.pop();
+        continue;
+      }
+      segments.push(part.replace(/[<>:"|?*\u0000-\u001f]/g, '_'));
+    }
+    return segments.join('/');
+  }
+
+  toIdentifier(name: string): string {
+    const words = name.replace(/\.\.\.$/, '').match(/[a-zA-Z0-9]+/g) || [];
+    const identifier = words.slice(0, 5).map(w => w[0].toUpperCase() + w.slice(1)).join('');
+    if (!identifier) return 'GeneratedProject';
+    return /^[0-9]/.test(identifier) ? `App${identifier}` : identifier;
+  }
+
+  private uniquePath(files: { [path: string]: string }, path: string): string {
+    if (!(path in files)) return path;
+    const dot = path.lastIndexOf('.');
+    const hasExtension = dot > path.lastIndexOf('/');
+    const base = hasExtension ? path.slice(0, dot) : path;
+    const extension = hasExtension ? path.slice(dot) : '';
+    let counter = 2;
+    while (`${base}-${counter}${extension}` in files) counter++;
+    return `${base}-${counter}${extension}`;
+  }
+
+  /**
+   * The version each dependency gets in a generated .csproj: the one written next to it, a feature's
+   * pin, or the snapshot's suggestion for the target framework. `null` when none of them is known.
+   */
+  private resolvePackageVersions(project: GeneratedProject): PackageReference[] {
+    const targetFramework = (project.target ?? DEFAULT_TARGET).targetFramework;
+    const pins = this.featureCatalogService.pinnedPackages(this.featureCatalogService.features(), null, targetFramework);
+    const packages = new Map<string, PackageReference>();
+    for (const dependency of project.dependencies) {
+      const [name, written] = dependency.trim().split(/\s+/);
+      if (!name || packages.has(name.toLowerCase())) continue;
+      const version = (written && /^\d/.test(written) ? written : null)
+        ?? pins.find(pin => pin.name.toLowerCase() === name.toLowerCase())?.version
+        ?? this.dependencyService.suggestVersion(name, targetFramework);
+      packages.set(name.toLowerCase(), { name, version });
+    }
+    return [...packages.values()];
+  }
+
+  private createCsproj(project: GeneratedProject, references: PackageReference[]): string {
+    const sdk = project.framework.sdk ?? (project.framework.value === 'Blazor WebAssembly' ? 'Microsoft.NET.Sdk.BlazorWebAssembly' : 'Microsoft.NET.Sdk.Web');
+    const target = project.target ?? DEFAULT_TARGET;
+    const packages = references
+      .map(reference => `    <PackageReference Include="${this.escapeXml(reference.name)}" Version="${this.escapeXml(reference.version!)}" />`)
+      .join('\n');
+
+    return [
+      `<Project Sdk="${sdk}">`,
+      '',
+      '  <PropertyGroup>',
+      `    <TargetFramework>${target.targetFramework}</TargetFramework>`,
+      ...(target.langVersion !== 'default' ? [`    <LangVersion>${target.langVersion}</LangVersion>`] : []),
+      `    <Nullable>${target.nullable ? 'enable' : 'disable'}</Nullable>`,
+      `    <ImplicitUsings>${target.implicitUsings ? 'enable' : 'disable'}</ImplicitUsings>`,
+      '  </PropertyGroup>',
+      ...(packages ? ['', '  <ItemGroup>', packages, '  </ItemGroup>'] : []),
+      '',
+      '</Project>',
+      '',
+    ].join('\n');
+  }
+
+  private createSolution(projectFiles: string[]): string {
+    const projects = projectFiles.map(path => ({
+      path: path.replace(/\//g, '\\'),
+      name: path.split('/').pop()!.replace(/\.csproj$/i, ''),
+      guid: crypto.randomUUID().toUpperCase(),
+    }));
+
+    const lines = [
+      '',
+      'Microsoft Visual Studio Solution File, Format Version 12.00',
+      '# Visual Studio Version 17',
+      'VisualStudioVersion = 17.0.31903.59',
+      'MinimumVisualStudioVersion = 10.0.40219.1',
+    ];
+    for (const p of projects) {
+      lines.push(`Project("{${CSHARP_PROJECT_TYPE_GUID}}") = "${p.name}", "${p.path}", "{${p.guid}}"`, 'EndProject');
+    }
+    lines.push(
+      'Global',
+      '\tGlobalSection(SolutionConfigurationPlatforms) = preSolution',
+      '\t\tDebug|Any CPU = Debug|Any CPU',
+      '\t\tRelease|Any CPU = Release|Any CPU',
+      '\tEndGlobalSection',
+      '\tGlobalSection(ProjectConfigurationPlatforms) = postSolution',
+    );
+    for (const p of projects) {
+      for (const config of ['Debug', 'Release']) {
+        lines.push(
+          `\t\t{${p.guid}}.${config}|Any CPU.ActiveCfg = ${config}|Any CPU`,
+          `\t\t{${p.guid}}.${config}|Any CPU.Build.0 = ${config}|Any CPU`,
+        );
+      }
+    }
+    lines.push('\tEndGlobalSection', 'EndGlobal', '');
+    return lines.join('\r\n');
+  }
+
+  private createReadme(project: GeneratedProject, unversioned: string[]): string {
+    const commands = project.build_commands.length > 0 ? project.build_commands : ['dotnet build', 'dotnet run'];
+    const sections = [
+      `# ${project.name}`,
+      `Framework: ${project.framework.label}` + (project.target ? ` (${project.target.targetFramework})` : ''),
+      '## Overview',
+      project.explanation || 'No explanation was provided for this project.',
+      '## Dependencies',
+      project.dependencies.length > 0 ? project.dependencies.map(dep => `- ${dep}`).join('\n') : 'No specific dependencies listed.',
+      ...(unversioned.length > 0 ? [
+        'No version is known for these packages, so they were left out of the generated .csproj. Add them before building:\n\n'
+          + ['```bash', ...unversioned.map(name => `dotnet add package ${name}`), '```'].join('\n'),
+      ] : []),
+      '## Build & Run',
+      ['```bash', ...commands, '```'].join('\n'),
+      '## Original Prompt',
+      project.prompt.split('\n').map(line => `> ${line}`).join('\n'),
+    ];
+    return sections.join('\n\n') + '\n';
+  }
+
+  private escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = fileName;
+    anchor.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+}
@@ -1,54 +1,317 @@
+import { Injectable, inject } from '@angular/core';
+import { GeneratedProject, ProjectRevision, ProjectSummary, RevisionInfo } from '../models/project.model';
+import { LibraryBackupEntry, ProjectDetails, ProjectSearchMatch } from '../models/library.model';
+import { ProjectChat } from '../models/chat.model';
+import { IndexedDbService } from './indexed-db.service';
 
-import { Injectable } from '@angular/core';
-import { GeneratedProject } from '../models/project.model';
+// Warn once the origin has used this share of its storage quota.
+const STORAGE_WARNING_RATIO = 0.85;
+
+interface RevisionRecord {
+  projectId: string;
+  revisions: ProjectRevision[];
+}
+
+export interface StorageStatus {
+  usage: number;
+  quota: number;
+  nearlyFull: boolean;
+}
 
 @Injectable({
   providedIn: 'root'
 })
 export class ProjectHistoryService {
-  private readonly STORAGE_KEY = 'dotnet-builder-projects';
+  private db = inject(IndexedDbService);
 
-  getProjects(): GeneratedProject[] {
-    try {
-      const projectsJson = localStorage.getItem(this.STORAGE_KEY);
-      if (projectsJson) {
-        return JSON.parse(projectsJson);
+  // Keys used by the previous localStorage-based storage, migrated once on first load.
+  private readonly LEGACY_STORAGE_KEY = 'dotnet-builder-projects';
+  private readonly LEGACY_REVISIONS_KEY = 'dotnet-builder-revisions';
+
+  private readonly ready = this.migrateFromLocalStorage();
+
+  /** Returns the lightweight index used by the "My Projects" list, newest first. */
+  async getProjects(): Promise<ProjectSummary[]> {
+    await this.ready;
+    const summaries = await this.db.getAll<ProjectSummary>('project-index');
+    return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getProject(id: string): Promise<GeneratedProject | null> {
+    await this.ready;
+    return (await this.db.get<GeneratedProject>('projects', id)) || null;
+  }
+
+  /**
+   * Saves the latest state of a project. When `revision` is given, the change is also recorded as a
+   * new numbered revision that only stores the files that differ from the previous one.
+   * Rejects with a StorageQuotaError when the browser has no space left.
+   */
+  async saveProject(project: GeneratedProject, revision?: RevisionInfo): Promise<void> {
+    await this.ready;
+    // The reads happen inside the write transaction, so two saves of the same project run one after
+    // the other and neither can drop the revision the other appended.
+    await this.db.write(['projects', 'project-index', 'revisions'], tx => {
+      const index = tx.objectStore('project-index');
+      const existing = index.get(project.id);
+      existing.onsuccess = () => {
+        tx.objectStore('projects').put(project);
+        index.put(this.toSummary(project, (existing.result as ProjectSummary | undefined)?.createdAt));
+      };
+      if (revision) {
+        const store = tx.objectStore('revisions');
+        const record = store.get(project.id);
+        record.onsuccess = () => {
+          const revisions = this.appendRevision((record.result as RevisionRecord | undefined)?.revisions ?? [], project, revision);
+          store.put({ projectId: project.id, revisions } satisfies RevisionRecord);
+        };
       }
-    } catch (e) {
-      console.error('Error reading projects from localStorage', e);
+    });
+  }
+
+  /** Saves a project together with a complete history, e.g. one restored from a git repository. */
+  async saveWithHistory(project: GeneratedProject, revisions: ProjectRevision[]): Promise<void> {
+    await this.ready;
+    await this.db.write(['projects', 'project-index', 'revisions'], tx => {
+      tx.objectStore('projects').put(project);
+      tx.objectStore('project-index').put(this.toSummary(project));
+      tx.objectStore('revisions').put({ projectId: project.id, revisions } satisfies RevisionRecord);
+    });
+  }
+
+  /** Renames a project or changes its description and tags. Returns the updated project. */
+  async updateDetails(id: string, details: ProjectDetails): Promise<GeneratedProject | null> {
+    await this.ready;
+    const project = await this.db.get<GeneratedProject>('projects', id);
+    if (!project) return null;
+    const existing = await this.db.get<ProjectSummary>('project-index', id);
+    const updated: GeneratedProject = {
+      ...project,
+      name: details.name.trim() || project.name,
+      description: details.description.trim(),
+      tags: [...new Set(details.tags.map(tag => tag.trim()).filter(Boolean))],
+    };
+    await this.db.write(['projects', 'project-index'], tx => {
+      tx.objectStore('projects').put(updated);
+      tx.objectStore('project-index').put(this.toSummary(updated, existing?.createdAt));
+    });
+    return updated;
+  }
+
+  /** Copies a project and its history under a new id. The conversations are not copied. */
+  async duplicateProject(id: string): Promise<GeneratedProject | null> {
+    await this.ready;
+    const project = await this.db.get<GeneratedProject>('projects', id);
+    if (!project) return null;
+    const copy: GeneratedProject = { ...project, id: new Date().toISOString() + Math.random(), name: `${project.name} (copy)` };
+    await this.saveWithHistory(copy, await this.getRevisions(id));
+    return copy;
+  }
+
+  /**
+   * Finds the projects that contain every word of `query` in their name, description, tags, prompt
+   * or file contents (case-insensitive), and reports where the first word matched.
+   */
+  async searchProjects(query: string): Promise<Map<string, ProjectSearchMatch>> {
+    await this.ready;
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const matches = new Map<string, ProjectSearchMatch>();
+    if (terms.length === 0) return matches;
+
+    for (const project of await this.db.getAll<GeneratedProject>('projects')) {
+      const fields: [ProjectSearchMatch['field'], string][] = [
+        ['name', project.name],
+        ['description', project.description ?? ''],
+        ['tags', (project.tags ?? []).join(' ')],
+        ['prompt', project.prompt],
+      ];
+      const findMatch = (term: string): ProjectSearchMatch | null => {
+        const field = fields.find(([, text]) => text.toLowerCase().includes(term));
+        if (field) return { field: field[0] };
+        const path = Object.keys(project.files).find(path => path.toLowerCase().includes(term) || project.files[path].toLowerCase().includes(term));
+        return path ? { field: 'file', path } : null;
+      };
+      const found = terms.map(findMatch);
+      if (found.every(match => match !== null)) matches.set(project.id, found[0]!);
     }
-    return [];
+    return matches;
   }
 
-  getProject(id: string): GeneratedProject | null {
-    const projects = this.getProjects();
-    return projects.find(p => p.id === id) || null;
+  /** Reads every project with its history and conversations, oldest first. */
+  async getBackupEntries(): Promise<LibraryBackupEntry[]> {
+    await this.ready;
+    const [projects, summaries, revisions, chats] = await Promise.all([
+      this.db.getAll<GeneratedProject>('projects'),
+      this.db.getAll<ProjectSummary>('project-index'),
+      this.db.getAll<RevisionRecord>('revisions'),
+      this.db.getAll<ProjectChat>('chats'),
+    ]);
+    const summaryById = new Map(summaries.map(summary => [summary.id, summary]));
+    const revisionsById = new Map(revisions.map(record => [record.projectId, record.revisions]));
+    const chatById = new Map(chats.map(chat => [chat.projectId, chat]));
+    const now = new Date().toISOString();
+    return projects
+      .map(project => ({
+        project,
+        createdAt: summaryById.get(project.id)?.createdAt ?? now,
+        updatedAt: summaryById.get(project.id)?.updatedAt ?? now,
+        revisions: revisionsById.get(project.id) ?? [],
+        chat: chatById.get(project.id) ?? null,
+      }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
   }
 
-  saveProject(project: GeneratedProject): void {
-    try {
-      const projects = this.getProjects();
-      const existingIndex = projects.findIndex(p => p.id === project.id);
-      
-      if (existingIndex > -1) {
-        projects[existingIndex] = project;
-      } else {
-        projects.unshift(project); // Add new projects to the top
+  /**
+   * Writes backup entries in a single transaction. Projects whose id already exists are skipped
+   * unless `replaceExisting` is set. Returns how many were restored and skipped.
+   */
+  async restoreBackupEntries(entries: LibraryBackupEntry[], replaceExisting: boolean): Promise<{ restored: number; skipped: number; replaced: string[] }> {
+    await this.ready;
+    const existing = new Set((await this.db.getAll<ProjectSummary>('project-index')).map(summary => summary.id));
+    const restored = entries.filter(entry => replaceExisting || !existing.has(entry.project.id));
+    await this.db.write(['projects', 'project-index', 'revisions', 'chats'], tx => {
+      for (const entry of restored) {
+        const { project } = entry;
+        tx.objectStore('projects').put(project);
+        tx.objectStore('project-index').put({ ...this.toSummary(project, entry.createdAt), updatedAt: entry.updatedAt });
+        tx.objectStore('revisions').put({ projectId: project.id, revisions: entry.revisions } satisfies RevisionRecord);
+        if (entry.chat) {
+          tx.objectStore('chats').put({ ...entry.chat, projectId: project.id });
+        } else {
+          tx.objectStore('chats').delete(project.id);
+        }
+      }
+    });
+    return {
+      restored: restored.length,
+      skipped: entries.length - restored.length,
+      replaced: restored.map(entry => entry.project.id).filter(id => existing.has(id)),
+    };
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    await this.ready;
+    await this.db.write(['projects', 'project-index', 'revisions', 'chats'], tx => {
+      tx.objectStore('projects').delete(id);
+      tx.objectStore('project-index').delete(id);
+      tx.objectStore('revisions').delete(id);
+      tx.objectStore('chats').delete(id);
+    });
+  }
+
+  async getRevisions(projectId: string): Promise<ProjectRevision[]> {
+    await this.ready;
+    return (await this.db.get<RevisionRecord>('revisions', projectId))?.revisions || [];
+  }
+
+  /** Records the current state as a baseline revision for projects saved before history existed. */
+  async ensureHistory(project: GeneratedProject): Promise<void> {
+    if ((await this.getRevisions(project.id)).length === 0) {
+      await this.saveProject(project, { kind: 'baseline', prompt: project.prompt });
+    }
+  }
+
+  /** Rebuilds the project as it was at the given revision, or null if the revision does not exist. */
+  async getSnapshot(project: GeneratedProject, revisionNumber: number): Promise<GeneratedProject | null> {
+    const revisions = await this.getRevisions(project.id);
+    const target = revisions.find(r => r.number === revisionNumber);
+    if (!target) return null;
+    return {
+      ...project,
+      files: this.replayFiles(revisions.filter(r => r.number <= revisionNumber)),
+      dependencies: target.dependencies,
+      explanation: target.explanation,
+      build_commands: target.build_commands,
+    };
+  }
+
+  async getStorageStatus(): Promise<StorageStatus | null> {
+    const estimate = await this.db.getStorageEstimate();
+    if (!estimate) return null;
+    return { ...estimate, nearlyFull: estimate.usage / estimate.quota >= STORAGE_WARNING_RATIO };
+  }
+
+  private appendRevision(revisions: ProjectRevision[], project: GeneratedProject, info: RevisionInfo): ProjectRevision[] {
+    const previousFiles = this.replayFiles(revisions);
+
+    const changes: { [path: string]: string | null } = {};
+    for (const [path, content] of Object.entries(project.files)) {
+      if (previousFiles[path] !== content) changes[path] = content;
+    }
+    for (const path of Object.keys(previousFiles)) {
+      if (!(path in project.files)) changes[path] = null;
+    }
+
+    return [...revisions, {
+      ...info,
+      number: (revisions[revisions.length - 1]?.number ?? 0) + 1,
+      explanation: project.explanation,
+      timestamp: new Date().toISOString(),
+      changes,
+      dependencies: project.dependencies,
+      build_commands: project.build_commands,
+    }];
+  }
+
+  private replayFiles(revisions: ProjectRevision[]): { [key: string]: string } {
+    const files: { [key: string]: string } = {};
+    for (const revision of revisions) {
+      for (const [path, content] of Object.entries(revision.changes)) {
+        if (content === null) {
+          delete files[path];
+        } else {
+          files[path] = content;
+        }
       }
-      
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(projects));
-    } catch (e) {
-      console.error('Error saving project to localStorage', e);
     }
+    return files;
+  }
+
+  private toSummary(project: GeneratedProject, createdAt?: string): ProjectSummary {
+    const now = new Date().toISOString();
+    return {
+      id: project.id,
+      name: project.name,
+      prompt: project.prompt,
+      framework: project.framework,
+      ...(project.description ? { description: project.description } : {}),
+      ...(project.tags?.length ? { tags: project.tags } : {}),
+      fileCount: Object.keys(project.files).length,
+      size: Object.values(project.files).reduce((size, content) => size + content.length, 0),
+      createdAt: createdAt ?? now,
+      updatedAt: now,
+    };
   }
 
-  deleteProject(id: string): void {
+  /**
+   * Moves projects saved by earlier versions of the app from localStorage into IndexedDB.
+   * The legacy keys are only removed once everything has been written successfully.
+   */
+  private async migrateFromLocalStorage(): Promise<void> {
     try {
-      let projects = this.getProjects();
-      projects = projects.filter(p => p.id !== id);
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(projects));
+      const projectsJson = localStorage.getItem(this.LEGACY_STORAGE_KEY);
+      if (!projectsJson) return;
+
+      const projects: GeneratedProject[] = JSON.parse(projectsJson);
+      const revisions: { [projectId: string]: ProjectRevision[] } = JSON.parse(localStorage.getItem(this.LEGACY_REVISIONS_KEY) || '{}');
+      const now = Date.now();
+
+      await this.db.write(['projects', 'project-index', 'revisions'], tx => {
+        projects.forEach((project, index) => {
+          // Legacy projects were stored newest first; keep that order in the index.
+          const createdAt = new Date(now - index * 1000).toISOString();
+          tx.objectStore('projects').put(project);
+          tx.objectStore('project-index').put(this.toSummary(project, createdAt));
+          if (revisions[project.id]) {
+            tx.objectStore('revisions').put({ projectId: project.id, revisions: revisions[project.id] } satisfies RevisionRecord);
+          }
+        });
+      });
+
+      localStorage.removeItem(this.LEGACY_STORAGE_KEY);
+      localStorage.removeItem(this.LEGACY_REVISIONS_KEY);
     } catch (e) {
-      console.error('Error deleting project from localStorage', e);
+      console.error('Error migrating projects from localStorage', e);
     }
   }
 }
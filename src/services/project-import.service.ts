@@ -0,0 +1,314 @@
+import { Injectable, inject } from '@angular/core';
+import { Framework, GeneratedProject, ProjectRevision, RevisionKind, TargetSettings } from '../models/project.model';
+import { ZipService } from './zip.service';
+import { DOTNET_GITIGNORE, ProjectExportService } from './project-export.service';
+import { GitRepositoryService, MAX_REPOSITORY_BYTES } from './git-repository.service';
+import { DependencyService } from './dependency.service';
+
+const MAX_IMPORT_SIZE_BYTES = 4 * 1024 * 1024;
+const MAX_FILE_SIZE_BYTES = 512 * 1024;
+const MAX_HISTORY_COMMITS = 500;
+export const REVISION_KINDS: RevisionKind[] = ['baseline', 'generation', 'modification', 'edit', 'import', 'restore', 'branch'];
+
+const IGNORED_FOLDERS = new Set(['bin', 'obj', '.git', '.vs', '.idea', '.vscode', 'node_modules', 'packages', 'TestResults']);
+const BINARY_EXTENSIONS = new Set([
+  'dll', 'exe', 'pdb', 'so', 'dylib', 'nupkg', 'snupkg', 'zip', 'gz', 'tar', '7z', 'rar',
+  'png', 'jpg', 'jpeg', 'gif', 'bmp', 'ico', 'webp', 'svgz', 'pdf',
+  'woff', 'woff2', 'ttf', 'otf', 'eot', 'mp3', 'mp4', 'wav', 'db', 'sqlite', 'mdf', 'ldf', 'cache', 'suo', 'user',
+]);
+
+interface ImportCandidate {
+  path: string;
+  size: number;
+  read(): Promise<Uint8Array>;
+}
+
+export interface ImportedHistory {
+  project: GeneratedProject;
+  revisions: ProjectRevision[];
+}
+
+/**
+ * Turns an existing .NET codebase (a ZIP archive or a folder picked in the browser) into a
+ * GeneratedProject so it can be opened in the workspace and modified by the assistant.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ProjectImportService {
+  private zipService = inject(ZipService);
+  private projectExportService = inject(ProjectExportService);
+  private gitRepositoryService = inject(GitRepositoryService);
+  private dependencyService = inject(DependencyService);
+  private readonly decoder = new TextDecoder('utf-8', { fatal: true });
+
+  async importFromZip(file: File, frameworks: Framework[]): Promise<GeneratedProject> {
+    const entries = await this.zipService.readZip(file);
+    const candidates = entries.filter(entry => !entry.isDirectory);
+    return this.buildProject(file.name.replace(/\.zip$/i, ''), candidates, frameworks);
+  }
+
+  async importFromFolder(fileList: FileList | File[], frameworks: Framework[]): Promise<GeneratedProject> {
+    const files = Array.from(fileList);
+    if (files.length === 0) {
+      throw new Error('The selected folder is empty.');
+    }
+    const candidates = files.map(file => ({
+      path: file.webkitRelativePath || file.name,
+      size: file.size,
+      read: async () => new Uint8Array(await file.arrayBuffer()),
+    }));
+    const folderName = (files[0].webkitRelativePath || '').split('/')[0] || 'Imported Project';
+    return this.buildProject(folderName, candidates, frameworks);
+  }
+
+  /**
+   * Imports a git repository, either a bundle or a ZIP archive that contains a `.git` folder, with
+   * one revision per commit on its current branch. Commit messages written by the git export
+   * restore the original prompts, explanations and revision kinds.
+   */
+  async importFromGit(file: File, frameworks: Framework[]): Promise<ImportedHistory> {
+    if (file.size > MAX_REPOSITORY_BYTES) {
+      throw new Error(`The file is ${Math.round(file.size / (1024 * 1024))} MB, more than the ${MAX_REPOSITORY_BYTES / (1024 * 1024)} MB that can be imported in the browser. Export a bundle of just the branch with "git bundle create" instead.`);
+    }
+    const header = new Uint8Array(await file.slice(0, 64).arrayBuffer());
+    const repository = this.gitRepositoryService.isBundle(header)
+      ? await this.gitRepositoryService.readBundle(new Uint8Array(await file.arrayBuffer()))
+      : await this.gitRepositoryService.readZip(await this.zipService.readZip(file));
+    if (!repository) {
+      throw new Error('The ZIP archive does not contain a git repository. Use "Import ZIP" to import the files without history.');
+    }
+
+    const history = this.gitRepositoryService.readHistory(repository, MAX_HISTORY_COMMITS);
+    const head = history[history.length - 1];
+    const sourceName = file.name.replace(/(-git)?\.(zip|bundle)$/i, '');
+    const imported = await this.buildProject(sourceName, Object.entries(head.files).map(([path, data]) => ({
+      path,
+      size: data.length,
+      read: async () => data,
+    })), frameworks);
+
+    let previous: { [key: string]: string } = {};
+    const revisions = history.map((commit, index): ProjectRevision => {
+      const files = this.readSourceFiles(commit.files);
+      const changes: { [path: string]: string | null } = {};
+      for (const [path, content] of Object.entries(files)) {
+        if (previous[path] !== content) changes[path] = content;
+      }
+      for (const path of Object.keys(previous)) {
+        if (!(path in files)) changes[path] = null;
+      }
+      previous = files;
+      const message = this.parseCommitMessage(commit.message);
+      return {
+        kind: message.kind ?? 'import',
+        prompt: message.prompt,
+        number: index + 1,
+        explanation: message.explanation,
+        timestamp: commit.timestamp,
+        changes,
+        dependencies: this.readDependencies(files),
+        build_commands: this.createBuildCommands(files),
+      };
+    });
+
+    const exported = this.parseCommitMessage(history[0].message).kind !== null;
+    const latest = revisions[revisions.length - 1];
+    return {
+      project: {
+        ...imported,
+        ...(exported ? { prompt: revisions[0].prompt, explanation: latest.explanation } : {}),
+        files: previous,
+        dependencies: latest.dependencies,
+        build_commands: latest.build_commands,
+      },
+      revisions,
+    };
+  }
+
+  private async buildProject(sourceName: string, candidates: ImportCandidate[], frameworks: Framework[]): Promise<GeneratedProject> {
+    const sources = candidates
+      .map(candidate => ({ ...candidate, path: this.projectExportService.sanitizePath(candidate.path) }))
+      .filter(candidate => candidate.path && !candidate.path.startsWith('__MACOSX/'));
+    const paths = this.stripCommonRoot(sources.map(source => source.path));
+    const kept = sources
+      .map((source, i) => ({ ...source, path: paths[i] }))
+      .filter(candidate => candidate.path && !this.isIgnored(candidate.path));
+    const included = kept.filter(candidate => candidate.size <= MAX_FILE_SIZE_BYTES);
+    const oversized = kept.filter(candidate => candidate.size > MAX_FILE_SIZE_BYTES).map(candidate => candidate.path);
+
+    const totalSize = included.reduce((size, candidate) => size + candidate.size, 0);
+    if (totalSize > MAX_IMPORT_SIZE_BYTES) {
+      throw new Error(
+        `This project is too large to import (${this.formatSize(totalSize)} of source files, limit is ${this.formatSize(MAX_IMPORT_SIZE_BYTES)}). ` +
+        'Remove generated or vendored files and try again.'
+      );
+    }
+
+    const files: { [key: string]: string } = {};
+    let skipped = candidates.length - included.length - oversized.length;
+    for (const candidate of included) {
+      const content = this.decodeText(await candidate.read());
+      if (content === null) {
+        skipped++;
+        continue;
+      }
+      files[candidate.path] = content;
+    }
+
+    const projectFiles = Object.keys(files).filter(path => path.toLowerCase().endsWith('.csproj'));
+    if (projectFiles.length === 0) {
+      throw new Error('No .csproj file was found. Please import a .NET project or solution.');
+    }
+
+    return {
+      id: new Date().toISOString() + Math.random(),
+      name: sourceName,
+      prompt: `Imported from "${sourceName}"`,
+      framework: this.guessFramework(files, projectFiles, frameworks),
+      files,
+      dependencies: this.readDependencies(files),
+      explanation: `Imported existing codebase with ${Object.keys(files).length} files and ${projectFiles.length} project(s)` +
+        (skipped > 0 ? `; ${skipped} binary or generated files were skipped.` : '.') +
+        (oversized.length > 0 ? ` These files are larger than ${this.formatSize(MAX_FILE_SIZE_BYTES)} and were not imported: ${oversized.join(', ')}.` : ''),
+      build_commands: this.createBuildCommands(files),
+      target: this.readTargetSettings(projectFiles.map(path => files[path])),
+    };
+  }
+
+  private readDependencies(files: { [key: string]: string }): string[] {
+    const projectFiles = Object.keys(files).filter(path => path.toLowerCase().endsWith('.csproj'));
+    return [...new Set(projectFiles.flatMap(path => this.dependencyService.parsePackageReferences(files[path]).map(ref => ref.name)))];
+  }
+
+  private createBuildCommands(files: { [key: string]: string }): string[] {
+    const paths = Object.keys(files);
+    const buildTarget = paths.find(path => path.toLowerCase().endsWith('.sln')) ?? paths.find(path => path.toLowerCase().endsWith('.csproj'));
+    return buildTarget ? [`dotnet restore "${buildTarget}"`, `dotnet build "${buildTarget}"`] : ['dotnet build'];
+  }
+
+  /**
+   * Applies the import rules to the files of one commit: generated, binary and oversized files are
+   * left out, and so is the .gitignore the git export adds.
+   */
+  private readSourceFiles(data: { [path: string]: Uint8Array }): { [key: string]: string } {
+    const files: { [key: string]: string } = {};
+    for (const [rawPath, bytes] of Object.entries(data)) {
+      const path = this.projectExportService.sanitizePath(rawPath);
+      if (!path || this.isIgnored(path) || bytes.length > MAX_FILE_SIZE_BYTES) continue;
+      const content = this.decodeText(bytes);
+      if (content === null || (path === '.gitignore' && content === DOTNET_GITIGNORE)) continue;
+      files[path] = content;
+    }
+    return files;
+  }
+
+  /** Splits a commit message written by the git export back into prompt, explanation and kind. */
+  private parseCommitMessage(message: string): { kind: RevisionKind | null; prompt: string; explanation: string } {
+    const paragraphs = message.replace(/\r\n/g, '\n').trim().split(/\n\s*\n/);
+    let kind: RevisionKind | null = null;
+    const trailers = paragraphs[paragraphs.length - 1].split('\n');
+    const kindTrailer = trailers.find(line => line.startsWith('Revision-Kind:'))?.slice('Revision-Kind:'.length).trim() as RevisionKind | undefined;
+    if (paragraphs.length > 1 && kindTrailer && REVISION_KINDS.includes(kindTrailer) && trailers.every(line => /^[\w-]+: /.test(line))) {
+      kind = kindTrailer;
+      paragraphs.pop();
+    }
+
+    let prompt = paragraphs.shift() ?? '';
+    if (paragraphs.length > 0 && paragraphs[0].split('\n').every(line => line.startsWith('>'))) {
+      prompt = paragraphs.shift()!.split('\n').map(line => line.replace(/^> ?/, '')).join('\n');
+    }
+    return { kind, prompt: prompt || 'Imported commit', explanation: paragraphs.join('\n\n') };
+  }
+
+  /** Reads the target settings of the first project that declares a target framework. */
+  private readTargetSettings(projectFiles: string[]): TargetSettings | undefined {
+    const read = (xml: string, name: string) => new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`, 'i').exec(xml)?.[1];
+    const isEnabled = (value?: string) => value?.toLowerCase() === 'enable' || value?.toLowerCase() === 'true';
+    for (const xml of projectFiles) {
+      const framework = read(xml, 'TargetFramework') ?? read(xml, 'TargetFrameworks')?.split(';')[0];
+      const version = /^(net\d+\.\d+)/.exec(framework?.trim() ?? '')?.[1];
+      if (!version) continue;
+      return {
+        targetFramework: version,
+        langVersion: read(xml, 'LangVersion') ?? 'default',
+        nullable: isEnabled(read(xml, 'Nullable')),
+        implicitUsings: isEnabled(read(xml, 'ImplicitUsings')),
+      };
+    }
+    return undefined;
+  }
+
+  private guessFramework(files: { [key: string]: string }, projectFiles: string[], frameworks: Framework[]): Framework {
+    const byValue = (value: string) => frameworks.find(f => f.value === value) ?? frameworks[0];
+    const csprojContent = projectFiles.map(path => files[path]).join('\n');
+    const paths = Object.keys(files);
+    const code = paths.filter(path => path.endsWith('.cs')).map(path => files[path]).join('\n');
+
+    if (projectFiles.length > 2) {
+      return byValue('Multi-project Solution');
+    }
+    if (/<UseMaui>\s*true\s*<\/UseMaui>/i.test(csprojContent)) {
+      return byValue('.NET MAUI');
+    }
+    if (/Microsoft\.NET\.Sdk\.Worker/i.test(csprojContent)) {
+      return byValue('Worker Service');
+    }
+    if (/Grpc\.AspNetCore/i.test(csprojContent)) {
+      return byValue('gRPC Service');
+    }
+    if (!/Microsoft\.NET\.Sdk\.(Web|Razor|BlazorWebAssembly)/i.test(csprojContent)) {
+      return byValue(/<OutputType>\s*(Win)?Exe\s*<\/OutputType>/i.test(csprojContent) ? 'Console App' : 'Class Library');
+    }
+    if (/Microsoft\.NET\.Sdk\.BlazorWebAssembly|Microsoft\.AspNetCore\.Components\.WebAssembly/i.test(csprojContent)) {
+      return byValue('Blazor WebAssembly');
+    }
+    if (paths.some(path => path.endsWith('.razor')) && /AddServerSideBlazor|AddRazorComponents|AddInteractiveServerComponents/.test(code)) {
+      return byValue('Blazor Server');
+    }
+    if (/AddControllersWithViews/.test(code) || paths.some(path => /(^|\/)Views\/.+\.cshtml$/.test(path))) {
+      return byValue('ASP.NET Core MVC');
+    }
+    if (/AddRazorPages/.test(code) || paths.some(path => /(^|\/)Pages\/.+\.cshtml$/.test(path))) {
+      return byValue('Razor Pages');
+    }
+    if (!/AddControllers\b/.test(code) && /\.Map(Get|Post|Put|Delete|Group)\s*\(/.test(code)) {
+      return byValue('Minimal API');
+    }
+    return byValue('ASP.NET Core Web API');
+  }
+
+  private stripCommonRoot(paths: string[]): string[] {
+    const firstSegments = new Set(paths.map(path => path.split('/')[0]));
+    const [root] = firstSegments;
+    if (firstSegments.size === 1 && paths.every(path => path.includes('/'))) {
+      return paths.map(path => path.slice(root.length + 1));
+    }
+    return paths;
+  }
+
+  private isIgnored(path: string): boolean {
+    const segments = path.split('/');
+    if (segments.slice(0, -1).some(segment => IGNORED_FOLDERS.has(segment))) {
+      return true;
+    }
+    const fileName = segments[segments.length - 1];
+    const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+    return fileName === '.DS_Store' || BINARY_EXTENSIONS.has(extension);
+  }
+
+  private decodeText(data: Uint8Array): string | null {
+    // UTF-16 text is full of NUL bytes, so its byte order mark has to be recognised before the binary check.
+    const encoding = data[0] === 0xff && data[1] === 0xfe ? 'utf-16le' : data[0] === 0xfe && data[1] === 0xff ? 'utf-16be' : null;
+    if (!encoding && data.subarray(0, 8000).includes(0)) return null;
+    try {
+      return encoding ? new TextDecoder(encoding, { fatal: true }).decode(data) : this.decoder.decode(data);
+    } catch {
+      return null;
+    }
+  }
+
+  private formatSize(bytes: number): string {
+    return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+  }
+}
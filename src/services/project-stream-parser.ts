@@ -0,0 +1,123 @@
+import { parseLenientJson } from './json-repair';
+import { FileChange } from '../models/project.model';
+
+export interface StreamedFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Incrementally scans streamed JSON text and emits every object of one top-level array as soon as
+ * it is complete, so a response that is cut off still yields the entries that arrived whole.
+ */
+abstract class JsonArrayStreamParser<T> {
+  protected readonly entries: T[] = [];
+
+  private text = '';
+  private position = 0;
+  private stack: string[] = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastString: string | null = null;
+  private currentKey: string | null = null;
+  private filesDepth = -1;
+  private objectStart = -1;
+
+  constructor(private readonly arrayKey: string) {}
+
+  /** Appends a chunk of streamed text and returns the entries completed by it. */
+  push(chunk: string): T[] {
+    this.text += chunk;
+    const completed: T[] = [];
+
+    for (; this.position < this.text.length; this.position++) {
+      const c = this.text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (c === '\\') {
+          this.escaped = true;
+        } else if (c === '"') {
+          this.inString = false;
+          if (this.stack.length === 1) {
+            this.lastString = this.text.slice(this.stringStart + 1, this.position);
+          }
+        }
+        continue;
+      }
+
+      switch (c) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case ':':
+          if (this.stack.length === 1) this.currentKey = this.lastString;
+          break;
+        case ',':
+          if (this.stack.length === 1) this.currentKey = null;
+          break;
+        case '{':
+          this.stack.push('{');
+          if (this.filesDepth > 0 && this.stack.length === this.filesDepth + 1) this.objectStart = this.position;
+          break;
+        case '[':
+          this.stack.push('[');
+          if (this.stack.length === 2 && this.currentKey === this.arrayKey) this.filesDepth = 2;
+          break;
+        case '}':
+          if (this.filesDepth > 0 && this.stack.length === this.filesDepth + 1 && this.objectStart >= 0) {
+            const entry = this.parseEntry(this.text.slice(this.objectStart, this.position + 1));
+            if (entry) {
+              this.entries.push(entry);
+              completed.push(entry);
+            }
+            this.objectStart = -1;
+          }
+          this.stack.pop();
+          break;
+        case ']':
+          if (this.stack.length === this.filesDepth) this.filesDepth = -1;
+          this.stack.pop();
+          break;
+      }
+    }
+    return completed;
+  }
+
+  protected abstract parseEntry(json: string): T | null;
+}
+
+/** Emits the entries of a project response's `files` array. */
+export class ProjectStreamParser extends JsonArrayStreamParser<StreamedFile> {
+  constructor() {
+    super('files');
+  }
+
+  get files(): StreamedFile[] {
+    return this.entries;
+  }
+
+  protected parseEntry(json: string): StreamedFile | null {
+    const file = parseLenientJson<Partial<StreamedFile>>(json);
+    return typeof file?.path === 'string' && typeof file?.content === 'string' && file.path ? { path: file.path, content: file.content } : null;
+  }
+}
+
+/** Emits the operations of a change set's `changes` array. */
+export class ChangeSetStreamParser extends JsonArrayStreamParser<FileChange> {
+  constructor() {
+    super('changes');
+  }
+
+  get changes(): FileChange[] {
+    return this.entries;
+  }
+
+  protected parseEntry(json: string): FileChange | null {
+    const change = parseLenientJson<Partial<FileChange>>(json);
+    return typeof change?.operation === 'string' && typeof change.path === 'string' && change.path ? change as FileChange : null;
+  }
+}
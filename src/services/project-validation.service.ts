@@ -0,0 +1,405 @@
+import { Injectable, inject } from '@angular/core';
+import { GeneratedProject } from '../models/project.model';
+import { Diagnostic } from '../models/diagnostic.model';
+import { DependencyService } from './dependency.service';
+import { SchemaImportService } from './schema-import.service';
+
+type Files = { [path: string]: string };
+
+interface ClassInfo {
+  name: string;
+  path: string;
+  index: number;
+  bases: string;
+  constructorParams: string[];
+}
+
+// Namespaces under these roots come with the .NET shared frameworks.
+const FRAMEWORK_NAMESPACE_ROOTS = ['System', 'Microsoft', 'Windows'];
+
+// Framework-looking namespaces that actually ship in NuGet packages; any package starting with one of `packages` provides them.
+const PACKAGE_NAMESPACES: { namespace: string; packages: string[] }[] = [
+  { namespace: 'Microsoft.EntityFrameworkCore', packages: ['Microsoft.EntityFrameworkCore', 'Npgsql.EntityFrameworkCore', 'Pomelo.EntityFrameworkCore', 'Microsoft.AspNetCore.Identity.EntityFrameworkCore'] },
+  { namespace: 'Microsoft.AspNetCore.Authentication.JwtBearer', packages: ['Microsoft.AspNetCore.Authentication.JwtBearer'] },
+  { namespace: 'Microsoft.AspNetCore.Identity.EntityFrameworkCore', packages: ['Microsoft.AspNetCore.Identity.EntityFrameworkCore'] },
+  { namespace: 'Microsoft.AspNetCore.SignalR.Client', packages: ['Microsoft.AspNetCore.SignalR.Client'] },
+  { namespace: 'Microsoft.IdentityModel', packages: ['Microsoft.IdentityModel', 'Microsoft.AspNetCore.Authentication.JwtBearer', 'System.IdentityModel.Tokens.Jwt'] },
+  { namespace: 'Microsoft.OpenApi', packages: ['Microsoft.OpenApi', 'Microsoft.AspNetCore.OpenApi', 'Swashbuckle.AspNetCore'] },
+  { namespace: 'System.IdentityModel.Tokens.Jwt', packages: ['System.IdentityModel.Tokens.Jwt', 'Microsoft.AspNetCore.Authentication.JwtBearer'] },
+];
+
+// Types that are registered or injected like application services but come from the framework or common packages.
+const FRAMEWORK_TYPES = new Set([
+  'IAuthorizationService', 'IAuthenticationService', 'IHostedService', 'BackgroundService', 'IEmailSender', 'TimeProvider',
+  'HttpClient', 'IHttpContextAccessor', 'HttpContextAccessor', 'IConnectionMultiplexer', 'ConnectionMultiplexer',
+]);
+
+// Generic wrappers and BCL types commonly used in a Razor `@model` directive.
+const RAZOR_MODEL_BUILTINS = new Set([
+  'IEnumerable', 'IList', 'List', 'ICollection', 'IReadOnlyList', 'IReadOnlyCollection', 'IQueryable', 'Dictionary', 'IDictionary',
+  'IReadOnlyDictionary', 'KeyValuePair', 'Tuple', 'ValueTuple', 'String', 'Int32', 'Int64', 'Decimal', 'Double', 'Boolean', 'DateTime',
+  'DateTimeOffset', 'DateOnly', 'TimeOnly', 'Guid', 'Nullable', 'System', 'Collections', 'Generic', 'PageModel', 'Exception',
+]);
+
+const DI_REGISTRATION = /\.(?:Add(?:Scoped|Transient|Singleton|HostedService|DbContext|DbContextFactory|PooledDbContextFactory|HttpClient)|TryAdd(?:Scoped|Transient|Singleton))\s*(?:<([^>()]+(?:<[^>]*>)?[^>()]*)>|\(\s*typeof\(\s*([\w.]+))/g;
+const PROJECT_TYPE_USAGE = /\.(?:MapHub|UseMiddleware|MapRazorComponents)\s*<\s*([\w.]+)\s*>/g;
+
+/**
+ * Lightweight, in-browser static analysis of a generated project. It does not compile anything;
+ * it catches the inconsistencies models most often produce, such as unregistered services,
+ * usings of namespaces that do not exist and views bound to missing models.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ProjectValidationService {
+  private dependencyService = inject(DependencyService);
+  private schemaImportService = inject(SchemaImportService);
+
+  validateProject(project: GeneratedProject): Diagnostic[] {
+    const files = project.files;
+    const code = this.stripAllComments(files);
+    const diagnostics: Diagnostic[] = [
+      ...this.checkProjectFiles(files, code),
+      ...this.checkPackages(project),
+      ...this.checkTargetSettings(project),
+      ...(project.schema ? this.schemaImportService.checkCoverage(project.schema, code) : []),
+    ];
+
+    const declaredTypes = this.collectDeclaredTypes(code);
+    const classes = this.collectClasses(code);
+    const registered = this.collectRegistrations(code, diagnostics, declaredTypes);
+    diagnostics.push(
+      ...this.checkNamespaces(files, code),
+      ...this.checkInjection(files, classes, registered, declaredTypes),
+      ...this.checkRazorModels(files, declaredTypes, registered),
+    );
+
+    const severityRank = { error: 0, warning: 1 };
+    return diagnostics.sort((a, b) => severityRank[a.severity] - severityRank[b.severity] || a.path.localeCompare(b.path) || (a.line ?? 0) - (b.line ?? 0));
+  }
+
+  /** Formats diagnostics as a request the code assistant can act on. */
+  describeForAssistant(diagnostics: Diagnostic[]): string {
+    const lines = diagnostics.map(d => `- [${d.severity}] ${d.path || 'project'}${d.line ? `:${d.line}` : ''}: ${d.message}`);
+    return `Fix these problems found by static analysis of the project:\n${lines.join('\n')}`;
+  }
+
+  private checkProjectFiles(files: Files, code: Files): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const projectFiles = Object.keys(files).filter(path => path.toLowerCase().endsWith('.csproj'));
+    if (projectFiles.length === 0 && Object.keys(code).length > 0) {
+      diagnostics.push({ severity: 'error', code: 'csproj-missing', message: 'The project has C# files but no .csproj file, so it cannot be built.', path: '' });
+    }
+
+    for (const path of projectFiles) {
+      const xml = files[path];
+      if (typeof DOMParser !== 'undefined') {
+        const doc = new DOMParser().parseFromString(xml, 'application/xml');
+        const parserError = doc.getElementsByTagName('parsererror')[0];
+        if (parserError) {
+          const detail = parserError.textContent?.trim().split('\n')[0] ?? '';
+          const line = Number(/line\s+(\d+)/i.exec(parserError.textContent ?? '')?.[1]) || undefined;
+          diagnostics.push({ severity: 'error', code: 'csproj-invalid', message: `The project file is not well-formed XML. ${detail}`.trim(), path, line });
+          continue;
+        }
+        if (doc.documentElement.nodeName !== 'Project') {
+          diagnostics.push({ severity: 'error', code: 'csproj-invalid', message: `The root element must be <Project>, not <${doc.documentElement.nodeName}>.`, path, line: 1 });
+          continue;
+        }
+      }
+      if (!/<Project\b[^>]*\bSdk\s*=/.test(xml) && !/<Import\b[^>]*\bSdk\s*=/.test(xml)) {
+        diagnostics.push({ severity: 'warning', code: 'csproj-sdk', message: 'The project does not specify an SDK (e.g. Sdk="Microsoft.NET.Sdk.Web").', path, line: 1 });
+      }
+      if (!/<TargetFrameworks?>\s*[^<\s]+\s*<\/TargetFrameworks?>/.test(xml)) {
+        diagnostics.push({ severity: 'error', code: 'csproj-target', message: 'The project does not declare a <TargetFramework>.', path, line: 1 });
+      }
+    }
+    return diagnostics;
+  }
+
+  /** Package problems from the dependency analysis; missing packages are reported by checkNamespaces instead. */
+  private checkPackages(project: GeneratedProject): Diagnostic[] {
+    return this.dependencyService.analyze(project).issues.filter(issue => issue.code !== 'package-missing');
+  }
+
+  /** Compares each .csproj with the target settings requested when the project was generated. */
+  private checkTargetSettings(project: GeneratedProject): Diagnostic[] {
+    const target = project.target;
+    if (!target) return [];
+    const diagnostics: Diagnostic[] = [];
+    // Properties set in Directory.Build.props apply to every project below it.
+    const props = Object.entries(project.files).filter(([path]) => /(^|\/)Directory\.Build\.props$/i.test(path)).map(([, xml]) => xml);
+    const property = (xml: string, name: string) => {
+      const pattern = new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`, 'i');
+      const own = pattern.exec(xml);
+      if (own) return { value: own[1], index: own.index };
+      const inherited = props.map(p => pattern.exec(p)).find(Boolean);
+      return inherited ? { value: inherited[1], index: -1 } : null;
+    };
+
+    for (const path of Object.keys(project.files).filter(p => p.toLowerCase().endsWith('.csproj'))) {
+      const xml = project.files[path];
+      const frameworks = property(xml, 'TargetFrameworks') ?? property(xml, 'TargetFramework');
+      if (frameworks) {
+        const monikers = frameworks.value.split(';').map(m => m.trim()).filter(Boolean);
+        // Platform-specific monikers such as net8.0-android still target the requested version.
+        const matches = monikers.some(m => m === target.targetFramework || m.startsWith(`${target.targetFramework}-`));
+        if (!matches) {
+          diagnostics.push({ severity: 'error', code: 'target-mismatch', message: `The project targets ${monikers.join(';')} but ${target.targetFramework} was requested.`, path, line: this.lineAt(xml, frameworks.index) });
+        }
+      }
+
+      const flags: [string, boolean][] = [['Nullable', target.nullable], ['ImplicitUsings', target.implicitUsings]];
+      for (const [name, enabled] of flags) {
+        const value = property(xml, name);
+        const actual = value?.value.toLowerCase() === 'enable' || value?.value.toLowerCase() === 'true';
+        if (actual !== enabled) {
+          diagnostics.push({ severity: 'warning', code: 'target-setting-mismatch', message: `<${name}> is ${actual ? 'enabled' : 'disabled'} but ${enabled ? 'enable' : 'disable'} was requested.`, path, line: this.lineAt(xml, value?.index ?? 0) });
+        }
+      }
+
+      const langVersion = property(xml, 'LangVersion');
+      if (target.langVersion !== 'default' && langVersion?.value.toLowerCase() !== target.langVersion.toLowerCase()) {
+        const found = langVersion ? `is ${langVersion.value}` : 'is not set';
+        diagnostics.push({ severity: 'warning', code: 'target-setting-mismatch', message: `<LangVersion> ${found} but ${target.langVersion} was requested.`, path, line: this.lineAt(xml, langVersion?.index ?? 0) });
+      }
+    }
+    return diagnostics;
+  }
+
+  private checkNamespaces(files: Files, code: Files): Diagnostic[] {
+    const declared = new Set<string>();
+    for (const content of Object.values(code)) {
+      for (const match of content.matchAll(/^\s*namespace\s+([\w.]+)/gm)) declared.add(match[1]);
+    }
+    const packages = Object.entries(files)
+      .filter(([path]) => path.toLowerCase().endsWith('.csproj'))
+      .flatMap(([, xml]) => this.dependencyService.parsePackageReferences(xml).map(ref => ref.name.toLowerCase()));
+
+    const diagnostics: Diagnostic[] = [];
+    const usingPattern = /^\s*(?:global\s+)?using\s+(?!static\b)(?!\w+\s*=)([\w.]+)\s*;/gm;
+    const razorUsingPattern = /^\s*@using\s+(?!static\b)(?!\w+\s*=)([\w.]+)\s*$/gm;
+    const sources: [string, string, RegExp][] = [
+      ...Object.entries(code).map(([path, content]): [string, string, RegExp] => [path, content, usingPattern]),
+      ...Object.entries(files)
+        .filter(([path]) => /\.(cshtml|razor)$/i.test(path))
+        .map(([path, content]): [string, string, RegExp] => [path, content, razorUsingPattern]),
+    ];
+
+    for (const [path, content, pattern] of sources) {
+      for (const match of content.matchAll(pattern)) {
+        const namespace = match[1];
+        const problem = this.checkNamespace(namespace, declared, packages);
+        if (problem) {
+          diagnostics.push({ severity: 'error', code: problem.code, message: problem.message, path, line: this.lineAt(content, match.index!) });
+        }
+      }
+    }
+    return diagnostics;
+  }
+
+  private checkNamespace(namespace: string, declared: Set<string>, packages: string[]): { code: string; message: string } | null {
+    if (declared.has(namespace) || [...declared].some(ns => ns.startsWith(namespace + '.'))) return null;
+
+    const providedBy = (prefixes: string[]) => packages.some(pkg => prefixes.some(prefix => pkg.startsWith(prefix.toLowerCase())));
+    const packaged = PACKAGE_NAMESPACES.find(entry => namespace === entry.namespace || namespace.startsWith(entry.namespace + '.'));
+    if (packaged) {
+      return providedBy(packaged.packages) ? null : {
+        code: 'package-missing',
+        message: `"using ${namespace}" needs the ${packaged.packages[0]} package, which the project does not reference.`,
+      };
+    }
+
+    const root = namespace.split('.')[0];
+    if (FRAMEWORK_NAMESPACE_ROOTS.includes(root)) return null;
+    if (packages.some(pkg => pkg.split('.')[0] === root.toLowerCase())) return null;
+    return {
+      code: 'unknown-namespace',
+      message: `Namespace "${namespace}" is not declared in the project and no referenced package provides it.`,
+    };
+  }
+
+  private collectDeclaredTypes(code: Files): Set<string> {
+    const declared = new Set<string>();
+    for (const content of Object.values(code)) {
+      for (const match of content.matchAll(/\b(?:class|interface|struct|enum|record(?:\s+(?:class|struct))?)\s+([A-Za-z_]\w*)/g)) {
+        declared.add(match[1]);
+      }
+    }
+    return declared;
+  }
+
+  private collectClasses(code: Files): ClassInfo[] {
+    const classes: ClassInfo[] = [];
+    for (const [path, content] of Object.entries(code)) {
+      for (const match of content.matchAll(/\b(?:class|record)\s+([A-Za-z_]\w*)(?:\s*<[^>{]*>)?\s*(?:\(([^)]*)\))?\s*(?::\s*([^{\n]+))?/g)) {
+        const name = match[1];
+        const params = match[2] !== undefined ? [match[2]] : [];
+        for (const ctor of content.matchAll(new RegExp(`\\b(?:public|internal|protected)\\s+${name}\\s*\\(([^)]*)\\)`, 'g'))) {
+          params.push(ctor[1]);
+        }
+        classes.push({
+          name,
+          path,
+          index: match.index!,
+          bases: match[3] ?? '',
+          constructorParams: params.flatMap(list => this.splitParameters(list)).map(param => this.parameterTypeName(param)).filter(Boolean),
+        });
+      }
+    }
+    return classes;
+  }
+
+  /** Returns every type registered with the DI container, reporting registrations of types that don't exist. */
+  private collectRegistrations(code: Files, diagnostics: Diagnostic[], declaredTypes: Set<string>): Set<string> {
+    const registered = new Set<string>();
+    for (const [path, content] of Object.entries(code)) {
+      const usages = [...content.matchAll(DI_REGISTRATION), ...content.matchAll(PROJECT_TYPE_USAGE)];
+      for (const match of usages) {
+        const typeList = match[1] ?? match[2] ?? '';
+        for (const type of this.splitParameters(typeList)) {
+          const name = this.simpleTypeName(type);
+          if (!name) continue;
+          registered.add(name);
+          if (!declaredTypes.has(name) && !FRAMEWORK_TYPES.has(name)) {
+            diagnostics.push({ severity: 'error', code: 'unknown-type', message: `"${name}" is referenced here but no class or interface with that name is declared in the project.`, path, line: this.lineAt(content, match.index!) });
+          }
+        }
+      }
+    }
+    return registered;
+  }
+
+  private checkInjection(files: Files, classes: ClassInfo[], registered: Set<string>, declaredTypes: Set<string>): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const isActivatedByFramework = (info: ClassInfo) =>
+      /Controller$/.test(info.name) || /\b(ControllerBase|Controller|PageModel|Hub|ViewComponent|BackgroundService)\b/.test(info.bases) || registered.has(info.name);
+
+    for (const info of classes.filter(isActivatedByFramework)) {
+      for (const type of info.constructorParams) {
+        if (FRAMEWORK_TYPES.has(type)) continue;
+        if (declaredTypes.has(type)) {
+          if (!registered.has(type)) {
+            diagnostics.push({ severity: 'error', code: 'unregistered-service', message: `${info.name} depends on ${type}, but ${type} is never registered with the dependency injection container (e.g. builder.Services.AddScoped<...>()).`, path: info.path, line: this.lineAt(files[info.path], info.index) });
+          }
+        } else if (/^I?[A-Z]\w*(Service|Repository)$/.test(type)) {
+          diagnostics.push({ severity: 'error', code: 'unknown-type', message: `${info.name} depends on ${type}, which is not declared anywhere in the project.`, path: info.path, line: this.lineAt(files[info.path], info.index) });
+        }
+      }
+    }
+    return diagnostics;
+  }
+
+  private checkRazorModels(files: Files, declaredTypes: Set<string>, registered: Set<string>): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const components = new Set(Object.keys(files).filter(path => path.endsWith('.razor')).map(path => path.split('/').pop()!.replace(/\.razor$/, '')));
+    const isKnown = (name: string) => declaredTypes.has(name) || components.has(name) || RAZOR_MODEL_BUILTINS.has(name);
+
+    for (const [path, content] of Object.entries(files)) {
+      if (!/\.(cshtml|razor)$/i.test(path)) continue;
+
+      for (const match of content.matchAll(/^\s*@model\s+(.+?)\s*$/gm)) {
+        const missing = [...match[1].matchAll(/[A-Za-z_][\w.]*/g)]
+          .map(name => name[0].split('.').pop()!)
+          .filter(name => /^[A-Z]/.test(name) && !isKnown(name));
+        for (const name of new Set(missing)) {
+          diagnostics.push({ severity: 'error', code: 'razor-model', message: `The view's @model refers to "${name}", which is not declared in the project.`, path, line: this.lineAt(content, match.index!) });
+        }
+      }
+
+      for (const match of content.matchAll(/^\s*@inject\s+([\w.<>, ]+?)\s+\w+\s*$/gm)) {
+        const name = this.simpleTypeName(match[1]);
+        if (name && declaredTypes.has(name) && !registered.has(name)) {
+          diagnostics.push({ severity: 'error', code: 'unregistered-service', message: `The view injects ${name}, but ${name} is never registered with the dependency injection container.`, path, line: this.lineAt(content, match.index!) });
+        }
+      }
+    }
+    return diagnostics;
+  }
+
+  /** Comment-free copies of the project's C# files, with line breaks preserved so offsets still map to lines. */
+  private stripAllComments(files: Files): Files {
+    const code: Files = {};
+    for (const [path, content] of Object.entries(files)) {
+      if (path.endsWith('.cs')) code[path] = this.stripComments(content);
+    }
+    return code;
+  }
+
+  private stripComments(source: string): string {
+    let result = '';
+    let i = 0;
+    const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+    while (i < source.length) {
+      const c = source[i];
+      const next = source[i + 1];
+      if (c === '/' && next === '/') {
+        const end = source.indexOf('\n', i);
+        const stop = end < 0 ? source.length : end;
+        result += blank(source.slice(i, stop));
+        i = stop;
+      } else if (c === '/' && next === '*') {
+        const end = source.indexOf('*/', i + 2);
+        const stop = end < 0 ? source.length : end + 2;
+        result += blank(source.slice(i, stop));
+        i = stop;
+      } else if (c === '"' || c === '\'') {
+        // Skip over string and char literals so "//" inside them is not treated as a comment.
+        const verbatim = source[i - 1] === '@' || (source[i - 1] === '$' && source[i - 2] === '@');
+        let j = i + 1;
+        while (j < source.length) {
+          if (!verbatim && source[j] === '\\') j += 2;
+          else if (source[j] === c && verbatim && source[j + 1] === c) j += 2;
+          else if (source[j] === c || (!verbatim && source[j] === '\n')) break;
+          else j++;
+        }
+        result += source.slice(i, j + 1);
+        i = j + 1;
+      } else {
+        result += c;
+        i++;
+      }
+    }
+    return result;
+  }
+
+  /** Splits a parameter or type-argument list on top-level commas. */
+  private splitParameters(list: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const c of list) {
+      if (c === '<' || c === '(' || c === '[') depth++;
+      else if (c === '>' || c === ')' || c === ']') depth--;
+      if (c === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+      } else {
+        current += c;
+      }
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+  }
+
+  private parameterTypeName(parameter: string): string {
+    const withoutAttributes = parameter.replace(/\[[^\]]*\]/g, '').replace(/=.*$/, '').replace(/\b(this|ref|out|in|params|scoped)\s+/g, '').trim();
+    const type = withoutAttributes.replace(/\s+[A-Za-z_]\w*$/, '');
+    return this.simpleTypeName(type);
+  }
+
+  /** `Foo.Bar.IRepository<Item>?` becomes `IRepository`. */
+  private simpleTypeName(type: string): string {
+    return type.trim().replace(/<.*$/s, '').replace(/[?\[\]\s]/g, '').split('.').pop() ?? '';
+  }
+
+  private lineAt(content: string, index: number): number | undefined {
+    if (index < 0) return undefined;
+    let line = 1;
+    for (let i = 0; i < index; i++) {
+      if (content.charCodeAt(i) === 10) line++;
+    }
+    return line;
+  }
+}
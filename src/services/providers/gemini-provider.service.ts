@@ -0,0 +1,65 @@
+import { Injectable } from '@angular/core';
+import { GenerateContentParameters, GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import { LlmJsonRequest, LlmProvider } from './llm-provider';
+import { ModelAuthError } from '../model-errors';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class GeminiProvider implements LlmProvider {
+  private ai: GoogleGenAI | null = null;
+
+  async generateJson(request: LlmJsonRequest): Promise<string> {
+    const response = await this.client().models.generateContent(this.toParameters(request));
+    this.reportUsage(request, response.usageMetadata);
+    return response.text ?? '';
+  }
+
+  async streamJson(request: LlmJsonRequest, onText: (chunk: string) => void): Promise<string> {
+    const stream = await this.client().models.generateContentStream(this.toParameters(request));
+    let text = '';
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of stream) {
+      const chunkText = chunk.text ?? '';
+      if (chunkText) {
+        text += chunkText;
+        onText(chunkText);
+      }
+      usage = chunk.usageMetadata ?? usage;
+    }
+    this.reportUsage(request, usage);
+    return text;
+  }
+
+  private reportUsage(request: LlmJsonRequest, usage: GenerateContentResponseUsageMetadata | undefined): void {
+    if (!usage?.promptTokenCount) return;
+    // Thinking tokens are billed as output.
+    request.onUsage?.({ promptTokens: usage.promptTokenCount, outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0) });
+  }
+
+  private toParameters(request: LlmJsonRequest): GenerateContentParameters {
+    return {
+      model: request.settings.model || 'gemini-2.5-flash',
+      contents: request.prompt,
+      config: {
+        temperature: request.settings.temperature,
+        responseMimeType: 'application/json',
+        responseJsonSchema: request.schema,
+        abortSignal: request.signal,
+      },
+    };
+  }
+
+  private client(): GoogleGenAI {
+    if (!this.ai) {
+      // IMPORTANT: The API key is injected via environment variables.
+      // Do not hardcode or expose it in the frontend.
+      const apiKey = process.env.API_KEY;
+      if (!apiKey) {
+        throw new ModelAuthError('API_KEY environment variable not set. Configure a Gemini API key or choose another provider in Settings.');
+      }
+      this.ai = new GoogleGenAI({ apiKey });
+    }
+    return this.ai;
+  }
+}
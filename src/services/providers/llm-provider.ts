@@ -0,0 +1,34 @@
+import { LlmSettings } from '../../models/settings.model';
+import { TokenUsage } from '../../models/usage.model';
+
+/** A JSON Schema (draft 2020-12 subset) describing the structured output the model must return. */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: { [name: string]: JsonSchema };
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface LlmJsonRequest {
+  /** What the call is for, so providers such as the mock can tailor their response. */
+  purpose: 'plan' | 'generate' | 'modify' | 'review';
+  prompt: string;
+  schema: JsonSchema;
+  settings: LlmSettings;
+  signal?: AbortSignal;
+  /** Called with the token counts the provider reports for the call, if it reports any. */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * A backend that can answer a prompt with JSON matching a schema. Project generation and
+ * modification are built on top of this single capability.
+ */
+export interface LlmProvider {
+  /** Resolves with the raw JSON text of the response; parsing and repair happen in the caller. */
+  generateJson(request: LlmJsonRequest): Promise<string>;
+  /** Streams the raw JSON text of the response, calling `onText` for each chunk, and resolves with the full text. */
+  streamJson(request: LlmJsonRequest, onText: (chunk: string) => void): Promise<string>;
+}
@@ -0,0 +1,212 @@
+import { Injectable } from '@angular/core';
+import { LlmJsonRequest, LlmProvider } from './llm-provider';
+
+const MOCK_LATENCY_MS = 600;
+const MOCK_CHUNK_SIZE = 160;
+const MOCK_CHUNK_DELAY_MS = 30;
+
+const CANNED_PROJECT = {
+  files: [
+    {
+      path: 'MockApi.csproj',
+      content: `<Project Sdk="Microsoft.NET.Sdk.Web">
+
+  <PropertyGroup>
+    <TargetFramework>net8.0</TargetFramework>
+    <Nullable>enable</Nullable>
+    <ImplicitUsings>enable</ImplicitUsings>
+  </PropertyGroup>
+
+  <ItemGroup>
+    <PackageReference Include="Swashbuckle.AspNetCore" Version="6.5.0" />
+  </ItemGroup>
+
+</Project>
+`,
+    },
+    {
+      path: 'Program.cs',
+      content: `using MockApi.Services;
+
+var builder = WebApplication.CreateBuilder(args);
+
+builder.Services.AddControllers();
+builder.Services.AddEndpointsApiExplorer();
+builder.Services.AddSwaggerGen();
+builder.Services.AddSingleton<ITodoService, TodoService>();
+
+var app = builder.Build();
+
+if (app.Environment.IsDevelopment())
+{
+    app.UseSwagger();
+    app.UseSwaggerUI();
+}
+
+app.MapControllers();
+app.Run();
+`,
+    },
+    {
+      path: 'Models/TodoItem.cs',
+      content: `namespace MockApi.Models;
+
+public class TodoItem
+{
+    public int Id { get; set; }
+    public string Title { get; set; } = string.Empty;
+    public bool IsComplete { get; set; }
+}
+`,
+    },
+    {
+      path: 'Services/TodoService.cs',
+      content: `using MockApi.Models;
+
+namespace MockApi.Services;
+
+public interface ITodoService
+{
+    IEnumerable<TodoItem> GetAll();
+    TodoItem Add(string title);
+}
+
+public class TodoService : ITodoService
+{
+    private readonly List<TodoItem> _items = new();
+
+    public IEnumerable<TodoItem> GetAll() => _items;
+
+    public TodoItem Add(string title)
+    {
+        var item = new TodoItem { Id = _items.Count + 1, Title = title };
+        _items.Add(item);
+        return item;
+    }
+}
+`,
+    },
+    {
+      path: 'Controllers/TodoController.cs',
+      content: `using Microsoft.AspNetCore.Mvc;
+using MockApi.Models;
+using MockApi.Services;
+
+namespace MockApi.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+public class TodoController : ControllerBase
+{
+    private readonly ITodoService _todoService;
+
+    public TodoController(ITodoService todoService)
+    {
+        _todoService = todoService;
+    }
+
+    [HttpGet]
+    public ActionResult<IEnumerable<TodoItem>> Get() => Ok(_todoService.GetAll());
+
+    [HttpPost]
+    public ActionResult<TodoItem> Post([FromBody] string title) => Ok(_todoService.Add(title));
+}
+`,
+    },
+    {
+      path: 'appsettings.json',
+      content: `{
+  "Logging": {
+    "LogLevel": {
+      "Default": "Information",
+      "Microsoft.AspNetCore": "Warning"
+    }
+  },
+  "AllowedHosts": "*"
+}
+`,
+    },
+  ],
+  dependencies: ['Swashbuckle.AspNetCore'],
+  explanation: 'Canned response from the mock provider: a minimal to-do Web API with a controller, service and model.',
+  build_commands: ['dotnet restore', 'dotnet build', 'dotnet run'],
+};
+
+const CANNED_PLAN = {
+  summary: 'A minimal to-do Web API: an in-memory TodoService behind a REST controller, with Swagger in development.',
+  layout: [
+    { path: 'MockApi.csproj', purpose: 'Web SDK project targeting net8.0 with Swashbuckle.', owner: 'coder' },
+    { path: 'Program.cs', purpose: 'Registers ITodoService/TodoService as a singleton, controllers and Swagger.', owner: 'coder' },
+    { path: 'Models/TodoItem.cs', purpose: 'MockApi.Models.TodoItem entity.', owner: 'database' },
+    { path: 'Services/TodoService.cs', purpose: 'MockApi.Services.ITodoService and TodoService with GetAll and Add.', owner: 'coder' },
+    { path: 'Controllers/TodoController.cs', purpose: 'REST endpoints for to-do items at api/todo.', owner: 'coder' },
+    { path: 'appsettings.json', purpose: 'Logging configuration.', owner: 'coder' },
+  ],
+  entities: [{ name: 'TodoItem', fields: ['int Id', 'string Title', 'bool IsComplete'] }],
+  endpoints: [
+    { method: 'GET', route: '/api/todo', description: 'List all items.' },
+    { method: 'POST', route: '/api/todo', description: 'Create an item from a title.' },
+  ],
+  pages: [],
+  dependencies: ['Swashbuckle.AspNetCore'],
+};
+
+/**
+ * Offline provider that returns canned responses, so the whole generate/modify/review flow can be
+ * exercised without network access or an API key.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MockProvider implements LlmProvider {
+  async generateJson(request: LlmJsonRequest): Promise<string> {
+    await this.delay(MOCK_LATENCY_MS, request.signal);
+    return JSON.stringify(this.buildResponse(request), null, 2);
+  }
+
+  async streamJson(request: LlmJsonRequest, onText: (chunk: string) => void): Promise<string> {
+    const text = await this.generateJson(request);
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+      await this.delay(MOCK_CHUNK_DELAY_MS, request.signal);
+      onText(text.slice(i, i + MOCK_CHUNK_SIZE));
+    }
+    return text;
+  }
+
+  private buildResponse(request: LlmJsonRequest): object {
+    if (request.purpose === 'plan') {
+      return CANNED_PLAN;
+    }
+    if (request.purpose === 'generate') {
+      return CANNED_PROJECT;
+    }
+    if (request.purpose === 'review') {
+      return { changes: [], explanation: 'Canned response from the mock provider: no inconsistencies found.' };
+    }
+
+    const timestamp = new Date();
+    return {
+      changes: [{
+        operation: 'create',
+        path: `Notes/MockChange-${timestamp.getTime()}.md`,
+        content: `# Mock change\n\nThis file was created by the mock provider at ${timestamp.toISOString()}.\n`,
+      }],
+      explanation: 'Canned response from the mock provider: added a note file.',
+    };
+  }
+
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(new DOMException('The request was cancelled.', 'AbortError'));
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('The request was cancelled.', 'AbortError'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,101 @@
+import { Injectable } from '@angular/core';
+import { LlmJsonRequest, LlmProvider } from './llm-provider';
+import { ModelApiError, ModelAuthError } from '../model-errors';
+
+/**
+ * Talks to any server implementing the OpenAI Chat Completions API (OpenAI, Azure OpenAI,
+ * vLLM, LM Studio, Ollama, llama.cpp server, ...). Useful for running a model locally.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OpenAiCompatibleProvider implements LlmProvider {
+  async generateJson(request: LlmJsonRequest): Promise<string> {
+    const response = await this.post(request, false);
+    const body = await response.json();
+    this.reportUsage(request, body?.usage);
+    const content: string | undefined = body?.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new ModelApiError('The model server returned an empty response.');
+    }
+    return content;
+  }
+
+  async streamJson(request: LlmJsonRequest, onText: (chunk: string) => void): Promise<string> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new ModelApiError('The model server did not return a stream.');
+    }
+
+    // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`.
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let text = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+        const event = JSON.parse(data);
+        const delta: string | undefined = event?.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+        // With include_usage the last event carries the counts and no choices.
+        this.reportUsage(request, event?.usage);
+      }
+    }
+    return text;
+  }
+
+  private reportUsage(request: LlmJsonRequest, usage: { prompt_tokens?: number; completion_tokens?: number } | null | undefined): void {
+    if (typeof usage?.prompt_tokens !== 'number') return;
+    request.onUsage?.({ promptTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens ?? 0 });
+  }
+
+  private async post(request: LlmJsonRequest, stream: boolean): Promise<Response> {
+    const { settings } = request;
+    if (!settings.baseUrl) {
+      throw new ModelApiError('No base URL configured for the OpenAI-compatible provider. Set one in Settings.');
+    }
+
+    const headers: { [name: string]: string } = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      headers['Authorization'] = `Bearer ${settings.apiKey}`;
+    }
+
+    const response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: settings.temperature,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        messages: [
+          { role: 'system', content: 'You are an expert .NET developer. Always answer with a single JSON object that matches the requested schema, without markdown fences.' },
+          { role: 'user', content: request.prompt },
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: `${request.purpose}_response`, schema: request.schema },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const message = `The model server responded with ${response.status} ${response.statusText}. ${detail}`.trim();
+      throw response.status === 401 || response.status === 403
+        ? new ModelAuthError(`${message} Check the API key in Settings.`)
+        : new ModelApiError(message, response.status);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,113 @@
+import { Injectable } from '@angular/core';
+import { LlmJsonRequest, LlmProvider } from './llm-provider';
+import { ModelApiError, ModelAuthError } from '../model-errors';
+import { TokenUsage } from '../../models/usage.model';
+
+type ProxyStreamEvent =
+  | { type: 'text'; text: string }
+  | ({ type: 'usage' } & TokenUsage)
+  | { type: 'done' }
+  | { type: 'error'; status?: number; message: string };
+
+/**
+ * Sends model calls through `server/model-proxy.js`, which holds the provider API key. The browser
+ * only knows the proxy URL and the user's access token (stored as the settings' API key).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ProxyProvider implements LlmProvider {
+  async generateJson(request: LlmJsonRequest): Promise<string> {
+    const response = await this.post(request, false);
+    const body = await response.json();
+    if (typeof body?.text !== 'string' || !body.text) {
+      throw new ModelApiError('The model proxy returned an empty response.');
+    }
+    if (body.usage) request.onUsage?.(body.usage);
+    return body.text;
+  }
+
+  async streamJson(request: LlmJsonRequest, onText: (chunk: string) => void): Promise<string> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new ModelApiError('The model proxy did not return a stream.');
+    }
+
+    // Newline-delimited JSON: text chunks, the token counts if the provider reported them, then a single done or error event.
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let text = '';
+    let finished = false;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line) as ProxyStreamEvent;
+        if (event.type === 'text') {
+          text += event.text;
+          onText(event.text);
+        } else if (event.type === 'usage') {
+          request.onUsage?.({ promptTokens: event.promptTokens, outputTokens: event.outputTokens });
+        } else if (event.type === 'error') {
+          throw new ModelApiError(`The model proxy reported an error: ${event.message}`, event.status);
+        } else {
+          finished = true;
+        }
+      }
+    }
+    if (!finished) {
+      throw new ModelApiError('The connection to the model proxy closed before the response was complete.');
+    }
+    return text;
+  }
+
+  private async post(request: LlmJsonRequest, stream: boolean): Promise<Response> {
+    const { settings } = request;
+    if (!settings.baseUrl) {
+      throw new ModelApiError('No model proxy URL configured. Set one in Settings.');
+    }
+
+    const headers: { [name: string]: string } = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      headers['Authorization'] = `Bearer ${settings.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/v1/generate`, {
+        method: 'POST',
+        headers,
+        signal: request.signal,
+        body: JSON.stringify({
+          purpose: request.purpose,
+          prompt: request.prompt,
+          schema: request.schema,
+          model: settings.model,
+          temperature: settings.temperature,
+          stream,
+        }),
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') throw error;
+      throw new ModelApiError(`Could not reach the model proxy at ${settings.baseUrl}. Start it with "npm run model-proxy" or check the URL in Settings.`);
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      const detail: string = body?.error ?? response.statusText;
+      if (response.status === 401) {
+        throw new ModelAuthError(`The model proxy rejected the access token: ${detail} Check the access token in Settings.`);
+      }
+      if (response.status === 429) {
+        const retryAfter = response.headers.get('Retry-After');
+        throw new ModelApiError(`The model proxy is rate limiting your requests.${retryAfter ? ` Try again in ${retryAfter} seconds.` : ''}`, 429);
+      }
+      throw new ModelApiError(`The model proxy responded with ${response.status}: ${detail}`, response.status);
+    }
+    return response;
+  }
+}
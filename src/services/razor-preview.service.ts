@@ -0,0 +1,919 @@
+import { Injectable } from '@angular/core';
+import { GeneratedProject } from '../models/project.model';
+import { ModelClass, SampleObject, collectModelClasses, createSample, humanize } from './preview-sample-data';
+
+/** A self-contained HTML document for the sandboxed preview, with notes on what could not be rendered. */
+export interface PreviewDocument {
+  html: string;
+  notes: string[];
+}
+
+type Files = { [path: string]: string };
+type Scope = { [name: string]: unknown };
+
+/** Raw HTML returned by a helper, as opposed to a value that must be encoded. */
+class RawHtml {
+  constructor(readonly html: string) {}
+}
+
+const CSP = "default-src 'none'; style-src 'unsafe-inline' https:; script-src 'unsafe-inline' https:; img-src data: https:; font-src data: https:; media-src data: https:";
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+
+const DIRECTIVES = new Set(['model', 'inject', 'page', 'addTagHelper', 'removeTagHelper', 'tagHelperPrefix', 'namespace', 'inherits', 'implements', 'layout', 'attribute', 'rendermode', 'preservewhitespace', 'typeparam']);
+
+// Client libraries the ASP.NET templates restore into wwwroot/lib with LibMan; generated projects rarely include them.
+const CDN_LIBRARIES: [RegExp, string][] = [
+  [/^lib\/bootstrap\/dist\/(.+)$/, 'https://cdn.jsdelivr.net/npm/bootstrap@5.3.3/dist/$1'],
+  [/^lib\/jquery\/dist\/(.+)$/, 'https://cdn.jsdelivr.net/npm/jquery@3.7.1/dist/$1'],
+  [/^lib\/jquery-validation\/dist\/(.+)$/, 'https://cdn.jsdelivr.net/npm/jquery-validation@1.21.0/dist/$1'],
+  [/^lib\/jquery-validation-unobtrusive\/dist\/(.+)$/, 'https://cdn.jsdelivr.net/npm/jquery-validation-unobtrusive@4.0.0/dist/$1'],
+];
+
+const MAX_PARTIAL_DEPTH = 6;
+const MAX_LOOP_ITERATIONS = 10;
+
+/**
+ * Builds a standalone preview document from a project's HTML or Razor view. Razor is only
+ * approximated: layouts, _ViewStart, sections and partials are applied, model loops run over sample
+ * data built from the project's C# classes, and wwwroot CSS/JS is inlined.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RazorPreviewService {
+  isPreviewable(path: string): boolean {
+    const name = path.split('/').pop() ?? '';
+    if (/(^|\/)(bin|obj)\//.test(path)) return false;
+    return /\.html?$/i.test(name) || (name.endsWith('.cshtml') && name !== '_ViewStart.cshtml' && name !== '_ViewImports.cshtml');
+  }
+
+  render(project: GeneratedProject, path: string): PreviewDocument {
+    const renderer = new RazorRenderer(project.files);
+    const html = path.endsWith('.cshtml') ? renderer.renderView(path) : project.files[path] ?? '';
+    return { html: renderer.finishDocument(html, dirOf(path)), notes: [...renderer.notes] };
+  }
+}
+
+class RazorRenderer {
+  readonly notes = new Set<string>();
+  private classes: Map<string, ModelClass>;
+  private viewData: Scope = {};
+  private sections: { [name: string]: string } = {};
+  private layout: string | null = null;
+  private body = '';
+  private partialDepth = 0;
+
+  constructor(private files: Files) {
+    this.classes = collectModelClasses(files);
+  }
+
+  renderView(path: string): string {
+    const dir = dirOf(path);
+    const isPartialOrLayout = (path.split('/').pop() ?? '').startsWith('_');
+    if (!isPartialOrLayout) {
+      // Every _ViewStart from the root down applies; the closest one runs last.
+      const viewStarts = ancestors(dir).reverse().map(d => joinPath(d, '_ViewStart.cshtml')).filter(p => p in this.files);
+      for (const viewStart of viewStarts) this.renderMarkup(this.files[viewStart], this.createScope());
+    }
+
+    let html = this.renderMarkup(this.files[path], this.createScope());
+    let layoutDir = dir;
+    for (let depth = 0; this.layout && depth < 4; depth++) {
+      const layoutPath = this.resolveView(this.layout, layoutDir);
+      if (!layoutPath) {
+        this.notes.add(`Layout "${this.layout}" was not found.`);
+        break;
+      }
+      this.layout = null;
+      this.body = html;
+      html = this.renderMarkup(this.files[layoutPath], this.createScope());
+      layoutDir = dirOf(layoutPath);
+    }
+    return html;
+  }
+
+  /** Applies tag helpers, inlines local assets and wraps the result in a document with a strict CSP. */
+  finishDocument(html: string, baseDir: string): string {
+    let result = this.applyTagHelpers(html);
+    result = this.inlineAssets(result, baseDir);
+    const head = `<meta charset="utf-8"><meta http-equiv="Content-Security-Policy" content="${CSP}"><meta name="viewport" content="width=device-width, initial-scale=1">`;
+    if (/<head[^>]*>/i.test(result)) return result.replace(/<head[^>]*>/i, match => match + head);
+    if (/<html[^>]*>/i.test(result)) return result.replace(/<html[^>]*>/i, match => `${match}<head>${head}</head>`);
+    return `<!DOCTYPE html><html><head>${head}</head><body>${result}</body></html>`;
+  }
+
+  // --- Razor ---
+
+  private createScope(): Scope {
+    return {
+      ViewData: this.viewData,
+      ViewBag: this.viewData,
+      TempData: {},
+      User: { Identity: { IsAuthenticated: false, Name: 'user@example.com' } },
+      DateTime: { Now: new Date(), UtcNow: new Date(), Today: new Date() },
+    };
+  }
+
+  /** Renders markup, where `@` switches to code. */
+  private renderMarkup(text: string, scope: Scope): string {
+    let out = '';
+    let i = 0;
+    while (i < text.length) {
+      const c = text[i];
+      if (c === '@') {
+        // "name@example.com" stays literal, as in Razor.
+        if (/\w/.test(text[i - 1] ?? '') && /\w/.test(text[i + 1] ?? '')) {
+          out += c;
+          i++;
+          continue;
+        }
+        const result = this.transition(text, i + 1, scope, false);
+        out += result.out;
+        i = result.end;
+      } else if (c === '<' && /^<partial\s/i.test(text.slice(i, i + 9))) {
+        const match = /^<partial\s+([^>]*?)\/?>(?:\s*<\/partial>)?/i.exec(text.slice(i));
+        if (!match) {
+          out += c;
+          i++;
+          continue;
+        }
+        const attributes = parseAttributes(match[1]);
+        const model = attributes['model'] ?? attributes['for'];
+        out += this.renderPartial(attributes['name'] ?? '', model === undefined ? undefined : this.evaluate(model, scope), scope);
+        i += match[0].length;
+      } else {
+        out += c;
+        i++;
+      }
+    }
+    return out;
+  }
+
+  /** Renders the body of a code block: statements run, markup elements and `@:` lines are output. */
+  private renderCode(text: string, scope: Scope): string {
+    let out = '';
+    let i = 0;
+    while (i < text.length) {
+      while (i < text.length && /\s/.test(text[i])) i++;
+      if (i >= text.length) break;
+      const rest = text.slice(i);
+
+      if (rest.startsWith('@:')) {
+        const end = text.indexOf('\n', i);
+        out += this.renderMarkup(text.slice(i + 2, end < 0 ? text.length : end), scope) + '\n';
+        i = end < 0 ? text.length : end + 1;
+      } else if (/^<text>/i.test(rest)) {
+        const end = text.indexOf('</text>', i);
+        out += this.renderMarkup(text.slice(i + 6, end < 0 ? text.length : end), scope);
+        i = end < 0 ? text.length : end + 7;
+      } else if (/^<[a-zA-Z!/]/.test(rest)) {
+        const end = elementEnd(text, i);
+        out += this.renderMarkup(text.slice(i, end), scope);
+        i = end;
+      } else if (rest.startsWith('@*')) {
+        const end = text.indexOf('*@', i + 2);
+        i = end < 0 ? text.length : end + 2;
+      } else if (rest.startsWith('@')) {
+        const result = this.transition(text, i + 1, scope, true);
+        out += result.out;
+        i = result.end;
+      } else if (rest.startsWith('{')) {
+        const block = balancedAt(text, i);
+        out += this.renderCode(block, Object.create(scope));
+        i += block.length + 2;
+      } else if (/^(if|foreach|for|while|switch|using|lock|try|do)\b/.test(rest)) {
+        const result = this.transition(text, i, scope, true);
+        out += result.out;
+        i = result.end;
+      } else if (rest.startsWith('//')) {
+        const end = text.indexOf('\n', i);
+        i = end < 0 ? text.length : end + 1;
+      } else {
+        const end = statementEnd(text, i);
+        out += this.runStatement(text.slice(i, end).replace(/;$/, '').trim(), scope);
+        i = end;
+      }
+    }
+    return out;
+  }
+
+  /** Handles what follows an `@` (or a statement keyword inside code); returns the output and where parsing resumes. */
+  private transition(text: string, start: number, scope: Scope, inCode: boolean): { out: string; end: number } {
+    const rest = text.slice(start);
+    if (rest.startsWith('@')) return { out: '@', end: start + 1 };
+    if (rest.startsWith('*')) {
+      const end = text.indexOf('*@', start);
+      return { out: '', end: end < 0 ? text.length : end + 2 };
+    }
+    if (rest.startsWith('{')) {
+      const block = balancedAt(text, start);
+      return { out: this.renderCode(block, scope), end: start + block.length + 2 };
+    }
+    if (rest.startsWith('(')) {
+      const inner = balancedAt(text, start);
+      return { out: this.output(this.evaluateExpression(inner, scope)), end: start + inner.length + 2 };
+    }
+
+    const keyword = /^([A-Za-z_]\w*)/.exec(rest)?.[1] ?? '';
+    if (DIRECTIVES.has(keyword) || (keyword === 'using' && !/^using\s*\(/.test(rest))) {
+      const end = text.indexOf('\n', start);
+      const line = text.slice(start, end < 0 ? text.length : end);
+      const modelType = /^model\s+(.+?)\s*;?\s*$/.exec(line)?.[1];
+      if (modelType && !scope['__modelFixed']) {
+        scope['Model'] = createSample(modelType, this.classes);
+      }
+      return { out: '', end: end < 0 ? text.length : end + 1 };
+    }
+
+    switch (keyword) {
+      case 'functions':
+      case 'code': {
+        const open = text.indexOf('{', start);
+        return { out: '', end: open < 0 ? text.length : open + balancedAt(text, open).length + 2 };
+      }
+      case 'section': {
+        const name = /^section\s+(\w+)/.exec(rest)?.[1] ?? '';
+        const open = text.indexOf('{', start);
+        if (open < 0) return { out: '', end: text.length };
+        const body = balancedAt(text, open);
+        this.sections[name] = this.renderMarkup(body, scope);
+        return { out: '', end: open + body.length + 2 };
+      }
+      case 'if': return this.renderIf(text, start, scope);
+      case 'foreach': return this.renderForeach(text, start, scope);
+      case 'for': return this.renderFor(text, start, scope);
+      case 'using':
+      case 'while':
+      case 'lock':
+      case 'do':
+      case 'try':
+      case 'switch':
+        return this.renderBlockStatement(keyword, text, start, scope);
+    }
+
+    if (!keyword) return { out: inCode ? '' : '@', end: start };
+
+    // Implicit expression: identifiers joined by "." or "?.", with balanced (...) and [...] parts.
+    let end = start;
+    const awaitPrefix = /^await\s+/.exec(rest);
+    if (awaitPrefix) end += awaitPrefix[0].length;
+    end += /^[A-Za-z_]\w*/.exec(text.slice(end))?.[0].length ?? 0;
+    while (end < text.length) {
+      const next = text.slice(end);
+      const member = /^\??\.[A-Za-z_]\w*/.exec(next);
+      if (member) end += member[0].length;
+      else if (next[0] === '(' || next[0] === '[') end += balancedAt(text, end).length + 2;
+      else break;
+    }
+    const expression = text.slice(start, end);
+    return { out: this.output(this.evaluateExpression(expression, scope)), end: inCode && text[end] === ';' ? end + 1 : end };
+  }
+
+  private renderIf(text: string, start: number, scope: Scope): { out: string; end: number } {
+    let position = start;
+    let chosen: string | null = null;
+    let first = true;
+    while (true) {
+      const rest = text.slice(position);
+      const head = first ? /^if\s*/.exec(rest) : /^\s*else\s+if\s*/.exec(rest) ?? /^\s*else\s*(?=\{)/.exec(rest);
+      if (!head) break;
+      const isElse = !first && !/if\s*$/.test(head[0]);
+      position += head[0].length;
+      let condition = '';
+      if (!isElse && text[position] === '(') {
+        condition = balancedAt(text, position);
+        position += condition.length + 2;
+      }
+      while (/\s/.test(text[position] ?? '')) position++;
+      if (text[position] !== '{') break;
+      const body = balancedAt(text, position);
+      position += body.length + 2;
+      if (chosen === null && (isElse || this.evaluateCondition(condition, scope))) chosen = body;
+      first = false;
+      if (isElse) break;
+    }
+    return { out: chosen === null ? '' : this.renderCode(chosen, Object.create(scope)), end: position };
+  }
+
+  private renderForeach(text: string, start: number, scope: Scope): { out: string; end: number } {
+    const open = text.indexOf('(', start);
+    const header = balancedAt(text, open);
+    let position = open + header.length + 2;
+    while (/\s/.test(text[position] ?? '')) position++;
+    const body = text[position] === '{' ? balancedAt(text, position) : '';
+    const end = position + body.length + 2;
+
+    const match = /^\s*(?:[\w<>,.?[\]\s]+?\s+)?(\w+|\([^)]*\))\s+in\s+([\s\S]+)$/.exec(header);
+    if (!match) return { out: '', end };
+    const items = this.evaluate(match[2], scope);
+    if (!Array.isArray(items)) {
+      if (items === undefined) this.notes.add(`Could not find sample data for "foreach (${header.trim()})".`);
+      return { out: '', end };
+    }
+    let out = '';
+    for (const item of items.slice(0, MAX_LOOP_ITERATIONS)) {
+      const child = Object.create(scope) as Scope;
+      const tuple = /^\(([^)]*)\)$/.exec(match[1]);
+      if (tuple) {
+        // Deconstruction binds the sample object's members in order.
+        const values = item && typeof item === 'object' ? Object.entries(item).filter(([k]) => k !== '__type').map(([, v]) => v) : [];
+        tuple[1].split(',').forEach((part, index) => { child[part.trim().split(/\s+/).pop()!] = values[index]; });
+      } else {
+        child[match[1]] = item;
+      }
+      out += this.renderCode(body, child);
+    }
+    return { out, end };
+  }
+
+  private renderFor(text: string, start: number, scope: Scope): { out: string; end: number } {
+    const open = text.indexOf('(', start);
+    const header = balancedAt(text, open);
+    let position = open + header.length + 2;
+    while (/\s/.test(text[position] ?? '')) position++;
+    const body = text[position] === '{' ? balancedAt(text, position) : '';
+    const end = position + body.length + 2;
+
+    const [init = '', condition = ''] = header.split(';');
+    const variable = /(\w+)\s*=/.exec(init)?.[1] ?? 'i';
+    const from = Number(/=\s*(\d+)/.exec(init)?.[1] ?? 0);
+    const bound = /<=?\s*(.+)$/.exec(condition);
+    let count = 3;
+    if (bound) {
+      const limit = this.evaluate(bound[1], scope);
+      if (typeof limit === 'number') count = limit - from + (bound[0].startsWith('<=') ? 1 : 0);
+    }
+    let out = '';
+    for (let index = 0; index < Math.min(Math.max(count, 0), MAX_LOOP_ITERATIONS); index++) {
+      const child = Object.create(scope) as Scope;
+      child[variable] = from + index;
+      out += this.renderCode(body, child);
+    }
+    return { out, end };
+  }
+
+  /** using/while/lock/do/try/switch: the first block renders once; catch/finally and switch bodies are skipped. */
+  private renderBlockStatement(keyword: string, text: string, start: number, scope: Scope): { out: string; end: number } {
+    let position = start + keyword.length;
+    while (/\s/.test(text[position] ?? '')) position++;
+    let header = '';
+    if (text[position] === '(') {
+      header = balancedAt(text, position);
+      position += header.length + 2;
+    }
+    while (/\s/.test(text[position] ?? '')) position++;
+    const body = text[position] === '{' ? balancedAt(text, position) : '';
+    position += body.length + 2;
+
+    // Trailing clauses: catch (...) { }, finally { }, and do { } while (...);
+    while (true) {
+      const clause = /^\s*(catch|finally|while)\s*/.exec(text.slice(position));
+      if (!clause || (clause[1] === 'while' && keyword !== 'do')) break;
+      position += clause[0].length;
+      if (text[position] === '(') position += balancedAt(text, position).length + 2;
+      while (/\s/.test(text[position] ?? '')) position++;
+      if (text[position] === '{') position += balancedAt(text, position).length + 2;
+      else if (text[position] === ';') position++;
+    }
+
+    if (keyword === 'switch') {
+      this.notes.add('@switch blocks are not rendered.');
+      return { out: '', end: position };
+    }
+    const content = this.renderCode(body, Object.create(scope));
+    if (keyword === 'using' && /BeginForm/.test(header)) return { out: `<form>${content}</form>`, end: position };
+    return { out: content, end: position };
+  }
+
+  /** Runs a C# statement inside a code block; only assignments and output-producing helpers matter. */
+  private runStatement(statement: string, scope: Scope): string {
+    if (!statement) return '';
+    const assignment = /^(?:(?:var|string|int|decimal|double|bool|[\w<>,.?[\]]+)\s+)?([\w.]+(?:\["[^"]*"\])?)\s*=(?!=)\s*([\s\S]+)$/.exec(statement);
+    if (assignment) {
+      const [, target, expression] = assignment;
+      const value = this.evaluate(expression, scope);
+      const key = /^(?:ViewData\["([^"]*)"\]|ViewBag\.(\w+))$/.exec(target);
+      if (key) this.viewData[key[1] ?? key[2]] = value;
+      else if (target === 'Layout') this.layout = typeof value === 'string' ? value : null;
+      else if (!target.includes('.')) scope[target] = value;
+      return '';
+    }
+    if (/^(?:await\s+)?Html\.RenderPartial(?:Async)?\(/.test(statement)) return this.output(this.evaluateExpression(statement, scope));
+    return '';
+  }
+
+  private renderPartial(name: string, model: unknown, scope: Scope): string {
+    const path = this.resolveView(name, '');
+    if (!path) {
+      this.notes.add(`Partial view "${name}" was not found.`);
+      return '';
+    }
+    if (this.partialDepth >= MAX_PARTIAL_DEPTH) return '';
+    const child = this.createScope();
+    child['Model'] = model === undefined ? scope['Model'] : model;
+    child['__modelFixed'] = model !== undefined;
+    this.partialDepth++;
+    try {
+      return this.renderMarkup(this.files[path], child);
+    } finally {
+      this.partialDepth--;
+    }
+  }
+
+  /** Finds a view or layout by name the way MVC and Razor Pages search: nearby, then in Shared folders. */
+  private resolveView(name: string, fromDir: string): string | null {
+    const cleaned = name.replace(/^~?\//, '');
+    const fileName = cleaned.endsWith('.cshtml') ? cleaned : `${cleaned}.cshtml`;
+    const paths = Object.keys(this.files);
+    if (fileName.includes('/')) {
+      return paths.find(p => p === fileName || p.endsWith(`/${fileName}`)) ?? null;
+    }
+    for (const dir of ancestors(fromDir)) {
+      for (const candidate of [joinPath(dir, fileName), joinPath(dir, `Shared/${fileName}`)]) {
+        if (candidate in this.files) return candidate;
+      }
+    }
+    const matches = paths.filter(p => p === fileName || p.endsWith(`/${fileName}`));
+    return matches.sort((a, b) => (a.includes('/Shared/') ? 0 : 1) - (b.includes('/Shared/') ? 0 : 1) || a.length - b.length)[0] ?? null;
+  }
+
+  // --- Expressions ---
+
+  /** Evaluates an expression that may be a Razor/MVC helper call. */
+  private evaluateExpression(expression: string, scope: Scope): unknown {
+    const expr = expression.trim().replace(/^await\s+/, '');
+    const call = /^(Html|Url|Component)\.(\w+)(?:<[^>]*>)?\(([\s\S]*)\)$/.exec(expr) ?? /^(RenderBody|RenderSection|RenderSectionAsync)\(([\s\S]*)\)$/.exec(expr);
+    if (!call) return this.evaluate(expr, scope);
+
+    const [helper, args] = call.length === 4 ? [`${call[1]}.${call[2]}`, splitArguments(call[3])] : [call[1], splitArguments(call[2])];
+    const lambdaMember = (arg: string | undefined) => /=>\s*[\w.]*?(\w+)\s*$/.exec(arg ?? '')?.[1] ?? '';
+    switch (helper) {
+      case 'RenderBody': return new RawHtml(this.body);
+      case 'RenderSection':
+      case 'RenderSectionAsync': return new RawHtml(this.sections[String(this.evaluate(args[0], scope))] ?? '');
+      case 'Html.Partial':
+      case 'Html.PartialAsync':
+      case 'Html.RenderPartial':
+      case 'Html.RenderPartialAsync':
+        return new RawHtml(this.renderPartial(String(this.evaluate(args[0], scope)), args[1] === undefined ? undefined : this.evaluate(args[1], scope), scope));
+      case 'Html.Raw': return new RawHtml(formatValue(this.evaluate(args[0], scope)));
+      case 'Html.DisplayNameFor':
+      case 'Html.NameFor': return humanize(lambdaMember(args[0]));
+      case 'Html.DisplayFor':
+      case 'Html.ValueFor': return this.evaluateLambda(args[0], scope['Model'], scope);
+      case 'Html.LabelFor': return new RawHtml(`<label>${encode(humanize(lambdaMember(args[0])))}</label>`);
+      case 'Html.EditorFor':
+      case 'Html.TextBoxFor':
+      case 'Html.TextAreaFor': {
+        const name = lambdaMember(args[0]);
+        return new RawHtml(`<input name="${encode(name)}" value="${encode(formatValue(this.evaluateLambda(args[0], scope['Model'], scope)))}">`);
+      }
+      case 'Html.ActionLink': return new RawHtml(`<a href="#">${encode(formatValue(this.evaluate(args[0], scope)))}</a>`);
+      case 'Url.Content': return this.evaluate(args[0], scope);
+      case 'Url.Action':
+      case 'Url.Page':
+      case 'Url.RouteUrl': return '#';
+      case 'Component.InvokeAsync':
+        this.notes.add(`View component ${formatValue(this.evaluate(args[0], scope))} is not rendered.`);
+        return '';
+      default: return '';
+    }
+  }
+
+  private evaluateLambda(lambda: string | undefined, argument: unknown, scope: Scope): unknown {
+    const match = /^\s*\(?\s*(\w+)\s*\)?\s*=>\s*([\s\S]+)$/.exec(lambda ?? '');
+    if (!match) return undefined;
+    const child = Object.create(scope) as Scope;
+    child[match[1]] = argument;
+    return this.evaluate(match[2], child);
+  }
+
+  /** Evaluates a small subset of C#: literals, member access, common LINQ/string calls, ??, ?: and comparisons. */
+  private evaluate(expression: string, scope: Scope): unknown {
+    let expr = expression.trim();
+    if (!expr) return undefined;
+    while (expr.startsWith('(') && balancedAt(expr, 0).length === expr.length - 2) expr = expr.slice(1, -1).trim();
+
+    const ternary = splitTernary(expr);
+    if (ternary) return this.evaluateCondition(ternary[0], scope) ? this.evaluate(ternary[1], scope) : this.evaluate(ternary[2], scope);
+    const coalesce = splitTopLevel(expr, '??');
+    if (coalesce.length > 1) return coalesce.map(part => this.evaluate(part, scope)).find(value => value !== null && value !== undefined);
+    if (/(\|\||&&|[=!<>]=|[<>](?![^(]*\)))/.test(expr) && splitComparison(expr)) return this.evaluateCondition(expr, scope);
+    const sum = splitTopLevel(expr, '+');
+    if (sum.length > 1) {
+      const values = sum.map(part => this.evaluate(part, scope));
+      return values.every(v => typeof v === 'number') ? (values as number[]).reduce((a, b) => a + b, 0) : values.map(value => formatValue(value)).join('');
+    }
+
+    if (expr.startsWith('!')) return !this.isTruthy(this.evaluate(expr.slice(1), scope));
+    if (/^\$@?"|^@?\$"/.test(expr)) {
+      return expr.replace(/^[$@]+"|"$/g, '').replace(/\{([^{}:]+)(?::[^{}]*)?\}/g, (_m, inner: string) => formatValue(this.evaluate(inner, scope)));
+    }
+    if (/^@?"(?:[^"\\]|\\.)*"$/.test(expr)) return expr.replace(/^@/, '').slice(1, -1).replace(/\\(.)/g, '$1');
+    if (/^'.'$/.test(expr)) return expr[1];
+    if (/^-?\d+(\.\d+)?[mMdDfFlL]?$/.test(expr)) return Number(expr.replace(/[mMdDfFlL]$/, ''));
+    if (expr === 'true' || expr === 'false') return expr === 'true';
+    if (expr === 'null' || expr === 'default' || expr === 'default!') return null;
+    if (/^new\b/.test(expr)) return undefined;
+
+    // Member chain.
+    const head = /^[A-Za-z_]\w*/.exec(expr);
+    if (!head) return undefined;
+    let value: unknown = head[0] in scope ? scope[head[0]] : undefined;
+    if (value === undefined) return undefined;
+    let position = head[0].length;
+    while (position < expr.length) {
+      const rest = expr.slice(position);
+      const member = /^\s*(\?)?\.\s*([A-Za-z_]\w*)(?:<[^>]*>)?/.exec(rest);
+      if (member) {
+        position += member[0].length;
+        let args: string[] | undefined;
+        if (expr[position] === '(') {
+          const inner = balancedAt(expr, position);
+          args = splitArguments(inner);
+          position += inner.length + 2;
+        }
+        if (member[1] && (value === null || value === undefined)) return null;
+        value = this.access(value, member[2], args, scope);
+      } else if (rest.startsWith('[')) {
+        const inner = balancedAt(expr, position);
+        position += inner.length + 2;
+        const key = this.evaluate(inner, scope);
+        value = Array.isArray(value) ? value[Number(key)] : value && typeof value === 'object' ? (value as Scope)[String(key)] : undefined;
+      } else if (rest.startsWith('!')) {
+        position++;
+      } else {
+        return undefined;
+      }
+      if (value === undefined) return undefined;
+    }
+    return value;
+  }
+
+  private access(target: unknown, member: string, args: string[] | undefined, scope: Scope): unknown {
+    const list = Array.isArray(target) ? target : null;
+    const lambda = (fn: (item: unknown) => unknown) => list?.map(item => fn(item));
+    const argument = (index: number) => this.evaluate(args?.[index] ?? '', scope);
+
+    if (args !== undefined) {
+      switch (member) {
+        case 'ToString': return formatValue(target, String(argument(0) ?? ''));
+        case 'ToShortDateString': return target instanceof Date ? target.toLocaleDateString('en-US', { timeZone: 'UTC' }) : formatValue(target);
+        case 'ToUpper': case 'ToUpperInvariant': return formatValue(target).toUpperCase();
+        case 'ToLower': case 'ToLowerInvariant': return formatValue(target).toLowerCase();
+        case 'Trim': return formatValue(target).trim();
+        case 'Substring': return formatValue(target).substr(Number(argument(0)), args[1] ? Number(argument(1)) : undefined);
+        case 'Contains': return list ? true : formatValue(target).includes(formatValue(argument(0)));
+        case 'Count': return list?.length;
+        case 'Any': return list ? (args.length ? list.some(item => this.isTruthy(this.evaluateLambda(args[0], item, scope))) : list.length > 0) : undefined;
+        case 'First': case 'FirstOrDefault': case 'Single': case 'SingleOrDefault': return list?.[0] ?? null;
+        case 'Last': case 'LastOrDefault': return list?.[list.length - 1] ?? null;
+        case 'Take': return list?.slice(0, Number(argument(0)));
+        case 'Skip': return list?.slice(Number(argument(0)));
+        case 'Where': return list?.filter(item => this.evaluateCondition(args[0].replace(/^\s*\(?\s*(\w+)\s*\)?\s*=>/, ''), Object.assign(Object.create(scope) as Scope, { [/^\s*\(?\s*(\w+)/.exec(args[0])?.[1] ?? '_']: item })));
+        case 'Select': return lambda(item => this.evaluateLambda(args[0], item, scope));
+        case 'Sum': return (args.length ? lambda(item => this.evaluateLambda(args[0], item, scope)) : list)?.reduce((a: number, b) => a + (Number(b) || 0), 0);
+        case 'OrderBy': case 'OrderByDescending': case 'ThenBy': case 'ThenByDescending':
+        case 'ToList': case 'ToArray': case 'AsEnumerable': case 'Distinct':
+          return list ?? undefined;
+        case 'GetValueOrDefault': return target;
+      }
+      return undefined;
+    }
+
+    if (list) {
+      if (member === 'Count' || member === 'Length') return list.length;
+      return undefined;
+    }
+    if (typeof target === 'string' && member === 'Length') return target.length;
+    if (target instanceof Date) {
+      switch (member) {
+        case 'Year': return target.getUTCFullYear();
+        case 'Month': return target.getUTCMonth() + 1;
+        case 'Day': return target.getUTCDate();
+        case 'Date': return target;
+      }
+    }
+    if (member === 'HasValue') return target !== null && target !== undefined;
+    if (member === 'Value' && (typeof target !== 'object' || target instanceof Date)) return target;
+    if (target && typeof target === 'object') {
+      const object = target as SampleObject;
+      if (member in object) return object[member];
+      // Members of types the project does not declare (framework types) get a readable placeholder.
+      if (object.__type && !this.classes.has(object.__type)) return humanize(member);
+    }
+    return undefined;
+  }
+
+  private evaluateCondition(condition: string, scope: Scope): boolean {
+    const expr = condition.trim();
+    const or = splitTopLevel(expr, '||');
+    if (or.length > 1) return or.some(part => this.evaluateCondition(part, scope));
+    const and = splitTopLevel(expr, '&&');
+    if (and.length > 1) return and.every(part => this.evaluateCondition(part, scope));
+    if (expr.startsWith('!') && !expr.startsWith('!=')) {
+      const inner = expr.slice(1).trim();
+      if (inner.startsWith('(') && balancedAt(inner, 0).length === inner.length - 2) return !this.evaluateCondition(inner.slice(1, -1), scope);
+      const value = this.evaluate(inner, scope);
+      return value === undefined ? true : !this.isTruthy(value);
+    }
+
+    const comparison = splitComparison(expr);
+    if (comparison) {
+      const [left, operator, right] = comparison;
+      const a = this.evaluate(left, scope);
+      const b = this.evaluate(right, scope);
+      if (a === undefined || b === undefined) return true;
+      switch (operator) {
+        case '==': return a === b || (a == null && b == null);
+        case '!=': return !(a === b || (a == null && b == null));
+        case '>': return Number(a) > Number(b);
+        case '<': return Number(a) < Number(b);
+        case '>=': return Number(a) >= Number(b);
+        case '<=': return Number(a) <= Number(b);
+      }
+    }
+    // Conditions that cannot be evaluated render their content, which is the more useful guess in a preview.
+    const value = this.evaluate(expr, scope);
+    return value === undefined ? true : this.isTruthy(value);
+  }
+
+  private isTruthy(value: unknown): boolean {
+    return value !== null && value !== undefined && value !== false && value !== 0 && value !== '';
+  }
+
+  private output(value: unknown): string {
+    if (value instanceof RawHtml) return value.html;
+    return encode(formatValue(value));
+  }
+
+  // --- Tag helpers and assets ---
+
+  private applyTagHelpers(html: string): string {
+    return html
+      .replace(/<environment\s+([^>]*)>([\s\S]*?)<\/environment>/gi, (_match, attributes: string, content: string) => {
+        const { include, names, exclude } = parseAttributes(attributes);
+        const shown = exclude !== undefined ? !/\bDevelopment\b/i.test(exclude) : /\bDevelopment\b/i.test(include ?? names ?? 'Development');
+        return shown ? content : '';
+      })
+      .replace(/<\/?(?:cache|distributed-cache)\b[^>]*>/gi, '')
+      .replace(/<vc:[\w-]+[^>]*\/?>(?:\s*<\/vc:[\w-]+>)?/gi, '')
+      .replace(/<label(\s[^>]*?)asp-for="([^"]*)"([^>]*)>\s*<\/label>/gi, (_match, before: string, name: string, after: string) => `<label${before}asp-for="${name}"${after}>${encode(humanize(name.split('.').pop() ?? name))}</label>`)
+      .replace(/<([a-zA-Z][\w-]*)(\s[^<>]*?\basp-[^<>]*?)(\/?)>/g, (_match, tag: string, attributes: string, selfClosing: string) => {
+        const parsed = parseAttributes(attributes);
+        const kept = attributes.replace(/\s+asp-[\w-]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?/g, '');
+        let extra = '';
+        const field = parsed['asp-for'];
+        if (field && /^(input|select|textarea)$/i.test(tag)) {
+          if (!/\sname=/.test(kept)) extra += ` name="${field}"`;
+          if (!/\sid=/.test(kept)) extra += ` id="${field.replace(/\./g, '_')}"`;
+        }
+        if (field && /^label$/i.test(tag) && !/\sfor=/.test(kept)) extra += ` for="${field.replace(/\./g, '_')}"`;
+        const routed = Object.keys(parsed).some(name => /^asp-(action|controller|page|page-handler|area|route)/.test(name));
+        if (routed && /^a$/i.test(tag) && !/\shref=/.test(kept)) extra += ' href="#"';
+        return `<${tag}${kept}${extra}${selfClosing}>`;
+      });
+  }
+
+  private inlineAssets(html: string, baseDir: string): string {
+    return html
+      .replace(/<link\b([^>]*)>/gi, (match, attributes: string) => {
+        const { href, rel } = parseAttributes(attributes);
+        if (!href || !/stylesheet/i.test(rel ?? '')) return match;
+        const asset = this.resolveAsset(href, baseDir);
+        if (asset?.path) return `<style data-href="${encode(href)}">\n${this.files[asset.path].replace(/<\/style/gi, '<\\/style')}\n</style>`;
+        return asset?.url ? match.replace(href, asset.url) : match;
+      })
+      .replace(/<script\b([^>]*)>\s*<\/script>/gi, (match, attributes: string) => {
+        const { src } = parseAttributes(attributes);
+        if (!src) return match;
+        const asset = this.resolveAsset(src, baseDir);
+        if (asset?.path) {
+          const kept = attributes.replace(/\s+src\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i, '');
+          return `<script${kept} data-src="${encode(src)}">\n${this.files[asset.path].replace(/<\/script/gi, '<\\/script')}\n</script>`;
+        }
+        return asset?.url ? match.replace(src, asset.url) : match;
+      })
+      .replace(/(<(?:img|source|image|use)\b[^>]*?\s(?:src|href)=)("([^"]*)"|'([^']*)')/gi, (match, prefix: string, _quoted: string, double?: string, single?: string) => {
+        const url = double ?? single ?? '';
+        const asset = this.resolveAsset(url, baseDir);
+        if (asset?.path?.endsWith('.svg')) return `${prefix}"data:image/svg+xml;charset=utf-8,${encodeURIComponent(this.files[asset.path])}"`;
+        return match;
+      });
+  }
+
+  /** Maps `~/css/site.css`, `/css/site.css` or a relative URL to a project file, or a known library to its CDN copy. */
+  private resolveAsset(url: string, baseDir: string): { path?: string; url?: string } | null {
+    if (!url || /^([a-z][a-z0-9+.-]*:|\/\/|#|@)/i.test(url)) return null;
+    const clean = url.split(/[?#]/)[0];
+    const relative = clean.replace(/^~?\//, '');
+    const paths = Object.keys(this.files);
+    const candidates = [
+      ...paths.filter(p => /(^|\/)wwwroot\//.test(p)).map(p => p.slice(0, p.indexOf('wwwroot/') + 8)).filter((root, i, all) => all.indexOf(root) === i).map(root => root + relative),
+      ...(clean.startsWith('~') || clean.startsWith('/') ? [relative] : [normalizePath(joinPath(baseDir, clean))]),
+    ];
+    const path = candidates.find(candidate => candidate in this.files);
+    if (path) return { path };
+    for (const [pattern, replacement] of CDN_LIBRARIES) {
+      if (pattern.test(relative)) return { url: relative.replace(pattern, replacement) };
+    }
+    this.notes.add(`Asset "${url}" is not in the project.`);
+    return null;
+  }
+}
+
+// --- Text helpers ---
+
+function dirOf(path: string): string {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+function joinPath(dir: string, name: string): string {
+  return dir ? `${dir}/${name}` : name;
+}
+
+/** The directory itself and each parent up to the root (''), closest first. */
+function ancestors(dir: string): string[] {
+  const result: string[] = [];
+  let current = dir;
+  while (current) {
+    result.push(current);
+    current = dirOf(current);
+  }
+  result.push('');
+  return result;
+}
+
+function normalizePath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+}
+
+function encode(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+function formatValue(value: unknown, format = ''): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof RawHtml) return value.html;
+  if (value instanceof Date) {
+    if (/^d$|^(yyyy-MM-dd|MM\/dd\/yyyy|dd\/MM\/yyyy|MMM d, yyyy|D)$/.test(format)) return value.toLocaleDateString('en-US', { timeZone: 'UTC' });
+    return value.toLocaleString('en-US', { timeZone: 'UTC' });
+  }
+  if (typeof value === 'number') {
+    const currency = /^[cC](\d*)$/.exec(format);
+    if (currency) return `$${value.toFixed(currency[1] ? Number(currency[1]) : 2)}`;
+    const fixed = /^[nNfF](\d*)$/.exec(format);
+    if (fixed) return value.toLocaleString('en-US', { minimumFractionDigits: fixed[1] ? Number(fixed[1]) : 2, maximumFractionDigits: fixed[1] ? Number(fixed[1]) : 2 });
+    if (/^[pP]/.test(format)) return `${(value * 100).toFixed(0)}%`;
+    return String(value);
+  }
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (Array.isArray(value)) return '';
+  if (typeof value === 'object') return (value as SampleObject).__type ?? '';
+  return String(value);
+}
+
+function parseAttributes(text: string): { [name: string]: string } {
+  const attributes: { [name: string]: string } = {};
+  for (const match of text.matchAll(/([\w:@.-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+/**
+ * Returns the index of the quote that closes a C# string or char literal starting at `i`, or `i` when
+ * there is none. Apostrophes in markup text ("don't") are not char literals.
+ */
+function literalEnd(text: string, i: number): number {
+  if (text[i] === '\'') {
+    const char = /^'(?:\\.|[^'\\])'/.exec(text.slice(i, i + 4));
+    return char ? i + char[0].length - 1 : i;
+  }
+  const verbatim = text[i - 1] === '@';
+  for (let j = i + 1; j < text.length; j++) {
+    if (text[j] === '\\' && !verbatim) j++;
+    else if (text[j] === '"') return j;
+  }
+  return i;
+}
+
+/** Returns the text inside the bracket at `open` up to its match, skipping string and char literals. */
+function balancedAt(text: string, open: number): string {
+  const close = { '(': ')', '[': ']', '{': '}' }[text[open] as '(' | '[' | '{'];
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"' || c === '\'') {
+      i = literalEnd(text, i);
+    } else if (c === text[open]) {
+      depth++;
+    } else if (c === close && --depth === 0) {
+      return text.slice(open + 1, i);
+    }
+  }
+  return text.slice(open + 1);
+}
+
+/** Finds the end of the markup element starting at `start`, counting nested elements with the same name. */
+function elementEnd(text: string, start: number): number {
+  const tagEnd = text.indexOf('>', start);
+  if (tagEnd < 0) return text.length;
+  const name = /^<([a-zA-Z][\w:-]*)/.exec(text.slice(start))?.[1];
+  if (!name || text[tagEnd - 1] === '/' || VOID_ELEMENTS.has(name.toLowerCase())) return tagEnd + 1;
+
+  const pattern = new RegExp(`<(/?)${name}(?=[\\s>/])[^>]*?(/?)>`, 'gi');
+  pattern.lastIndex = tagEnd + 1;
+  let depth = 1;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    if (match[1]) depth--;
+    else if (!match[2]) depth++;
+    if (depth === 0) return match.index + match[0].length;
+  }
+  return text.length;
+}
+
+/** Finds the end of a C# statement: the next `;` outside brackets and strings, or the end of the line. */
+function statementEnd(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"' || c === '\'') {
+      i = literalEnd(text, i);
+    } else if ('([{'.includes(c)) {
+      depth++;
+    } else if (')]}'.includes(c)) {
+      depth--;
+    } else if (c === ';' && depth <= 0) {
+      return i + 1;
+    } else if (c === '\n' && depth <= 0 && !text.slice(start, i).trim().endsWith('=')) {
+      return i + 1;
+    }
+  }
+  return text.length;
+}
+
+/** Splits on a top-level operator, outside brackets and strings. */
+function splitTopLevel(text: string, operator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"' || c === '\'') {
+      i = literalEnd(text, i);
+    } else if ('([{'.includes(c)) {
+      depth++;
+    } else if (')]}'.includes(c)) {
+      depth--;
+    } else if (depth === 0 && text.startsWith(operator, i) && !(operator === '+' && (text[i + 1] === '+' || text[i + 1] === '='))) {
+      // "=>" belongs to a lambda; leave anything after one alone.
+      if (text.slice(start, i).includes('=>')) break;
+      parts.push(text.slice(start, i));
+      start = i + operator.length;
+      i += operator.length - 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map(part => part.trim());
+}
+
+function splitArguments(text: string): string[] {
+  return text.trim() ? splitTopLevel(text, ',').map(arg => arg.replace(/^\w+:\s*(?!:)/, '')) : [];
+}
+
+function splitComparison(text: string): [string, string, string] | null {
+  for (const operator of ['==', '!=', '>=', '<=', '>', '<']) {
+    const parts = splitTopLevel(text, operator);
+    if (parts.length === 2 && parts[0] && parts[1] && !parts[1].startsWith('>') && !parts[0].endsWith('=')) {
+      return [parts[0], operator, parts[1]];
+    }
+  }
+  return null;
+}
+
+function splitTernary(text: string): [string, string, string] | null {
+  let depth = 0;
+  let question = -1;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"' || c === '\'') {
+      i = literalEnd(text, i);
+    } else if ('([{'.includes(c)) {
+      depth++;
+    } else if (')]}'.includes(c)) {
+      depth--;
+    } else if (depth === 0 && c === '?' && question < 0 && text[i + 1] !== '?' && text[i + 1] !== '.' && text[i - 1] !== '?') {
+      question = i;
+    } else if (depth === 0 && c === ':' && question >= 0) {
+      return [text.slice(0, question), text.slice(question + 1, i), text.slice(i + 1)];
+    }
+  }
+  return null;
+}
@@ -0,0 +1,444 @@
+import { Injectable } from '@angular/core';
+import { SchemaEndpoint, SchemaEntity, SchemaField, SchemaModel, SchemaRelationship } from '../models/schema.model';
+import { Diagnostic } from '../models/diagnostic.model';
+import { parseYaml, YamlParseError } from './yaml-parser';
+
+export class SchemaParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaParseError';
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+/** The object stored under `key`, or an empty object when there is none. */
+const objectAt = (value: unknown, key: string): JsonObject => {
+  const child = isObject(value) ? value[key] : undefined;
+  return isObject(child) ? child : {};
+};
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+const MAX_SPEC_SIZE_BYTES = 2 * 1024 * 1024;
+// A class declaration with the attributes in front of it; attribute arguments may contain brackets, as in "api/[controller]".
+const CLASS_WITH_ATTRIBUTES = /((?:\[(?:[^[\]"]|"[^"]*")*\]\s*)*)(?:public\s+|internal\s+)?(?:sealed\s+|abstract\s+|partial\s+)*class\s+(\w+)/g;
+
+// The C# type for each family of SQL column types.
+const SQL_TYPES: [RegExp, string][] = [
+  [/^(bigint|int8|bigserial)$/, 'long'],
+  [/^(smallint|int2|smallserial)$/, 'short'],
+  [/^tinyint$/, 'byte'],
+  [/^(int|integer|int4|serial|mediumint)$/, 'int'],
+  [/^(bit|bool|boolean)$/, 'bool'],
+  [/^(decimal|numeric|money|smallmoney)$/, 'decimal'],
+  [/^(float|double|double precision|float8)$/, 'double'],
+  [/^(real|float4)$/, 'float'],
+  [/^(uniqueidentifier|uuid)$/, 'Guid'],
+  [/^date$/, 'DateOnly'],
+  [/^time$/, 'TimeOnly'],
+  [/^(datetimeoffset|timestamptz|timestamp with time zone)$/, 'DateTimeOffset'],
+  [/^(datetime|datetime2|smalldatetime|timestamp|timestamp without time zone)$/, 'DateTime'],
+  [/^(binary|varbinary|blob|longblob|mediumblob|bytea|image|rowversion)$/, 'byte[]'],
+];
+
+/**
+ * Parses OpenAPI documents (JSON or YAML) and SQL DDL scripts into a SchemaModel locally, describes
+ * it for the generation prompts, and checks a generated project for spec types, tables and endpoints
+ * it does not implement.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SchemaImportService {
+  parse(text: string, fileName = ''): SchemaModel {
+    if (text.length > MAX_SPEC_SIZE_BYTES) {
+      throw new SchemaParseError(`The specification is larger than ${MAX_SPEC_SIZE_BYTES / 1024 / 1024} MB.`);
+    }
+    const trimmed = text.trim();
+    if (!trimmed) throw new SchemaParseError('The specification is empty.');
+
+    const looksLikeSql = /\.sql$/i.test(fileName) || (/\bCREATE\s+TABLE\b/i.test(trimmed) && !/^\s*["']?(openapi|swagger)["']?\s*:/m.test(trimmed));
+    if (looksLikeSql) return this.parseSql(trimmed, fileName);
+
+    let document: unknown;
+    try {
+      document = trimmed.startsWith('{') ? JSON.parse(trimmed) : parseYaml(trimmed);
+    } catch (error) {
+      const reason = error instanceof YamlParseError || error instanceof SyntaxError ? error.message : String(error);
+      throw new SchemaParseError(`The document is neither valid JSON nor YAML: ${reason}`);
+    }
+    if (!isObject(document) || !(document['openapi'] || document['swagger'])) {
+      throw new SchemaParseError('Expected an OpenAPI document with an "openapi" version, or SQL CREATE TABLE statements.');
+    }
+    return this.parseOpenApi(document, fileName);
+  }
+
+  summarize(schema: SchemaModel): string {
+    const parts = [
+      `${schema.entities.length} ${schema.source === 'sql' ? 'table' : 'schema'}(s)`,
+      `${schema.relationships.length} relationship(s)`,
+      ...(schema.source === 'openapi' ? [`${schema.endpoints.length} endpoint(s)`] : []),
+    ];
+    return parts.join(', ');
+  }
+
+  /** Formats the model as requirements the generation prompts must implement exactly. */
+  describeForPrompt(schema: SchemaModel): string {
+    const field = (f: SchemaField) => `${f.name}: ${f.type}${f.nullable && !f.type.endsWith('?') ? '?' : ''}`
+      + (f.key ? ' [key]' : '') + (f.maxLength ? ` [max ${f.maxLength}]` : '') + (f.column ? ` [column "${f.column}"]` : '');
+    const entities = schema.entities.map(e => `        - ${e.name}${e.table ? ` (table "${e.table}")` : ''}: ${e.fields.map(field).join(', ')}`).join('\n');
+    const relationships = schema.relationships.map(r => `        - ${r.from}.${r.field} → ${r.to} (${r.kind})`).join('\n');
+    const endpoints = schema.endpoints.map(e => `        - ${e.method} ${e.path}` + (e.request ? ` body ${e.request}` : '') + (e.response ? ` → ${e.response}` : '') + (e.summary ? ` — ${e.summary}` : '')).join('\n');
+
+    const instructions = schema.source === 'sql'
+      ? 'Create an EF Core entity for every table with exactly these properties, a DbContext with a DbSet for each, mapped with ToTable/HasColumnName where names differ and with the relationships below, plus DTOs and CRUD endpoints for each entity.'
+      : 'Create a DTO or entity for every schema with exactly these properties and implement every endpoint with exactly this HTTP method and route. Persist the resources the endpoints manage with EF Core entities and a DbContext.';
+    return [
+      `- **Source Specification (${schema.source === 'sql' ? 'SQL DDL' : 'OpenAPI'} "${schema.title}"):** ${instructions}`,
+      `      - **${schema.source === 'sql' ? 'Tables' : 'Schemas'}:**\n${entities || '        - None'}`,
+      relationships ? `      - **Relationships:**\n${relationships}` : '',
+      endpoints ? `      - **Endpoints:**\n${endpoints}` : '',
+    ].filter(Boolean).join('\n');
+  }
+
+  /** Reports spec types, tables and endpoints that the project's C# code does not implement. */
+  checkCoverage(schema: SchemaModel, files: { [path: string]: string }): Diagnostic[] {
+    const code = Object.entries(files).filter(([path]) => path.endsWith('.cs')).map(([, content]) => content).join('\n');
+    const declared = new Set([...code.matchAll(/\b(?:class|record|struct)\s+([A-Za-z_]\w*)/g)].map(match => match[1]));
+    const dbSets = new Set([...code.matchAll(/\bDbSet<\s*(?:[\w.]+\.)?(\w+)\s*>/g)].map(match => match[1]));
+    const mappedTables = new Set([...code.matchAll(/(?:ToTable\(\s*|\[Table\(\s*)"([^"]+)"/g)].map(match => match[1].toLowerCase()));
+    const diagnostics: Diagnostic[] = [];
+
+    for (const entity of schema.entities) {
+      if (schema.source === 'openapi') {
+        if (!declared.has(entity.name)) {
+          diagnostics.push({ severity: 'error', code: 'spec-type-missing', message: `Schema "${entity.name}" from the OpenAPI document has no matching class or record.`, path: '' });
+        }
+        continue;
+      }
+      const tableMapped = !!entity.table && mappedTables.has(entity.table.toLowerCase());
+      const className = [entity.name, this.pascalCase(entity.table ?? '')].find(name => name && declared.has(name));
+      if (!className && !tableMapped) {
+        diagnostics.push({ severity: 'error', code: 'spec-table-missing', message: `Table "${entity.table}" has no entity class (expected ${entity.name}).`, path: '' });
+      } else if (className && !dbSets.has(className) && !tableMapped) {
+        diagnostics.push({ severity: 'warning', code: 'spec-dbset-missing', message: `Entity ${className} for table "${entity.table}" is not exposed as a DbSet on the DbContext.`, path: '' });
+      }
+    }
+
+    const routes = this.collectRoutes(files);
+    for (const endpoint of schema.endpoints) {
+      if (!routes.has(`${endpoint.method} ${this.normalizeRoute(endpoint.path)}`)) {
+        diagnostics.push({ severity: 'error', code: 'spec-endpoint-missing', message: `Endpoint ${endpoint.method} ${endpoint.path} from the OpenAPI document is not implemented.`, path: '' });
+      }
+    }
+    return diagnostics;
+  }
+
+  private parseOpenApi(document: JsonObject, fileName: string): SchemaModel {
+    const components = objectAt(document, 'components');
+    const schemas = isObject(components['schemas']) ? components['schemas'] : objectAt(document, 'definitions');
+    const resolve = (schema: unknown): unknown => {
+      const ref = isObject(schema) && typeof schema['$ref'] === 'string' ? this.refName(schema['$ref']) : null;
+      return ref ? schemas[ref] : schema;
+    };
+
+    const entities: SchemaEntity[] = [];
+    const relationships: SchemaRelationship[] = [];
+    for (const [name, raw] of Object.entries(schemas)) {
+      const properties = this.collectProperties(raw, resolve);
+      if (!properties) continue;
+      const entityName = this.pascalCase(name);
+      const fields = Object.entries(properties.properties).map(([propertyName, property]) => {
+        const type = this.openApiType(property);
+        const fieldName = this.pascalCase(propertyName);
+        if (type.ref && type.ref !== entityName) {
+          relationships.push({ from: entityName, to: type.ref, kind: type.many ? 'one-to-many' : 'many-to-one', field: fieldName });
+        }
+        const key = propertyName.toLowerCase() === 'id';
+        const declared = isObject(property) ? property : {};
+        const nullable = !key && (!properties.required.has(propertyName) || declared['nullable'] === true || (Array.isArray(declared['type']) && declared['type'].includes('null')));
+        const maxLength = declared['maxLength'];
+        return {
+          name: fieldName,
+          type: type.name,
+          nullable,
+          ...(key ? { key } : {}),
+          ...(typeof maxLength === 'number' ? { maxLength } : {}),
+        };
+      });
+      entities.push({ name: entityName, fields });
+    }
+
+    const basePath = this.openApiBasePath(document);
+    const endpoints: SchemaEndpoint[] = [];
+    for (const [path, item] of Object.entries(objectAt(document, 'paths'))) {
+      for (const method of HTTP_METHODS) {
+        const operation = isObject(item) ? item[method] : undefined;
+        if (!isObject(operation)) continue;
+        const bodyParameter = Array.isArray(operation['parameters']) ? operation['parameters'].find(p => isObject(p) && p['in'] === 'body') : undefined;
+        const body = objectAt(objectAt(objectAt(operation, 'requestBody'), 'content'), 'application/json')['schema']
+          ?? (isObject(bodyParameter) ? bodyParameter['schema'] : undefined);
+        const success = Object.entries(objectAt(operation, 'responses')).find(([code]) => /^2\d\d$/.test(code))?.[1];
+        const response = objectAt(objectAt(success, 'content'), 'application/json')['schema'] ?? (isObject(success) ? success['schema'] : undefined);
+        endpoints.push({
+          method: method.toUpperCase(),
+          path: basePath + path,
+          ...(operation['operationId'] ? { operationId: String(operation['operationId']) } : {}),
+          ...(operation['summary'] ? { summary: String(operation['summary']) } : {}),
+          ...(body ? { request: this.openApiType(body).name } : {}),
+          ...(response ? { response: this.openApiType(response).name } : {}),
+        });
+      }
+    }
+
+    if (entities.length === 0 && endpoints.length === 0) {
+      throw new SchemaParseError('The OpenAPI document defines no schemas and no paths.');
+    }
+    return { source: 'openapi', title: String(objectAt(document, 'info')['title'] || fileName || 'OpenAPI document'), entities, relationships, endpoints };
+  }
+
+  /** Merges the properties of an object schema, following `allOf` composition. */
+  private collectProperties(schema: unknown, resolve: (schema: unknown) => unknown, depth = 0): { properties: JsonObject; required: Set<string> } | null {
+    const resolved = resolve(schema);
+    if (!isObject(resolved) || depth > 10) return null;
+    const properties: JsonObject = { ...objectAt(resolved, 'properties') };
+    const required = new Set(Array.isArray(resolved['required']) ? resolved['required'].filter((name): name is string => typeof name === 'string') : []);
+    for (const part of Array.isArray(resolved['allOf']) ? resolved['allOf'] : []) {
+      const merged = this.collectProperties(part, resolve, depth + 1);
+      if (!merged) continue;
+      Object.assign(properties, merged.properties);
+      merged.required.forEach(name => required.add(name));
+    }
+    const isObjectSchema = resolved['type'] === 'object' || Object.keys(properties).length > 0;
+    return isObjectSchema && !resolved['enum'] ? { properties, required } : null;
+  }
+
+  private openApiType(schema: unknown): { name: string; ref?: string; many?: boolean } {
+    if (!isObject(schema)) return { name: 'object' };
+    if (typeof schema['$ref'] === 'string') {
+      const ref = this.pascalCase(this.refName(schema['$ref']));
+      return { name: ref, ref };
+    }
+    const type = Array.isArray(schema['type']) ? schema['type'].find(t => t !== 'null') : schema['type'];
+    const format = typeof schema['format'] === 'string' ? schema['format'] : '';
+    switch (type) {
+      case 'array': {
+        const item = this.openApiType(schema['items']);
+        return { name: `List<${item.name}>`, ...(item.ref ? { ref: item.ref, many: true } : {}) };
+      }
+      case 'integer':
+        return { name: format === 'int64' ? 'long' : 'int' };
+      case 'number':
+        return { name: format === 'float' ? 'float' : format === 'double' ? 'double' : 'decimal' };
+      case 'boolean':
+        return { name: 'bool' };
+      case 'string': {
+        const formats: { [format: string]: string } = { 'date-time': 'DateTime', date: 'DateOnly', time: 'TimeOnly', uuid: 'Guid', binary: 'byte[]', byte: 'byte[]' };
+        return { name: Object.hasOwn(formats, format) ? formats[format] : 'string' };
+      }
+      default:
+        if (isObject(schema['additionalProperties'])) {
+          return { name: `Dictionary<string, ${this.openApiType(schema['additionalProperties']).name}>` };
+        }
+        return { name: 'object' };
+    }
+  }
+
+  /** The path part of the first server URL (OpenAPI 3) or the basePath (Swagger 2), without a trailing slash. */
+  private openApiBasePath(document: JsonObject): string {
+    const server = Array.isArray(document['servers']) ? document['servers'][0] : undefined;
+    const url = isObject(server) ? server['url'] : undefined;
+    const raw = typeof document['basePath'] === 'string' ? document['basePath'] : typeof url === 'string' ? url : '';
+    const path = raw.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '').replace(/\{[^}]*\}/g, '');
+    return path.replace(/\/+$/, '');
+  }
+
+  private refName(ref: string): string {
+    return decodeURIComponent(ref.split('/').pop() ?? ref);
+  }
+
+  private parseSql(text: string, fileName: string): SchemaModel {
+    const statements = text
+      .replace(/\/\*[\s\S]*?\*\//g, ' ')
+      .replace(/--[^\n]*/g, '')
+      .replace(/^\s*GO\s*$/gim, ';')
+      .split(';');
+
+    const entities: SchemaEntity[] = [];
+    const foreignKeys: { table: string; columns: string[]; references: string }[] = [];
+    for (const statement of statements) {
+      const create = /^\s*CREATE\s+(?:TEMPORARY\s+|TEMP\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?([^\s(]+)\s*\(([\s\S]*)\)[^)]*$/i.exec(statement);
+      if (create) {
+        entities.push(this.parseTable(this.identifier(create[1]), create[2], foreignKeys));
+        continue;
+      }
+      const alter = /^\s*ALTER\s+TABLE\s+(?:ONLY\s+)?([^\s]+)\s+ADD\s+(?:CONSTRAINT\s+\S+\s+)?FOREIGN\s+KEY\s*\(([^)]*)\)\s*REFERENCES\s+([^\s(]+)/i.exec(statement);
+      if (alter) {
+        foreignKeys.push({ table: this.identifier(alter[1]), columns: this.identifierList(alter[2]), references: this.identifier(alter[3]) });
+      }
+    }
+    if (entities.length === 0) {
+      throw new SchemaParseError('The SQL script contains no CREATE TABLE statements.');
+    }
+
+    const relationships: SchemaRelationship[] = [];
+    for (const key of foreignKeys) {
+      const from = entities.find(e => e.table?.toLowerCase() === key.table.toLowerCase());
+      const to = entities.find(e => e.table?.toLowerCase() === key.references.toLowerCase());
+      if (!from || !to) continue;
+      for (const column of key.columns) {
+        const field = from.fields.find(f => (f.column ?? f.name).toLowerCase() === column.toLowerCase());
+        // A key can be declared both inline and in a later ALTER TABLE.
+        if (field && !relationships.some(r => r.from === from.name && r.field === field.name)) {
+          relationships.push({ from: from.name, to: to.name, kind: 'many-to-one', field: field.name });
+        }
+      }
+    }
+
+    const title = fileName.replace(/\.sql$/i, '') || `SQL schema (${entities.length} tables)`;
+    return { source: 'sql', title, entities, relationships, endpoints: [] };
+  }
+
+  private parseTable(table: string, body: string, foreignKeys: { table: string; columns: string[]; references: string }[]): SchemaEntity {
+    const fields: SchemaField[] = [];
+    const primaryKey = new Set<string>();
+
+    for (const rawItem of this.splitTopLevel(body)) {
+      const item = rawItem.trim().replace(/^CONSTRAINT\s+\S+\s+/i, '');
+      if (!item) continue;
+      const tablePrimaryKey = /^PRIMARY\s+KEY\s*(?:CLUSTERED\s+|NONCLUSTERED\s+)?\(([^)]*)\)/i.exec(item);
+      if (tablePrimaryKey) {
+        this.identifierList(tablePrimaryKey[1]).forEach(column => primaryKey.add(column.toLowerCase()));
+        continue;
+      }
+      const foreignKey = /^FOREIGN\s+KEY\s*\(([^)]*)\)\s*REFERENCES\s+([^\s(]+)/i.exec(item);
+      if (foreignKey) {
+        foreignKeys.push({ table, columns: this.identifierList(foreignKey[1]), references: this.identifier(foreignKey[2]) });
+        continue;
+      }
+      if (/^(UNIQUE|INDEX|KEY|CHECK|FULLTEXT|SPATIAL|EXCLUDE)\b/i.test(item)) continue;
+
+      const column = /^("[^"]+"|\[[^\]]+\]|`[^`]+`|[\w$]+)\s+(double\s+precision|character\s+varying|timestamp\s+with(?:out)?\s+time\s+zone|[a-z]\w*)\s*(?:\(\s*(\w+)(?:\s*,\s*\d+)?\s*\))?(\s[\s\S]*)?$/i.exec(item);
+      if (!column) continue;
+      const name = this.identifier(column[1]);
+      const sqlType = column[2].toLowerCase().replace(/\s+/g, ' ').replace(/ varying$/, '');
+      const modifiers = column[4] ?? '';
+      const isKey = /\bPRIMARY\s+KEY\b/i.test(modifiers);
+      if (isKey) primaryKey.add(name.toLowerCase());
+      const references = /\bREFERENCES\s+([^\s(]+)/i.exec(modifiers);
+      if (references) foreignKeys.push({ table, columns: [name], references: this.identifier(references[1]) });
+
+      const length = Number(column[3]);
+      const propertyName = this.pascalCase(name);
+      fields.push({
+        name: propertyName,
+        type: this.sqlType(sqlType, length),
+        nullable: !/\bNOT\s+NULL\b/i.test(modifiers) && !isKey && !/serial$/.test(sqlType),
+        ...(length > 1 && /char|text|string/.test(sqlType) ? { maxLength: length } : {}),
+        ...(propertyName !== name ? { column: name } : {}),
+      });
+    }
+
+    for (const field of fields) {
+      if (primaryKey.has((field.column ?? field.name).toLowerCase())) {
+        field.key = true;
+        field.nullable = false;
+      }
+    }
+    return { name: this.pascalCase(this.singularize(table)), table, fields };
+  }
+
+  private sqlType(sqlType: string, length: number): string {
+    if (/^(bit|tinyint)$/.test(sqlType) && length === 1) return 'bool';
+    const match = SQL_TYPES.find(([pattern]) => pattern.test(sqlType));
+    return match ? match[1] : 'string';
+  }
+
+  private splitTopLevel(body: string): string[] {
+    const items: string[] = [];
+    let depth = 0;
+    let quote = '';
+    let current = '';
+    for (const c of body) {
+      if (quote) {
+        if (c === quote) quote = '';
+      } else if (c === "'" || c === '"' || c === '`') {
+        quote = c;
+      } else if (c === '(') {
+        depth++;
+      } else if (c === ')') {
+        depth--;
+      } else if (c === ',' && depth === 0) {
+        items.push(current);
+        current = '';
+        continue;
+      }
+      current += c;
+    }
+    items.push(current);
+    return items;
+  }
+
+  /** Unquotes a possibly schema-qualified identifier and drops the schema. */
+  private identifier(raw: string): string {
+    const parts = raw.trim().split('.').map(part => part.replace(/^["[`]|["\]`]$/g, ''));
+    return parts[parts.length - 1];
+  }
+
+  private identifierList(raw: string): string[] {
+    return raw.split(',').map(part => this.identifier(part.trim().split(/\s+/)[0])).filter(Boolean);
+  }
+
+  private singularize(name: string): string {
+    if (/ies$/i.test(name)) return name.slice(0, -3) + 'y';
+    if (/(ss|us|is)$/i.test(name)) return name;
+    if (/(x|ch|sh|ses)$/i.test(name) && /es$/i.test(name)) return name.slice(0, -2);
+    if (/s$/i.test(name)) return name.slice(0, -1);
+    return name;
+  }
+
+  private pascalCase(name: string): string {
+    const words = name.match(/[A-Za-z0-9]+/g) ?? [];
+    const result = words.map(word => word === word.toUpperCase() && word.length > 2 ? word[0] + word.slice(1).toLowerCase() : word[0].toUpperCase() + word.slice(1)).join('');
+    return /^[0-9]/.test(result) ? `_${result}` : result;
+  }
+
+  /** Collects "METHOD route" keys from attribute-routed controllers and minimal API endpoints. */
+  private collectRoutes(files: { [path: string]: string }): Set<string> {
+    const routes = new Set<string>();
+    const add = (method: string, route: string) => routes.add(`${method.toUpperCase()} ${this.normalizeRoute(route)}`);
+
+    for (const [path, content] of Object.entries(files)) {
+      if (!path.endsWith('.cs')) continue;
+
+      const controllers = [...content.matchAll(CLASS_WITH_ATTRIBUTES)]
+        .map(match => ({ index: match.index!, route: /\[Route\(\s*"([^"]*)"/.exec(match[1])?.[1] ?? '', name: match[2] }));
+      for (const match of content.matchAll(/\[Http(Get|Post|Put|Patch|Delete|Head|Options)(?:\(\s*(?:template:\s*)?"([^"]*)"[^)]*\))?\]/g)) {
+        const controller = controllers.filter(c => c.index < match.index!).pop();
+        const action = /(?:public|private|protected|internal)[^(;{]*?\s(\w+)\s*(?:<[^>]*>)?\s*\(/.exec(content.slice(match.index!))?.[1] ?? '';
+        const template = match[2] ?? '';
+        const prefix = template.startsWith('/') || template.startsWith('~/') ? '' : controller?.route ?? '';
+        const route = `${prefix}/${template}`
+          .replace(/\[controller\]/gi, (controller?.name ?? '').replace(/Controller$/, ''))
+          .replace(/\[action\]/gi, action.replace(/Async$/, ''));
+        add(match[1], route);
+      }
+
+      const groups = new Map<string, string>();
+      for (const match of content.matchAll(/(?:var\s+)?(\w+)\s*=\s*(\w+)(?:\.\w+\([^)]*\))*\.MapGroup\(\s*"([^"]*)"\s*\)/g)) {
+        groups.set(match[1], (groups.get(match[2]) ?? '') + '/' + match[3]);
+      }
+      for (const match of content.matchAll(/(\w+)\s*\.Map(Get|Post|Put|Patch|Delete)\(\s*(?:pattern:\s*)?"([^"]*)"/g)) {
+        add(match[2], (groups.get(match[1]) ?? '') + '/' + match[3]);
+      }
+    }
+    return routes;
+  }
+
+  /** Lowercases a route, drops `~` and slashes at the ends and reduces every `{parameter}` to `{}`. */
+  private normalizeRoute(route: string): string {
+    const path = route.toLowerCase().replace(/^~/, '').replace(/\{[^}]*\}/g, '{}').replace(/\/{2,}/g, '/').replace(/\/+$/, '');
+    return path.startsWith('/') ? path : '/' + path;
+  }
+}
@@ -0,0 +1,159 @@
+import { Injectable } from '@angular/core';
+
+export type EditorLanguage = 'csharp' | 'razor' | 'json' | 'xml' | 'javascript' | 'css' | 'dockerfile' | 'plain';
+
+type TokenType = 'keyword' | 'type' | 'string' | 'comment' | 'number' | 'tag' | 'attribute' | 'property' | 'directive';
+
+interface TokenRule {
+  type: TokenType | null;
+  pattern: RegExp;
+}
+
+const TOKEN_CLASSES: { [type in TokenType]: string } = {
+  keyword: 'text-purple-400',
+  type: 'text-teal-300',
+  string: 'text-amber-300',
+  comment: 'text-slate-500 italic',
+  number: 'text-orange-300',
+  tag: 'text-sky-400',
+  attribute: 'text-green-300',
+  property: 'text-sky-300',
+  directive: 'text-pink-400',
+};
+
+const CSHARP_KEYWORDS = 'abstract|as|async|await|base|bool|break|byte|case|catch|char|checked|class|const|continue|decimal|default|delegate|do|double|else|enum|event|explicit|extern|false|finally|fixed|float|for|foreach|get|global|goto|if|implicit|in|init|int|interface|internal|is|lock|long|namespace|new|null|object|operator|out|override|params|partial|private|protected|public|readonly|record|ref|required|return|sbyte|sealed|set|short|sizeof|stackalloc|static|string|struct|switch|this|throw|true|try|typeof|uint|ulong|unchecked|unsafe|ushort|using|var|virtual|void|volatile|when|where|while|with|yield';
+const JS_KEYWORDS = 'async|await|break|case|catch|class|const|continue|debugger|default|delete|do|else|export|extends|false|finally|for|from|function|if|import|in|instanceof|let|new|null|of|return|static|super|switch|this|throw|true|try|typeof|undefined|var|void|while|yield';
+const DOCKER_INSTRUCTIONS = 'FROM|AS|RUN|CMD|LABEL|EXPOSE|ENV|ADD|COPY|ENTRYPOINT|VOLUME|USER|WORKDIR|ARG|ONBUILD|STOPSIGNAL|HEALTHCHECK|SHELL';
+
+const NUMBER: TokenRule = { type: 'number', pattern: /\b(?:0x[0-9a-fA-F]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?[fFdDmMuUlL]*)\b/y };
+const WORD: TokenRule = { type: null, pattern: /\w+/y };
+
+const MARKUP_RULES: TokenRule[] = [
+  { type: 'comment', pattern: /<!--[\s\S]*?(?:-->|$)/y },
+  { type: 'tag', pattern: /<\/?[\w:.-]+|\/?>/y },
+  { type: 'attribute', pattern: /[\w:.@-]+(?=\s*=\s*["'])/y },
+  { type: 'string', pattern: /"[^"]*"|'[^']*'/y },
+];
+
+const RULES: { [language in EditorLanguage]: TokenRule[] } = {
+  csharp: [
+    { type: 'comment', pattern: /\/\/.*|\/\*[\s\S]*?(?:\*\/|$)/y },
+    { type: 'directive', pattern: /#(?:region|endregion|if|elif|else|endif|define|undef|pragma|nullable|warning|error)\b.*/y },
+    { type: 'string', pattern: /"""[\s\S]*?(?:"""|$)|\$?@\$?"(?:[^"]|"")*"|\$?"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)'/y },
+    { type: 'keyword', pattern: new RegExp(`\\b(?:${CSHARP_KEYWORDS})\\b`, 'y') },
+    { type: 'type', pattern: /\b[A-Z]\w*\b/y },
+    NUMBER,
+    WORD,
+  ],
+  razor: [
+    { type: 'comment', pattern: /@\*[\s\S]*?(?:\*@|$)/y },
+    { type: 'directive', pattern: /@(?:[a-zA-Z]\w*|\{|\()/y },
+    ...MARKUP_RULES,
+    WORD,
+  ],
+  xml: [
+    { type: 'directive', pattern: /<\?[\s\S]*?(?:\?>|$)/y },
+    ...MARKUP_RULES,
+    WORD,
+  ],
+  json: [
+    { type: 'property', pattern: /"(?:[^"\\\n]|\\.)*"(?=\s*:)/y },
+    { type: 'string', pattern: /"(?:[^"\\\n]|\\.)*"/y },
+    { type: 'keyword', pattern: /\b(?:true|false|null)\b/y },
+    { type: 'number', pattern: /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/y },
+    WORD,
+  ],
+  javascript: [
+    { type: 'comment', pattern: /\/\/.*|\/\*[\s\S]*?(?:\*\/|$)/y },
+    { type: 'string', pattern: /`(?:[^`\\]|\\[\s\S])*`|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/y },
+    { type: 'keyword', pattern: new RegExp(`\\b(?:${JS_KEYWORDS})\\b`, 'y') },
+    { type: 'type', pattern: /\b[A-Z]\w*\b/y },
+    NUMBER,
+    WORD,
+  ],
+  css: [
+    { type: 'comment', pattern: /\/\*[\s\S]*?(?:\*\/|$)/y },
+    { type: 'directive', pattern: /@[\w-]+/y },
+    { type: 'string', pattern: /"[^"\n]*"|'[^'\n]*'/y },
+    { type: 'property', pattern: /[\w-]+(?=\s*:[^:{};]*[;}])/y },
+    { type: 'number', pattern: /#[0-9a-fA-F]{3,8}\b|-?\b\d+(?:\.\d+)?(?:px|em|rem|%|vh|vw|s|ms|fr|deg)?\b/y },
+    { type: 'type', pattern: /[.#][\w-]+/y },
+    WORD,
+  ],
+  dockerfile: [
+    { type: 'comment', pattern: /#.*/y },
+    { type: 'keyword', pattern: new RegExp(`\\b(?:${DOCKER_INSTRUCTIONS})\\b`, 'y') },
+    { type: 'string', pattern: /"(?:[^"\\\n]|\\.)*"|'[^'\n]*'/y },
+    { type: 'property', pattern: /\$\{?\w+\}?/y },
+    NUMBER,
+    WORD,
+  ],
+  plain: [],
+};
+
+/**
+ * Small regex-based highlighter for the languages that show up in generated .NET projects.
+ * It favours speed and robustness over precision: tokens never span an unexpected amount of text.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SyntaxHighlightService {
+  languageFor(path: string | null): EditorLanguage {
+    const lower = (path ?? '').toLowerCase();
+    const name = lower.split('/').pop() ?? '';
+    if (name === 'dockerfile' || name.startsWith('dockerfile.') || name.endsWith('.dockerfile')) return 'dockerfile';
+    const extension = name.includes('.') ? name.split('.').pop()! : '';
+    switch (extension) {
+      case 'cs': case 'csx': return 'csharp';
+      case 'cshtml': case 'razor': return 'razor';
+      case 'json': return 'json';
+      case 'csproj': case 'props': case 'targets': case 'xml': case 'config': case 'html': case 'htm': case 'svg': case 'resx': return 'xml';
+      case 'js': case 'mjs': case 'ts': return 'javascript';
+      case 'css': case 'scss': return 'css';
+      default: return 'plain';
+    }
+  }
+
+  /** Returns one HTML string per line of `code`, with tokens wrapped in colour classes. */
+  highlightLines(code: string, language: EditorLanguage): string[] {
+    const lines: string[] = [''];
+    const append = (text: string, type: TokenType | null) => {
+      text.split('\n').forEach((part, index) => {
+        if (index > 0) lines.push('');
+        if (!part) return;
+        const escaped = this.escape(part);
+        lines[lines.length - 1] += type ? `<span class="${TOKEN_CLASSES[type]}">${escaped}</span>` : escaped;
+      });
+    };
+
+    const rules = RULES[language];
+    let position = 0;
+    let plain = '';
+    while (position < code.length) {
+      let matched = false;
+      for (const rule of rules) {
+        rule.pattern.lastIndex = position;
+        const match = rule.pattern.exec(code);
+        if (match && match[0].length > 0) {
+          append(plain, null);
+          plain = '';
+          append(match[0], rule.type);
+          position += match[0].length;
+          matched = true;
+          break;
+        }
+      }
+      if (!matched) {
+        plain += code[position];
+        position++;
+      }
+    }
+    append(plain, null);
+    return lines;
+  }
+
+  private escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
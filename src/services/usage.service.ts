@@ -0,0 +1,218 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { ModelPrice, TokenUsage, UsageOutcome, UsageRecord, UsageSettings, UsageTotals } from '../models/usage.model';
+import { IndexedDbService } from './indexed-db.service';
+import { LlmJsonRequest } from './providers/llm-provider';
+
+// Published list prices in USD per million tokens; edit them in the Usage tab when they change.
+const DEFAULT_PRICES: ModelPrice[] = [
+  { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10 },
+  { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  { model: 'gemini-2.5-flash-lite', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { model: 'gemini-2.0-flash', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { model: 'gpt-4.1', inputPerMillion: 2, outputPerMillion: 8 },
+  { model: 'gpt-4.1-mini', inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  { model: 'mock', inputPerMillion: 0, outputPerMillion: 0 },
+];
+
+const DEFAULT_SETTINGS: UsageSettings = {
+  prices: DEFAULT_PRICES,
+  budget: { maxRequestTokens: null, maxProjectTokens: null },
+};
+
+// A rough average for English text and code, used when a provider does not report token counts.
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Records every model call with its token counts, latency and outcome, and estimates what the calls
+ * cost from a configurable price table.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UsageService {
+  private db = inject(IndexedDbService);
+  private readonly STORAGE_KEY = 'dotnet-builder-usage-settings';
+
+  /** All recorded calls, oldest first. */
+  readonly records = signal<UsageRecord[]>([]);
+  readonly settings = signal<UsageSettings>(this.loadSettings());
+
+  private readonly ready = this.loadRecords();
+
+  /**
+   * Runs one model call and records it. `call` receives the request with a usage callback for the
+   * provider, and reports streamed text through `onOutput` so cancelled calls are still counted.
+   */
+  async track(
+    request: LlmJsonRequest,
+    projectId: string | null,
+    call: (request: LlmJsonRequest, onOutput: (chunk: string) => void) => Promise<string>,
+  ): Promise<string> {
+    const started = performance.now();
+    let reported: TokenUsage | null = null;
+    let outputChars = 0;
+    const record = (outcome: UsageOutcome, error?: string) => {
+      const { settings } = request;
+      void this.add({
+        id: crypto.randomUUID(),
+        projectId,
+        purpose: request.purpose,
+        provider: settings.provider,
+        model: settings.model,
+        promptTokens: reported?.promptTokens ?? this.estimateTokens(request.prompt),
+        outputTokens: reported?.outputTokens ?? Math.ceil(outputChars / CHARS_PER_TOKEN),
+        estimated: !reported,
+        latencyMs: Math.round(performance.now() - started),
+        outcome,
+        ...(error ? { error } : {}),
+        createdAt: new Date().toISOString(),
+      });
+    };
+
+    try {
+      const text = await call({ ...request, onUsage: usage => reported = usage }, chunk => outputChars += chunk.length);
+      outputChars = text.length;
+      record('success');
+      return text;
+    } catch (error) {
+      const cancelled = request.signal?.aborted || (error instanceof DOMException && error.name === 'AbortError');
+      record(cancelled ? 'cancelled' : 'error', cancelled ? undefined : error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  forProject(projectId: string): UsageRecord[] {
+    return this.records().filter(record => record.projectId === projectId);
+  }
+
+  totals(records: UsageRecord[]): UsageTotals {
+    let cost: number | null = null;
+    let unpricedCalls = 0;
+    for (const record of records) {
+      const recordCost = this.costOf(record);
+      if (recordCost === null) unpricedCalls++;
+      else cost = (cost ?? 0) + recordCost;
+    }
+    return {
+      calls: records.length,
+      failedCalls: records.filter(record => record.outcome === 'error').length,
+      promptTokens: records.reduce((sum, record) => sum + record.promptTokens, 0),
+      outputTokens: records.reduce((sum, record) => sum + record.outputTokens, 0),
+      cost,
+      unpricedCalls,
+      averageLatencyMs: records.length > 0 ? Math.round(records.reduce((sum, record) => sum + record.latencyMs, 0) / records.length) : 0,
+    };
+  }
+
+  /** Estimated cost in USD, or null when the model is not in the price table. */
+  costOf(record: UsageRecord): number | null {
+    const price = this.priceFor(record.model);
+    if (!price) return null;
+    return (record.promptTokens * price.inputPerMillion + record.outputTokens * price.outputPerMillion) / 1_000_000;
+  }
+
+  priceFor(model: string): ModelPrice | null {
+    const name = model.toLowerCase();
+    return this.settings().prices
+      .filter(price => price.model && name.startsWith(price.model.toLowerCase()))
+      .sort((a, b) => b.model.length - a.model.length)[0] ?? null;
+  }
+
+  /**
+   * Describes which budget a request of `promptTokens` would exceed, or returns null when it fits.
+   * The project budget counts everything spent on the project so far.
+   */
+  checkBudget(projectId: string, promptTokens: number): string | null {
+    const { maxRequestTokens, maxProjectTokens } = this.settings().budget;
+    const problems: string[] = [];
+    if (maxRequestTokens && promptTokens > maxRequestTokens) {
+      problems.push(`This request is about ${this.formatTokens(promptTokens)} tokens, over the per-request budget of ${this.formatTokens(maxRequestTokens)}.`);
+    }
+    if (maxProjectTokens) {
+      const totals = this.totals(this.forProject(projectId));
+      const spent = totals.promptTokens + totals.outputTokens;
+      if (spent + promptTokens > maxProjectTokens) {
+        problems.push(`This project has used ${this.formatTokens(spent)} tokens; this request would take it past the project budget of ${this.formatTokens(maxProjectTokens)}.`);
+      }
+    }
+    return problems.length > 0 ? problems.join(' ') : null;
+  }
+
+  formatTokens(tokens: number): string {
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+    if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+    return String(tokens);
+  }
+
+  formatCost(cost: number | null): string {
+    if (cost === null) return 'n/a';
+    if (cost > 0 && cost < 0.0001) return '<$0.0001';
+    return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+  }
+
+  updateSettings(settings: UsageSettings): void {
+    this.settings.set(settings);
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+      console.error('Error saving usage settings to localStorage', e);
+    }
+  }
+
+  resetPrices(): void {
+    this.updateSettings({ ...this.settings(), prices: DEFAULT_PRICES });
+  }
+
+  /** Deletes the recorded calls of one project, or all of them. */
+  async clear(projectId?: string): Promise<void> {
+    await this.ready;
+    const removed = this.records().filter(record => projectId === undefined || record.projectId === projectId);
+    await this.db.write(['usage'], tx => removed.forEach(record => tx.objectStore('usage').delete(record.id)));
+    const ids = new Set(removed.map(record => record.id));
+    this.records.update(records => records.filter(record => !ids.has(record.id)));
+  }
+
+  private async add(record: UsageRecord): Promise<void> {
+    this.records.update(records => [...records, record]);
+    try {
+      await this.ready;
+      await this.db.write(['usage'], tx => tx.objectStore('usage').put(record));
+    } catch (e) {
+      // Usage tracking must never break the model call it describes.
+      console.error('Error saving a usage record', e);
+    }
+  }
+
+  private async loadRecords(): Promise<void> {
+    try {
+      const stored = await this.db.getAll<UsageRecord>('usage');
+      stored.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      // Calls recorded while the store was loading come after the stored ones.
+      this.records.update(recent => [...stored, ...recent]);
+    } catch (e) {
+      console.error('Error reading usage records', e);
+    }
+  }
+
+  private loadSettings(): UsageSettings {
+    try {
+      const settingsJson = localStorage.getItem(this.STORAGE_KEY);
+      if (settingsJson) {
+        const stored = JSON.parse(settingsJson) as Partial<UsageSettings>;
+        return {
+          prices: Array.isArray(stored.prices) ? stored.prices : DEFAULT_PRICES,
+          budget: { ...DEFAULT_SETTINGS.budget, ...stored.budget },
+        };
+      }
+    } catch (e) {
+      console.error('Error reading usage settings from localStorage', e);
+    }
+    return DEFAULT_SETTINGS;
+  }
+}
@@ -0,0 +1,281 @@
+export class YamlParseError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'YamlParseError';
+  }
+}
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+const KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s'"[\]{}#,-][^#]*?|-[^\s#][^#]*?)\s*:(?:\s+|$)(.*)$/;
+
+/**
+ * Parses the block-style YAML subset API descriptions are written in: nested mappings and sequences,
+ * plain, quoted and block scalars, single- or multi-line flow collections and comments. Anchors,
+ * tags and multi-document streams are not supported.
+ */
+export function parseYaml(text: string): YamlValue {
+  return new YamlReader(text).read();
+}
+
+class YamlReader {
+  private lines: string[];
+  private index = 0;
+
+  constructor(text: string) {
+    this.lines = text.replace(/\r\n?/g, '\n').split('\n');
+  }
+
+  read(): YamlValue {
+    this.skipEmpty();
+    if (this.lines[this.index]?.trim() === '---') {
+      this.index++;
+      this.skipEmpty();
+    }
+    if (this.index >= this.lines.length) return null;
+    const value = this.readBlock(this.indentOf(this.lines[this.index]));
+    this.skipEmpty();
+    if (this.index < this.lines.length && this.lines[this.index].trim() !== '...') {
+      throw new YamlParseError('Unexpected indentation', this.index + 1);
+    }
+    return value;
+  }
+
+  private readBlock(indent: number): YamlValue {
+    const line = this.lines[this.index];
+    const content = line.slice(indent);
+    if (content === '-' || content.startsWith('- ')) return this.readSequence(indent);
+    if (KEY_PATTERN.test(content)) return this.readMapping(indent);
+    this.index++;
+    return this.readInline(content);
+  }
+
+  private readMapping(indent: number): { [key: string]: YamlValue } {
+    const result: { [key: string]: YamlValue } = {};
+    while (this.skipEmpty() && this.indentOf(this.lines[this.index]) === indent) {
+      const content = this.lines[this.index].slice(indent);
+      const match = KEY_PATTERN.exec(content);
+      if (!match || content === '-' || content.startsWith('- ')) break;
+      const key = unquote(match[1]);
+      const rest = this.stripComment(match[2]);
+      this.index++;
+
+      if (/^[|>][+-]?\d*$/.test(rest)) {
+        result[key] = this.readBlockScalar(rest, indent);
+      } else if (rest) {
+        result[key] = this.readInline(rest);
+      } else if (this.skipEmpty() && this.indentOf(this.lines[this.index]) > indent) {
+        result[key] = this.readBlock(this.indentOf(this.lines[this.index]));
+      } else if (this.index < this.lines.length && this.indentOf(this.lines[this.index]) === indent && /^-(\s|$)/.test(this.lines[this.index].slice(indent))) {
+        // A sequence may sit at the same indentation as its key.
+        result[key] = this.readSequence(indent);
+      } else {
+        result[key] = null;
+      }
+    }
+    return result;
+  }
+
+  private readSequence(indent: number): YamlValue[] {
+    const result: YamlValue[] = [];
+    while (this.skipEmpty() && this.indentOf(this.lines[this.index]) === indent) {
+      const line = this.lines[this.index];
+      const content = line.slice(indent);
+      if (content !== '-' && !content.startsWith('- ')) break;
+      const item = content.slice(1).trimStart();
+      if (!this.stripComment(item)) {
+        this.index++;
+        result.push(this.skipEmpty() && this.indentOf(this.lines[this.index]) > indent ? this.readBlock(this.indentOf(this.lines[this.index])) : null);
+        continue;
+      }
+      // Re-read "- key: value" or "- - item" as a block starting at the item's column.
+      const column = line.length - item.length;
+      if (KEY_PATTERN.test(item) || item === '-' || item.startsWith('- ')) {
+        this.lines[this.index] = ' '.repeat(column) + item;
+        result.push(this.readBlock(column));
+      } else {
+        this.index++;
+        result.push(this.readInline(item));
+      }
+    }
+    return result;
+  }
+
+  private readBlockScalar(header: string, indent: number): string {
+    const folded = header.startsWith('>');
+    const chomp = header.includes('-') ? 'strip' : header.includes('+') ? 'keep' : 'clip';
+    const lines: string[] = [];
+    let blockIndent = -1;
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.trim() === '') {
+        lines.push('');
+        this.index++;
+        continue;
+      }
+      const lineIndent = this.indentOf(line);
+      if (lineIndent <= indent) break;
+      if (blockIndent < 0) blockIndent = lineIndent;
+      if (lineIndent < blockIndent) break;
+      lines.push(line.slice(blockIndent));
+      this.index++;
+    }
+    // Trailing blank lines belong to the block only for "keep" chomping; give them back otherwise.
+    let trailing = 0;
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+      trailing++;
+    }
+    if (chomp !== 'keep') this.index -= trailing;
+
+    let text = folded
+      ? lines.reduce((acc, line, i) => acc + (i === 0 ? line : (line === '' || lines[i - 1] === '' || /^\s/.test(line) ? '\n' : ' ') + line), '')
+      : lines.join('\n');
+    if (chomp === 'clip' && lines.length > 0) text += '\n';
+    if (chomp === 'keep') text += '\n'.repeat(trailing + 1);
+    return text;
+  }
+
+  private readInline(text: string): YamlValue {
+    const value = text.trim();
+    if (value.startsWith('[') || value.startsWith('{')) {
+      let flow = this.stripComment(value);
+      // Flow collections may continue on the following lines until their brackets balance.
+      while (!this.isBalanced(flow) && this.index < this.lines.length) {
+        flow += ' ' + this.stripComment(this.lines[this.index].trim());
+        this.index++;
+      }
+      return new FlowReader(flow, this.index).read();
+    }
+    if (value.startsWith('"') || value.startsWith("'")) {
+      return unquote(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')/.exec(value)?.[1] ?? value);
+    }
+    return toScalar(this.stripComment(value));
+  }
+
+  private isBalanced(text: string): boolean {
+    let depth = 0;
+    let quote = '';
+    for (const c of text) {
+      if (quote) {
+        if (c === quote) quote = '';
+      } else if (c === '"' || c === "'") {
+        quote = c;
+      } else if (c === '[' || c === '{') {
+        depth++;
+      } else if (c === ']' || c === '}') {
+        depth--;
+      }
+    }
+    return depth <= 0;
+  }
+
+  /** Moves past blank and comment-only lines; returns whether a line is left. */
+  private skipEmpty(): boolean {
+    while (this.index < this.lines.length && /^\s*(#.*)?$/.test(this.lines[this.index])) this.index++;
+    return this.index < this.lines.length;
+  }
+
+  private indentOf(line: string): number {
+    return line.length - line.trimStart().length;
+  }
+
+  private stripComment(text: string): string {
+    if (text.startsWith('"') || text.startsWith("'")) return text.trim();
+    return text.replace(/(^|\s)#.*$/, '').trim();
+  }
+}
+
+class FlowReader {
+  private position = 0;
+
+  constructor(private text: string, private line: number) {}
+
+  read(): YamlValue {
+    const value = this.readValue();
+    this.skipSpace();
+    if (this.position < this.text.length) throw new YamlParseError('Unexpected characters after a flow collection', this.line);
+    return value;
+  }
+
+  private readValue(): YamlValue {
+    this.skipSpace();
+    const c = this.text[this.position];
+    if (c === '[') {
+      this.position++;
+      const items: YamlValue[] = [];
+      while (this.skipSpace() !== ']') {
+        items.push(this.readValue());
+        if (this.skipSpace() === ',') this.position++;
+        else if (this.text[this.position] !== ']') throw new YamlParseError('Expected "," or "]" in a flow sequence', this.line);
+      }
+      this.position++;
+      return items;
+    }
+    if (c === '{') {
+      this.position++;
+      const result: { [key: string]: YamlValue } = {};
+      while (this.skipSpace() !== '}') {
+        const key = this.readScalarText(':,}');
+        let value: YamlValue = null;
+        if (this.skipSpace() === ':') {
+          this.position++;
+          value = this.readValue();
+        }
+        result[unquote(key)] = value;
+        if (this.skipSpace() === ',') this.position++;
+        else if (this.text[this.position] !== '}') throw new YamlParseError('Expected "," or "}" in a flow mapping', this.line);
+      }
+      this.position++;
+      return result;
+    }
+    const raw = this.readScalarText(',]}');
+    return raw.startsWith('"') || raw.startsWith("'") ? unquote(raw) : toScalar(raw);
+  }
+
+  private readScalarText(terminators: string): string {
+    this.skipSpace();
+    const quote = this.text[this.position];
+    if (quote === '"' || quote === "'") {
+      const match = (quote === '"' ? /^"(?:[^"\\]|\\.)*"/ : /^'(?:[^']|'')*'/).exec(this.text.slice(this.position));
+      if (!match) throw new YamlParseError('Unterminated quoted string', this.line);
+      this.position += match[0].length;
+      return match[0];
+    }
+    const start = this.position;
+    while (this.position < this.text.length && !terminators.includes(this.text[this.position])) {
+      // A colon is only a key separator when followed by a space.
+      if (this.text[this.position] === ':' && terminators.includes(':') && !/\s/.test(this.text[this.position + 1] ?? ' ')) {
+        this.position++;
+        continue;
+      }
+      this.position++;
+    }
+    return this.text.slice(start, this.position).trim();
+  }
+
+  private skipSpace(): string | undefined {
+    while (this.position < this.text.length && /\s/.test(this.text[this.position])) this.position++;
+    return this.text[this.position];
+  }
+}
+
+function unquote(text: string): string {
+  if (text.startsWith("'") && text.endsWith("'") && text.length >= 2) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith('"') && text.endsWith('"') && text.length >= 2) {
+    return text.slice(1, -1).replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_match, escape: string) => {
+      if (escape.length > 1) return String.fromCharCode(parseInt(escape.slice(1), 16));
+      return ({ n: '\n', t: '\t', r: '\r', '0': '\0' } as { [key: string]: string })[escape] ?? escape;
+    });
+  }
+  return text;
+}
+
+function toScalar(text: string): YamlValue {
+  if (text === '' || text === '~' || /^null$/i.test(text)) return null;
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  return text;
+}
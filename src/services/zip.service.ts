@@ -0,0 +1,203 @@
+import { Injectable } from '@angular/core';
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array | string;
+  modified?: Date;
+}
+
+export interface ZipArchiveEntry {
+  path: string;
+  size: number;
+  isDirectory: boolean;
+  read(): Promise<Uint8Array>;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array | null> {
+  if (typeof CompressionStream === 'undefined') return null;
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot decompress ZIP archives. Try importing a folder instead.');
+  }
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Minimal ZIP (PKZIP 2.0) reader and writer that runs entirely in the browser.
+ * Only stored and deflated entries are supported; ZIP64 and encrypted archives are rejected.
+ * New entries are deflated with the native CompressionStream when available, otherwise stored.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ZipService {
+  private readonly encoder = new TextEncoder();
+  private readonly decoder = new TextDecoder();
+
+  /**
+   * Lists the entries of a ZIP archive from its central directory. Only the end of the archive is
+   * read up front; entry contents are read and decompressed when `read()` is called, so callers can
+   * check sizes before loading anything and large archives are never held in memory whole.
+   */
+  async readZip(blob: Blob): Promise<ZipArchiveEntry[]> {
+    const readBytes = async (start: number, end: number) => new Uint8Array(await blob.slice(start, end).arrayBuffer());
+    const tailStart = Math.max(0, blob.size - 65557);
+    const tail = await readBytes(tailStart, blob.size);
+    const tailView = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+    let endOffset = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tailView.getUint32(i, true) === 0x06054b50) {
+        endOffset = i;
+        break;
+      }
+    }
+    if (endOffset < 0) {
+      throw new Error('The file is not a valid ZIP archive.');
+    }
+
+    const entryCount = tailView.getUint16(endOffset + 10, true);
+    const directorySize = tailView.getUint32(endOffset + 12, true);
+    const directoryOffset = tailView.getUint32(endOffset + 16, true);
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported.');
+    }
+    if (directoryOffset + directorySize > tailStart + endOffset) {
+      throw new Error('The ZIP archive is corrupted (invalid central directory).');
+    }
+
+    const directory = await readBytes(directoryOffset, directoryOffset + directorySize);
+    const view = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+    const entries: ZipArchiveEntry[] = [];
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > directory.length || view.getUint32(offset, true) !== 0x02014b50) {
+        throw new Error('The ZIP archive is corrupted (invalid central directory).');
+      }
+      const flags = view.getUint16(offset + 8, true);
+      const method = view.getUint16(offset + 10, true);
+      const compressedSize = view.getUint32(offset + 20, true);
+      const size = view.getUint32(offset + 24, true);
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+      const localOffset = view.getUint32(offset + 42, true);
+      const path = this.decoder.decode(directory.subarray(offset + 46, offset + 46 + nameLength));
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (flags & 0x1) {
+        throw new Error(`Encrypted ZIP entries are not supported (${path}).`);
+      }
+
+      entries.push({
+        path,
+        size,
+        isDirectory: path.endsWith('/'),
+        read: async () => {
+          const header = await readBytes(localOffset, localOffset + 30);
+          const headerView = new DataView(header.buffer, header.byteOffset, header.byteLength);
+          if (header.length < 30 || headerView.getUint32(0, true) !== 0x04034b50) {
+            throw new Error(`The ZIP archive is corrupted (invalid local header for ${path}).`);
+          }
+          const dataStart = localOffset + 30 + headerView.getUint16(26, true) + headerView.getUint16(28, true);
+          const data = await readBytes(dataStart, dataStart + compressedSize);
+          if (method === 0) return data;
+          if (method === 8) return inflateRaw(data);
+          throw new Error(`Unsupported compression method ${method} for ${path}.`);
+        },
+      });
+    }
+    return entries;
+  }
+
+  async createZip(entries: ZipEntry[]): Promise<Blob> {
+    const chunks: Uint8Array[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+      const name = this.encoder.encode(entry.path);
+      const raw = typeof entry.data === 'string' ? this.encoder.encode(entry.data) : entry.data;
+      const crc = crc32(raw);
+      const deflated = raw.length > 0 ? await deflateRaw(raw) : null;
+      const useDeflate = deflated !== null && deflated.length < raw.length;
+      const body = useDeflate ? deflated! : raw;
+      const method = useDeflate ? 8 : 0;
+      const { time, date } = toDosDateTime(entry.modified ?? new Date());
+
+      const local = new DataView(new ArrayBuffer(30));
+      local.setUint32(0, 0x04034b50, true);
+      local.setUint16(4, 20, true);
+      local.setUint16(6, 0x0800, true); // UTF-8 file names
+      local.setUint16(8, method, true);
+      local.setUint16(10, time, true);
+      local.setUint16(12, date, true);
+      local.setUint32(14, crc, true);
+      local.setUint32(18, body.length, true);
+      local.setUint32(22, raw.length, true);
+      local.setUint16(26, name.length, true);
+      local.setUint16(28, 0, true);
+
+      const central = new DataView(new ArrayBuffer(46));
+      central.setUint32(0, 0x02014b50, true);
+      central.setUint16(4, 20, true);
+      central.setUint16(6, 20, true);
+      central.setUint16(8, 0x0800, true);
+      central.setUint16(10, method, true);
+      central.setUint16(12, time, true);
+      central.setUint16(14, date, true);
+      central.setUint32(16, crc, true);
+      central.setUint32(20, body.length, true);
+      central.setUint32(24, raw.length, true);
+      central.setUint16(28, name.length, true);
+      central.setUint32(42, offset, true);
+
+      chunks.push(new Uint8Array(local.buffer), name, body);
+      centralDirectory.push(new Uint8Array(central.buffer), name);
+      offset += 30 + name.length + body.length;
+    }
+
+    const centralSize = centralDirectory.reduce((size, chunk) => size + chunk.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...chunks, ...centralDirectory, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+  }
+}